@@ -2,42 +2,92 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import { AuthProvider } from './contexts/AuthContext';
+import { SyncProvider } from './contexts/SyncContext';
+import { UsersProvider } from './contexts/UsersContext';
 import { InventoryProvider } from './contexts/InventoryContext';
+import { PurchasingProvider } from './contexts/PurchasingContext';
+import { SalesProvider } from './contexts/SalesContext';
+import { InvoicingProvider } from './contexts/InvoicingContext';
+import { CycleCountProvider } from './contexts/CycleCountContext';
 import { LanguageProvider } from './contexts/LanguageContext';
 import ProtectedRoute from './components/auth/ProtectedRoute';
 import Login from './pages/Login';
 import SignUp from './pages/SignUp'; // Importamos la nueva página de registro
+import ForgotPassword from './pages/ForgotPassword';
 import Dashboard from './pages/Dashboard';
 import Categories from './pages/Categories';
 import Products from './pages/Products';
+import SatKeys from './pages/SatKeys';
 import Inventory from './pages/Inventory';
 import Reports from './pages/Reports';
+import Taxes from './pages/Taxes';
+import Periods from './pages/Periods';
+import Suppliers from './pages/Suppliers';
+import PurchaseOrders from './pages/PurchaseOrders';
+import PointOfSale from './pages/PointOfSale';
+import Invoices from './pages/Invoices';
+import CycleCounts from './pages/CycleCounts';
+import Locations from './pages/Locations';
+import Transfers from './pages/Transfers';
+import ExchangeRates from './pages/ExchangeRates';
+import SyncReview from './pages/SyncReview';
+import Users from './pages/Users';
+import Audit from './pages/Audit';
+import Profile from './pages/Profile';
 import Layout from './components/layout/Layout';
 
 function App() {
   return (
     <LanguageProvider>
       <AuthProvider>
-        <InventoryProvider>
-          <Router>
-            <Toaster position="top-right" />
-            <Routes>
-              {/* Rutas públicas */}
-              <Route path="/login" element={<Login />} />
-              <Route path="/signup" element={<SignUp />} /> {/* Nueva ruta de registro */}
-              
-              {/* Rutas protegidas */}
-              <Route path="/" element={<ProtectedRoute><Layout /></ProtectedRoute>}>
-                <Route index element={<Dashboard />} />
-                <Route path="categories" element={<Categories />} />
-                <Route path="products" element={<Products />} />
-                <Route path="inventory" element={<Inventory />} />
-                <Route path="reports" element={<Reports />} />
-                <Route path="*" element={<Navigate to="/\" replace />} />
-              </Route>
-            </Routes>
-          </Router>
-        </InventoryProvider>
+        <SyncProvider>
+          <UsersProvider>
+            <InventoryProvider>
+              <PurchasingProvider>
+                <SalesProvider>
+                  <InvoicingProvider>
+                    <CycleCountProvider>
+                      <Router>
+                        <Toaster position="top-right" />
+                        <Routes>
+                          {/* Rutas públicas */}
+                          <Route path="/login" element={<Login />} />
+                          <Route path="/signup" element={<SignUp />} /> {/* Nueva ruta de registro */}
+                          <Route path="/forgot-password" element={<ForgotPassword />} />
+                  
+                          {/* Rutas protegidas */}
+                          <Route path="/" element={<ProtectedRoute permission="dashboard.view"><Layout /></ProtectedRoute>}>
+                            <Route index element={<Dashboard />} />
+                            <Route path="categories" element={<ProtectedRoute permission="catalog.view"><Categories /></ProtectedRoute>} />
+                            <Route path="products" element={<ProtectedRoute permission="catalog.view"><Products /></ProtectedRoute>} />
+                            <Route path="sat-keys" element={<ProtectedRoute permission="catalog.view"><SatKeys /></ProtectedRoute>} />
+                            <Route path="inventory" element={<ProtectedRoute permission="inventory.view"><Inventory /></ProtectedRoute>} />
+                            <Route path="locations" element={<ProtectedRoute permission="inventory.view"><Locations /></ProtectedRoute>} />
+                            <Route path="transfers" element={<ProtectedRoute permission="inventory.view"><Transfers /></ProtectedRoute>} />
+                            <Route path="exchange-rates" element={<ProtectedRoute permission="inventory.view"><ExchangeRates /></ProtectedRoute>} />
+                            <Route path="reports" element={<ProtectedRoute permission="reports.view"><Reports /></ProtectedRoute>} />
+                            <Route path="taxes" element={<ProtectedRoute permission="reports.view"><Taxes /></ProtectedRoute>} />
+                            <Route path="periods" element={<ProtectedRoute permission="periods.view"><Periods /></ProtectedRoute>} />
+                            <Route path="suppliers" element={<ProtectedRoute permission="purchasing.view"><Suppliers /></ProtectedRoute>} />
+                            <Route path="purchase-orders" element={<ProtectedRoute permission="purchasing.view"><PurchaseOrders /></ProtectedRoute>} />
+                            <Route path="pos" element={<ProtectedRoute permission="sales.register"><PointOfSale /></ProtectedRoute>} />
+                            <Route path="invoices" element={<ProtectedRoute permission="invoices.view"><Invoices /></ProtectedRoute>} />
+                            <Route path="counts" element={<ProtectedRoute permission="counts.view"><CycleCounts /></ProtectedRoute>} />
+                            <Route path="sync" element={<ProtectedRoute permission="sync.review"><SyncReview /></ProtectedRoute>} />
+                            <Route path="audit" element={<ProtectedRoute permission="audit.view"><Audit /></ProtectedRoute>} />
+                            <Route path="users" element={<ProtectedRoute permission="users.manage"><Users /></ProtectedRoute>} />
+                            <Route path="profile" element={<Profile />} />
+                            <Route path="*" element={<Navigate to="/\" replace />} />
+                          </Route>
+                        </Routes>
+                      </Router>
+                    </CycleCountProvider>
+                  </InvoicingProvider>
+                </SalesProvider>
+              </PurchasingProvider>
+            </InventoryProvider>
+          </UsersProvider>
+        </SyncProvider>
       </AuthProvider>
     </LanguageProvider>
   );
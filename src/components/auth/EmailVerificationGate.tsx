@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { MailCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+// Pantalla para quien aún no abre el enlace de verificación de su correo
+const EmailVerificationGate: React.FC = () => {
+  const { user, sendVerificationEmail, checkEmailVerified, logout } = useAuth();
+  const { t } = useLanguage();
+  const [loading, setLoading] = useState(false);
+
+  const handleCheck = async () => {
+    setLoading(true);
+    try {
+      const verified = await checkEmailVerified();
+      if (verified) {
+        toast.success(t('verify.verified'));
+      } else {
+        toast.error(t('verify.notVerified'));
+      }
+    } catch (error) {
+      toast.error(t('verify.checkError'));
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setLoading(true);
+    try {
+      await sendVerificationEmail();
+      toast.success(t('verify.resent'));
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      toast.error(
+        code === 'auth/too-many-requests'
+          ? t('auth.tooManyRequests')
+          : t('verify.resendError')
+      );
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow-xl sm:rounded-lg sm:px-10 border border-gray-200 text-center">
+          <div className="flex justify-center">
+            <div className="bg-gradient-to-r from-blue-600 to-indigo-600 text-white p-4 rounded-full shadow-lg">
+              <MailCheck className="h-10 w-10" />
+            </div>
+          </div>
+          <h2 className="mt-6 text-2xl font-extrabold text-gray-900">{t('verify.title')}</h2>
+          <p className="mt-2 text-sm text-gray-600">
+            {t('verify.sentTo')} <span className="font-medium text-gray-900">{user?.email}</span>.{' '}
+            {t('verify.instructions')}
+          </p>
+
+          <div className="mt-6 space-y-3">
+            <button
+              onClick={handleCheck}
+              disabled={loading}
+              className={`w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-gradient-to-r from-indigo-600 to-blue-600 hover:from-indigo-700 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-all duration-200 ${
+                loading ? 'opacity-70 cursor-not-allowed' : ''
+              }`}
+            >
+              {t('verify.done')}
+            </button>
+            <button
+              onClick={handleResend}
+              disabled={loading}
+              className="w-full flex justify-center py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+            >
+              {t('verify.resend')}
+            </button>
+            <button
+              onClick={logout}
+              className="w-full text-sm font-medium text-indigo-600 hover:text-indigo-500 transition-colors"
+            >
+              {t('common.logout')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EmailVerificationGate;
@@ -1,13 +1,19 @@
 import React from 'react';
 import { Navigate } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { Permission } from '../../utils/permissions';
+import EmailVerificationGate from './EmailVerificationGate';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  permission: Permission;
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { isAuthenticated, isLoading } = useAuth();
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, permission }) => {
+  const { user, isAuthenticated, isLoading, hasPermission, logout } = useAuth();
+  const { t } = useLanguage();
 
   if (isLoading) {
     return (
@@ -17,7 +23,40 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     );
   }
 
-  return isAuthenticated ? <>{children}</> : <Navigate to="/login" replace />;
+  if (!isAuthenticated) {
+    return <Navigate to="/login" replace />;
+  }
+
+  // Nadie pasa hasta confirmar su correo
+  if (!user?.emailVerified) {
+    return <EmailVerificationGate />;
+  }
+
+  if (!hasPermission(permission)) {
+    return (
+      <div className="py-16 flex flex-col items-center text-center text-gray-500">
+        <ShieldAlert className="h-12 w-12 mb-4 text-gray-400" />
+        <p className="text-lg font-medium text-gray-900">{t('access.denied')}</p>
+        <p className="mt-1 text-sm">
+          {user?.disabled
+            ? t('access.disabled')
+            : user?.role
+              ? t('access.roleDenied')
+              : t('access.noRole')}
+        </p>
+        {!user?.role && (
+          <button
+            onClick={logout}
+            className="mt-4 inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            {t('common.logout')}
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return <>{children}</>;
 };
 
-export default ProtectedRoute;
\ No newline at end of file
+export default ProtectedRoute;
@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Clock } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+// Segundos de aviso antes de cerrar la sesión
+const WARNING_SECONDS = 60;
+
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart', 'wheel'];
+
+// Cierra la sesión tras un rato sin actividad, para las computadoras compartidas del mostrador
+const SessionTimeout: React.FC = () => {
+  const { logout, sessionTimeoutMinutes } = useAuth();
+  const { t } = useLanguage();
+  const navigate = useNavigate();
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const lastActivityRef = useRef(Date.now());
+  // Mientras se muestra el aviso, solo el botón mantiene la sesión
+  const warningRef = useRef(false);
+  // logout cambia en cada render; el temporizador solo se reinicia al cambiar el tiempo
+  const expireRef = useRef<() => void>(() => {});
+  expireRef.current = () => {
+    logout().then(() => {
+      toast(t('session.expired'));
+      navigate('/login');
+    });
+  };
+
+  useEffect(() => {
+    lastActivityRef.current = Date.now();
+    warningRef.current = false;
+    setSecondsLeft(null);
+    if (sessionTimeoutMinutes <= 0) {
+      return;
+    }
+
+    const timeoutMs = sessionTimeoutMinutes * 60 * 1000;
+    const handleActivity = () => {
+      if (!warningRef.current) {
+        lastActivityRef.current = Date.now();
+      }
+    };
+
+    // Se compara con la hora para que cuente también el tiempo con la pestaña en segundo plano
+    const interval = window.setInterval(() => {
+      const remainingMs = timeoutMs - (Date.now() - lastActivityRef.current);
+      if (remainingMs <= 0) {
+        window.clearInterval(interval);
+        expireRef.current();
+      } else if (remainingMs <= WARNING_SECONDS * 1000) {
+        warningRef.current = true;
+        setSecondsLeft(Math.ceil(remainingMs / 1000));
+      }
+    }, 1000);
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => {
+      window.clearInterval(interval);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+    };
+  }, [sessionTimeoutMinutes]);
+
+  const handleStay = () => {
+    lastActivityRef.current = Date.now();
+    warningRef.current = false;
+    setSecondsLeft(null);
+  };
+
+  if (secondsLeft === null) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 overflow-y-auto z-50">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"></div>
+
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen">&#8203;</span>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-md sm:w-full">
+          <div className="px-6 py-5 flex items-start space-x-4">
+            <div className="flex-shrink-0 p-2 rounded-full bg-amber-100">
+              <Clock className="h-6 w-6 text-amber-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">{t('session.title')}</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                {t('session.warning', { count: secondsLeft })}
+              </p>
+            </div>
+          </div>
+          <div className="px-6 py-3 bg-gray-50 flex justify-end">
+            <button
+              type="button"
+              onClick={logout}
+              className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 mr-2"
+            >
+              {t('common.logout')}
+            </button>
+            <button
+              type="button"
+              onClick={handleStay}
+              className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              {t('session.stay')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionTimeout;
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getSatDescription, SatCatalogEntry, searchSatCatalog } from '../../utils/satCatalog';
+
+interface SatKeyPickerProps {
+  id: string;
+  label: string;
+  entries: SatCatalogEntry[];
+  value: string;
+  onChange: (value: string) => void;
+  isValid: (clave: string) => boolean;
+}
+
+// Máximo de sugerencias a la vez
+const MAX_RESULTS = 8;
+
+// Clave del SAT con búsqueda por clave o descripción en el catálogo incluido;
+// también acepta una clave escrita a mano del catálogo completo
+const SatKeyPicker: React.FC<SatKeyPickerProps> = ({ id, label, entries, value, onChange, isValid }) => {
+  const { t } = useLanguage();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const results = searchSatCatalog(entries, value).slice(0, MAX_RESULTS);
+  const description = value ? getSatDescription(entries, value) : undefined;
+
+  const handleSelect = (clave: string) => {
+    onChange(clave);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700">
+        {label}
+      </label>
+      <input
+        type="text"
+        id={id}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value.toUpperCase());
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        placeholder={t('satKeys.searchPlaceholder')}
+        autoComplete="off"
+        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+      />
+      {isOpen && results.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full max-h-60 overflow-auto bg-white border border-gray-200 rounded-md shadow-lg text-sm">
+          {results.map((entry) => (
+            <li key={entry.clave}>
+              <button
+                type="button"
+                // Evita que el campo pierda el foco y cierre la lista antes del clic
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => handleSelect(entry.clave)}
+                className="w-full text-left px-3 py-2 hover:bg-blue-50"
+              >
+                <span className="font-mono">{entry.clave}</span>
+                <span className="ml-2 text-gray-600">{entry.descripcion}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {value && (
+        <p className={`mt-1 text-xs ${isValid(value) ? 'text-gray-500' : 'text-red-600'}`}>
+          {!isValid(value) ? t('satKeys.invalidFormat') : description ?? t('satKeys.notInCatalog')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SatKeyPicker;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { IVA_RATE_LABELS, IvaRate, TaxConfig } from '../../utils/taxes';
+
+interface TaxFieldsProps {
+  idPrefix: string;
+  value: TaxConfig;
+  onChange: (value: TaxConfig) => void;
+}
+
+// Tasa de IVA y de IEPS, en categorías y productos; el IEPS se captura en por ciento
+const TaxFields: React.FC<TaxFieldsProps> = ({ idPrefix, value, onChange }) => {
+  const { t } = useLanguage();
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <label htmlFor={`${idPrefix}-iva`} className="block text-sm font-medium text-gray-700">
+          {t('taxes.iva')}
+        </label>
+        <select
+          id={`${idPrefix}-iva`}
+          value={value.ivaRate}
+          onChange={(e) => onChange({ ...value, ivaRate: e.target.value as IvaRate })}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+        >
+          {(Object.keys(IVA_RATE_LABELS) as IvaRate[]).map((rate) => (
+            <option key={rate} value={rate}>
+              {t(IVA_RATE_LABELS[rate])}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label htmlFor={`${idPrefix}-ieps`} className="block text-sm font-medium text-gray-700">
+          {t('taxes.iepsPercent')}
+        </label>
+        <input
+          type="number"
+          id={`${idPrefix}-ieps`}
+          min="0"
+          max="100"
+          step="0.01"
+          value={Math.round(value.iepsRate * 10000) / 100}
+          onChange={(e) => onChange({ ...value, iepsRate: Number(e.target.value) / 100 })}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TaxFields;
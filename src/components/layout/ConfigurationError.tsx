@@ -0,0 +1,38 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+interface ConfigurationErrorProps {
+  missing: string[];
+}
+
+// Pantalla en lugar de la aplicación cuando faltan variables de Firebase en .env
+const ConfigurationError: React.FC<ConfigurationErrorProps> = ({ missing }) => {
+  const { t } = useLanguage();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow-xl sm:rounded-lg sm:px-10 border border-gray-200 text-center">
+          <div className="flex justify-center">
+            <div className="bg-gradient-to-r from-red-500 to-orange-500 text-white p-4 rounded-full shadow-lg">
+              <AlertTriangle className="h-10 w-10" />
+            </div>
+          </div>
+          <h2 className="mt-6 text-2xl font-extrabold text-gray-900">{t('config.title')}</h2>
+          <p className="mt-2 text-sm text-gray-600">{t('config.missing')}</p>
+          <ul className="mt-3 space-y-1">
+            {missing.map((name) => (
+              <li key={name}>
+                <code className="text-sm font-medium text-red-600 bg-red-50 px-2 py-1 rounded">{name}</code>
+              </li>
+            ))}
+          </ul>
+          <p className="mt-4 text-sm text-gray-600">{t('config.instructions')}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConfigurationError;
@@ -1,21 +1,30 @@
 import React from 'react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../../contexts/AuthContext';
 import { useLanguage } from '../../contexts/LanguageContext';
 import { Languages } from 'lucide-react';
 
+// El idioma elegido se guarda en el perfil, para que lo siga en otros equipos
 const LanguageToggle: React.FC = () => {
-  const { language, setLanguage } = useLanguage();
+  const { language, t } = useLanguage();
+  const { changeLanguage } = useAuth();
 
   const toggleLanguage = () => {
-    setLanguage(language === 'es' ? 'en' : 'es');
+    changeLanguage(language === 'es' ? 'en' : 'es').catch((error) => {
+      toast.error(t('profile.saveError'));
+      console.error(error);
+    });
   };
 
   return (
     <button
       onClick={toggleLanguage}
       className="p-2 rounded-full text-gray-500 hover:text-gray-700 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
-      title={language === 'es' ? 'Switch to English' : 'Cambiar a Español'}
+      title={t('nav.switchLanguage')}
     >
       <Languages className="h-5 w-5" />
     </button>
   );
-};
\ No newline at end of file
+};
+
+export default LanguageToggle;
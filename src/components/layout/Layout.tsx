@@ -2,17 +2,28 @@ import React from 'react';
 import { Outlet } from 'react-router-dom';
 import Sidebar from './Sidebar';
 import Navbar from './Navbar';
+import SessionTimeout from '../auth/SessionTimeout';
+import { useInventory } from '../../contexts/InventoryContext';
 
 const Layout: React.FC = () => {
+  const { isLoading } = useInventory();
+
   return (
     <div className="flex h-screen bg-gray-50">
       <Sidebar />
       <div className="flex flex-col flex-1 overflow-hidden">
         <Navbar />
         <main className="flex-1 overflow-y-auto p-4 md:p-6">
-          <Outlet />
+          {isLoading ? (
+            <div className="h-full flex items-center justify-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+            </div>
+          ) : (
+            <Outlet />
+          )}
         </main>
       </div>
+      <SessionTimeout />
     </div>
   );
 };
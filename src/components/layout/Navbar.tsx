@@ -1,14 +1,19 @@
 import React from 'react';
-import { Bell, User, LogOut, Languages } from 'lucide-react';
+import { Bell, User, UserCog, LogOut, Cloud, CloudOff, MapPin } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useInventory } from '../../contexts/InventoryContext';
 import { useLanguage } from '../../contexts/LanguageContext';
+import { useSync } from '../../contexts/SyncContext';
 import { useNavigate } from 'react-router-dom';
+import { ROLE_LABELS } from '../../utils/permissions';
+import LanguageToggle from './LanguageToggle';
 
 const Navbar: React.FC = () => {
-  const { user, logout } = useAuth();
-  const { getLowStockProducts } = useInventory();
-  const { language, setLanguage, t } = useLanguage();
+  const { user, logout, hasPermission } = useAuth();
+  const { locations, currentLocationId, setCurrentLocationId, getLowStockProducts } = useInventory();
+  const activeLocations = locations.filter((location) => location.active);
+  const { isSyncEnabled, isOnline, pending, conflicts } = useSync();
+  const { t } = useLanguage();
   const navigate = useNavigate();
   
   const lowStockProducts = getLowStockProducts();
@@ -19,27 +24,58 @@ const Navbar: React.FC = () => {
     navigate('/login');
   };
 
-  const toggleLanguage = () => {
-    setLanguage(language === 'es' ? 'en' : 'es');
-  };
-
   return (
-    <header className="bg-white border-b border-gray-200 sticky top-0 z-30">
+    <header className="bg-white border-b border-gray-200 sticky top-0 z-30 print:hidden">
       <div className="px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
-        <div className="flex-1"></div>
+        <div className="flex-1">
+          {/* Stock, movements and reports follow the chosen location */}
+          {activeLocations.length > 1 && (
+            <div className="flex items-center text-gray-500">
+              <MapPin className="h-5 w-5 mr-2" />
+              <select
+                value={currentLocationId ?? ''}
+                onChange={(e) => setCurrentLocationId(e.target.value || null)}
+                className="px-3 py-1.5 border border-gray-300 bg-white rounded-md text-sm text-gray-700 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                title={t('nav.location')}
+              >
+                {activeLocations.map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}
+                  </option>
+                ))}
+                <option value="">{t('nav.allLocations')}</option>
+              </select>
+            </div>
+          )}
+        </div>
         
         <div className="flex items-center space-x-4">
-          <button
-            onClick={toggleLanguage}
-            className="p-2 rounded-full text-gray-500 hover:text-gray-700 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
-          >
-            <Languages className="h-5 w-5" />
-          </button>
+          {/* Everyone sees the connection status; only some roles review the conflicts */}
+          {isSyncEnabled && (
+            <button
+              onClick={() => hasPermission('sync.review') && navigate('/sync')}
+              className={`relative flex items-center p-2 rounded-full hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                isOnline ? 'text-gray-500 hover:text-gray-700' : 'text-amber-600'
+              }`}
+              title={isOnline ? t('nav.online') : t('nav.offline')}
+            >
+              {isOnline ? <Cloud className="h-5 w-5" /> : <CloudOff className="h-5 w-5" />}
+              {pending.length > 0 && (
+                <span className="ml-1 text-xs font-medium">{pending.length}</span>
+              )}
+              {conflicts.length > 0 && (
+                <span className="absolute top-1 right-1 w-2 h-2 bg-red-500 rounded-full"></span>
+              )}
+            </button>
+          )}
+
+          <LanguageToggle />
           
           <div className="relative">
             <button 
               className="p-2 rounded-full text-gray-500 hover:text-gray-700 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
               onClick={() => navigate('/')}
+              title={t('nav.lowStockAlerts')}
             >
               <Bell className="h-5 w-5" />
               {hasAlerts && (
@@ -51,7 +87,10 @@ const Navbar: React.FC = () => {
           <div className="flex items-center">
             <div className="mr-3 hidden md:block">
               <p className="text-sm font-medium text-gray-700">{user?.name}</p>
-              <p className="text-xs text-gray-500">{user?.email}</p>
+              <p className="text-xs text-gray-500">
+                {user?.email}
+                {user?.role && ` · ${t(ROLE_LABELS[user.role])}`}
+              </p>
             </div>
             <div className="relative group">
               <button className="p-1 rounded-full bg-gray-200 text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500">
@@ -60,6 +99,13 @@ const Navbar: React.FC = () => {
               
               <div className="absolute right-0 w-48 mt-2 origin-top-right bg-white rounded-md shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none hidden group-hover:block">
                 <div className="py-1">
+                  <button
+                    onClick={() => navigate('/profile')}
+                    className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                  >
+                    <UserCog className="h-4 w-4 mr-2" />
+                    {t('nav.profile')}
+                  </button>
                   <button
                     onClick={handleLogout}
                     className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
@@ -4,14 +4,62 @@ import {
   LayoutDashboard, 
   Tags, 
   Package2, 
+  ListChecks,
   ClipboardList, 
+  ClipboardCheck,
+  MapPin,
+  ArrowLeftRight,
+  Coins,
+  Truck,
+  ShoppingCart,
+  FileText,
+  ShoppingBag,
   PieChart,
+  Receipt,
+  Lock,
+  History,
+  Users,
   Menu,
-  X
+  X,
+  LucideIcon
 } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { TranslationKey, useLanguage } from '../../contexts/LanguageContext';
+import { Permission } from '../../utils/permissions';
+
+interface NavItem {
+  to: string;
+  label: TranslationKey;
+  icon: LucideIcon;
+  permission: Permission;
+}
+
+// Only the sections the user's role can open are listed
+const NAV_ITEMS: NavItem[] = [
+  { to: '/', label: 'nav.dashboard', icon: LayoutDashboard, permission: 'dashboard.view' },
+  { to: '/pos', label: 'nav.pos', icon: ShoppingCart, permission: 'sales.register' },
+  { to: '/invoices', label: 'nav.invoices', icon: FileText, permission: 'invoices.view' },
+  { to: '/categories', label: 'nav.categories', icon: Tags, permission: 'catalog.view' },
+  { to: '/products', label: 'nav.products', icon: Package2, permission: 'catalog.view' },
+  { to: '/sat-keys', label: 'nav.satKeys', icon: ListChecks, permission: 'catalog.view' },
+  { to: '/inventory', label: 'nav.inventory', icon: ClipboardList, permission: 'inventory.view' },
+  { to: '/locations', label: 'nav.locations', icon: MapPin, permission: 'inventory.view' },
+  { to: '/transfers', label: 'nav.transfers', icon: ArrowLeftRight, permission: 'inventory.view' },
+  { to: '/exchange-rates', label: 'nav.exchangeRates', icon: Coins, permission: 'inventory.view' },
+  { to: '/counts', label: 'nav.counts', icon: ClipboardCheck, permission: 'counts.view' },
+  { to: '/suppliers', label: 'nav.suppliers', icon: Truck, permission: 'purchasing.view' },
+  { to: '/purchase-orders', label: 'nav.purchaseOrders', icon: ShoppingBag, permission: 'purchasing.view' },
+  { to: '/reports', label: 'nav.reports', icon: PieChart, permission: 'reports.view' },
+  { to: '/taxes', label: 'nav.taxes', icon: Receipt, permission: 'reports.view' },
+  { to: '/periods', label: 'nav.periods', icon: Lock, permission: 'periods.view' },
+  { to: '/audit', label: 'nav.audit', icon: History, permission: 'audit.view' },
+  { to: '/users', label: 'nav.users', icon: Users, permission: 'users.manage' },
+];
 
 const Sidebar: React.FC = () => {
   const [isOpen, setIsOpen] = useState(true);
+  const { hasPermission } = useAuth();
+  const { t } = useLanguage();
 
   const toggleSidebar = () => {
     setIsOpen(!isOpen);
@@ -21,7 +69,7 @@ const Sidebar: React.FC = () => {
     <>
       {/* Mobile menu button */}
       <button
-        className="lg:hidden fixed z-50 bottom-4 right-4 p-3 rounded-full bg-blue-600 text-white shadow-lg"
+        className="print:hidden lg:hidden fixed z-50 bottom-4 right-4 p-3 rounded-full bg-blue-600 text-white shadow-lg"
         onClick={toggleSidebar}
       >
         {isOpen ? <X className="h-6 w-6" /> : <Menu className="h-6 w-6" />}
@@ -29,7 +77,7 @@ const Sidebar: React.FC = () => {
 
       {/* Sidebar */}
       <div
-        className={`bg-white border-r border-gray-200 h-full w-64 fixed lg:static transition-all duration-300 z-40 ${
+        className={`print:hidden bg-white border-r border-gray-200 h-full w-64 fixed lg:static transition-all duration-300 z-40 ${
           isOpen ? 'left-0' : '-left-64'
         }`}
       >
@@ -42,86 +90,24 @@ const Sidebar: React.FC = () => {
           {/* Navigation */}
           <nav className="flex-1 overflow-y-auto py-4">
             <ul className="space-y-1">
-              <li>
-                <NavLink
-                  to="/"
-                  className={({ isActive }) =>
-                    `flex items-center px-4 py-3 text-sm font-medium ${
-                      isActive
-                        ? 'text-blue-600 bg-blue-50'
-                        : 'text-gray-700 hover:bg-gray-100'
-                    }`
-                  }
-                  onClick={() => setIsOpen(false)}
-                >
-                  <LayoutDashboard className="h-5 w-5 mr-3" />
-                  Dashboard
-                </NavLink>
-              </li>
-              <li>
-                <NavLink
-                  to="/categories"
-                  className={({ isActive }) =>
-                    `flex items-center px-4 py-3 text-sm font-medium ${
-                      isActive
-                        ? 'text-blue-600 bg-blue-50'
-                        : 'text-gray-700 hover:bg-gray-100'
-                    }`
-                  }
-                  onClick={() => setIsOpen(false)}
-                >
-                  <Tags className="h-5 w-5 mr-3" />
-                  Categorías
-                </NavLink>
-              </li>
-              <li>
-                <NavLink
-                  to="/products"
-                  className={({ isActive }) =>
-                    `flex items-center px-4 py-3 text-sm font-medium ${
-                      isActive
-                        ? 'text-blue-600 bg-blue-50'
-                        : 'text-gray-700 hover:bg-gray-100'
-                    }`
-                  }
-                  onClick={() => setIsOpen(false)}
-                >
-                  <Package2 className="h-5 w-5 mr-3" />
-                  Productos
-                </NavLink>
-              </li>
-              <li>
-                <NavLink
-                  to="/inventory"
-                  className={({ isActive }) =>
-                    `flex items-center px-4 py-3 text-sm font-medium ${
-                      isActive
-                        ? 'text-blue-600 bg-blue-50'
-                        : 'text-gray-700 hover:bg-gray-100'
-                    }`
-                  }
-                  onClick={() => setIsOpen(false)}
-                >
-                  <ClipboardList className="h-5 w-5 mr-3" />
-                  Inventario
-                </NavLink>
-              </li>
-              <li>
-                <NavLink
-                  to="/reports"
-                  className={({ isActive }) =>
-                    `flex items-center px-4 py-3 text-sm font-medium ${
-                      isActive
-                        ? 'text-blue-600 bg-blue-50'
-                        : 'text-gray-700 hover:bg-gray-100'
-                    }`
-                  }
-                  onClick={() => setIsOpen(false)}
-                >
-                  <PieChart className="h-5 w-5 mr-3" />
-                  Reportes
-                </NavLink>
-              </li>
+              {NAV_ITEMS.filter((item) => hasPermission(item.permission)).map(({ to, label, icon: Icon }) => (
+                <li key={to}>
+                  <NavLink
+                    to={to}
+                    className={({ isActive }) =>
+                      `flex items-center px-4 py-3 text-sm font-medium ${
+                        isActive
+                          ? 'text-blue-600 bg-blue-50'
+                          : 'text-gray-700 hover:bg-gray-100'
+                      }`
+                    }
+                    onClick={() => setIsOpen(false)}
+                  >
+                    <Icon className="h-5 w-5 mr-3" />
+                    {t(label)}
+                  </NavLink>
+                </li>
+              ))}
             </ul>
           </nav>
 
@@ -1,51 +1,110 @@
-import React, { createContext, useState, useContext, useEffect } from 'react';
+import React, { createContext, useState, useContext, useEffect, useMemo, useRef } from 'react';
 import { 
   createUserWithEmailAndPassword, 
   signInWithEmailAndPassword, 
   signOut, 
   onAuthStateChanged,
+  deleteUser,
+  reload,
+  sendEmailVerification,
+  sendPasswordResetEmail,
+  updateProfile as updateFirebaseProfile,
   User as FirebaseUser
 } from 'firebase/auth';
-import { auth } from '../firebase';
+import { auth, isDemoMode } from '../firebase';
+import { DEMO_USER, verifyDemoEmail } from '../demo';
+import { Language, useLanguage } from './LanguageContext';
+import {
+  canJoinStore,
+  getCachedProfile,
+  getStoreId,
+  isSyncEnabled,
+  joinStore,
+  saveProfile,
+  subscribeMember,
+  subscribeProfile,
+  updateMember,
+  UserProfile,
+} from '../storage';
+import { isRole, roleHasPermission, Permission, Role } from '../utils/permissions';
 
 // Interfaz del usuario simplificada
-interface User {
+export interface User {
   id: string;
   email: string;
-  name: string;
-  role: string;
+  name: string; // Nombre del perfil, o el del correo si no lo ha guardado
+  storeId: string; // Tienda con la que trabaja
+  profile: UserProfile | null;
+  role: Role | null; // null: no tiene rol asignado en la tienda
+  disabled: boolean; // El dueño desactivó la cuenta en esta tienda
+  emailVerified: boolean; // Confirmó su correo con el enlace que le enviamos
 }
 
 // Interfaz del contexto de autenticación
 interface AuthContextType {
   user: User | null;
   login: (email: string, password: string) => Promise<boolean>;
-  signUp: (email: string, password: string, name: string) => Promise<{ success: boolean; message: string }>;
+  loginAsDemo: () => Promise<void>;
+  signUp: (email: string, password: string, profile: UserProfile) => Promise<{ success: boolean; message: string }>;
   logout: () => Promise<void>;
+  updateProfile: (profile: UserProfile) => Promise<void>;
+  changeLanguage: (language: Language) => Promise<void>; // También queda en el perfil
+  resetPassword: (email: string) => Promise<{ success: boolean; message: string }>;
+  sendVerificationEmail: () => Promise<void>;
+  checkEmailVerified: () => Promise<boolean>;
+  sessionTimeoutMinutes: number; // 0: la sesión no se cierra por inactividad
+  setSessionTimeoutMinutes: (minutes: number) => void;
   isAuthenticated: boolean;
   isLoading: boolean;
+  hasPermission: (permission: Permission) => boolean;
+  requirePermission: (permission: Permission) => void;
 }
 
+// Último rol conocido, para poder trabajar sin conexión
+const getRoleCacheKey = (storeId: string, userId: string) => `inventory_role_${storeId}_${userId}`;
+
+// Minutos de inactividad antes de cerrar la sesión; se configura por equipo
+const SESSION_TIMEOUT_KEY = 'inventory_session_timeout';
+
+const getDefaultSessionTimeout = () => {
+  const minutes = Number(import.meta.env.VITE_SESSION_TIMEOUT_MINUTES ?? 30);
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : 30;
+};
+
+const getStoredSessionTimeout = () => {
+  const stored = localStorage.getItem(SESSION_TIMEOUT_KEY);
+  const minutes = stored === null ? NaN : Number(stored);
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : getDefaultSessionTimeout();
+};
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const { language, setLanguage, t } = useLanguage();
+  const [authUser, setAuthUser] = useState<Pick<User, 'id' | 'email' | 'name' | 'emailVerified'> | null>(null);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  // Usuario cuyo perfil ya se conoce
+  const [profileUserId, setProfileUserId] = useState<string | null>(null);
+  const [role, setRole] = useState<Role | null>(null);
+  const [disabled, setDisabled] = useState(false);
+  // Usuario cuyo rol ya se conoce
+  const [roleUserId, setRoleUserId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [sessionTimeoutMinutes, setSessionTimeout] = useState(getStoredSessionTimeout);
 
   // Escuchar cambios en el estado de autenticación
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, (firebaseUser: FirebaseUser | null) => {
       if (firebaseUser) {
         // Crear objeto de usuario simplificado
-        const userData: User = {
+        setAuthUser({
           id: firebaseUser.uid,
           email: firebaseUser.email || '',
-          name: firebaseUser.displayName || firebaseUser.email?.split('@')[0] || 'Usuario',
-          role: 'user' // Por defecto todos son usuarios estándar
-        };
-        setUser(userData);
+          name: firebaseUser.displayName || firebaseUser.email?.split('@')[0] || '',
+          emailVerified: firebaseUser.emailVerified,
+        });
       } else {
-        setUser(null);
+        setAuthUser(null);
       }
       setIsLoading(false);
     });
@@ -53,6 +112,130 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return () => unsubscribe();
   }, []);
 
+  // El perfil se guarda en users/<uid>/profile, con copia en el navegador
+  const userId = authUser?.id ?? null;
+  const emailVerified = authUser?.emailVerified === true;
+  useEffect(() => {
+    if (!userId) {
+      setProfile(null);
+      setProfileUserId(null);
+      return;
+    }
+
+    const cached = getCachedProfile(userId);
+    setProfile(cached);
+    setProfileUserId(cached ? userId : null);
+
+    return subscribeProfile(
+      userId,
+      (nextProfile) => {
+        setProfile(nextProfile);
+        setProfileUserId(userId);
+      },
+      (error) => {
+        console.error('Error al leer el perfil:', error);
+        setProfileUserId(userId);
+      }
+    );
+  }, [userId]);
+
+  // El idioma preferido se aplica al entrar
+  const profileLanguage = profile?.language;
+  useEffect(() => {
+    if (profileLanguage) {
+      setLanguage(profileLanguage);
+    }
+  }, [profileLanguage, setLanguage]);
+
+  // Los correos de Firebase (verificación y recuperación) salen en el idioma elegido
+  useEffect(() => {
+    auth.languageCode = language;
+  }, [language]);
+
+  const profileReady = userId !== null && profileUserId === userId;
+  const name = profile?.displayName || authUser?.name || t('auth.defaultUserName');
+  const storeId = profileReady ? getStoreId(userId, profile?.defaultStoreId) : null;
+
+  // Para registrar el acceso con el nombre actual sin volver a suscribirse
+  const nameRef = useRef(name);
+  nameRef.current = name;
+
+  // El rol se guarda por tienda en stores/<storeId>/members/<uid>; el dueño
+  // de la tienda (o quien trabaja sin sincronización) es owner
+  useEffect(() => {
+    setDisabled(false);
+    if (!userId || !storeId) {
+      setRole(null);
+      setRoleUserId(null);
+      return;
+    }
+
+    if (!isSyncEnabled()) {
+      setRole('owner');
+      setRoleUserId(userId);
+      return;
+    }
+
+    // Registra el acceso; la primera vez también usa la invitación, por lo
+    // que espera a que el correo esté confirmado
+    if (emailVerified) {
+      joinStore(storeId, {
+        id: userId,
+        email: auth.currentUser?.email || '',
+        name: nameRef.current,
+      }).catch((error) => console.error('Error al registrar el acceso:', error));
+    }
+
+    if (storeId === userId) {
+      setRole('owner');
+      setRoleUserId(userId);
+      return;
+    }
+
+    const cacheKey = getRoleCacheKey(storeId, userId);
+    const cached = localStorage.getItem(cacheKey);
+    if (isRole(cached)) {
+      setRole(cached);
+      setRoleUserId(userId);
+    }
+
+    return subscribeMember(
+      storeId,
+      userId,
+      (member) => {
+        const isDisabled = member?.disabled === true;
+        const nextRole = !isDisabled && isRole(member?.role) ? member.role : null;
+        if (nextRole) {
+          localStorage.setItem(cacheKey, nextRole);
+        } else {
+          localStorage.removeItem(cacheKey);
+        }
+        setRole(nextRole);
+        setDisabled(isDisabled);
+        setRoleUserId(userId);
+      },
+      (error) => {
+        console.error('Error al leer el rol:', error);
+        setRoleUserId(userId);
+      }
+    );
+  }, [userId, storeId, emailVerified]);
+
+  const user = useMemo<User | null>(
+    () =>
+      authUser && storeId
+        ? {
+            ...authUser,
+            name,
+            storeId,
+            profile,
+            role: roleUserId === authUser.id ? role : null,
+            disabled: roleUserId === authUser.id && disabled,
+          }
+        : null,
+    [authUser, name, storeId, profile, role, disabled, roleUserId]
+  );
+
   // Función de inicio de sesión
   const login = async (email: string, password: string): Promise<boolean> => {
     try {
@@ -64,32 +247,84 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Cuenta demo del emulador: se crea la primera vez y queda verificada
+  const loginAsDemo = async () => {
+    if (!isDemoMode) {
+      throw new Error(t('auth.errors.demoDisabled'));
+    }
+
+    try {
+      await signInWithEmailAndPassword(auth, DEMO_USER.email, DEMO_USER.password);
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      if (code !== 'auth/user-not-found' && code !== 'auth/invalid-credential') {
+        throw error;
+      }
+      const result = await signUp(DEMO_USER.email, DEMO_USER.password, {
+        displayName: DEMO_USER.name,
+        phone: '',
+        language,
+        defaultStoreId: '',
+      });
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+    }
+
+    if (auth.currentUser && !auth.currentUser.emailVerified) {
+      await verifyDemoEmail(auth.currentUser);
+      await checkEmailVerified();
+    }
+  };
+
   // Función de registro
-  const signUp = async (email: string, password: string, name: string): Promise<{ success: boolean; message: string }> => {
+  const signUp = async (email: string, password: string, newProfile: UserProfile): Promise<{ success: boolean; message: string }> => {
     try {
-      await createUserWithEmailAndPassword(auth, email, password);
+      const { user: firebaseUser } = await createUserWithEmailAndPassword(auth, email, password);
+
+      // Si la tienda compartida solo acepta correos invitados, la cuenta no se
+      // conserva; se revisa antes de guardar el perfil para no dejarlo huérfano.
+      // Se une a la tienda al entrar con el correo ya confirmado
+      const signUpStoreId = getStoreId(firebaseUser.uid, newProfile.defaultStoreId);
+      if (isSyncEnabled() && signUpStoreId !== firebaseUser.uid) {
+        const accepted = await canJoinStore(signUpStoreId, email);
+        if (!accepted) {
+          await deleteUser(firebaseUser);
+          return {
+            success: false,
+            message: t('auth.signUpClosed'),
+          };
+        }
+      }
+
+      await updateFirebaseProfile(firebaseUser, { displayName: newProfile.displayName });
+      await saveProfile(firebaseUser.uid, newProfile);
+
+      // Hasta que confirme su correo no puede entrar a la aplicación
+      await sendEmailVerification(firebaseUser);
+
       return { 
         success: true, 
-        message: 'Usuario registrado exitosamente' 
+        message: t('auth.signUpSuccess')
       };
     } catch (error: any) {
       console.error('Error en registro:', error);
       
       // Manejar errores específicos de Firebase
-      let message = 'Error al registrar usuario';
+      let message = t('auth.signUpError');
       
       switch (error.code) {
         case 'auth/email-already-in-use':
-          message = 'Este correo ya está registrado';
+          message = t('auth.emailInUse');
           break;
         case 'auth/weak-password':
-          message = 'La contraseña debe tener al menos 6 caracteres';
+          message = t('auth.weakPassword');
           break;
         case 'auth/invalid-email':
-          message = 'El formato del correo no es válido';
+          message = t('auth.invalidEmail');
           break;
         default:
-          message = error.message || 'Error al registrar usuario';
+          message = error.message || t('auth.signUpError');
       }
       
       return { success: false, message };
@@ -105,13 +340,123 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Guarda el perfil y actualiza el nombre que ven los demás en la tienda
+  const updateProfile = async (nextProfile: UserProfile) => {
+    if (!user || !auth.currentUser) {
+      throw new Error(t('auth.errors.signInToUpdateProfile'));
+    }
+    if (!nextProfile.displayName.trim()) {
+      throw new Error(t('auth.errors.displayNameRequired'));
+    }
+
+    const cleanProfile = {
+      ...nextProfile,
+      displayName: nextProfile.displayName.trim(),
+      phone: nextProfile.phone.trim(),
+      defaultStoreId: nextProfile.defaultStoreId.trim(),
+    };
+    await saveProfile(user.id, cleanProfile);
+    setProfile(cleanProfile);
+    await updateFirebaseProfile(auth.currentUser, { displayName: cleanProfile.displayName });
+    if (isSyncEnabled() && user.role) {
+      await updateMember(user.storeId, user.id, { name: cleanProfile.displayName });
+    }
+  };
+
+  // Sin perfil guardado el idioma solo queda en este navegador
+  const changeLanguage = async (nextLanguage: Language) => {
+    setLanguage(nextLanguage);
+    if (user && profile && profile.language !== nextLanguage) {
+      const nextProfile = { ...profile, language: nextLanguage };
+      setProfile(nextProfile);
+      await saveProfile(user.id, nextProfile);
+    }
+  };
+
+  // Envía el enlace de Firebase para elegir una contraseña nueva
+  const resetPassword = async (email: string): Promise<{ success: boolean; message: string }> => {
+    try {
+      await sendPasswordResetEmail(auth, email.trim());
+      return {
+        success: true,
+        message: t('auth.resetSent'),
+      };
+    } catch (error) {
+      console.error('Error al restablecer la contraseña:', error);
+
+      const code = (error as { code?: string }).code;
+      let message = t('auth.resetError');
+      switch (code) {
+        case 'auth/invalid-email':
+          message = t('auth.invalidEmail');
+          break;
+        case 'auth/user-not-found':
+          message = t('auth.userNotFound');
+          break;
+        case 'auth/too-many-requests':
+          message = t('auth.tooManyRequests');
+          break;
+      }
+      return { success: false, message };
+    }
+  };
+
+  const sendVerificationEmail = async () => {
+    if (!auth.currentUser) {
+      throw new Error(t('auth.errors.signInToVerify'));
+    }
+    await sendEmailVerification(auth.currentUser);
+  };
+
+  // Firebase no avisa cuando se abre el enlace; hay que recargar el usuario
+  const checkEmailVerified = async () => {
+    const firebaseUser = auth.currentUser;
+    if (!firebaseUser) {
+      return false;
+    }
+    await reload(firebaseUser);
+    if (firebaseUser.emailVerified) {
+      // Renueva el token para que las reglas de la base de datos vean el correo confirmado
+      await firebaseUser.getIdToken(true);
+      setAuthUser((prev) => (prev && prev.id === firebaseUser.uid ? { ...prev, emailVerified: true } : prev));
+    }
+    return firebaseUser.emailVerified;
+  };
+
+  const setSessionTimeoutMinutes = (minutes: number) => {
+    if (!Number.isFinite(minutes) || minutes < 0) {
+      throw new Error(t('auth.errors.invalidSessionTimeout'));
+    }
+    localStorage.setItem(SESSION_TIMEOUT_KEY, String(minutes));
+    setSessionTimeout(minutes);
+  };
+
+  const hasPermission = (permission: Permission) => roleHasPermission(user?.role ?? null, permission);
+
+  // Para las operaciones de los contextos; el mensaje se muestra en un toast
+  const requirePermission = (permission: Permission) => {
+    if (!hasPermission(permission)) {
+      throw new Error(t('auth.errors.permissionDenied', { permission }));
+    }
+  };
+
   const value = {
     user,
     login,
+    loginAsDemo,
     signUp,
     logout,
+    updateProfile,
+    changeLanguage,
+    resetPassword,
+    sendVerificationEmail,
+    checkEmailVerified,
+    sessionTimeoutMinutes,
+    setSessionTimeoutMinutes,
     isAuthenticated: !!user,
-    isLoading,
+    isLoading: isLoading || (authUser !== null && (!profileReady || roleUserId !== authUser.id)),
+    hasPermission,
+    requirePermission,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,300 @@
+import React, { createContext, useContext } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { useAuth } from './AuthContext';
+import { useInventory, AdjustmentReason } from './InventoryContext';
+import { useLanguage } from './LanguageContext';
+import { useSync } from './SyncContext';
+import { getLastFolioNumber, getToday } from '../utils/format';
+import { valuateInventory } from '../utils/valuation';
+import { DEFAULT_LOCATION_ID, isAtLocation } from '../utils/locations';
+import { usePersistentCollection } from '../storage';
+
+// Types
+export interface CountLine {
+  productId: string;
+  countedQuantity: number | null; // null until the product has been counted
+  reasonCode?: AdjustmentReason;
+  // Frozen when the session is approved
+  expectedQuantity?: number;
+  unitCost?: number;
+}
+
+export interface CountSession {
+  id: string;
+  folio: string;
+  categoryId: string | null; // null counts the whole store
+  locationId?: string; // Missing on counts from before locations: the main one
+  status: 'open' | 'approved' | 'cancelled';
+  createdAt: string;
+  createdBy: string;
+  lines: CountLine[];
+  approvedAt?: string;
+  approvedBy?: string;
+  date?: string; // Date the adjustments were posted on
+}
+
+export interface ShrinkageSummary {
+  countedProducts: number;
+  productsWithVariance: number;
+  unitsMissing: number;
+  unitsOver: number;
+  valueMissing: number;
+  valueOver: number;
+  netValue: number;
+  byReason: { reasonCode: AdjustmentReason; units: number; value: number }[];
+}
+
+interface CycleCountContextType {
+  // Data
+  sessions: CountSession[];
+
+  // Session operations
+  startSession: (categoryId: string | null) => Promise<CountSession>;
+  updateCountLine: (sessionId: string, line: CountLine) => void;
+  approveSession: (sessionId: string) => void;
+  cancelSession: (sessionId: string) => void;
+
+  // Summary
+  getShrinkageSummary: (session: CountSession) => ShrinkageSummary;
+}
+
+const CycleCountContext = createContext<CycleCountContextType | undefined>(undefined);
+
+const formatFolio = (sequence: number) => `C-${String(sequence).padStart(6, '0')}`;
+
+export const CycleCountProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, requirePermission } = useAuth();
+  const { t: translate, formatDate } = useLanguage();
+  const { products, transactions, addTransactions, getProductStock, getClosedThroughDate, currentLocationId } =
+    useInventory();
+  const { getRemoteCollection, getNextFolio } = useSync();
+
+  const remoteSessions = getRemoteCollection<CountSession>('count_sessions');
+  const [sessions, setSessions] = usePersistentCollection<CountSession>('count_sessions', undefined, remoteSessions);
+
+  const getSessionLocationId = (session: CountSession) => session.locationId ?? DEFAULT_LOCATION_ID;
+
+  // Variances are valued at the current average cost where the count was taken
+  const getAverageCost = (productId: string, locationId: string) =>
+    valuateInventory(
+      transactions.filter((t) => t.productId === productId && isAtLocation(t, locationId)),
+      'weighted'
+    ).averageCost;
+
+  const getOpenSession = (id: string) => {
+    const session = sessions.find((s) => s.id === id);
+    if (!session) {
+      throw new Error(translate('counts.errors.notFound'));
+    }
+    if (session.status !== 'open') {
+      throw new Error(translate('counts.errors.notOpen'));
+    }
+    return session;
+  };
+
+  const startSession = async (categoryId: string | null): Promise<CountSession> => {
+    if (!user) {
+      throw new Error(translate('counts.errors.signInToStart'));
+    }
+    requirePermission('counts.capture');
+
+    // Counted where the user works; a count across locations would not say where the variance is
+    const locationId = currentLocationId;
+    if (!locationId) {
+      throw new Error(translate('counts.errors.chooseLocation'));
+    }
+
+    const scopedProducts = products.filter((p) => !categoryId || p.categoryId === categoryId);
+    if (scopedProducts.length === 0) {
+      throw new Error(translate('counts.errors.noProducts'));
+    }
+
+    // A product can only be in one open count per location at a time
+    const busy = scopedProducts.some((product) =>
+      sessions.some(
+        (s) =>
+          s.status === 'open' &&
+          getSessionLocationId(s) === locationId &&
+          s.lines.some((line) => line.productId === product.id)
+      )
+    );
+    if (busy) {
+      throw new Error(translate('counts.errors.alreadyCounting'));
+    }
+
+    const folio = formatFolio(await getNextFolio('count_sessions', getLastFolioNumber(sessions)));
+    const session: CountSession = {
+      id: uuidv4(),
+      folio,
+      categoryId,
+      locationId,
+      status: 'open',
+      createdAt: new Date().toISOString(),
+      createdBy: user.email,
+      lines: scopedProducts.map((product) => ({ productId: product.id, countedQuantity: null })),
+    };
+
+    setSessions((current) => [...current, session]);
+    return session;
+  };
+
+  const updateCountLine = (sessionId: string, line: CountLine) => {
+    requirePermission('counts.capture');
+    const session = getOpenSession(sessionId);
+    if (line.countedQuantity !== null && line.countedQuantity < 0) {
+      throw new Error(translate('counts.errors.negativeQuantity'));
+    }
+
+    setSessions(
+      sessions.map((s) =>
+        s.id === session.id
+          ? { ...s, lines: s.lines.map((l) => (l.productId === line.productId ? line : l)) }
+          : s
+      )
+    );
+  };
+
+  // Posts one adjustment per product whose count differs from the system stock
+  const approveSession = (sessionId: string) => {
+    if (!user) {
+      throw new Error(translate('counts.errors.signInToApprove'));
+    }
+    requirePermission('counts.approve');
+
+    const session = getOpenSession(sessionId);
+    if (session.lines.some((line) => line.countedQuantity === null)) {
+      throw new Error(translate('counts.errors.notAllCounted'));
+    }
+
+    const date = getToday();
+    const closedThrough = getClosedThroughDate();
+    if (closedThrough && date <= closedThrough) {
+      throw new Error(translate('counts.errors.periodClosed', { date: formatDate(closedThrough) }));
+    }
+
+    const locationId = getSessionLocationId(session);
+    const lines = session.lines.map((line) => ({
+      ...line,
+      expectedQuantity: getProductStock(line.productId, locationId),
+      unitCost: getAverageCost(line.productId, locationId),
+    }));
+
+    const missingReason = lines.some(
+      (line) => line.countedQuantity !== line.expectedQuantity && !line.reasonCode
+    );
+    if (missingReason) {
+      throw new Error(translate('counts.errors.reasonRequired'));
+    }
+
+    // All the adjustments are posted or none, so a rejected line leaves the
+    // session open with nothing posted and it can be approved again
+    addTransactions(
+      lines
+        .filter((line) => line.countedQuantity !== line.expectedQuantity)
+        .map((line) => ({
+          productId: line.productId,
+          type: 'adjustment' as const,
+          quantity: (line.countedQuantity ?? 0) - line.expectedQuantity,
+          unitCost: line.unitCost,
+          date,
+          notes: translate('counts.note', { folio: session.folio }),
+          reasonCode: line.reasonCode,
+          countSessionId: session.id,
+          locationId,
+        }))
+    );
+
+    setSessions(
+      sessions.map((s) =>
+        s.id === session.id
+          ? {
+              ...s,
+              lines,
+              status: 'approved',
+              approvedAt: new Date().toISOString(),
+              approvedBy: user.email,
+              date,
+            }
+          : s
+      )
+    );
+  };
+
+  const cancelSession = (sessionId: string) => {
+    requirePermission('counts.approve');
+    const session = getOpenSession(sessionId);
+    setSessions(sessions.map((s) => (s.id === session.id ? { ...s, status: 'cancelled' } : s)));
+  };
+
+  // Open sessions are compared against the live stock, approved ones against the frozen values
+  const getShrinkageSummary = (session: CountSession): ShrinkageSummary => {
+    const summary: ShrinkageSummary = {
+      countedProducts: 0,
+      productsWithVariance: 0,
+      unitsMissing: 0,
+      unitsOver: 0,
+      valueMissing: 0,
+      valueOver: 0,
+      netValue: 0,
+      byReason: [],
+    };
+
+    for (const line of session.lines) {
+      if (line.countedQuantity === null) {
+        continue;
+      }
+      summary.countedProducts++;
+
+      const expected = line.expectedQuantity ?? getProductStock(line.productId, getSessionLocationId(session));
+      const variance = line.countedQuantity - expected;
+      if (variance === 0) {
+        continue;
+      }
+      summary.productsWithVariance++;
+
+      const unitCost = line.unitCost ?? getAverageCost(line.productId, getSessionLocationId(session));
+      const value = variance * unitCost;
+
+      if (variance < 0) {
+        summary.unitsMissing -= variance;
+        summary.valueMissing -= value;
+      } else {
+        summary.unitsOver += variance;
+        summary.valueOver += value;
+      }
+      summary.netValue += value;
+
+      if (line.reasonCode) {
+        const reason = summary.byReason.find((r) => r.reasonCode === line.reasonCode);
+        if (reason) {
+          reason.units += variance;
+          reason.value += value;
+        } else {
+          summary.byReason.push({ reasonCode: line.reasonCode, units: variance, value });
+        }
+      }
+    }
+
+    return summary;
+  };
+
+  const value = {
+    sessions,
+    startSession,
+    updateCountLine,
+    approveSession,
+    cancelSession,
+    getShrinkageSummary,
+  };
+
+  return <CycleCountContext.Provider value={value}>{children}</CycleCountContext.Provider>;
+};
+
+// Custom hook to use the cycle count context
+export const useCycleCounts = (): CycleCountContextType => {
+  const context = useContext(CycleCountContext);
+  if (context === undefined) {
+    throw new Error('useCycleCounts must be used within a CycleCountProvider');
+  }
+  return context;
+};
@@ -1,12 +1,54 @@
-import React, { createContext, useState, useContext, useEffect } from 'react';
+import React, { createContext, useContext, useRef, useState } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import databaseData from '../data/database.json';
+import { useAuth } from './AuthContext';
+import { useSync } from './SyncContext';
+import { TranslationKey, useLanguage } from './LanguageContext';
+import { valuateInventory, findNegativeStock, getStockDelta, getBaseUnitCost, CostLayer, KardexRow } from '../utils/valuation';
+import { getLotBalances, allocateFEFO, LotBalance } from '../utils/lots';
+import { diffFields, AuditAction, AuditEntity, AuditEntry } from '../utils/audit';
+import { addDays, getLastFolioNumber, getToday, BASE_CURRENCY, CurrencyCode } from '../utils/format';
+import {
+  addTaxes,
+  extractTaxes,
+  getPriceWithTaxes,
+  resolveTaxConfig,
+  summarizeTaxes,
+  TaxBreakdown,
+  TaxConfig,
+  TaxSummary,
+} from '../utils/taxes';
+import {
+  DEFAULT_LOCATION_ID,
+  getLocationMinStock,
+  getTransactionLocationId,
+  isAtLocation,
+} from '../utils/locations';
+import { isValidClaveProdServ, isValidClaveUnidad, SatKeys } from '../utils/satCatalog';
+import { getStorageAdapter, usePersistentCollection, useStorageScope } from '../storage';
 
 // Types
+export type LocationType = 'store' | 'warehouse';
+
+export const LOCATION_TYPE_LABELS: Record<LocationType, TranslationKey> = {
+  store: 'locations.type.store',
+  warehouse: 'locations.type.warehouse',
+};
+
+// A minisuper or storeroom that keeps its own stock
+export interface StockLocation {
+  id: string;
+  name: string;
+  type: LocationType;
+  active: boolean; // Inactive locations keep their history but take no new movements
+}
+
 export interface Category {
   id: string;
   name: string;
   description: string;
+  perishable?: boolean; // Entries capture lot number and expiry date
+  taxes?: TaxConfig; // Default for its products
 }
 
 export interface Product {
@@ -15,29 +57,164 @@ export interface Product {
   description: string;
   categoryId: string;
   sku: string;
-  minStock: number;
+  minStock: number; // Per location, unless overridden below
+  minStockByLocation?: Record<string, number>;
   image: string;
   price: number;
+  priceIncludesTax?: boolean; // Missing on products from before taxes, whose prices include them
+  taxes?: TaxConfig; // Overrides the category's
   barcode?: string;
+  claveProdServ?: string; // SAT product key (c_ClaveProdServ) for invoices
+  claveUnidad?: string; // SAT unit key (c_ClaveUnidad)
 }
 
+export type TransactionType = 'entry' | 'exit' | 'adjustment';
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, TranslationKey> = {
+  entry: 'transactionType.entry',
+  exit: 'transactionType.exit',
+  adjustment: 'transactionType.adjustment',
+};
+
+// Why a physical count did not match the system stock
+export type AdjustmentReason = 'merma' | 'robo' | 'caducidad' | 'error_captura';
+
+export const ADJUSTMENT_REASON_LABELS: Record<AdjustmentReason, TranslationKey> = {
+  merma: 'adjustmentReason.merma',
+  robo: 'adjustmentReason.robo',
+  caducidad: 'adjustmentReason.caducidad',
+  error_captura: 'adjustmentReason.error_captura',
+};
+
 export interface InventoryTransaction {
   id: string;
   productId: string;
-  type: 'entry' | 'exit';
+  type: TransactionType;
+  quantity: number; // Signed for adjustments: negative removes stock
+  unitCost: number; // Only applicable for entries and positive adjustments, in `currency`
+  currency?: CurrencyCode; // Missing means pesos
+  exchangeRate?: number; // Pesos per unit of `currency` the entry was valued at
+  date: string;
+  notes: string;
+  reversalOf?: string; // Id of the transaction this one compensates
+  voidedBy?: string; // Id of the compensating transaction
+  voidReason?: string;
+  purchaseOrderId?: string;
+  saleId?: string;
+  unitPrice?: number; // Selling price, only for exits recorded as sales
+  lotNumber?: string;
+  expiryDate?: string;
+  reasonCode?: AdjustmentReason; // Only for adjustments
+  countSessionId?: string;
+  locationId?: string; // Missing on movements from before locations: the main one
+  transferId?: string; // Both legs of a transfer between locations
+  taxes?: TaxBreakdown; // Sale exits and purchase entries, in pesos at the rates in force
+  createdAt?: string; // Audit: when and by whom it was registered
+  createdBy?: string; // User id
+  createdByName?: string; // Display name at the time
+}
+
+export interface TransferLine {
+  productId: string;
   quantity: number;
-  unitCost: number; // Only applicable for entries
+  unitCost?: number; // Average cost at the origin, set when posted
+}
+
+// Moves stock between locations with a paired exit and entry at cost
+export interface Transfer {
+  id: string;
+  folio: string;
   date: string;
+  fromLocationId: string;
+  toLocationId: string;
+  lines: TransferLine[];
   notes: string;
+  createdAt: string;
+  createdBy: string;
+  createdByName: string;
 }
 
+// Pesos per unit of a foreign currency, from `date` until the next rate
+export interface ExchangeRate {
+  id: string;
+  currency: CurrencyCode;
+  date: string;
+  rate: number;
+}
+
+export type TransferInput = Pick<Transfer, 'date' | 'fromLocationId' | 'toLocationId' | 'lines' | 'notes'>;
+
 export type InventoryMethod = 'UEPS' | 'PEPS' | 'weighted';
 
+export interface ExpiringLot extends LotBalance {
+  productId: string;
+  expiryDate: string;
+  expired: boolean;
+}
+
+const INVENTORY_METHODS: InventoryMethod[] = ['PEPS', 'UEPS', 'weighted'];
+
+// Balance of one product at a period cutoff, valued with every method
+export interface PeriodProductSnapshot {
+  productId: string;
+  quantity: number;
+  layers: Record<InventoryMethod, CostLayer[]>;
+}
+
+export interface InventoryPeriod {
+  id: string;
+  cutoffDate: string;
+  status: 'closed' | 'reopened';
+  closedAt: string;
+  closedBy: string;
+  snapshot: PeriodProductSnapshot[];
+  reopenedAt?: string;
+  reopenedBy?: string;
+  reopenReason?: string;
+}
+
+export interface InventoryCostReport {
+  entries: InventoryTransaction[];
+  exits: InventoryTransaction[];
+  adjustments: InventoryTransaction[];
+  kardexData: KardexRow[];
+  openingStock: number;
+  openingCost: number;
+  remainingStock: number;
+  totalCost: number;
+  averageCost: number;
+  costOfGoodsSold: number;
+  shrinkageCost: number;
+  closingLayers: CostLayer[];
+  unfilledQuantity: number;
+}
+
 interface InventoryContextType {
   // Data
   categories: Category[];
   products: Product[];
   transactions: InventoryTransaction[];
+  periods: InventoryPeriod[];
+  auditLog: AuditEntry[];
+  locations: StockLocation[];
+  transfers: Transfer[];
+  exchangeRates: ExchangeRate[];
+  isLoading: boolean;
+
+  // Location the user works in; null shows every location together
+  currentLocationId: string | null;
+  setCurrentLocationId: (id: string | null) => void;
+  getLocationName: (id: string | null) => string;
+
+  // Location operations
+  addLocation: (location: Omit<StockLocation, 'id'>) => void;
+  updateLocation: (location: StockLocation) => void;
+  addTransfer: (transfer: TransferInput) => Promise<Transfer>;
+
+  // Exchange rates; null when the table has no rate for the currency yet
+  addExchangeRate: (rate: Omit<ExchangeRate, 'id'>) => void;
+  deleteExchangeRate: (id: string) => void;
+  getExchangeRate: (currency: CurrencyCode, date: string) => number | null;
   
   // Category operations
   addCategory: (category: Omit<Category, 'id'>) => void;
@@ -48,140 +225,753 @@ interface InventoryContextType {
   addProduct: (product: Omit<Product, 'id'>) => void;
   updateProduct: (product: Product) => void;
   deleteProduct: (id: string) => void;
+  assignSatKeys: (categoryId: string, keys: SatKeys, overwrite: boolean) => number;
   
   // Transaction operations
   addTransaction: (transaction: Omit<InventoryTransaction, 'id'>) => void;
+  // Several movements that stand or fall together, e.g. the lines of a sale
+  addTransactions: (transactions: Omit<InventoryTransaction, 'id'>[]) => void;
+  checkTransactions: (transactions: Omit<InventoryTransaction, 'id'>[]) => void;
+  voidTransaction: (id: string, reason: string) => void;
   
-  // Inventory calculations
-  getProductStock: (productId: string) => number;
+  // Period closing
+  closePeriod: (cutoffDate: string) => void;
+  reopenPeriod: (id: string, reason: string) => void;
+  getClosedThroughDate: () => string | null;
+  
+  // Inventory calculations; without a location they use the current one
+  getProductStock: (productId: string, locationId?: string | null) => number;
+  getMinStock: (product: Product, locationId?: string | null) => number;
   getCategoryStock: (categoryId: string) => { productId: string; stock: number }[];
   getLowStockProducts: () => Product[];
+  getProductLots: (productId: string, locationId?: string | null) => LotBalance[];
+  getExpiringLots: (withinDays: number) => ExpiringLot[];
+
+  // Taxes
+  getProductTaxes: (productId: string) => TaxConfig;
+  getSalePrice: (product: Product) => number; // Including taxes
   
   // Reports
-  getProductTransactions: (productId: string, startDate: string, endDate: string) => InventoryTransaction[];
-  calculateInventoryCost: (productId: string, method: InventoryMethod, startDate: string, endDate: string) => {
-    entries: InventoryTransaction[];
-    exits: InventoryTransaction[];
-    remainingStock: number;
-    totalCost: number;
-    averageCost: number;
-  };
+  getProductTransactions: (productId: string, startDate: string, endDate: string) => Promise<InventoryTransaction[]>;
+  calculateInventoryCost: (productId: string, method: InventoryMethod, startDate: string, endDate: string) => Promise<InventoryCostReport>;
+  getTaxSummary: (startDate: string, endDate: string) => TaxSummary;
 }
 
 const InventoryContext = createContext<InventoryContextType | undefined>(undefined);
 
-// Local storage keys
-const STORAGE_KEYS = {
-  CATEGORIES: 'inventory_categories',
-  PRODUCTS: 'inventory_products',
-  TRANSACTIONS: 'inventory_transactions',
-};
-
 // Load data from your database export
 const initialCategories: Category[] = databaseData.categories || [];
 
 const initialProducts: Product[] = databaseData.products || [];
-const initialTransactions: InventoryTransaction[] = databaseData.transactions || [];
+const initialTransactions = (databaseData.transactions || []) as InventoryTransaction[];
+const initialLocations: StockLocation[] = [
+  { id: DEFAULT_LOCATION_ID, name: 'Tienda principal', type: 'store', active: true },
+];
+
+// Chosen per device; 'all' stands for every location together
+const CURRENT_LOCATION_KEY = 'inventory_location';
+const ALL_LOCATIONS = 'all';
+
+const formatTransferFolio = (sequence: number) => `T-${String(sequence).padStart(6, '0')}`;
 
 export const InventoryProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [categories, setCategories] = useState<Category[]>(() => {
-    const saved = localStorage.getItem(STORAGE_KEYS.CATEGORIES);
-    return saved ? JSON.parse(saved) : initialCategories;
-  });
+  const { user, requirePermission } = useAuth();
+  const { getRemoteCollection, getNextFolio } = useSync();
+  const storageScope = useStorageScope();
+  // `t` names transactions all over this file
+  const { t: translate, formatDate } = useLanguage();
 
-  const [products, setProducts] = useState<Product[]>(() => {
-    const saved = localStorage.getItem(STORAGE_KEYS.PRODUCTS);
-    return saved ? JSON.parse(saved) : initialProducts;
-  });
+  // Shared through Realtime Database for the signed-in user's store, queued while offline
+  const remoteCategories = getRemoteCollection<Category>('categories');
+  const remoteProducts = getRemoteCollection<Product>('products');
+  const remoteTransactions = getRemoteCollection<InventoryTransaction>('transactions');
+  const remoteAuditLog = getRemoteCollection<AuditEntry>('audit_log');
+  const remoteLocations = getRemoteCollection<StockLocation>('locations');
+  const remoteTransfers = getRemoteCollection<Transfer>('transfers');
+  const remoteExchangeRates = getRemoteCollection<ExchangeRate>('exchange_rates');
+  const remotePeriods = getRemoteCollection<InventoryPeriod>('periods');
 
-  const [transactions, setTransactions] = useState<InventoryTransaction[]>(() => {
-    const saved = localStorage.getItem(STORAGE_KEYS.TRANSACTIONS);
-    return saved ? JSON.parse(saved) : initialTransactions;
-  });
+  const [categories, setCategories, categoriesLoading] = usePersistentCollection('categories', initialCategories, remoteCategories);
+  const [products, setProducts, productsLoading] = usePersistentCollection('products', initialProducts, remoteProducts);
+  const [transactions, setTransactions, transactionsLoading] = usePersistentCollection('transactions', initialTransactions, remoteTransactions);
+  const [periods, setPeriods, periodsLoading] = usePersistentCollection<InventoryPeriod>('periods', undefined, remotePeriods);
+  const [auditLog, setAuditLog, auditLogLoading] = usePersistentCollection<AuditEntry>('audit_log', undefined, remoteAuditLog);
+  const [locations, setLocations, locationsLoading] = usePersistentCollection('locations', initialLocations, remoteLocations);
+  const [transfers, setTransfers, transfersLoading] = usePersistentCollection('transfers', undefined, remoteTransfers);
+  const [exchangeRates, setExchangeRates, exchangeRatesLoading] = usePersistentCollection('exchange_rates', undefined, remoteExchangeRates);
+  const isLoading =
+    categoriesLoading ||
+    productsLoading ||
+    transactionsLoading ||
+    periodsLoading ||
+    auditLogLoading ||
+    locationsLoading ||
+    transfersLoading ||
+    exchangeRatesLoading;
 
-  // Save to localStorage whenever data changes
-  useEffect(() => {
-    localStorage.setItem(STORAGE_KEYS.CATEGORIES, JSON.stringify(categories));
-  }, [categories]);
+  // Movements including the ones posted since the last render, so the stock
+  // checks of several calls in one go (e.g. the lines of a sale) see each other
+  const postedTransactions = useRef(transactions);
+  postedTransactions.current = transactions;
 
-  useEffect(() => {
-    localStorage.setItem(STORAGE_KEYS.PRODUCTS, JSON.stringify(products));
-  }, [products]);
+  const [selectedLocationId, setSelectedLocationId] = useState<string>(
+    () => localStorage.getItem(CURRENT_LOCATION_KEY) ?? DEFAULT_LOCATION_ID
+  );
+  // A location that was removed or deactivated falls back to the first active one
+  const activeLocations = locations.filter((location) => location.active);
+  const currentLocationId =
+    selectedLocationId === ALL_LOCATIONS
+      ? null
+      : activeLocations.some((location) => location.id === selectedLocationId)
+        ? selectedLocationId
+        : activeLocations[0]?.id ?? DEFAULT_LOCATION_ID;
 
-  useEffect(() => {
-    localStorage.setItem(STORAGE_KEYS.TRANSACTIONS, JSON.stringify(transactions));
-  }, [transactions]);
+  const setCurrentLocationId = (id: string | null) => {
+    const value = id ?? ALL_LOCATIONS;
+    localStorage.setItem(CURRENT_LOCATION_KEY, value);
+    setSelectedLocationId(value);
+  };
+
+  const getLocationName = (id: string | null) =>
+    id === null ? translate('nav.allLocations') : locations.find((l) => l.id === id)?.name ?? translate('locations.deleted');
+
+  // Appends who changed what to the audit log, with the fields before and after
+  const recordAudit = <T extends { id: string }>(
+    action: AuditAction,
+    entity: AuditEntity,
+    entityName: string,
+    before: T | null,
+    after: T | null
+  ) => {
+    const changes = diffFields(before, after);
+    if (action === 'update' && changes.length === 0) {
+      return;
+    }
+    const entry: AuditEntry = {
+      id: uuidv4(),
+      timestamp: new Date().toISOString(),
+      userId: user?.id ?? '',
+      userName: user?.name ?? '',
+      action,
+      entity,
+      entityId: (after ?? before)!.id,
+      entityName,
+      changes,
+    };
+    setAuditLog((prev) => [...prev, entry]);
+  };
+
+  const getProductName = (productId: string) =>
+    products.find((product) => product.id === productId)?.name ?? productId;
 
   // Category operations
   const addCategory = (category: Omit<Category, 'id'>) => {
+    requirePermission('catalog.edit');
     const newCategory = { ...category, id: uuidv4() };
     setCategories([...categories, newCategory]);
+    recordAudit('create', 'category', newCategory.name, null, newCategory);
   };
 
   const updateCategory = (updatedCategory: Category) => {
+    requirePermission('catalog.edit');
+    const current = categories.find((cat) => cat.id === updatedCategory.id) ?? null;
+    // Tax rates change what customers pay for the category's products
+    if (JSON.stringify(current?.taxes) !== JSON.stringify(updatedCategory.taxes)) {
+      requirePermission('costs.edit');
+    }
     setCategories(
       categories.map((cat) => (cat.id === updatedCategory.id ? updatedCategory : cat))
     );
+    recordAudit('update', 'category', updatedCategory.name, current, updatedCategory);
   };
 
   const deleteCategory = (id: string) => {
+    requirePermission('catalog.edit');
     // Check if category is in use by any products
     const inUse = products.some((product) => product.categoryId === id);
     if (inUse) {
-      throw new Error('Cannot delete category that is in use by products');
+      throw new Error(translate('inventory.errors.categoryInUse'));
     }
+    const current = categories.find((cat) => cat.id === id);
     setCategories(categories.filter((cat) => cat.id !== id));
+    if (current) {
+      recordAudit('delete', 'category', current.name, current, null);
+    }
   };
 
   // Product operations
   const addProduct = (product: Omit<Product, 'id'>) => {
+    requirePermission('catalog.edit');
+    requirePermission('costs.edit');
     const newProduct = { ...product, id: uuidv4() };
     setProducts([...products, newProduct]);
+    recordAudit('create', 'product', newProduct.name, null, newProduct);
   };
 
   const updateProduct = (updatedProduct: Product) => {
+    requirePermission('catalog.edit');
+    const current = products.find((prod) => prod.id === updatedProduct.id);
+    if (
+      current &&
+      (current.price !== updatedProduct.price ||
+        current.priceIncludesTax !== updatedProduct.priceIncludesTax ||
+        JSON.stringify(current.taxes) !== JSON.stringify(updatedProduct.taxes))
+    ) {
+      requirePermission('costs.edit');
+    }
     setProducts(
       products.map((prod) => (prod.id === updatedProduct.id ? updatedProduct : prod))
     );
+    recordAudit('update', 'product', updatedProduct.name, current ?? null, updatedProduct);
   };
 
   const deleteProduct = (id: string) => {
-    // Check if product has any transactions
-    const hasTransactions = transactions.some((transaction) => transaction.productId === id);
+    requirePermission('products.delete');
+    // Check if product has any transactions that were not voided
+    const hasTransactions = transactions.some(
+      (transaction) =>
+        transaction.productId === id && !transaction.voidedBy && !transaction.reversalOf
+    );
     if (hasTransactions) {
-      throw new Error('Cannot delete product that has transactions');
+      throw new Error(translate('inventory.errors.productHasTransactions'));
     }
+    const current = products.find((prod) => prod.id === id);
     setProducts(products.filter((prod) => prod.id !== id));
+    if (current) {
+      recordAudit('delete', 'product', current.name, current, null);
+    }
+  };
+
+  // Gives the category's products the same SAT keys. Keys left empty are not
+  // touched, and products with their own keep them unless overwrite is set.
+  // Returns how many products changed.
+  const assignSatKeys = (categoryId: string, keys: SatKeys, overwrite: boolean) => {
+    requirePermission('catalog.edit');
+    if (
+      (keys.claveProdServ && !isValidClaveProdServ(keys.claveProdServ)) ||
+      (keys.claveUnidad && !isValidClaveUnidad(keys.claveUnidad))
+    ) {
+      throw new Error(translate('inventory.errors.invalidSatKey'));
+    }
+
+    const pick = (key: string | undefined, current: string | undefined) =>
+      key && (overwrite || !current) ? key : current;
+    const changes = products
+      .filter((product) => product.categoryId === categoryId)
+      .map((product) => ({
+        before: product,
+        after: {
+          ...product,
+          claveProdServ: pick(keys.claveProdServ, product.claveProdServ),
+          claveUnidad: pick(keys.claveUnidad, product.claveUnidad),
+        },
+      }))
+      .filter(
+        ({ before, after }) =>
+          before.claveProdServ !== after.claveProdServ || before.claveUnidad !== after.claveUnidad
+      );
+    if (changes.length === 0) {
+      return 0;
+    }
+
+    const updated = new Map(changes.map(({ after }) => [after.id, after]));
+    setProducts(products.map((prod) => updated.get(prod.id) ?? prod));
+    for (const { before, after } of changes) {
+      recordAudit('update', 'product', after.name, before, after);
+    }
+    return changes.length;
   };
 
   // Transaction operations
-  const addTransaction = (transaction: Omit<InventoryTransaction, 'id'>) => {
-    const newTransaction = { ...transaction, id: uuidv4() };
+  // Who registered a movement, from the signed-in user's profile
+  const getAuditFields = () => ({
+    createdAt: new Date().toISOString(),
+    createdBy: user?.id,
+    createdByName: user?.name,
+  });
+
+  // Movements can only be registered at an active location
+  const getActiveLocation = (id: string) => {
+    const location = locations.find((l) => l.id === id);
+    if (!location) {
+      throw new Error(translate('inventory.errors.locationNotFound'));
+    }
+    if (!location.active) {
+      throw new Error(translate('inventory.errors.locationInactive', { location: location.name }));
+    }
+    return location;
+  };
+
+  // Taxes
+  const getProductTaxes = (productId: string): TaxConfig => {
+    const product = products.find((p) => p.id === productId);
+    return resolveTaxConfig(product, categories.find((c) => c.id === product?.categoryId));
+  };
+
+  const getSalePrice = (product: Product) => getPriceWithTaxes(product, getProductTaxes(product.id));
+
+  // Sale prices include taxes; purchase costs do not. Transfers, counts and
+  // reversals carry no taxes of their own.
+  const getTransactionTaxes = (
+    transaction: Omit<InventoryTransaction, 'id'>,
+    config: TaxConfig
+  ): TaxBreakdown | undefined => {
+    if (transaction.saleId && transaction.unitPrice !== undefined) {
+      return extractTaxes(transaction.quantity * transaction.unitPrice, config);
+    }
+    if (transaction.type === 'entry' && !transaction.transferId) {
+      return addTaxes(transaction.quantity * getBaseUnitCost(transaction), config);
+    }
+    return undefined;
+  };
+
+  // Checks one movement against `posted` and returns what it would post: the
+  // movement itself, or one exit per lot. Nothing is saved here.
+  const prepareTransaction = (
+    transaction: Omit<InventoryTransaction, 'id'>,
+    posted: InventoryTransaction[]
+  ): InventoryTransaction[] => {
+    // Registered where the user works unless the caller picks the location
+    const locationId = transaction.locationId ?? currentLocationId;
+    if (!locationId) {
+      throw new Error(translate('inventory.errors.chooseLocation'));
+    }
+    getActiveLocation(locationId);
+    const newTransaction = { ...transaction, locationId, ...getAuditFields(), id: uuidv4() };
+    const taxConfig = getProductTaxes(transaction.productId);
+
+    // Sales, receipts and counts post movements through their own permission
+    if (transaction.type === 'adjustment') {
+      requirePermission('counts.approve');
+    } else if (transaction.saleId) {
+      requirePermission('sales.register');
+    } else if (transaction.purchaseOrderId) {
+      requirePermission('purchasing.manage');
+    } else {
+      requirePermission('inventory.move');
+    }
+    if (transaction.type === 'entry') {
+      requirePermission('costs.edit');
+    }
     
     // Validate transaction
-    if (transaction.type === 'exit') {
-      const currentStock = getProductStock(transaction.productId);
-      if (currentStock < transaction.quantity) {
-        throw new Error('Not enough stock for this transaction');
+    const closedThrough = getClosedThroughDate();
+    if (closedThrough && transaction.date <= closedThrough) {
+      throw new Error(translate('inventory.errors.periodClosed', { date: formatDate(closedThrough) }));
+    }
+
+    if (transaction.type === 'adjustment' && !transaction.reasonCode) {
+      throw new Error(translate('inventory.errors.reasonRequired'));
+    }
+
+    if (transaction.currency && transaction.currency !== BASE_CURRENCY && !((transaction.exchangeRate ?? 0) > 0)) {
+      throw new Error(translate('inventory.errors.exchangeRateRequired'));
+    }
+
+    // A back-dated exit must not leave the stock negative on its date or at any point after it
+    const delta = getStockDelta(transaction);
+    const locationTransactions = posted.filter(
+      (t) => t.productId === transaction.productId && isAtLocation(t, locationId)
+    );
+    if (delta < 0) {
+      const shortage = findNegativeStock([...locationTransactions, newTransaction]);
+      if (shortage?.id === newTransaction.id) {
+        throw new Error(translate('inventory.errors.notEnoughStock'));
+      }
+      if (shortage) {
+        throw new Error(translate('inventory.errors.backdatedNegativeStock', { date: formatDate(shortage.date) }));
       }
     }
-    
-    setTransactions([...transactions, newTransaction]);
+
+    // Exits without an explicit lot are split across lots, first-expired-first-out
+    if (delta < 0 && !transaction.lotNumber) {
+      const lots = getLotBalances(locationTransactions);
+      if (lots.some((lot) => lot.lotNumber !== '')) {
+        const sign = transaction.type === 'adjustment' ? -1 : 1;
+        return allocateFEFO(lots, -delta).map((allocation) => {
+          const lotExit = {
+            ...newTransaction,
+            id: uuidv4(),
+            quantity: sign * allocation.quantity,
+            lotNumber: allocation.lotNumber || undefined,
+            expiryDate: allocation.expiryDate,
+          };
+          return { ...lotExit, taxes: getTransactionTaxes(lotExit, taxConfig) };
+        });
+      }
+    }
+
+    return [{ ...newTransaction, taxes: getTransactionTaxes(newTransaction, taxConfig) }];
+  };
+
+  // Each movement is checked seeing the ones before it in the batch and
+  // everything posted since the last render
+  const prepareTransactions = (inputs: Omit<InventoryTransaction, 'id'>[]) => {
+    let posted = postedTransactions.current;
+    const movements: InventoryTransaction[] = [];
+    for (const input of inputs) {
+      const prepared = prepareTransaction(input, posted);
+      posted = [...posted, ...prepared];
+      movements.push(...prepared);
+    }
+    return movements;
+  };
+
+  // Throws what addTransactions would, without posting anything
+  const checkTransactions = (inputs: Omit<InventoryTransaction, 'id'>[]) => {
+    prepareTransactions(inputs);
+  };
+
+  // Posts every movement or, if any of them is rejected, none
+  const addTransactions = (inputs: Omit<InventoryTransaction, 'id'>[]) => {
+    const movements = prepareTransactions(inputs);
+    // Functional update so several batches can be posted in one go
+    postedTransactions.current = [...postedTransactions.current, ...movements];
+    setTransactions((prev) => [...prev, ...movements]);
+    movements.forEach((movement) =>
+      recordAudit('create', 'transaction', getProductName(movement.productId), null, movement)
+    );
+  };
+
+  const addTransaction = (transaction: Omit<InventoryTransaction, 'id'>) => addTransactions([transaction]);
+
+  // Voids a transaction by posting the opposite movement on the same date
+  const voidTransaction = (id: string, reason: string) => {
+    requirePermission('inventory.void');
+    const original = transactions.find((t) => t.id === id);
+    if (!original) {
+      throw new Error(translate('inventory.errors.transactionNotFound'));
+    }
+
+    if (original.voidedBy || original.reversalOf) {
+      throw new Error(translate('inventory.errors.alreadyVoided'));
+    }
+
+    // Voiding one leg would leave the units in neither location
+    if (original.transferId) {
+      throw new Error(translate('inventory.errors.transferNotVoidable'));
+    }
+
+    if (!reason.trim()) {
+      throw new Error(translate('inventory.errors.voidReasonRequired'));
+    }
+
+    const closedThrough = getClosedThroughDate();
+    if (closedThrough && original.date <= closedThrough) {
+      throw new Error(translate('inventory.errors.periodClosedVoid', { date: formatDate(closedThrough) }));
+    }
+
+    // Removing an entry must not leave the location's stock negative at any point after it
+    const locationId = getTransactionLocationId(original);
+    if (getStockDelta(original) > 0) {
+      const shortage = findNegativeStock(
+        transactions.filter(
+          (t) => t.productId === original.productId && t.id !== original.id && isAtLocation(t, locationId)
+        )
+      );
+      if (shortage) {
+        throw new Error(translate('inventory.errors.voidNegativeStock', { date: formatDate(shortage.date) }));
+      }
+    }
+
+    // Adjustments are reversed by the opposite adjustment
+    const reversal: InventoryTransaction = {
+      id: uuidv4(),
+      productId: original.productId,
+      type: original.type === 'adjustment' ? 'adjustment' : original.type === 'entry' ? 'exit' : 'entry',
+      quantity: original.type === 'adjustment' ? -original.quantity : original.quantity,
+      unitCost: original.unitCost,
+      currency: original.currency,
+      exchangeRate: original.exchangeRate,
+      date: original.date,
+      notes: translate('inventory.reversalNote', { reason: reason.trim() }),
+      reversalOf: original.id,
+      lotNumber: original.lotNumber,
+      expiryDate: original.expiryDate,
+      reasonCode: original.reasonCode,
+      locationId,
+      ...getAuditFields(),
+    };
+
+    const voided = { ...original, voidedBy: reversal.id, voidReason: reason.trim() };
+    setTransactions([...transactions.map((t) => (t.id === original.id ? voided : t)), reversal]);
+    const productName = getProductName(original.productId);
+    recordAudit('void', 'transaction', productName, original, voided);
+    recordAudit('create', 'transaction', productName, null, reversal);
+  };
+
+  // Location operations
+  const addLocation = (location: Omit<StockLocation, 'id'>) => {
+    requirePermission('locations.manage');
+    if (!location.name.trim()) {
+      throw new Error(translate('inventory.errors.locationNameRequired'));
+    }
+    const newLocation = { ...location, name: location.name.trim(), id: uuidv4() };
+    setLocations([...locations, newLocation]);
+    recordAudit('create', 'location', newLocation.name, null, newLocation);
+  };
+
+  const updateLocation = (updatedLocation: StockLocation) => {
+    requirePermission('locations.manage');
+    if (!updatedLocation.name.trim()) {
+      throw new Error(translate('inventory.errors.locationNameRequired'));
+    }
+    const current = locations.find((l) => l.id === updatedLocation.id) ?? null;
+    if (current?.active && !updatedLocation.active && activeLocations.length === 1) {
+      throw new Error(translate('inventory.errors.lastActiveLocation'));
+    }
+    const cleanLocation = { ...updatedLocation, name: updatedLocation.name.trim() };
+    setLocations(locations.map((l) => (l.id === cleanLocation.id ? cleanLocation : l)));
+    recordAudit('update', 'location', cleanLocation.name, current, cleanLocation);
+  };
+
+  // Exchange rate operations
+  const addExchangeRate = (rate: Omit<ExchangeRate, 'id'>) => {
+    requirePermission('costs.edit');
+    if (rate.currency === BASE_CURRENCY || !(rate.rate > 0)) {
+      throw new Error(translate('inventory.errors.exchangeRateInvalid'));
+    }
+    // One rate per currency and day; a new one replaces it
+    const replaced = exchangeRates.find((r) => r.currency === rate.currency && r.date === rate.date) ?? null;
+    const newRate = { ...rate, id: replaced?.id ?? uuidv4() };
+    setExchangeRates([...exchangeRates.filter((r) => r.id !== newRate.id), newRate]);
+    recordAudit(replaced ? 'update' : 'create', 'exchange_rate', `${rate.currency} ${rate.date}`, replaced, newRate);
+  };
+
+  const deleteExchangeRate = (id: string) => {
+    requirePermission('costs.edit');
+    const current = exchangeRates.find((r) => r.id === id);
+    setExchangeRates(exchangeRates.filter((r) => r.id !== id));
+    if (current) {
+      recordAudit('delete', 'exchange_rate', `${current.currency} ${current.date}`, current, null);
+    }
+  };
+
+  // The latest rate on or before the date
+  const getExchangeRate = (currency: CurrencyCode, date: string): number | null => {
+    if (currency === BASE_CURRENCY) {
+      return 1;
+    }
+    const rate = exchangeRates
+      .filter((r) => r.currency === currency && r.date <= date)
+      .sort((a, b) => (a.date < b.date ? 1 : -1))[0];
+    return rate?.rate ?? null;
+  };
+
+  // Posts an exit at the origin and an entry at the destination per line, at the
+  // origin's average cost; perishable stock keeps its lots, first-expired-first-out
+  const addTransfer = async (input: TransferInput): Promise<Transfer> => {
+    if (!user) {
+      throw new Error(translate('inventory.errors.signInToTransfer'));
+    }
+    requirePermission('inventory.move');
+
+    const from = getActiveLocation(input.fromLocationId);
+    const to = getActiveLocation(input.toLocationId);
+    if (from.id === to.id) {
+      throw new Error(translate('inventory.errors.sameLocation'));
+    }
+
+    const closedThrough = getClosedThroughDate();
+    if (closedThrough && input.date <= closedThrough) {
+      throw new Error(translate('inventory.errors.periodClosedTransfer', { date: formatDate(closedThrough) }));
+    }
+
+    // The same product twice is moved as one line
+    const quantities = new Map<string, number>();
+    for (const line of input.lines) {
+      if (line.quantity > 0) {
+        quantities.set(line.productId, (quantities.get(line.productId) ?? 0) + line.quantity);
+      }
+    }
+    if (quantities.size === 0) {
+      throw new Error(translate('inventory.errors.emptyTransfer'));
+    }
+
+    const id = uuidv4();
+    const auditFields = getAuditFields();
+    const lines: TransferLine[] = [];
+    const legs: Omit<InventoryTransaction, 'id' | 'type' | 'locationId' | 'notes'>[] = [];
+
+    for (const [productId, quantity] of quantities) {
+      const originTransactions = postedTransactions.current.filter(
+        (t) => t.productId === productId && isAtLocation(t, from.id)
+      );
+
+      // Like any exit, a back-dated transfer must not take stock that only arrived later
+      const transferExit: InventoryTransaction = {
+        id: uuidv4(),
+        productId,
+        type: 'exit',
+        quantity,
+        unitCost: 0,
+        date: input.date,
+        notes: '',
+        locationId: from.id,
+      };
+      const shortage = findNegativeStock([...originTransactions, transferExit]);
+      if (shortage?.id === transferExit.id) {
+        throw new Error(translate('inventory.errors.notEnoughStockAt', { product: getProductName(productId), location: from.name }));
+      }
+      if (shortage) {
+        throw new Error(translate('inventory.errors.backdatedNegativeStock', { date: formatDate(shortage.date) }));
+      }
+
+      // Valued and split into lots with what the origin had on the transfer's date
+      const originAsOfDate = originTransactions.filter((t) => t.date <= input.date);
+      const unitCost = valuateInventory(originAsOfDate, 'weighted').averageCost;
+      lines.push({ productId, quantity, unitCost });
+
+      const lots = getLotBalances(originAsOfDate);
+      const allocations = lots.some((lot) => lot.lotNumber !== '')
+        ? allocateFEFO(lots, quantity)
+        : [{ lotNumber: '', expiryDate: undefined, quantity }];
+
+      for (const allocation of allocations) {
+        legs.push({
+          productId,
+          quantity: allocation.quantity,
+          unitCost,
+          date: input.date,
+          lotNumber: allocation.lotNumber || undefined,
+          expiryDate: allocation.expiryDate,
+          transferId: id,
+          ...auditFields,
+        });
+      }
+    }
+
+    // Taken once everything checked out, so a rejected transfer does not use up a folio
+    const folio = formatTransferFolio(await getNextFolio('transfers', getLastFolioNumber(transfers)));
+    const movements: InventoryTransaction[] = legs.flatMap((leg) => [
+      { ...leg, id: uuidv4(), type: 'exit', locationId: from.id, notes: translate('inventory.transferOutNote', { folio, location: to.name }) },
+      { ...leg, id: uuidv4(), type: 'entry', locationId: to.id, notes: translate('inventory.transferInNote', { folio, location: from.name }) },
+    ]);
+
+    const transfer: Transfer = {
+      id,
+      folio,
+      date: input.date,
+      fromLocationId: from.id,
+      toLocationId: to.id,
+      lines,
+      notes: input.notes.trim(),
+      createdAt: auditFields.createdAt,
+      createdBy: user.id,
+      createdByName: user.name,
+    };
+
+    postedTransactions.current = [...postedTransactions.current, ...movements];
+    setTransactions((prev) => [...prev, ...movements]);
+    movements.forEach((movement) =>
+      recordAudit('create', 'transaction', getProductName(movement.productId), null, movement)
+    );
+    setTransfers((prev) => [...prev, transfer]);
+    recordAudit('create', 'transfer', folio, null, transfer);
+    return transfer;
+  };
+
+  // Period closing
+  const getLatestClosedPeriod = (): InventoryPeriod | null =>
+    periods
+      .filter((period) => period.status === 'closed')
+      .reduce<InventoryPeriod | null>(
+        (latest, period) => (!latest || period.cutoffDate > latest.cutoffDate ? period : latest),
+        null
+      );
+
+  const getClosedThroughDate = (): string | null => getLatestClosedPeriod()?.cutoffDate ?? null;
+
+  const closePeriod = (cutoffDate: string) => {
+    if (!user) {
+      throw new Error(translate('inventory.errors.signInToClose'));
+    }
+    requirePermission('periods.manage');
+
+    const closedThrough = getClosedThroughDate();
+    if (closedThrough && cutoffDate <= closedThrough) {
+      throw new Error(translate('inventory.errors.alreadyClosed', { date: formatDate(closedThrough) }));
+    }
+
+    // The snapshot covers every location together
+    const snapshot = products.map((product) => {
+      const productTransactions = transactions.filter(
+        (t) => t.productId === product.id && t.date <= cutoffDate && isAtLocation(t, null)
+      );
+      const layers = {} as Record<InventoryMethod, CostLayer[]>;
+      for (const method of INVENTORY_METHODS) {
+        layers[method] = valuateInventory(productTransactions, method).closingLayers;
+      }
+
+      return {
+        productId: product.id,
+        quantity: productTransactions.reduce((stock, t) => stock + getStockDelta(t), 0),
+        layers,
+      };
+    });
+
+    const newPeriod: InventoryPeriod = {
+      id: uuidv4(),
+      cutoffDate,
+      status: 'closed',
+      closedAt: new Date().toISOString(),
+      closedBy: user.email,
+      snapshot,
+    };
+
+    setPeriods([...periods, newPeriod]);
+    recordAudit('close', 'period', cutoffDate, null, newPeriod);
+  };
+
+  const reopenPeriod = (id: string, reason: string) => {
+    if (!user) {
+      throw new Error(translate('inventory.errors.signInToReopen'));
+    }
+    requirePermission('periods.manage');
+
+    if (!reason.trim()) {
+      throw new Error(translate('inventory.errors.reopenReasonRequired'));
+    }
+
+    const period = periods.find((p) => p.id === id);
+    if (!period || period.status !== 'closed') {
+      throw new Error(translate('inventory.errors.notClosed'));
+    }
+
+    // Reopening an earlier period would leave a hole under a later closed one
+    const hasLaterClose = periods.some(
+      (p) => p.status === 'closed' && p.cutoffDate > period.cutoffDate
+    );
+    if (hasLaterClose) {
+      throw new Error(translate('inventory.errors.reopenLatestFirst'));
+    }
+
+    const reopened: InventoryPeriod = {
+      ...period,
+      status: 'reopened',
+      reopenedAt: new Date().toISOString(),
+      reopenedBy: user.email,
+      reopenReason: reason.trim(),
+    };
+    setPeriods(periods.map((p) => (p.id === id ? reopened : p)));
+    recordAudit('reopen', 'period', period.cutoffDate, period, reopened);
   };
 
   // Inventory calculations
-  const getProductStock = (productId: string): number => {
-    const productTransactions = transactions.filter((t) => t.productId === productId);
+  const getProductStock = (productId: string, locationId: string | null = currentLocationId): number => {
+    const productTransactions = transactions.filter(
+      (t) => t.productId === productId && isAtLocation(t, locationId)
+    );
     
-    return productTransactions.reduce((stock, transaction) => {
-      if (transaction.type === 'entry') {
-        return stock + transaction.quantity;
-      } else {
-        return stock - transaction.quantity;
-      }
-    }, 0);
+    return productTransactions.reduce((stock, transaction) => stock + getStockDelta(transaction), 0);
   };
 
+  // Across every location, the sum of each active location's minimum
+  const getMinStock = (product: Product, locationId: string | null = currentLocationId): number =>
+    locationId !== null
+      ? getLocationMinStock(product, locationId)
+      : activeLocations.reduce((total, location) => total + getLocationMinStock(product, location.id), 0);
+
   const getCategoryStock = (categoryId: string) => {
     const categoryProducts = products.filter((p) => p.categoryId === categoryId);
     
@@ -194,234 +984,147 @@ export const InventoryProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   const getLowStockProducts = () => {
     return products.filter((product) => {
       const stock = getProductStock(product.id);
-      return stock <= product.minStock;
+      return stock <= getMinStock(product);
     });
   };
 
+  const getProductLots = (productId: string, locationId: string | null = currentLocationId): LotBalance[] =>
+    getLotBalances(transactions.filter((t) => t.productId === productId && isAtLocation(t, locationId)));
+
+  // Lots with stock that are already expired or expire within the given days
+  const getExpiringLots = (withinDays: number): ExpiringLot[] => {
+    const today = getToday();
+    const limitDate = addDays(today, withinDays);
+
+    return products
+      .flatMap((product) =>
+        getProductLots(product.id)
+          .filter((lot): lot is LotBalance & { expiryDate: string } =>
+            !!lot.expiryDate && lot.expiryDate <= limitDate
+          )
+          .map((lot) => ({ ...lot, productId: product.id, expired: lot.expiryDate < today }))
+      )
+      .sort((a, b) => (a.expiryDate < b.expiryDate ? -1 : 1));
+  };
+
   // Reports
-  const getProductTransactions = (
+  // Reports read the movements through the storage indexes by product and
+  // date instead of scanning every transaction in memory
+  const getProductTransactions = async (
     productId: string,
     startDate: string,
     endDate: string
-  ): InventoryTransaction[] => {
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    
-    return transactions.filter((t) => {
-      const transactionDate = new Date(t.date);
-      return (
-        t.productId === productId &&
-        transactionDate >= start &&
-        transactionDate <= end
-      );
-    });
+  ): Promise<InventoryTransaction[]> => {
+    if (!storageScope) {
+      return [];
+    }
+    const found = await getStorageAdapter(storageScope.storeId).queryTransactions({ productId, startDate, endDate });
+    return found.filter((t) => isAtLocation(t, currentLocationId));
   };
 
-  const calculateInventoryCost = (
+  const calculateInventoryCost = async (
     productId: string,
     method: InventoryMethod,
     startDate: string,
     endDate: string
-  ) => {
-    const filteredTransactions = getProductTransactions(productId, startDate, endDate);
-    const entries = filteredTransactions.filter((t) => t.type === 'entry');
-    const exits = filteredTransactions.filter((t) => t.type === 'exit');
-    
-    let kardexData: any[] = [];
-    let remainingStock = 0;
-    let totalCost = 0;
-    let averageCost = 0;
-    
-    // Different calculation methods
-    if (method === 'PEPS') {
-      // PEPS - First In, First Out con formato Kardex
-      const allTransactions = [...filteredTransactions].sort((a, b) => 
-        new Date(a.date).getTime() - new Date(b.date).getTime()
-      );
-      
-      let inventory: Array<{quantity: number, unitCost: number}> = [];
-      let runningStock = 0;
-      let runningValue = 0;
-      
-      // Process each transaction chronologically
-      for (const transaction of allTransactions) {
-        let kardexRow: any = {
-          fecha: transaction.date,
-          compras: { cantidad: 0, costoUnitario: 0, costoTotal: 0 },
-          ventas: { cantidad: 0, costoUnitario: 0, costoTotal: 0 },
-          saldos: { cantidad: 0, costoUnitario: 0, costoTotal: 0 }
-        };
-        
-        if (transaction.type === 'entry') {
-          // COMPRA
-          kardexRow.compras = {
-            cantidad: transaction.quantity,
-            costoUnitario: transaction.unitCost,
-            costoTotal: transaction.quantity * transaction.unitCost
-          };
-          
-          // Add to inventory
-          inventory.push({
-            quantity: transaction.quantity,
-            unitCost: transaction.unitCost
-          });
-          
-          runningStock += transaction.quantity;
-          runningValue += transaction.quantity * transaction.unitCost;
-          
-        } else {
-          // VENTA
-          let remainingToSell = transaction.quantity;
-          let totalSaleCost = 0;
-          let weightedAverageCost = 0;
-          
-          // Calculate weighted average cost for this sale using PEPS
-          let tempInventory = [...inventory];
-          let tempRemaining = remainingToSell;
-          
-          while (tempRemaining > 0 && tempInventory.length > 0) {
-            const oldestBatch = tempInventory[0];
-            
-            if (oldestBatch.quantity <= tempRemaining) {
-              totalSaleCost += oldestBatch.quantity * oldestBatch.unitCost;
-              tempRemaining -= oldestBatch.quantity;
-              tempInventory.shift();
-            } else {
-              totalSaleCost += tempRemaining * oldestBatch.unitCost;
-              tempRemaining = 0;
-            }
-          }
-          
-          weightedAverageCost = remainingToSell > 0 ? totalSaleCost / remainingToSell : 0;
-          
-          kardexRow.ventas = {
-            cantidad: transaction.quantity,
-            costoUnitario: weightedAverageCost,
-            costoTotal: totalSaleCost
-          };
-          
-          // Remove from inventory using PEPS
-          while (remainingToSell > 0 && inventory.length > 0) {
-            const oldestBatch = inventory[0];
-            
-            if (oldestBatch.quantity <= remainingToSell) {
-              remainingToSell -= oldestBatch.quantity;
-              runningStock -= oldestBatch.quantity;
-              runningValue -= oldestBatch.quantity * oldestBatch.unitCost;
-              inventory.shift();
-            } else {
-              inventory[0].quantity -= remainingToSell;
-              runningStock -= remainingToSell;
-              runningValue -= remainingToSell * oldestBatch.unitCost;
-              remainingToSell = 0;
-            }
-          }
-        }
-        
-        // Calculate current average cost
-        const currentAverageCost = runningStock > 0 ? runningValue / runningStock : 0;
-        
-        kardexRow.saldos = {
-          cantidad: runningStock,
-          costoUnitario: currentAverageCost,
-          costoTotal: runningValue
-        };
-        
-        kardexData.push(kardexRow);
-      }
-      
-      remainingStock = runningStock;
-      totalCost = runningValue;
-      averageCost = remainingStock > 0 ? totalCost / remainingStock : 0;
-      
-    } else if (method === 'UEPS') {
-      // Last In, First Out
-      const entriesStack = [...entries].sort((a, b) => 
-        new Date(b.date).getTime() - new Date(a.date).getTime()
-      );
-      
-      let remainingEntries = [...entriesStack];
-      
-      // Process exits
-      for (const exit of exits.sort((a, b) => 
-        new Date(a.date).getTime() - new Date(b.date).getTime()
-      )) {
-        let remainingExitQuantity = exit.quantity;
-        
-        while (remainingExitQuantity > 0 && remainingEntries.length > 0) {
-          const newestEntry = remainingEntries[0];
-          
-          if (newestEntry.quantity <= remainingExitQuantity) {
-            // Use entire entry
-            remainingExitQuantity -= newestEntry.quantity;
-            remainingEntries.shift();
-          } else {
-            // Use partial entry
-            remainingEntries[0] = {
-              ...newestEntry,
-              quantity: newestEntry.quantity - remainingExitQuantity,
-            };
-            remainingExitQuantity = 0;
-          }
-        }
-      }
-      
-      // Calculate remaining stock and cost
-      remainingStock = remainingEntries.reduce((sum, entry) => sum + entry.quantity, 0);
-      totalCost = remainingEntries.reduce((sum, entry) => sum + (entry.quantity * entry.unitCost), 0);
-      averageCost = remainingStock > 0 ? totalCost / remainingStock : 0;
-      
-    } else if (method === 'weighted') {
-      // Weighted Average Cost
-      let totalUnits = 0;
-      let totalValue = 0;
-      
-      // Calculate initial weighted average
-      for (const entry of entries) {
-        totalUnits += entry.quantity;
-        totalValue += entry.quantity * entry.unitCost;
-      }
-      
-      // Apply exits
-      for (const exit of exits) {
-        if (totalUnits > 0) {
-          const currentAverageCost = totalValue / totalUnits;
-          totalValue -= exit.quantity * currentAverageCost;
-          totalUnits -= exit.quantity;
-        }
-      }
-      
-      remainingStock = totalUnits;
-      totalCost = totalValue;
-      averageCost = remainingStock > 0 ? totalCost / remainingStock : 0;
-    }
-    
+  ): Promise<InventoryCostReport> => {
+    requirePermission('reports.view');
+
+    // Inventario inicial: everything before the period, valued with the same method.
+    // The latest closed period before the start is taken from its snapshot, which
+    // covers every location together, so a single location is always recomputed.
+    const baseSnapshot = currentLocationId !== null
+      ? undefined
+      : periods
+          .filter((p) => p.status === 'closed' && p.cutoffDate < startDate)
+          .sort((a, b) => (a.cutoffDate < b.cutoffDate ? 1 : -1))[0];
+    const previousTransactions = (
+      await getProductTransactions(productId, baseSnapshot ? addDays(baseSnapshot.cutoffDate, 1) : '', endDate)
+    ).filter((t) => t.date < startDate);
+    const snapshotLayers = baseSnapshot?.snapshot.find((s) => s.productId === productId)?.layers[method];
+    const opening = valuateInventory(
+      previousTransactions,
+      method,
+      baseSnapshot ? { date: baseSnapshot.cutoffDate, layers: snapshotLayers ?? [] } : undefined
+    );
+
+    // Entries in another currency are valued in pesos at their own exchange rate
+    const filteredTransactions = await getProductTransactions(productId, startDate, endDate);
+    const valuation = valuateInventory(filteredTransactions, method, {
+      date: startDate,
+      layers: opening.closingLayers,
+    });
+
     return {
-      entries,
-      exits,
-      kardexData,
-      remainingStock,
-      totalCost,
-      averageCost,
+      entries: filteredTransactions.filter((t) => t.type === 'entry'),
+      exits: filteredTransactions.filter((t) => t.type === 'exit'),
+      adjustments: filteredTransactions.filter((t) => t.type === 'adjustment'),
+      kardexData: valuation.kardex,
+      openingStock: opening.remainingStock,
+      openingCost: opening.totalCost,
+      remainingStock: valuation.remainingStock,
+      totalCost: valuation.totalCost,
+      averageCost: valuation.averageCost,
+      costOfGoodsSold: valuation.costOfGoodsSold,
+      shrinkageCost: valuation.shrinkageCost,
+      closingLayers: valuation.closingLayers,
+      unfilledQuantity: valuation.unfilledQuantity,
     };
   };
 
+  const getTaxSummary = (startDate: string, endDate: string): TaxSummary => {
+    requirePermission('reports.view');
+    return summarizeTaxes(
+      transactions.filter(
+        (t) => isAtLocation(t, currentLocationId) && t.date >= startDate && t.date <= endDate
+      )
+    );
+  };
+
   const value = {
     categories,
     products,
     transactions,
+    periods,
+    auditLog,
+    locations,
+    transfers,
+    exchangeRates,
+    isLoading,
+    currentLocationId,
+    setCurrentLocationId,
+    getLocationName,
+    addLocation,
+    updateLocation,
+    addTransfer,
+    addExchangeRate,
+    deleteExchangeRate,
+    getExchangeRate,
     addCategory,
     updateCategory,
     deleteCategory,
     addProduct,
     updateProduct,
     deleteProduct,
+    assignSatKeys,
     addTransaction,
+    addTransactions,
+    checkTransactions,
+    voidTransaction,
+    closePeriod,
+    reopenPeriod,
+    getClosedThroughDate,
     getProductStock,
+    getMinStock,
     getCategoryStock,
     getLowStockProducts,
+    getProductLots,
+    getExpiringLots,
+    getProductTaxes,
+    getSalePrice,
     getProductTransactions,
     calculateInventoryCost,
+    getTaxSummary,
   };
 
   return <InventoryContext.Provider value={value}>{children}</InventoryContext.Provider>;
@@ -0,0 +1,222 @@
+import React, { createContext, useContext } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { useAuth } from './AuthContext';
+import { useInventory } from './InventoryContext';
+import { useLanguage } from './LanguageContext';
+import { useSales } from './SalesContext';
+import { useSync } from './SyncContext';
+import {
+  buildCfdi,
+  CfdiComprobante,
+  CfdiEmisor,
+  CfdiReceptor,
+  DEFAULT_CLAVE_PROD_SERV,
+  DEFAULT_CLAVE_UNIDAD,
+  FORMAS_PAGO,
+  serializeCfdi,
+  toCfdiDate,
+  validateCfdi,
+} from '../utils/cfdi';
+import { pacClient } from '../utils/pac';
+import { usePersistentCollection } from '../storage';
+
+// Types
+export type InvoiceStatus = 'draft' | 'stamped';
+
+export interface Invoice {
+  id: string;
+  saleId: string;
+  status: InvoiceStatus;
+  cfdi: CfdiComprobante;
+  createdAt: string;
+  stampedAt?: string;
+  pac?: string; // Provider that stamped it
+}
+
+// The store's tax identity, from the .env settings
+export interface InvoiceIssuer extends CfdiEmisor {
+  lugarExpedicion: string;
+  serie: string;
+}
+
+interface InvoicingContextType {
+  // Data
+  invoices: Invoice[];
+  issuer: InvoiceIssuer | null; // null until the .env settings are filled in
+
+  // Invoice operations
+  previewInvoice: (saleId: string, receptor: CfdiReceptor) => CfdiComprobante;
+  createInvoice: (saleId: string, receptor: CfdiReceptor) => Promise<Invoice>;
+  stampInvoice: (id: string) => Promise<void>;
+  deleteInvoice: (id: string) => Promise<void>;
+  getInvoiceForSale: (saleId: string) => Invoice | undefined;
+  getInvoiceXml: (invoice: Invoice) => string;
+}
+
+const InvoicingContext = createContext<InvoicingContextType | undefined>(undefined);
+
+const getIssuer = (): InvoiceIssuer | null => {
+  const env = import.meta.env;
+  if (!env.VITE_CFDI_EMISOR_RFC || !env.VITE_CFDI_EMISOR_NOMBRE || !env.VITE_CFDI_EMISOR_REGIMEN || !env.VITE_CFDI_LUGAR_EXPEDICION) {
+    return null;
+  }
+  return {
+    rfc: env.VITE_CFDI_EMISOR_RFC.toUpperCase(),
+    nombre: env.VITE_CFDI_EMISOR_NOMBRE.toUpperCase(),
+    regimenFiscal: env.VITE_CFDI_EMISOR_REGIMEN,
+    lugarExpedicion: env.VITE_CFDI_LUGAR_EXPEDICION,
+    serie: env.VITE_CFDI_SERIE || 'F',
+  };
+};
+
+const issuer = getIssuer();
+
+export const InvoicingProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { requirePermission } = useAuth();
+  const { products, transactions, getProductTaxes } = useInventory();
+  const { sales } = useSales();
+  const { t } = useLanguage();
+  const { getRemoteCollection, claimInvoice, releaseInvoice } = useSync();
+
+  const remoteInvoices = getRemoteCollection<Invoice>('invoices');
+  const [invoices, setInvoices] = usePersistentCollection<Invoice>('invoices', undefined, remoteInvoices);
+
+  const getInvoiceForSale = (saleId: string) => invoices.find((invoice) => invoice.saleId === saleId);
+
+  // Deleted drafts leave gaps rather than reusing a folio
+  const getLastFolio = () => Math.max(0, ...invoices.map((invoice) => Number(invoice.cfdi.folio)));
+
+  // The invoice reflects the sale as it was rung up: the prices paid and the
+  // tax rates recorded on its exits, or the current ones for older sales.
+  // The folio is provisional; createInvoice assigns the final one
+  const previewInvoice = (saleId: string, receptor: CfdiReceptor): CfdiComprobante => {
+    if (!issuer) {
+      throw new Error(t('invoices.errors.noIssuer'));
+    }
+    const sale = sales.find((s) => s.id === saleId);
+    if (!sale) {
+      throw new Error(t('invoices.errors.saleNotFound'));
+    }
+
+    const lines = sale.lines.map((line) => {
+      const product = products.find((p) => p.id === line.productId);
+      const exit = transactions.find(
+        (transaction) => transaction.saleId === sale.id && transaction.productId === line.productId && transaction.taxes
+      );
+      return {
+        claveProdServ: product?.claveProdServ ?? DEFAULT_CLAVE_PROD_SERV,
+        claveUnidad: product?.claveUnidad ?? DEFAULT_CLAVE_UNIDAD,
+        noIdentificacion: product?.sku ?? '',
+        descripcion: product?.name ?? line.productId,
+        cantidad: line.quantity,
+        total: line.quantity * line.unitPrice,
+        taxes: exit?.taxes
+          ? { ivaRate: exit.taxes.ivaRate, iepsRate: exit.taxes.iepsRate }
+          : getProductTaxes(line.productId),
+      };
+    });
+
+    return buildCfdi({
+      serie: issuer.serie,
+      folio: String(getLastFolio() + 1),
+      fecha: toCfdiDate(new Date()),
+      formaPago: FORMAS_PAGO[sale.paymentMethod],
+      lugarExpedicion: issuer.lugarExpedicion,
+      emisor: { rfc: issuer.rfc, nombre: issuer.nombre, regimenFiscal: issuer.regimenFiscal },
+      receptor: {
+        ...receptor,
+        rfc: receptor.rfc.trim().toUpperCase(),
+        nombre: receptor.nombre.trim().toUpperCase(),
+        domicilioFiscal: receptor.domicilioFiscal.trim(),
+      },
+      lines,
+    });
+  };
+
+  // A sale is invoiced once; a draft that was never stamped can be deleted and redone.
+  // With sync, the server decides both, since another device may be invoicing it too
+  const createInvoice = async (saleId: string, receptor: CfdiReceptor): Promise<Invoice> => {
+    requirePermission('invoices.issue');
+    if (getInvoiceForSale(saleId)) {
+      throw new Error(t('invoices.errors.alreadyInvoiced'));
+    }
+
+    const cfdi = previewInvoice(saleId, receptor);
+    if (validateCfdi(cfdi).length > 0) {
+      throw new Error(t('invoices.errors.invalid'));
+    }
+
+    const id = uuidv4();
+    const folio = await claimInvoice(saleId, id, getLastFolio());
+    const invoice: Invoice = {
+      id,
+      saleId,
+      status: 'draft',
+      cfdi: { ...cfdi, folio: String(folio) },
+      createdAt: new Date().toISOString(),
+    };
+    setInvoices((current) => [...current, invoice]);
+    return invoice;
+  };
+
+  const stampInvoice = async (id: string) => {
+    requirePermission('invoices.issue');
+    const invoice = invoices.find((i) => i.id === id);
+    if (!invoice) {
+      throw new Error(t('invoices.errors.notFound'));
+    }
+    if (invoice.status === 'stamped') {
+      throw new Error(t('invoices.errors.alreadyStamped'));
+    }
+
+    const result = await pacClient.stamp(serializeCfdi(invoice.cfdi));
+    const stamped: Invoice = {
+      ...invoice,
+      status: 'stamped',
+      cfdi: { ...invoice.cfdi, ...result },
+      stampedAt: new Date().toISOString(),
+      pac: pacClient.name,
+    };
+    // Other invoices may have changed while the provider answered
+    setInvoices((current) => current.map((i) => (i.id === id ? stamped : i)));
+  };
+
+  // Stamped invoices can only be cancelled before the SAT, not deleted
+  const deleteInvoice = async (id: string) => {
+    requirePermission('invoices.issue');
+    const invoice = invoices.find((i) => i.id === id);
+    if (!invoice) {
+      throw new Error(t('invoices.errors.notFound'));
+    }
+    if (invoice.status === 'stamped') {
+      throw new Error(t('invoices.errors.stampedCannotDelete'));
+    }
+    // The sale can be invoiced again once the server frees it
+    await releaseInvoice(invoice.saleId, invoice.id);
+    setInvoices((current) => current.filter((i) => i.id !== id));
+  };
+
+  const getInvoiceXml = (invoice: Invoice) => serializeCfdi(invoice.cfdi);
+
+  const value = {
+    invoices,
+    issuer,
+    previewInvoice,
+    createInvoice,
+    stampInvoice,
+    deleteInvoice,
+    getInvoiceForSale,
+    getInvoiceXml,
+  };
+
+  return <InvoicingContext.Provider value={value}>{children}</InvoicingContext.Provider>;
+};
+
+// Custom hook to use the invoicing context
+export const useInvoicing = (): InvoicingContextType => {
+  const context = useContext(InvoicingContext);
+  if (context === undefined) {
+    throw new Error('useInvoicing must be used within an InvoicingProvider');
+  }
+  return context;
+};
@@ -1,45 +1,53 @@
 // Importaciones necesarias para el contexto de idioma
-import React, { createContext, useContext, useState } from 'react';
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import { es } from '../locales/es';
+import { en } from '../locales/en';
+import type { TranslationKey, TranslationParams, Translations } from '../locales/types';
+import {
+  CurrencyCode,
+  LOCALES,
+  formatCurrency as formatCurrencyIn,
+  formatDate as formatDateIn,
+  formatDateTime as formatDateTimeIn,
+  formatNumber as formatNumberIn,
+} from '../utils/format';
 
 // Tipo para los idiomas soportados
-type Language = 'es' | 'en';
+export type Language = 'es' | 'en';
 
-// Interfaz para el diccionario de traducciones
-interface Translations {
-  [key: string]: {
-    [key: string]: string;
-  };
-}
+export type { TranslationKey, TranslationParams };
 
 // Diccionario de traducciones
-const translations: Translations = {
-  en: {
-    // Traducciones en inglés...
-    'nav.dashboard': 'Dashboard',
-    'nav.categories': 'Categories',
-    'nav.products': 'Products',
-    'nav.inventory': 'Inventory',
-    'nav.reports': 'Reports',
-    'nav.logout': 'Logout',
-    // ... resto de traducciones
-  },
-  es: {
-    // Traducciones en español...
-    'nav.dashboard': 'Dashboard',
-    'nav.categories': 'Categorías',
-    'nav.products': 'Productos',
-    'nav.inventory': 'Inventario',
-    'nav.reports': 'Reportes',
-    'nav.logout': 'Cerrar sesión',
-    // ... resto de traducciones
-  },
+const translations: Record<Language, Translations> = { es, en };
+
+// Idioma de la pantalla de inicio de sesión; al entrar manda el del perfil
+const LANGUAGE_KEY = 'inventory_language';
+
+const getStoredLanguage = (): Language => {
+  const stored = localStorage.getItem(LANGUAGE_KEY);
+  return stored === 'en' || stored === 'es' ? stored : 'es';
 };
 
+// Reemplaza cada {nombre} por su valor; los que no se pasan se dejan igual
+const interpolate = (text: string, params: TranslationParams) =>
+  text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] === undefined ? placeholder : String(params[name])
+  );
+
 // Interfaz del contexto de idioma
 interface LanguageContextType {
   language: Language;                  // Idioma actual
   setLanguage: (lang: Language) => void; // Función para cambiar el idioma
-  t: (key: string) => string;         // Función para obtener traducciones
+  /**
+   * Texto traducido. Con `count` se usa la forma `<clave>_one` u `<clave>_other`
+   * que corresponde al número, según las reglas de plural del idioma.
+   */
+  t: (key: TranslationKey, params?: TranslationParams) => string;
+  // Formatos con la región del idioma (es-MX, en-US); los importes son en pesos salvo que se indique
+  formatCurrency: (amount: number, currency?: CurrencyCode) => string;
+  formatNumber: (value: number) => string;
+  formatDate: (date: string) => string;         // Fecha de calendario o ISO
+  formatDateTime: (timestamp: string) => string;
 }
 
 // Creación del contexto
@@ -48,15 +56,43 @@ const LanguageContext = createContext<LanguageContextType | undefined>(undefined
 // Proveedor del contexto de idioma
 export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   // Estado para el idioma actual (español por defecto)
-  const [language, setLanguage] = useState<Language>('es');
+  const [language, setLanguageState] = useState<Language>(getStoredLanguage);
+
+  const setLanguage = useCallback((lang: Language) => {
+    localStorage.setItem(LANGUAGE_KEY, lang);
+    setLanguageState(lang);
+  }, []);
 
   // Función para obtener traducciones
-  const t = (key: string): string => {
-    return translations[language][key] || key;
-  };
+  const t = useCallback(
+    (key: TranslationKey, params: TranslationParams = {}): string => {
+      const dictionary = translations[language];
+      let text: string | undefined;
+      if (typeof params.count === 'number') {
+        const form = new Intl.PluralRules(language).select(params.count);
+        text = dictionary[`${key}_${form}` as keyof Translations] ?? dictionary[`${key}_other` as keyof Translations];
+      }
+      text ??= dictionary[key as keyof Translations] ?? key;
+      return interpolate(text, params);
+    },
+    [language]
+  );
+
+  const value = useMemo(() => {
+    const locale = LOCALES[language];
+    return {
+      language,
+      setLanguage,
+      t,
+      formatCurrency: (amount: number, currency?: CurrencyCode) => formatCurrencyIn(amount, locale, currency),
+      formatNumber: (number: number) => formatNumberIn(number, locale),
+      formatDate: (date: string) => formatDateIn(date, locale),
+      formatDateTime: (timestamp: string) => formatDateTimeIn(timestamp, locale),
+    };
+  }, [language, setLanguage, t]);
 
   return (
-    <LanguageContext.Provider value={{ language, setLanguage, t }}>
+    <LanguageContext.Provider value={value}>
       {children}
     </LanguageContext.Provider>
   );
@@ -69,4 +105,4 @@ export const useLanguage = (): LanguageContextType => {
     throw new Error('useLanguage debe ser usado dentro de un LanguageProvider');
   }
   return context;
-};
\ No newline at end of file
+};
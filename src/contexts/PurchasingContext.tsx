@@ -0,0 +1,312 @@
+import React, { createContext, useContext } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { useAuth } from './AuthContext';
+import { useInventory } from './InventoryContext';
+import { useLanguage } from './LanguageContext';
+import { useSync } from './SyncContext';
+import { getLastFolioNumber, BASE_CURRENCY, CurrencyCode } from '../utils/format';
+import { usePersistentCollection } from '../storage';
+
+// Types
+export interface SupplierProduct {
+  productId: string;
+  lastCost: number; // In `currency`
+  currency?: CurrencyCode; // Missing means pesos
+  exchangeRate?: number; // Pesos per unit of `currency` at the last receipt
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  rfc: string;
+  contact: string;
+  phone: string;
+  email: string;
+  leadTimeDays: number;
+  products: SupplierProduct[];
+}
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partial' | 'received';
+
+export interface PurchaseOrderLine {
+  id: string;
+  productId: string;
+  quantity: number;
+  unitCost: number; // In `currency`
+  currency?: CurrencyCode; // Missing means pesos
+  exchangeRate?: number; // Pesos per unit of `currency` the receipt is valued at
+  receivedQuantity: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  folio: string;
+  supplierId: string;
+  status: PurchaseOrderStatus;
+  createdAt: string;
+  expectedDate: string;
+  notes: string;
+  lines: PurchaseOrderLine[];
+}
+
+export interface PurchaseOrderInput {
+  supplierId: string;
+  expectedDate: string;
+  notes: string;
+  lines: Array<Omit<PurchaseOrderLine, 'id' | 'receivedQuantity'>>;
+}
+
+export interface PurchaseOrderReceipt {
+  lineId: string;
+  quantity: number;
+}
+
+interface PurchasingContextType {
+  // Data
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+
+  // Supplier operations
+  addSupplier: (supplier: Omit<Supplier, 'id'>) => void;
+  updateSupplier: (supplier: Supplier) => void;
+  deleteSupplier: (id: string) => void;
+
+  // Purchase order operations
+  createPurchaseOrder: (order: PurchaseOrderInput) => Promise<void>;
+  updatePurchaseOrder: (id: string, order: PurchaseOrderInput) => void;
+  deletePurchaseOrder: (id: string) => void;
+  sendPurchaseOrder: (id: string) => void;
+  receivePurchaseOrder: (id: string, receipts: PurchaseOrderReceipt[], date: string) => void;
+}
+
+const PurchasingContext = createContext<PurchasingContextType | undefined>(undefined);
+
+const formatFolio = (sequence: number) => `OC-${String(sequence).padStart(4, '0')}`;
+
+const isForeignCurrency = (line: Pick<PurchaseOrderLine, 'currency'>) =>
+  line.currency !== undefined && line.currency !== BASE_CURRENCY;
+
+// What a line costs in pesos, at its exchange rate
+export const getLineBaseCost = (line: Pick<PurchaseOrderLine, 'quantity' | 'unitCost' | 'currency' | 'exchangeRate'>) =>
+  line.quantity * line.unitCost * (isForeignCurrency(line) ? line.exchangeRate ?? 0 : 1);
+
+export const PurchasingProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { requirePermission } = useAuth();
+  const { addTransactions, getClosedThroughDate } = useInventory();
+  const { t, formatDate } = useLanguage();
+  const { getRemoteCollection, getNextFolio } = useSync();
+
+  const remoteSuppliers = getRemoteCollection<Supplier>('suppliers');
+  const remotePurchaseOrders = getRemoteCollection<PurchaseOrder>('purchase_orders');
+  const [suppliers, setSuppliers] = usePersistentCollection<Supplier>('suppliers', undefined, remoteSuppliers);
+  const [purchaseOrders, setPurchaseOrders] = usePersistentCollection<PurchaseOrder>(
+    'purchase_orders',
+    undefined,
+    remotePurchaseOrders
+  );
+
+  // Supplier operations
+  const addSupplier = (supplier: Omit<Supplier, 'id'>) => {
+    requirePermission('purchasing.manage');
+    const newSupplier = { ...supplier, id: uuidv4() };
+    setSuppliers([...suppliers, newSupplier]);
+  };
+
+  const updateSupplier = (updatedSupplier: Supplier) => {
+    requirePermission('purchasing.manage');
+    setSuppliers(
+      suppliers.map((supplier) => (supplier.id === updatedSupplier.id ? updatedSupplier : supplier))
+    );
+  };
+
+  const deleteSupplier = (id: string) => {
+    requirePermission('purchasing.manage');
+    // Check if supplier has any purchase orders
+    const hasOrders = purchaseOrders.some((order) => order.supplierId === id);
+    if (hasOrders) {
+      throw new Error(t('purchaseOrders.errors.supplierHasOrders'));
+    }
+    setSuppliers(suppliers.filter((supplier) => supplier.id !== id));
+  };
+
+  // Purchase order operations
+  const validateOrder = (order: PurchaseOrderInput) => {
+    if (!suppliers.some((supplier) => supplier.id === order.supplierId)) {
+      throw new Error(t('purchaseOrders.errors.supplierNotFound'));
+    }
+    if (order.lines.length === 0) {
+      throw new Error(t('purchaseOrders.errors.noLines'));
+    }
+    if (order.lines.some((line) => line.quantity <= 0 || line.unitCost <= 0)) {
+      throw new Error(t('purchaseOrders.errors.invalidLines'));
+    }
+    if (order.lines.some((line) => isForeignCurrency(line) && !((line.exchangeRate ?? 0) > 0))) {
+      throw new Error(t('purchaseOrders.errors.exchangeRateRequired'));
+    }
+  };
+
+  const createPurchaseOrder = async (order: PurchaseOrderInput) => {
+    requirePermission('purchasing.manage');
+    validateOrder(order);
+
+    const folio = formatFolio(await getNextFolio('purchase_orders', getLastFolioNumber(purchaseOrders)));
+    const newOrder: PurchaseOrder = {
+      ...order,
+      id: uuidv4(),
+      folio,
+      status: 'draft',
+      createdAt: new Date().toISOString(),
+      lines: order.lines.map((line) => ({ ...line, id: uuidv4(), receivedQuantity: 0 })),
+    };
+
+    setPurchaseOrders((current) => [...current, newOrder]);
+  };
+
+  const updatePurchaseOrder = (id: string, order: PurchaseOrderInput) => {
+    requirePermission('purchasing.manage');
+    const existing = purchaseOrders.find((o) => o.id === id);
+    if (!existing || existing.status !== 'draft') {
+      throw new Error(t('purchaseOrders.errors.editDraftOnly'));
+    }
+    validateOrder(order);
+
+    setPurchaseOrders(
+      purchaseOrders.map((o) =>
+        o.id === id
+          ? {
+              ...o,
+              ...order,
+              lines: order.lines.map((line) => ({ ...line, id: uuidv4(), receivedQuantity: 0 })),
+            }
+          : o
+      )
+    );
+  };
+
+  const deletePurchaseOrder = (id: string) => {
+    requirePermission('purchasing.manage');
+    const existing = purchaseOrders.find((o) => o.id === id);
+    if (!existing || existing.status !== 'draft') {
+      throw new Error(t('purchaseOrders.errors.deleteDraftOnly'));
+    }
+    setPurchaseOrders(purchaseOrders.filter((o) => o.id !== id));
+  };
+
+  const sendPurchaseOrder = (id: string) => {
+    requirePermission('purchasing.manage');
+    const existing = purchaseOrders.find((o) => o.id === id);
+    if (!existing || existing.status !== 'draft') {
+      throw new Error(t('purchaseOrders.errors.sendDraftOnly'));
+    }
+    setPurchaseOrders(purchaseOrders.map((o) => (o.id === id ? { ...o, status: 'sent' } : o)));
+  };
+
+  // Receiving posts one entry per line at the order's unit cost
+  const receivePurchaseOrder = (id: string, receipts: PurchaseOrderReceipt[], date: string) => {
+    requirePermission('purchasing.manage');
+    const order = purchaseOrders.find((o) => o.id === id);
+    if (!order || (order.status !== 'sent' && order.status !== 'partial')) {
+      throw new Error(t('purchaseOrders.errors.notReceivable'));
+    }
+
+    const closedThrough = getClosedThroughDate();
+    if (closedThrough && date <= closedThrough) {
+      throw new Error(t('purchaseOrders.errors.periodClosed', { date: formatDate(closedThrough) }));
+    }
+
+    const validReceipts = receipts.filter((receipt) => receipt.quantity > 0);
+    if (validReceipts.length === 0) {
+      throw new Error(t('purchaseOrders.errors.nothingToReceive'));
+    }
+
+    for (const receipt of validReceipts) {
+      const line = order.lines.find((l) => l.id === receipt.lineId);
+      if (!line) {
+        throw new Error(t('purchaseOrders.errors.lineNotFound'));
+      }
+      if (line.receivedQuantity + receipt.quantity > line.quantity) {
+        throw new Error(t('purchaseOrders.errors.overReceived'));
+      }
+    }
+
+    // The entries are posted all or none, and the order is updated right after,
+    // so a rejected receipt leaves both as they were and can be repeated
+    addTransactions(
+      validReceipts.map((receipt) => {
+        const line = order.lines.find((l) => l.id === receipt.lineId)!;
+        return {
+          productId: line.productId,
+          type: 'entry' as const,
+          quantity: receipt.quantity,
+          unitCost: line.unitCost,
+          // Kept in the supplier's currency with its rate, as the entry form does
+          ...(isForeignCurrency(line) ? { currency: line.currency, exchangeRate: line.exchangeRate } : {}),
+          date,
+          notes: t('purchaseOrders.receiptNote', { folio: order.folio }),
+          purchaseOrderId: order.id,
+        };
+      })
+    );
+
+    const lines = order.lines.map((line) => {
+      const receipt = validReceipts.find((r) => r.lineId === line.id);
+      return receipt ? { ...line, receivedQuantity: line.receivedQuantity + receipt.quantity } : line;
+    });
+    const isComplete = lines.every((line) => line.receivedQuantity >= line.quantity);
+
+    setPurchaseOrders(
+      purchaseOrders.map((o) =>
+        o.id === id ? { ...o, lines, status: isComplete ? 'received' : 'partial' } : o
+      )
+    );
+
+    // Keep the supplier's last cost up to date with what was received
+    setSuppliers(
+      suppliers.map((supplier) => {
+        if (supplier.id !== order.supplierId) {
+          return supplier;
+        }
+        const products = [...supplier.products];
+        for (const receipt of validReceipts) {
+          const line = order.lines.find((l) => l.id === receipt.lineId)!;
+          const lastCost: SupplierProduct = {
+            productId: line.productId,
+            lastCost: line.unitCost,
+            ...(isForeignCurrency(line) ? { currency: line.currency, exchangeRate: line.exchangeRate } : {}),
+          };
+          const index = products.findIndex((p) => p.productId === line.productId);
+          if (index >= 0) {
+            products[index] = lastCost;
+          } else {
+            products.push(lastCost);
+          }
+        }
+        return { ...supplier, products };
+      })
+    );
+  };
+
+  const value = {
+    suppliers,
+    purchaseOrders,
+    addSupplier,
+    updateSupplier,
+    deleteSupplier,
+    createPurchaseOrder,
+    updatePurchaseOrder,
+    deletePurchaseOrder,
+    sendPurchaseOrder,
+    receivePurchaseOrder,
+  };
+
+  return <PurchasingContext.Provider value={value}>{children}</PurchasingContext.Provider>;
+};
+
+// Custom hook to use the purchasing context
+export const usePurchasing = (): PurchasingContextType => {
+  const context = useContext(PurchasingContext);
+  if (context === undefined) {
+    throw new Error('usePurchasing must be used within a PurchasingProvider');
+  }
+  return context;
+};
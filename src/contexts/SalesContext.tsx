@@ -0,0 +1,156 @@
+import React, { createContext, useContext } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { useAuth } from './AuthContext';
+import { useInventory } from './InventoryContext';
+import { useLanguage } from './LanguageContext';
+import { useSync } from './SyncContext';
+import { getLastFolioNumber, getToday } from '../utils/format';
+import { extractTaxes } from '../utils/taxes';
+import { usePersistentCollection } from '../storage';
+
+// Types
+// 'card' is a credit card; sales from before debit cards were told apart also use it
+export type PaymentMethod = 'cash' | 'card' | 'debit' | 'transfer';
+
+export interface SaleLine {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface Sale {
+  id: string;
+  folio: string;
+  date: string;
+  createdAt: string;
+  lines: SaleLine[];
+  total: number;
+  taxes?: { iva: number; ieps: number }; // Included in the total
+  paymentMethod: PaymentMethod;
+  amountReceived: number;
+  change: number;
+  customer: string;
+  locationId?: string; // Store that sold it; missing on sales from before locations
+  discardedProductIds?: string[]; // Exits discarded in the sync review for lack of stock
+}
+
+export interface SaleInput {
+  lines: SaleLine[];
+  paymentMethod: PaymentMethod;
+  amountReceived: number;
+  customer: string;
+}
+
+interface SalesContextType {
+  // Data
+  sales: Sale[];
+
+  // Sale operations
+  registerSale: (sale: SaleInput) => Promise<Sale>;
+  getSalesByDate: (date: string) => Sale[];
+}
+
+const SalesContext = createContext<SalesContextType | undefined>(undefined);
+
+const formatFolio = (sequence: number) => `V-${String(sequence).padStart(6, '0')}`;
+
+export const SalesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { requirePermission } = useAuth();
+  const { addTransactions, checkTransactions, getClosedThroughDate, getProductTaxes, currentLocationId } = useInventory();
+  const { t, formatDate } = useLanguage();
+  const { getRemoteCollection, getNextFolio } = useSync();
+
+  const remoteSales = getRemoteCollection<Sale>('sales');
+  const [sales, setSales] = usePersistentCollection<Sale>('sales', undefined, remoteSales);
+
+  // A sale posts one exit per line, all grouped under the sale id
+  const registerSale = async (input: SaleInput): Promise<Sale> => {
+    requirePermission('sales.register');
+    const lines = input.lines.filter((line) => line.quantity > 0);
+    if (lines.length === 0) {
+      throw new Error(t('pos.errors.empty'));
+    }
+
+    // Sold from the location the register works in
+    const locationId = currentLocationId;
+    if (!locationId) {
+      throw new Error(t('pos.errors.chooseLocation'));
+    }
+
+    const date = getToday();
+    const closedThrough = getClosedThroughDate();
+    if (closedThrough && date <= closedThrough) {
+      throw new Error(t('pos.errors.periodClosed', { date: formatDate(closedThrough) }));
+    }
+
+    const total = lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
+    const taxes = { iva: 0, ieps: 0 };
+    for (const line of lines) {
+      const breakdown = extractTaxes(line.quantity * line.unitPrice, getProductTaxes(line.productId));
+      taxes.iva += breakdown.iva;
+      taxes.ieps += breakdown.ieps;
+    }
+    const amountReceived = input.paymentMethod === 'cash' ? input.amountReceived : total;
+    if (amountReceived < total) {
+      throw new Error(t('pos.errors.notEnoughCash'));
+    }
+
+    const saleId = uuidv4();
+    const exits = lines.map((line) => ({
+      productId: line.productId,
+      type: 'exit' as const,
+      quantity: line.quantity,
+      unitCost: 0,
+      date,
+      notes: '',
+      saleId,
+      unitPrice: line.unitPrice,
+      locationId,
+    }));
+    // The whole cart is checked with the same stock rules as posting it, each
+    // line seeing the others, so the sale is either posted in full or not at all
+    checkTransactions(exits);
+
+    // Taken last, so a rejected sale does not use up a folio
+    const folio = formatFolio(await getNextFolio('sales', getLastFolioNumber(sales)));
+    const sale: Sale = {
+      id: saleId,
+      folio,
+      date,
+      createdAt: new Date().toISOString(),
+      lines,
+      total,
+      taxes,
+      paymentMethod: input.paymentMethod,
+      amountReceived,
+      change: amountReceived - total,
+      customer: input.customer,
+      locationId,
+    };
+
+    addTransactions(exits.map((exit) => ({ ...exit, notes: t('pos.saleNote', { folio }) })));
+
+    // Other devices' sales may have arrived while the folio was assigned
+    setSales((current) => [...current, sale]);
+    return sale;
+  };
+
+  const getSalesByDate = (date: string) => sales.filter((sale) => sale.date === date);
+
+  const value = {
+    sales,
+    registerSale,
+    getSalesByDate,
+  };
+
+  return <SalesContext.Provider value={value}>{children}</SalesContext.Provider>;
+};
+
+// Custom hook to use the sales context
+export const useSales = (): SalesContextType => {
+  const context = useContext(SalesContext);
+  if (context === undefined) {
+    throw new Error('useSales must be used within a SalesProvider');
+  }
+  return context;
+};
@@ -0,0 +1,186 @@
+import React, { createContext, useState, useContext, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from './AuthContext';
+import { useLanguage } from './LanguageContext';
+import {
+  claimSaleInvoice,
+  createOfflineSync,
+  isSyncEnabled,
+  releaseSaleInvoice,
+  reserveFolios,
+  takeInvoiceFolio,
+  takeReservedFolio,
+  CollectionName,
+  FolioSequence,
+  OfflineSync,
+  OutboxEntry,
+  RemoteCollection,
+  StoredRecord,
+  StorageScope,
+  StorageScopeContext,
+  SyncConflict,
+} from '../storage';
+
+interface SyncContextType {
+  // Status
+  isSyncEnabled: boolean;
+  isOnline: boolean;
+  pending: OutboxEntry[];
+  conflicts: SyncConflict[];
+
+  // Operations
+  getRemoteCollection: <T extends StoredRecord>(collection: CollectionName) => RemoteCollection<T> | null;
+  resolveConflict: (id: string, keep: 'local' | 'remote') => Promise<void>;
+  // Next folio of a store-wide sequence; `lastFolio` is the highest one in use
+  getNextFolio: (sequence: FolioSequence, lastFolio: number) => Promise<number>;
+  // Marks the sale as invoiced and returns the invoice's folio; only online
+  claimInvoice: (saleId: string, invoiceId: string, lastFolio: number) => Promise<number>;
+  releaseInvoice: (saleId: string, invoiceId: string) => Promise<void>;
+}
+
+// Folios a device reserves at a time, so it can keep numbering while offline
+const FOLIO_BLOCK_SIZE = 20;
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export const SyncProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const storeId = user && isSyncEnabled() ? user.storeId : null;
+
+  const [sync, setSync] = useState<OfflineSync | null>(null);
+  const [isOnline, setIsOnline] = useState(false);
+  const [pending, setPending] = useState<OutboxEntry[]>([]);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+
+  // One sync engine per store, replaced when the signed-in user changes
+  useEffect(() => {
+    if (!storeId) {
+      setSync(null);
+      setPending([]);
+      setConflicts([]);
+      return;
+    }
+
+    const instance = createOfflineSync(storeId);
+    setSync(instance);
+    const unsubscribe = instance.onStatusChange((status) => {
+      setIsOnline(status.isOnline);
+      setPending(status.pending);
+      setConflicts(status.conflicts);
+    });
+
+    return () => {
+      unsubscribe();
+      instance.dispose();
+    };
+  }, [storeId]);
+
+  // Collections use the local copy of the store the sync engine is connected
+  // to, so both switch together; signed out of a synced store nothing is loaded
+  const scopeStoreId = sync?.storeId ?? null;
+  const storageScope = useMemo<StorageScope | null>(
+    () => (!isSyncEnabled() ? { storeId: null } : scopeStoreId ? { storeId: scopeStoreId } : null),
+    [scopeStoreId]
+  );
+
+  const getRemoteCollection = useCallback(
+    <T extends StoredRecord>(collection: CollectionName) => sync?.collection<T>(collection) ?? null,
+    [sync]
+  );
+
+  const resolveConflict = async (id: string, keep: 'local' | 'remote') => {
+    if (!sync) {
+      throw new Error(t('sync.errors.inactive'));
+    }
+    if (!(await sync.resolveConflict(id, keep))) {
+      throw new Error(t('sync.errors.conflictNotFound'));
+    }
+  };
+
+  // Without sync this device is the only one numbering; with it, folios come
+  // from the shared counter so two devices never hand out the same one
+  const getNextFolio = async (sequence: FolioSequence, lastFolio: number) => {
+    if (!isSyncEnabled()) {
+      return lastFolio + 1;
+    }
+    if (!sync) {
+      throw new Error(t('sync.errors.inactive'));
+    }
+
+    const reserved = takeReservedFolio(sync.storeId, sequence);
+    if (reserved !== null) {
+      return reserved;
+    }
+    if (!isOnline) {
+      throw new Error(t('sync.errors.noFoliosOffline'));
+    }
+    const folio = await reserveFolios(sync.storeId, sequence, lastFolio, FOLIO_BLOCK_SIZE);
+    if (folio === null) {
+      throw new Error(t('sync.errors.folioNotReserved'));
+    }
+    return folio;
+  };
+
+  // Whether a sale was invoiced and the invoice folios are decided on the
+  // server, so two devices can neither invoice the same sale nor share a folio
+  const getInvoicingSync = () => {
+    if (!sync) {
+      throw new Error(t('sync.errors.inactive'));
+    }
+    if (!isOnline) {
+      throw new Error(t('sync.errors.invoicingOffline'));
+    }
+    return sync;
+  };
+
+  const claimInvoice = async (saleId: string, invoiceId: string, lastFolio: number) => {
+    if (!isSyncEnabled()) {
+      return lastFolio + 1;
+    }
+    const { storeId: syncStoreId } = getInvoicingSync();
+
+    if (!(await claimSaleInvoice(syncStoreId, saleId, invoiceId))) {
+      throw new Error(t('invoices.errors.alreadyInvoiced'));
+    }
+    const folio = await takeInvoiceFolio(syncStoreId, lastFolio);
+    if (folio === null) {
+      await releaseSaleInvoice(syncStoreId, saleId, invoiceId);
+      throw new Error(t('sync.errors.folioNotReserved'));
+    }
+    return folio;
+  };
+
+  const releaseInvoice = async (saleId: string, invoiceId: string) => {
+    if (!isSyncEnabled()) {
+      return;
+    }
+    await releaseSaleInvoice(getInvoicingSync().storeId, saleId, invoiceId);
+  };
+
+  const value = {
+    isSyncEnabled: storeId !== null,
+    isOnline,
+    pending,
+    conflicts,
+    getRemoteCollection,
+    resolveConflict,
+    getNextFolio,
+    claimInvoice,
+    releaseInvoice,
+  };
+
+  return (
+    <SyncContext.Provider value={value}>
+      <StorageScopeContext.Provider value={storageScope}>{children}</StorageScopeContext.Provider>
+    </SyncContext.Provider>
+  );
+};
+
+// Custom hook to use the sync context
+export const useSync = (): SyncContextType => {
+  const context = useContext(SyncContext);
+  if (context === undefined) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+};
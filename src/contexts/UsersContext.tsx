@@ -0,0 +1,150 @@
+import React, { createContext, useState, useContext, useEffect } from 'react';
+import { useAuth } from './AuthContext';
+import { useLanguage } from './LanguageContext';
+import {
+  getEmailKey,
+  isSharedStore,
+  removeInvitation,
+  saveInvitation,
+  setOpenRegistration as saveOpenRegistration,
+  subscribeInvitations,
+  subscribeMembers,
+  subscribeOpenRegistration,
+  updateMember,
+  StoreInvitation,
+  StoreMember,
+} from '../storage';
+import { Role } from '../utils/permissions';
+
+interface UsersContextType {
+  // Data
+  isAvailable: boolean; // Only shared stores have members to manage
+  storeId: string | null;
+  members: StoreMember[];
+  invitations: StoreInvitation[];
+  openRegistration: boolean;
+
+  // Operations
+  inviteUser: (email: string, role: Role) => Promise<void>;
+  cancelInvitation: (email: string) => Promise<void>;
+  changeRole: (uid: string, role: Role) => Promise<void>;
+  setUserDisabled: (uid: string, disabled: boolean) => Promise<void>;
+  setOpenRegistration: (open: boolean) => Promise<void>;
+}
+
+const UsersContext = createContext<UsersContextType | undefined>(undefined);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const UsersProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, hasPermission, requirePermission } = useAuth();
+  const { t } = useLanguage();
+  const canManage = hasPermission('users.manage');
+  const storeId = user && isSharedStore(user.profile?.defaultStoreId) ? user.storeId : null;
+
+  const [members, setMembers] = useState<StoreMember[]>([]);
+  const [invitations, setInvitations] = useState<StoreInvitation[]>([]);
+  const [openRegistration, setOpenRegistration] = useState(true);
+
+  // Only the owner reads the member list
+  useEffect(() => {
+    if (!storeId || !canManage) {
+      setMembers([]);
+      setInvitations([]);
+      return;
+    }
+
+    const onError = (error: Error) => console.error('Could not load the store users', error);
+    const unsubscribers = [
+      subscribeMembers(storeId, setMembers, onError),
+      subscribeInvitations(storeId, setInvitations, onError),
+      subscribeOpenRegistration(storeId, setOpenRegistration, onError),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [storeId, canManage]);
+
+  const getActiveStoreId = () => {
+    requirePermission('users.manage');
+    if (!storeId) {
+      throw new Error(t('users.errors.noSharedStore'));
+    }
+    return storeId;
+  };
+
+  // The store's own account and the signed-in user cannot be locked out from here
+  const getEditableMember = (uid: string) => {
+    const member = members.find((m) => m.uid === uid);
+    if (!member) {
+      throw new Error(t('users.errors.notFound'));
+    }
+    if (uid === storeId) {
+      throw new Error(t('users.errors.ownerLocked'));
+    }
+    if (uid === user?.id) {
+      throw new Error(t('users.errors.selfLocked'));
+    }
+    return member;
+  };
+
+  const inviteUser = async (email: string, role: Role) => {
+    const activeStoreId = getActiveStoreId();
+    const normalizedEmail = email.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(normalizedEmail)) {
+      throw new Error(t('users.errors.invalidEmail'));
+    }
+    if (members.some((m) => getEmailKey(m.email) === getEmailKey(normalizedEmail))) {
+      throw new Error(t('users.errors.alreadyMember'));
+    }
+
+    await saveInvitation(activeStoreId, {
+      email: normalizedEmail,
+      role,
+      invitedBy: user!.email,
+      invitedAt: new Date().toISOString(),
+    });
+  };
+
+  const cancelInvitation = async (email: string) => {
+    await removeInvitation(getActiveStoreId(), email);
+  };
+
+  const changeRole = async (uid: string, role: Role) => {
+    const activeStoreId = getActiveStoreId();
+    getEditableMember(uid);
+    await updateMember(activeStoreId, uid, { role });
+  };
+
+  const setUserDisabled = async (uid: string, disabled: boolean) => {
+    const activeStoreId = getActiveStoreId();
+    getEditableMember(uid);
+    await updateMember(activeStoreId, uid, { disabled });
+  };
+
+  const setOpenRegistrationSetting = async (open: boolean) => {
+    await saveOpenRegistration(getActiveStoreId(), open);
+  };
+
+  const value = {
+    isAvailable: storeId !== null,
+    storeId,
+    members,
+    invitations,
+    openRegistration,
+    inviteUser,
+    cancelInvitation,
+    changeRole,
+    setUserDisabled,
+    setOpenRegistration: setOpenRegistrationSetting,
+  };
+
+  return <UsersContext.Provider value={value}>{children}</UsersContext.Provider>;
+};
+
+// Custom hook to use the users context
+export const useUsers = (): UsersContextType => {
+  const context = useContext(UsersContext);
+  if (context === undefined) {
+    throw new Error('useUsers must be used within a UsersProvider');
+  }
+  return context;
+};
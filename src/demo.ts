@@ -0,0 +1,34 @@
+// src/demo.ts
+import { applyActionCode, sendEmailVerification, User } from "firebase/auth";
+import { auth, AUTH_EMULATOR_URL, firebaseProjectId } from "./firebase";
+
+// Account created on demand in the Auth emulator; never exists in a real project
+export const DEMO_USER = {
+  email: "demo@minisuper.local",
+  password: "demo-minisuper",
+  name: "Usuario Demo",
+};
+
+interface EmulatorOobCode {
+  email: string;
+  oobCode: string;
+  requestType: string;
+}
+
+// The emulator sends no mail; it lists the links instead, so the demo account verifies itself
+export const verifyDemoEmail = async (user: User) => {
+  await sendEmailVerification(user);
+
+  const response = await fetch(`${AUTH_EMULATOR_URL}/emulator/v1/projects/${firebaseProjectId}/oobCodes`);
+  if (!response.ok) {
+    throw new Error("Could not read the verification codes from the Auth emulator");
+  }
+  const { oobCodes = [] } = (await response.json()) as { oobCodes?: EmulatorOobCode[] };
+  const verification = oobCodes
+    .filter((code) => code.requestType === "VERIFY_EMAIL" && code.email === user.email)
+    .pop();
+  if (!verification) {
+    throw new Error("The Auth emulator did not create a verification code");
+  }
+  await applyActionCode(auth, verification.oobCode);
+};
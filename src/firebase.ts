@@ -0,0 +1,23 @@
+// src/firebase.ts
+import { initializeApp } from "firebase/app";
+import { getAuth, connectAuthEmulator } from "firebase/auth";
+import { getDatabase, connectDatabaseEmulator } from "firebase/database";
+import { AUTH_EMULATOR_URL, firebaseConfig, isEmulatorEnabled, missingFirebaseConfig } from "./firebaseConfig";
+
+export { AUTH_EMULATOR_URL, isDemoMode, isEmulatorEnabled } from "./firebaseConfig";
+
+// main.tsx only loads the app when the configuration is complete
+if (missingFirebaseConfig.length > 0) {
+  throw new Error(`Missing Firebase configuration: ${missingFirebaseConfig.join(", ")} (see .env.example)`);
+}
+
+export const firebaseProjectId = firebaseConfig.projectId;
+
+const app = initializeApp(firebaseConfig);
+export const auth = getAuth(app);
+export const database = getDatabase(app);
+
+if (isEmulatorEnabled) {
+  connectAuthEmulator(auth, AUTH_EMULATOR_URL, { disableWarnings: true });
+  connectDatabaseEmulator(database, "127.0.0.1", 9000);
+}
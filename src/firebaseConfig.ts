@@ -0,0 +1,29 @@
+// src/firebaseConfig.ts
+// Read apart from firebase.ts so the app can check it before loading Firebase
+const env = import.meta.env;
+
+// Local emulators (see firebase.json): VITE_USE_FIREBASE_EMULATOR=true npm run dev
+export const isEmulatorEnabled = env.VITE_USE_FIREBASE_EMULATOR === "true";
+export const AUTH_EMULATOR_URL = "http://127.0.0.1:9099";
+
+// One-click demo account, only in development against the emulators
+export const isDemoMode = env.DEV && isEmulatorEnabled && env.VITE_DEMO_MODE === "true";
+
+// The emulators accept any "demo-" project without real keys
+const EMULATOR_PROJECT_ID = "demo-minisuper";
+
+export const firebaseConfig = {
+  apiKey: env.VITE_FIREBASE_API_KEY || (isEmulatorEnabled ? "demo-api-key" : ""),
+  authDomain: env.VITE_FIREBASE_AUTH_DOMAIN,
+  databaseURL: env.VITE_FIREBASE_DATABASE_URL,
+  projectId: env.VITE_FIREBASE_PROJECT_ID || (isEmulatorEnabled ? EMULATOR_PROJECT_ID : ""),
+  storageBucket: env.VITE_FIREBASE_STORAGE_BUCKET,
+  messagingSenderId: env.VITE_FIREBASE_MESSAGING_SENDER_ID,
+  appId: env.VITE_FIREBASE_APP_ID,
+};
+
+// Variables without which Firebase cannot start; main.tsx shows them instead of the app
+export const missingFirebaseConfig = [
+  ...(firebaseConfig.apiKey ? [] : ["VITE_FIREBASE_API_KEY"]),
+  ...(firebaseConfig.projectId ? [] : ["VITE_FIREBASE_PROJECT_ID"]),
+];
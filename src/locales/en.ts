@@ -0,0 +1,826 @@
+import type { Translations } from './types';
+
+// Interface texts in English; every key in es.ts must be here
+export const en: Translations = {
+  // common
+  'common.cancel': 'Cancel',
+  'common.create': 'Create',
+  'common.update': 'Update',
+  'common.save': 'Save',
+  'common.close': 'Close',
+  'common.add': '+ Add',
+  'common.all': 'All',
+  'common.allFeminine': 'All',
+  'common.name': 'Name',
+  'common.description': 'Description',
+  'common.notes': 'Notes',
+  'common.date': 'Date',
+  'common.startDate': 'Start Date',
+  'common.endDate': 'End Date',
+  'common.product': 'Product',
+  'common.products': 'Products',
+  'common.quantity': 'Quantity',
+  'common.unitCost': 'Unit cost',
+  'common.total': 'Total',
+  'common.status': 'Status',
+  'common.user': 'User',
+  'common.filters': 'Filters',
+  'common.exportExcel': 'Export to Excel',
+  'common.print': 'Print',
+  'common.unknownProduct': 'Unknown product',
+  'common.unknownCategory': 'No category',
+  'common.logout': 'Log out',
+  'common.units_one': '{count} unit',
+  'common.units_other': '{count} units',
+
+  // nav
+  'nav.dashboard': 'Dashboard',
+  'nav.pos': 'Point of Sale',
+  'nav.invoices': 'Invoices',
+  'nav.categories': 'Categories',
+  'nav.products': 'Products',
+  'nav.satKeys': 'SAT Keys',
+  'nav.inventory': 'Inventory',
+  'nav.locations': 'Locations',
+  'nav.transfers': 'Transfers',
+  'nav.exchangeRates': 'Exchange Rates',
+  'nav.counts': 'Cycle Counts',
+  'nav.suppliers': 'Suppliers',
+  'nav.purchaseOrders': 'Purchase Orders',
+  'nav.reports': 'Reports',
+  'nav.taxes': 'Taxes',
+  'nav.periods': 'Period Closing',
+  'nav.audit': 'Audit',
+  'nav.users': 'Users',
+  'nav.logout': 'Logout',
+  'nav.profile': 'My profile',
+  'nav.location': 'Location',
+  'nav.allLocations': 'All locations',
+  'nav.online': 'Online',
+  'nav.offline': 'Offline',
+  'nav.switchLanguage': 'Cambiar a Español',
+  'nav.lowStockAlerts': 'Low stock alerts',
+
+  // auth
+  'auth.defaultUserName': 'User',
+  'auth.signUpClosed': 'Sign-up is closed; only invited emails can create an account',
+  'auth.signUpSuccess': 'Account created; check your email to verify it',
+  'auth.signUpError': 'Could not create the account',
+  'auth.emailInUse': 'This email is already registered',
+  'auth.weakPassword': 'The password must be at least 6 characters long',
+  'auth.invalidEmail': 'The email address is not valid',
+  'auth.resetSent': 'We sent you an email with a link to reset your password',
+  'auth.resetError': 'Could not send the recovery email',
+  'auth.userNotFound': 'There is no account with this email',
+  'auth.tooManyRequests': 'Too many attempts; wait a few minutes',
+  'auth.errors.demoDisabled': 'Demo mode is disabled',
+  'auth.errors.signInToUpdateProfile': 'You must be signed in to update your profile',
+  'auth.errors.displayNameRequired': 'The display name is required',
+  'auth.errors.signInToVerify': 'You must be signed in to verify your email',
+  'auth.errors.invalidSessionTimeout': 'The session timeout must be zero or a positive number of minutes',
+  'auth.errors.permissionDenied': 'Your role does not allow this operation ({permission})',
+
+  // roles
+  'roles.owner': 'Owner',
+  'roles.manager': 'Manager',
+  'roles.cashier': 'Cashier',
+  'roles.auditor': 'Auditor',
+  'roles.none': 'No role',
+
+  // access, verify, session
+  'access.denied': 'No access',
+  'access.disabled': 'Your account is deactivated in this store.',
+  'access.roleDenied': 'Your role is not allowed to see this section.',
+  'access.noRole': 'You do not have a role in this store yet; ask the owner to assign you one.',
+  'verify.verified': 'Email verified!',
+  'verify.notVerified': 'Your email is not verified yet; open the link we sent you',
+  'verify.checkError': 'Could not check the verification',
+  'verify.resent': 'We sent you a new verification email',
+  'verify.resendError': 'Could not send the verification email',
+  'verify.title': 'Check your email',
+  'verify.sentTo': 'We sent a verification link to',
+  'verify.instructions': 'Open it and come back here to continue.',
+  'verify.done': 'I have verified it',
+  'verify.resend': 'Resend email',
+  'config.title': 'Firebase configuration is missing',
+  'config.missing': 'These variables have no value:',
+  'config.instructions': 'Copy .env.example to .env, fill in the VITE_FIREBASE_* variables with your Firebase web app configuration and restart the app. To use the emulators, set VITE_USE_FIREBASE_EMULATOR=true.',
+  'session.expired': 'You were logged out due to inactivity',
+  'session.title': 'Are you still there?',
+  'session.warning_one': 'Due to inactivity, your session will end in {count} second.',
+  'session.warning_other': 'Due to inactivity, your session will end in {count} seconds.',
+  'session.stay': 'Stay signed in',
+
+  // login
+  'login.demoWelcome': 'Welcome to the demo!',
+  'login.demoError': 'Could not sign in with the demo account. Is the emulator running?',
+  'login.missingFields': 'Please enter your email and password',
+  'login.welcome': 'Welcome!',
+  'login.invalidCredentials': 'Invalid credentials. Check your email and password.',
+  'login.error': 'Could not sign in. Please try again.',
+  'login.subtitle': 'Inventory Control System',
+  'login.firebase': 'Connected to Firebase',
+  'login.email': 'Email',
+  'login.emailPlaceholder': 'you@email.com',
+  'login.password': 'Password',
+  'login.forgotPassword': 'Forgot your password?',
+  'login.signingIn': 'Signing in...',
+  'login.signIn': 'Sign in',
+  'login.demo': 'Sign in with the demo account',
+  'login.noAccount': 'Don\'t have an account?',
+  'login.createAccount': 'Create a new account',
+  'login.backToLogin': 'Back to sign in',
+
+  // signUp, forgot
+  'signUp.requiredFields': 'All fields are required',
+  'signUp.invalidEmail': 'Please enter a valid email',
+  'signUp.passwordMismatch': 'The passwords do not match',
+  'signUp.error': 'Could not create the account. Please try again.',
+  'signUp.title': 'Create Account',
+  'signUp.subtitle': 'MiniSuper Inventory Control System',
+  'signUp.firebase': 'Sign-up with Firebase',
+  'signUp.fullName': 'Full Name',
+  'signUp.fullNamePlaceholder': 'Enter your full name',
+  'signUp.optional': '(optional)',
+  'signUp.storePlaceholder': 'Store code',
+  'signUp.passwordPlaceholder': 'At least 6 characters',
+  'signUp.confirmPassword': 'Confirm Password',
+  'signUp.confirmPasswordPlaceholder': 'Repeat your password',
+  'signUp.submitting': 'Creating account...',
+  'signUp.haveAccount': 'Already have an account?',
+  'forgot.missingEmail': 'Please enter your email',
+  'forgot.title': 'Reset password',
+  'forgot.subtitle': 'We will send you a link to choose a new password',
+  'forgot.sent': 'If {email} has an account, you will get the email in a few minutes. Check your spam folder too.',
+  'forgot.sending': 'Sending...',
+  'forgot.send': 'Send link',
+
+  // profile
+  'profile.saved': 'Profile updated',
+  'profile.saveError': 'Could not save the profile',
+  'profile.timeoutSaved': 'Session timeout updated',
+  'profile.title': 'My Profile',
+  'profile.email': 'Email',
+  'profile.role': 'Role',
+  'profile.phone': 'Phone',
+  'profile.language': 'Language',
+  'profile.store': 'Store',
+  'profile.defaultStore': 'Default store',
+  'profile.defaultStoreHelp': 'Leave it empty to use the store configured in the app. When you change it you will work with that store\'s data, where the owner must give you access.',
+  'profile.thisDevice': 'This device',
+  'profile.sessionTimeout': 'Log out after inactivity',
+  'profile.timeoutNever': 'Never',
+  'profile.timeoutAfter_one': 'After {count} minute',
+  'profile.timeoutAfter_other': 'After {count} minutes',
+  'profile.sessionTimeoutHelp': 'Saved only in this browser. A short time is best on the shared counter computers.',
+
+  // inventory context
+  'transactionType.entry': 'Entry',
+  'transactionType.exit': 'Exit',
+  'transactionType.adjustment': 'Adjustment',
+  'adjustmentReason.merma': 'Shrinkage',
+  'adjustmentReason.robo': 'Theft',
+  'adjustmentReason.caducidad': 'Expiry',
+  'adjustmentReason.error_captura': 'Data entry error',
+  'inventory.reversalNote': 'Reversal: {reason}',
+  'inventory.transferOutNote': 'Transfer {folio} to {location}',
+  'inventory.transferInNote': 'Transfer {folio} from {location}',
+  'inventory.errors.categoryInUse': 'Cannot delete category that is in use by products',
+  'inventory.errors.productHasTransactions': 'Cannot delete product that has transactions',
+  'inventory.errors.locationNotFound': 'Location not found',
+  'inventory.errors.locationInactive': '{location} is inactive and cannot take new movements',
+  'inventory.errors.chooseLocation': 'Choose a location in the top bar before registering movements',
+  'inventory.errors.periodClosed': 'The period is closed through {date}; transactions cannot be dated on or before it',
+  'inventory.errors.reasonRequired': 'Adjustments require a reason code',
+  'inventory.errors.notEnoughStock': 'Not enough stock for this transaction',
+  'inventory.errors.transactionNotFound': 'Transaction not found',
+  'inventory.errors.alreadyVoided': 'This transaction has already been voided or is itself a reversal',
+  'inventory.errors.transferNotVoidable': 'Transfer movements cannot be voided; register a transfer back instead',
+  'inventory.errors.voidReasonRequired': 'A reason is required to void a transaction',
+  'inventory.errors.periodClosedVoid': 'The period is closed through {date}; transactions on or before it cannot be voided',
+  'inventory.errors.voidNegativeStock': 'Voiding this entry would leave negative stock on {date}',
+  'inventory.errors.backdatedNegativeStock': 'This transaction would leave negative stock on {date}',
+  'inventory.errors.locationNameRequired': 'The location needs a name',
+  'inventory.errors.lastActiveLocation': 'At least one location must stay active',
+  'inventory.errors.signInToTransfer': 'You must be signed in to transfer stock',
+  'inventory.errors.sameLocation': 'The origin and destination must be different locations',
+  'inventory.errors.periodClosedTransfer': 'The period is closed through {date}; transfers cannot be dated on or before it',
+  'inventory.errors.emptyTransfer': 'The transfer has no products',
+  'inventory.errors.notEnoughStockAt': 'Not enough stock of {product} at {location}',
+  'inventory.errors.signInToClose': 'You must be signed in to close a period',
+  'inventory.errors.alreadyClosed': 'The period is already closed through {date}',
+  'inventory.errors.signInToReopen': 'You must be signed in to reopen a period',
+  'inventory.errors.reopenReasonRequired': 'A reason is required to reopen a period',
+  'inventory.errors.notClosed': 'Only closed periods can be reopened',
+  'inventory.errors.reopenLatestFirst': 'Reopen the most recent closed period first',
+  'inventory.errors.exchangeRateRequired': 'Entries in another currency need an exchange rate greater than 0',
+  'inventory.errors.exchangeRateInvalid': 'The exchange rate must be for a foreign currency and greater than 0',
+  'inventory.errors.invalidSatKey': 'The SAT product key has 8 digits and the unit key up to 3 letters or digits',
+
+  // inventory page
+  'inventory.productRequired': 'Select a product',
+  'inventory.quantityRequired': 'The quantity must be greater than 0',
+  'inventory.unitCostRequired': 'The unit cost must be greater than 0',
+  'inventory.entrySaved': 'Entry registered',
+  'inventory.exitSaved': 'Exit registered',
+  'inventory.entryError': 'Could not register the entry',
+  'inventory.exitError': 'Could not register the exit',
+  'inventory.voidReasonRequired': 'Enter the reason for voiding',
+  'inventory.voided': 'Movement voided',
+  'inventory.voidError': 'Could not void the movement',
+  'inventory.registerEntry': 'Register Entry',
+  'inventory.registerExit': 'Register Exit',
+  'inventory.searchPlaceholder': 'Search by product...',
+  'inventory.transactionType': 'Transaction Type',
+  'inventory.entries': 'Entries',
+  'inventory.exits': 'Exits',
+  'inventory.adjustments': 'Adjustments',
+  'inventory.movements': 'Inventory Movements',
+  'inventory.type': 'Type',
+  'inventory.unitCostShort': 'Unit Cost',
+  'inventory.totalCost': 'Total Cost',
+  'inventory.lot': 'Lot {lot}',
+  'inventory.expiresShort': 'Exp. {date}',
+  'inventory.voidedBadge': 'Voided',
+  'inventory.reversalBadge': 'Reversal',
+  'inventory.transferBadge': 'Transfer',
+  'inventory.createdBy': 'By {name}',
+  'inventory.voidTitle': 'Void Movement',
+  'inventory.empty': 'No transactions found',
+  'inventory.selectProduct': 'Select a product',
+  'inventory.outOfStock': '(Out of stock)',
+  'inventory.stockOption': '(Stock: {stock})',
+  'inventory.lotNumber': 'Lot',
+  'inventory.expiryDate': 'Expiry date',
+  'inventory.unitCostLabel': 'Unit Cost ($)',
+  'inventory.currency': 'Currency',
+  'inventory.exchangeRate': 'Exchange rate (pesos per {currency})',
+  'inventory.baseCost': 'Cost in pesos: {cost}',
+  'inventory.noExchangeRate': 'There is no {currency} exchange rate recorded as of this date; enter it',
+  'inventory.originalCost': '{cost} at {rate}',
+  'inventory.closedThrough': 'Period closed through {date}',
+  'inventory.voidMovement.entry': 'an exit',
+  'inventory.voidMovement.exit': 'an entry',
+  'inventory.voidMovement.adjustment': 'an opposite adjustment',
+  'inventory.voidExplanation': 'This registers {movement} of {units} of {product} dated {date} that offsets this movement.',
+  'inventory.reason': 'Reason',
+  'inventory.void': 'Void',
+
+  // dashboard
+  'dashboard.totalProducts': 'Total Products',
+  'dashboard.lowStock': 'Low Stock',
+  'dashboard.entries': 'Entries',
+  'dashboard.exits': 'Exits',
+  'dashboard.stockByProduct': 'Stock by Product',
+  'dashboard.stock': 'Stock',
+  'dashboard.minStock': 'Minimum stock',
+  'dashboard.byCategory': 'Distribution by Category',
+  'dashboard.stockAlerts': 'Stock Alerts',
+  'dashboard.currentStock': 'Current stock',
+  'dashboard.minimum': 'Minimum',
+  'dashboard.noLowStock': 'No products with low stock',
+  'dashboard.expiry': 'Expiry',
+  'dashboard.lotUnits_one': 'Lot {lot}: {count} unit',
+  'dashboard.lotUnits_other': 'Lot {lot}: {count} units',
+  'dashboard.expired': 'Expired',
+  'dashboard.expiringSoon': 'Expiring soon',
+  'dashboard.noExpiring': 'No expired or expiring lots',
+  'dashboard.recentActivity': 'Recent Activity',
+  'dashboard.adjustmentUnits_one': 'Adjustment of {quantity} unit',
+  'dashboard.adjustmentUnits_other': 'Adjustment of {quantity} units',
+  'dashboard.entryUnits_one': 'Entry of {count} unit',
+  'dashboard.entryUnits_other': 'Entry of {count} units',
+  'dashboard.exitUnits_one': 'Exit of {count} unit',
+  'dashboard.exitUnits_other': 'Exit of {count} units',
+  'dashboard.noRecent': 'No recent transactions',
+  'dashboard.totalValue': 'Total Inventory Value',
+  'locations.type.store': 'Store',
+  'locations.type.warehouse': 'Warehouse',
+  'locations.deleted': 'Deleted location',
+
+  // products
+  'products.nameRequired': 'The product name is required',
+  'products.categoryRequired': 'Select a category',
+  'products.updated': 'Product updated',
+  'products.created': 'Product added',
+  'products.saveError': 'Could not save the product',
+  'products.deleted': 'Product deleted',
+  'products.deleteError': 'Could not delete the product',
+  'products.new': 'New Product',
+  'products.edit': 'Edit Product',
+  'products.searchPlaceholder': 'Search products...',
+  'products.allCategories': 'All categories',
+  'products.stock': 'Stock: {stock}',
+  'products.low': '(Low)',
+  'products.minimum': 'Minimum: {minStock}',
+  'products.noResults': 'No products match those filters',
+  'products.empty': 'There are no products yet',
+  'products.barcode': 'Barcode',
+  'products.category': 'Category',
+  'products.selectCategory': 'Select a category',
+  'products.generalMinStock': 'General Minimum Stock',
+  'products.minStock': 'Minimum Stock',
+  'products.price': 'Price ($)',
+  'products.minStockByLocation': 'Minimum by location',
+  'products.imageUrl': 'Image URL',
+  'products.imagePlaceholder': 'https://example.com/image.jpg',
+  'products.preview': 'Preview',
+
+  // categories, locations
+  'categories.nameRequired': 'The category name is required',
+  'categories.updated': 'Category updated',
+  'categories.created': 'Category added',
+  'categories.saveError': 'Could not save the category',
+  'categories.deleted': 'Category deleted',
+  'categories.deleteError': 'Could not delete the category',
+  'categories.new': 'New Category',
+  'categories.edit': 'Edit Category',
+  'categories.searchPlaceholder': 'Search categories...',
+  'categories.perishable': 'Perishable',
+  'categories.perishableHelp': 'Perishable (capture lot and expiry date on entries)',
+  'categories.taxesHelp': 'The category\'s products use these rates unless they have their own',
+  'categories.noResults': 'No categories match that search',
+  'categories.empty': 'There are no categories yet',
+  'locations.nameRequired': 'The location name is required',
+  'locations.updated': 'Location updated',
+  'locations.created': 'Location added',
+  'locations.saveError': 'Could not save the location',
+  'locations.new': 'New Location',
+  'locations.edit': 'Edit Location',
+  'locations.inactive': 'Inactive',
+  'locations.unitsOnHand_one': '{count} unit on hand',
+  'locations.unitsOnHand_other': '{count} units on hand',
+  'locations.activeHelp': 'Active (takes sales, movements and transfers)',
+
+  // transfers
+  'transfers.saved': 'Transfer {folio} saved',
+  'transfers.saveError': 'Could not save the transfer',
+  'transfers.addProduct': 'Add at least one product',
+  'transfers.new': 'New Transfer',
+  'transfers.folio': 'Number',
+  'transfers.route': 'Route',
+  'transfers.value': 'Value',
+  'transfers.createdBy': 'Recorded by',
+  'transfers.needTwoLocations': 'Add at least two active locations to make transfers',
+  'transfers.empty': 'There are no transfers yet',
+  'transfers.from': 'From',
+  'transfers.to': 'To',
+  'transfers.available': 'Available: {stock}',
+  'transfers.register': 'Save',
+
+  // cycle counts
+  'counts.status.open': 'Open',
+  'counts.status.approved': 'Approved',
+  'counts.status.cancelled': 'Cancelled',
+  'counts.started': 'Count started',
+  'counts.startError': 'Could not start the count',
+  'counts.confirmApprove': 'The inventory adjustments of this count will be recorded. Continue?',
+  'counts.approved': 'Count approved and adjustments recorded',
+  'counts.approveError': 'Could not approve the count',
+  'counts.confirmCancel': 'Are you sure you want to cancel this count?',
+  'counts.cancelled': 'Count cancelled',
+  'counts.cancelError': 'Could not cancel the count',
+  'counts.deletedCategory': 'Deleted category',
+  'counts.wholeStore': 'Whole store',
+  'counts.new': 'New Count',
+  'counts.scope': 'Scope',
+  'counts.progress': 'Progress',
+  'counts.startedAt': 'Started',
+  'counts.expected': 'Expected',
+  'counts.counted': 'Counted',
+  'counts.variance': 'Variance',
+  'counts.progressValue_one': '{counted} of {count} product',
+  'counts.progressValue_other': '{counted} of {count} products',
+  'counts.startedBy': '{date} by {name}',
+  'counts.view': 'View',
+  'counts.empty': 'There are no counts yet',
+  'counts.detailTitle': 'Count {folio} · {scope}',
+  'counts.cancel': 'Cancel count',
+  'counts.approve': 'Approve',
+  'counts.countedProducts': 'Products counted',
+  'counts.withVariance_one': '{count} with a variance',
+  'counts.withVariance_other': '{count} with a variance',
+  'counts.missing': 'Missing',
+  'counts.over': 'Over',
+  'counts.net': 'Net result',
+  'counts.reasonSummary': '{reason}: {units} u. ({value})',
+  'counts.selectReason': 'Select a reason',
+  'counts.approvedBy': 'Approved by {name} on {date}',
+  'counts.expectedHelp': 'Expected stock is taken from the system when the count is approved.',
+  'counts.start': 'Start',
+
+  // purchase orders
+  'purchaseOrders.status.draft': 'Draft',
+  'purchaseOrders.status.sent': 'Sent',
+  'purchaseOrders.status.partial': 'Partly received',
+  'purchaseOrders.status.received': 'Received',
+  'purchaseOrders.unknownSupplier': 'Unknown supplier',
+  'purchaseOrders.supplierRequired': 'Select a supplier',
+  'purchaseOrders.updated': 'Purchase order updated',
+  'purchaseOrders.created': 'Purchase order created',
+  'purchaseOrders.saveError': 'Could not save the purchase order',
+  'purchaseOrders.deleted': 'Purchase order deleted',
+  'purchaseOrders.deleteError': 'Could not delete the purchase order',
+  'purchaseOrders.sent': 'Purchase order marked as sent',
+  'purchaseOrders.sendError': 'Could not send the purchase order',
+  'purchaseOrders.received': 'Receipt recorded',
+  'purchaseOrders.receiveError': 'Could not record the receipt',
+  'purchaseOrders.newShort': 'New Order',
+  'purchaseOrders.new': 'New Purchase Order',
+  'purchaseOrders.edit': 'Edit Purchase Order',
+  'purchaseOrders.allStatuses': 'All statuses',
+  'purchaseOrders.supplier': 'Supplier',
+  'purchaseOrders.expectedDate': 'Expected Delivery',
+  'purchaseOrders.markSent': 'Mark as sent',
+  'purchaseOrders.receiveGoods': 'Receive goods',
+  'purchaseOrders.needSupplier': 'Add a supplier to create purchase orders',
+  'purchaseOrders.empty': 'There are no purchase orders',
+  'purchaseOrders.totalValue': 'Total: {total}',
+  'purchaseOrders.receiveTitle': 'Receive {folio}',
+  'purchaseOrders.pending': 'Pending: {pending} at {cost}',
+  'purchaseOrders.receiptDate': 'Receipt Date',
+
+  // suppliers
+  'suppliers.nameRequired': 'The supplier name is required',
+  'suppliers.invalidRfc': 'The RFC does not have a valid format',
+  'suppliers.updated': 'Supplier updated',
+  'suppliers.created': 'Supplier added',
+  'suppliers.saveError': 'Could not save the supplier',
+  'suppliers.deleted': 'Supplier deleted',
+  'suppliers.deleteError': 'Could not delete the supplier',
+  'suppliers.searchPlaceholder': 'Search suppliers...',
+  'suppliers.noContact': 'No contact details',
+  'suppliers.new': 'New Supplier',
+  'suppliers.edit': 'Edit Supplier',
+  'suppliers.leadTime_one': 'Delivers in {count} day',
+  'suppliers.leadTime_other': 'Delivers in {count} days',
+  'suppliers.noResults': 'No suppliers match that search',
+  'suppliers.empty': 'There are no suppliers yet',
+  'suppliers.rfc': 'RFC (tax ID)',
+  'suppliers.leadTimeDays': 'Lead Time (days)',
+  'suppliers.contact': 'Contact',
+  'suppliers.email': 'Email',
+  'suppliers.products': 'Products supplied',
+  'suppliers.lastCost': 'Last cost',
+
+  // point of sale
+  'pos.payment.cash': 'Cash',
+  'pos.payment.card': 'Credit card',
+  'pos.payment.debit': 'Debit card',
+  'pos.payment.transfer': 'Bank transfer',
+  'pos.notEnoughStock': 'Not enough stock of {product}',
+  'pos.onlyAvailable_one': 'Only {count} unit available',
+  'pos.onlyAvailable_other': 'Only {count} units available',
+  'pos.productNotFound': 'Product not found',
+  'pos.saleSaved': 'Sale {folio} recorded',
+  'pos.saleError': 'Could not record the sale',
+  'pos.todaySales': 'Today\'s sales ({count})',
+  'pos.searchPlaceholder': 'Barcode, SKU or name...',
+  'pos.stock': 'Stock: {stock}',
+  'pos.cart': 'Cart',
+  'pos.each': '{price} each',
+  'pos.emptyCart': 'Scan or search for a product to add it',
+  'pos.received': 'Received ($)',
+  'pos.change': 'Change',
+  'pos.ivaIncluded': 'IVA included',
+  'pos.iepsIncluded': 'IEPS included',
+  'pos.customerOptional': 'Customer (optional)',
+  'pos.checkout': 'Charge',
+  'pos.ticket': 'Receipt {folio}',
+  'pos.folio': 'No.: {folio}',
+  'pos.customer': 'Customer: {name}',
+  'pos.thanks': 'Thank you for your purchase!',
+
+  // reports
+  'reports.method.PEPS': 'First In, First Out',
+  'reports.method.UEPS': 'Last In, First Out',
+  'reports.method.weighted': 'Weighted Average Cost',
+  'reports.methodShort.PEPS': 'FIFO',
+  'reports.methodShort.UEPS': 'LIFO',
+  'reports.methodShort.weighted': 'Weighted Average',
+  'reports.excel.title': 'Inventory report',
+  'reports.excel.product': 'Product:',
+  'reports.excel.location': 'Location:',
+  'reports.excel.method': 'Valuation Method:',
+  'reports.excel.period': 'Period:',
+  'reports.excel.generatedOn': 'Generated On:',
+  'reports.excel.summary': 'Summary',
+  'reports.excel.openingStock': 'Opening Stock:',
+  'reports.excel.finalStock': 'Closing Stock:',
+  'reports.excel.totalCost': 'Total Cost:',
+  'reports.excel.averageCost': 'Average Unit Cost:',
+  'reports.excel.costOfSales': 'Cost of Sales:',
+  'reports.excel.shrinkage': 'Shrinkage and Count Shortages:',
+  'reports.excel.adjustment': 'adjustment',
+  'reports.excel.fileName': 'Report',
+  'reports.purchases': 'Purchases',
+  'reports.sales': 'Sales',
+  'reports.balance': 'Balance',
+  'reports.openingStock': 'Opening stock',
+  'reports.generator': 'Report Builder',
+  'reports.generateError': 'Could not generate the report',
+  'reports.byMethod': 'Inventory Report by Method',
+  'reports.inventoryMethod': 'Inventory Method',
+  'reports.generate': 'Generate Report',
+  'reports.clear': 'Clear',
+  'reports.quickActions': 'Quick actions',
+  'reports.print': 'Print Report',
+  'reports.charts': 'View Charts',
+  'reports.resultTitle': 'Inventory Report: {product}',
+  'reports.resultSubtitle': 'Location: {location} · Method: {method}',
+  'reports.finalStock': 'Closing Stock',
+  'reports.averageCost': 'Average Unit Cost',
+  'reports.costOfSales': 'Cost of Sales',
+  'reports.countShrinkage': 'Count shrinkage: {value}',
+  'reports.unfilled_one': '{count} unit went out without enough stock; it is left out of the cost of sales.',
+  'reports.unfilled_other': '{count} units went out without enough stock; they are left out of the cost of sales.',
+  'reports.kardexTitle': 'Stock Card - {method} Inventory Control',
+  'reports.countAdjustment': 'Count adjustment',
+  'reports.short': '{count} short',
+  'reports.noMovements': 'There are no movements in the selected period',
+
+  // periods
+  'periods.cutoffRequired': 'Select a cutoff date',
+  'periods.closed': 'Period closed',
+  'periods.closeError': 'Could not close the period',
+  'periods.reasonRequired': 'Give a reason for reopening',
+  'periods.reopened': 'Period reopened',
+  'periods.reopenError': 'Could not reopen the period',
+  'periods.title': 'Period Closes',
+  'periods.closeTitle': 'Close period',
+  'periods.closedThrough': 'Movements are closed through {date}.',
+  'periods.noneClosed': 'No periods are closed.',
+  'periods.closeHelp': 'Closing saves every product\'s stock and cost layers for FIFO, LIFO and Weighted Average.',
+  'periods.cutoffDate': 'Cutoff Date',
+  'periods.close': 'Close Period',
+  'periods.history': 'Close History',
+  'periods.cutoff': 'Cutoff',
+  'periods.valuePEPS': 'FIFO Value',
+  'periods.valueUEPS': 'LIFO Value',
+  'periods.valueWeighted': 'Average Value',
+  'periods.detail': 'Details',
+  'periods.status.closed': 'Closed',
+  'periods.status.reopened': 'Reopened',
+  'periods.closedBy': 'Closed by {name} on {date}',
+  'periods.reopenedBy': 'Reopened by {name} on {date}: {reason}',
+  'periods.reopen': 'Reopen',
+  'periods.empty': 'There are no period closes yet',
+  'periods.reopenTitle': 'Reopen period ending {date}',
+
+  // sync review
+  'sync.collection.categories': 'Category',
+  'sync.collection.products': 'Product',
+  'sync.collection.transactions': 'Movement',
+  'sync.deletedRecord': 'Deleted record',
+  'sync.transactionSummary_one': '{product} · {count} unit on {date}',
+  'sync.transactionSummary_other': '{product} · {count} units on {date}',
+  'sync.keptLocal': 'Your version will be sent',
+  'sync.keptRemote': 'The remote version was kept',
+  'sync.resolveError': 'Could not resolve the conflict',
+  'sync.title': 'Sync',
+  'sync.disabled': 'Sync is off; data is only saved in this browser.',
+  'sync.onlineHelp': 'Changes are sent right away.',
+  'sync.offlineHelp': 'Changes are saved on this device and will be sent when it reconnects.',
+  'sync.pending': 'Pending changes',
+  'sync.toReview': 'Conflicts to review',
+  'sync.conflicts': 'Conflicts',
+  'sync.overdraw': 'This exit was recorded offline and, with the movements from other devices, would take the stock at its location below zero.',
+  'sync.overdrawSale': 'It belongs to a sale: discarding it marks the sale as not fully posted.',
+  'sync.deleteConflict': 'You deleted this record offline, but another device changed it.',
+  'sync.editConflict': 'You changed this record offline, but another device changed it too.',
+  'sync.changedAt': 'Changed on {date}',
+  'sync.discardExit': 'Discard exit',
+  'sync.useRemote': 'Use remote version',
+  'sync.registerAnyway': 'Record anyway',
+  'sync.keepMine': 'Keep my version',
+  'sync.field': 'Field',
+  'sync.mine': 'My version',
+  'sync.remote': 'Remote version',
+  'sync.noConflicts': 'There are no conflicts',
+  'sync.pendingTitle': 'Changes waiting to be sent',
+  'sync.deletion': '(deletion)',
+
+  // users
+  'users.invited': 'Invitation saved',
+  'users.inviteError': 'Could not send the invitation',
+  'users.registrationOpen': 'Sign-up is open',
+  'users.registrationInviteOnly': 'Sign-up is invitation only',
+  'users.settingsError': 'Could not save the setting',
+  'users.invitationCancelled': 'Invitation cancelled',
+  'users.cancelInvitationError': 'Could not cancel the invitation',
+  'users.roleUpdated': 'Role updated',
+  'users.roleError': 'Could not change the role',
+  'users.enabled': 'User enabled',
+  'users.disabled': 'User disabled',
+  'users.statusError': 'Could not change the status',
+  'users.enable': 'Enable',
+  'users.disable': 'Disable',
+  'users.unavailable': 'Managing users needs a shared store: set {variable} to the owner\'s id and turn on sync.',
+  'users.registration': 'Sign-up',
+  'users.allowAnyone': 'Let anyone create an account',
+  'users.openHelp': 'New accounts have no role until you give them one.',
+  'users.inviteOnlyHelp': 'Only invited emails can sign up.',
+  'users.inviteTitle': 'Invite user',
+  'users.invite': 'Invite',
+  'users.cancelInvitation': 'Cancel invitation',
+  'users.members': 'Store users',
+  'users.lastLogin': 'Last sign-in',
+  'users.status.active': 'Active',
+  'users.status.disabled': 'Disabled',
+  'users.empty': 'There are no users yet',
+
+  // audit
+  'audit.action.create': 'Created',
+  'audit.action.update': 'Updated',
+  'audit.action.delete': 'Deleted',
+  'audit.action.void': 'Voided',
+  'audit.action.close': 'Closed',
+  'audit.action.reopen': 'Reopened',
+  'audit.entity.category': 'Category',
+  'audit.entity.product': 'Product',
+  'audit.entity.transaction': 'Movement',
+  'audit.entity.location': 'Location',
+  'audit.entity.exchange_rate': 'Exchange rate',
+  'audit.entity.period': 'Period',
+  'audit.entity.transfer': 'Transfer',
+  'audit.action': 'Action',
+  'audit.entity': 'Entity',
+  'audit.id': 'Id',
+  'audit.changes': 'Changes',
+  'audit.fileName': 'Audit',
+  'audit.fileStart': 'start',
+  'audit.log': 'Change log',
+  'audit.empty': 'There are no changes yet',
+
+  // counts, purchasing, sales, users and sync contexts
+  'counts.errors.notFound': 'Count session not found',
+  'counts.errors.notOpen': 'Only open count sessions can be changed',
+  'counts.errors.signInToStart': 'You must be signed in to start a count',
+  'counts.errors.chooseLocation': 'Choose a location in the top bar before starting a count',
+  'counts.errors.noProducts': 'There are no products to count',
+  'counts.errors.alreadyCounting': 'Some of these products are already in an open count',
+  'counts.errors.negativeQuantity': 'The counted quantity cannot be negative',
+  'counts.errors.signInToApprove': 'You must be signed in to approve a count',
+  'counts.errors.notAllCounted': 'Every product must be counted before approving',
+  'counts.errors.periodClosed': 'The period is closed through {date}; counts cannot be approved',
+  'counts.errors.reasonRequired': 'Every variance needs a reason code',
+  'counts.note': 'Count {folio}',
+  'purchaseOrders.errors.supplierHasOrders': 'Cannot delete supplier that has purchase orders',
+  'purchaseOrders.errors.supplierNotFound': 'Supplier not found',
+  'purchaseOrders.errors.noLines': 'A purchase order needs at least one line',
+  'purchaseOrders.errors.invalidLines': 'Line quantities and unit costs must be greater than 0',
+  'purchaseOrders.errors.exchangeRateRequired': 'Enter the exchange rate of the lines in another currency',
+  'purchaseOrders.errors.editDraftOnly': 'Only draft purchase orders can be edited',
+  'purchaseOrders.errors.deleteDraftOnly': 'Only draft purchase orders can be deleted',
+  'purchaseOrders.errors.sendDraftOnly': 'Only draft purchase orders can be sent',
+  'purchaseOrders.errors.notReceivable': 'Only sent or partially received purchase orders can be received',
+  'purchaseOrders.errors.periodClosed': 'The period is closed through {date}; receipts cannot be dated on or before it',
+  'purchaseOrders.errors.nothingToReceive': 'Enter at least one quantity to receive',
+  'purchaseOrders.errors.lineNotFound': 'Purchase order line not found',
+  'purchaseOrders.errors.overReceived': 'Cannot receive more than the quantity ordered',
+  'purchaseOrders.receiptNote': 'Receipt {folio}',
+  'pos.errors.empty': 'The sale has no products',
+  'pos.errors.chooseLocation': 'Choose a location in the top bar before registering sales',
+  'pos.errors.periodClosed': 'The period is closed through {date}; sales cannot be registered',
+  'pos.errors.notEnoughCash': 'The amount received does not cover the total',
+  'pos.saleNote': 'Sale {folio}',
+  'users.errors.noSharedStore': 'User administration needs a shared store (VITE_STORE_ID or a default store)',
+  'users.errors.notFound': 'User not found',
+  'users.errors.ownerLocked': 'The store owner\'s account cannot be changed',
+  'users.errors.selfLocked': 'You cannot change your own access',
+  'users.errors.invalidEmail': 'Enter a valid email',
+  'users.errors.alreadyMember': 'This email already belongs to a user of the store',
+  'sync.errors.inactive': 'Sync is not active',
+  'sync.errors.conflictNotFound': 'The conflict no longer exists; it may have been resolved already',
+  'sync.errors.noFoliosOffline': 'Offline with no folios reserved on this device; connect to continue',
+  'sync.errors.folioNotReserved': 'Could not assign a folio, please try again',
+  'sync.errors.invoicingOffline': 'Issuing an invoice or deleting a draft needs a connection: the folio and the invoiced sale are recorded on the server',
+
+  // exchange rates page
+  'exchangeRates.new': 'New Exchange Rate',
+  'exchangeRates.help': 'Each entry in another currency takes the latest rate recorded up to its date, and it can be corrected when it is entered. Costs and inventory valuation are kept in pesos.',
+  'exchangeRates.rate': 'Pesos per unit',
+  'exchangeRates.empty': 'No exchange rates recorded yet',
+  'exchangeRates.rateRequired': 'The exchange rate must be greater than 0',
+  'exchangeRates.saved': 'Exchange rate saved',
+  'exchangeRates.saveError': 'Error saving the exchange rate',
+  'exchangeRates.deleted': 'Exchange rate deleted',
+  'exchangeRates.deleteError': 'Error deleting the exchange rate',
+  'exchangeRates.confirmDelete': 'Delete this exchange rate? Entries already recorded keep their own.',
+  'exchangeRates.delete': 'Delete',
+
+  // taxes
+  'taxes.iva': 'IVA',
+  'taxes.iva.tasa16': 'IVA 16%',
+  'taxes.iva.tasa0': 'IVA 0% rate',
+  'taxes.iva.exento': 'IVA exempt',
+  'taxes.iepsPercent': 'IEPS (%)',
+  'taxes.iepsRate': 'IEPS {rate}%',
+  'taxes.iepsInvalid': 'IEPS must be between 0 and 100%',
+  'taxes.priceIncludesTax': 'The price includes taxes',
+  'taxes.useCategory': 'Use the category\'s taxes',
+  'taxReport.title': 'Tax summary',
+  'taxReport.help': 'Sales already include their taxes; purchase costs have them added. Voided movements do not count, and those recorded before taxes were set up have no breakdown.',
+  'taxReport.concept': 'Item',
+  'taxReport.sales': 'Sales (collected)',
+  'taxReport.purchases': 'Purchases (paid)',
+  'taxReport.balance': 'Payable',
+  'taxReport.base16': 'Base taxed at 16%',
+  'taxReport.base0': 'Base at 0% rate',
+  'taxReport.baseExempt': 'Exempt base',
+  'taxReport.iepsBase': 'Base subject to IEPS',
+  'taxReport.iva': 'IVA',
+  'taxReport.ieps': 'IEPS',
+  'taxReport.fileName': 'Taxes',
+
+  // invoices
+  'invoices.sales': 'Sales',
+  'invoices.saleFolio': 'Sale',
+  'invoices.customer': 'Customer',
+  'invoices.noSales': 'No sales in this period',
+  'invoices.invoice': 'Invoice',
+  'invoices.invoicedAs': 'Invoice {folio}',
+  'invoices.exitsDiscarded': 'Exits discarded when syncing',
+  'invoices.empty': 'No invoices',
+  'invoices.folio': 'Invoice',
+  'invoices.receptor': 'Customer',
+  'invoices.status.draft': 'Not stamped',
+  'invoices.status.stamped': 'Stamped',
+  'invoices.stamp': 'Stamp',
+  'invoices.downloadXml': 'Download XML',
+  'invoices.printable': 'Printable invoice',
+  'invoices.delete': 'Delete invoice',
+  'invoices.new': 'Invoice sale {folio}',
+  'invoices.rfc': 'RFC',
+  'invoices.postalCode': 'Tax address postal code',
+  'invoices.legalName': 'Legal name',
+  'invoices.legalNameHelp': 'Exactly as on the tax status certificate, without the company type (S.A. de C.V.)',
+  'invoices.taxRegime': 'Tax regime',
+  'invoices.use': 'CFDI use',
+  'invoices.generate': 'Generate invoice',
+  'invoices.validationErrors_one': 'The invoice has {count} error:',
+  'invoices.validationErrors_other': 'The invoice has {count} errors:',
+  'invoices.validationScope': 'The cfdv40.xsd rules and catalogs that apply to this invoice and its sums are checked, but it is not validated against the SAT\'s XSD: the PAC does that when stamping, or xmllint with the XSDs downloaded from the SAT.',
+  'invoices.created': 'Invoice generated; it still has to be stamped',
+  'invoices.saveError': 'Error generating the invoice',
+  'invoices.stamped': 'Invoice stamped',
+  'invoices.stampError': 'Error stamping the invoice',
+  'invoices.confirmDelete': 'Delete this unstamped invoice?',
+  'invoices.deleted': 'Invoice deleted',
+  'invoices.deleteError': 'Error deleting the invoice',
+  'invoices.noIssuerHelp': 'To issue invoices, set the issuer\'s RFC, name, tax regime and postal code (VITE_CFDI_*) in the .env file',
+  'invoices.draftWatermark': 'NOT STAMPED - NOT VALID FOR TAX PURPOSES',
+  'invoices.issuedAt': 'Place of issue: {postalCode}',
+  'invoices.invoiceFolio': 'Invoice {folio}',
+  'invoices.type': 'Type: I - Income',
+  'invoices.productKey': 'Key',
+  'invoices.unitKey': 'Unit',
+  'invoices.unitValue': 'Unit value',
+  'invoices.amount': 'Amount',
+  'invoices.paymentForm': 'Payment form: {code}',
+  'invoices.paymentMethod': 'Payment method: {code} - Paid in full',
+  'invoices.currency': 'Currency: MXN - Mexican peso',
+  'invoices.subtotal': 'Subtotal',
+  'invoices.uuid': 'Tax folio (UUID)',
+  'invoices.stampedAt': 'Stamped on {date} with SAT certificate {certificate}',
+  'invoices.issuerSeal': 'Issuer\'s digital seal',
+  'invoices.satSeal': 'SAT seal',
+  'invoices.verify': 'Verification',
+  'invoices.errors.noIssuer': 'The issuer\'s tax data is missing from the settings',
+  'invoices.errors.saleNotFound': 'The sale does not exist',
+  'invoices.errors.alreadyInvoiced': 'The sale has already been invoiced',
+  'invoices.errors.invalid': 'The invoice does not pass CFDI validation',
+  'invoices.errors.notFound': 'The invoice does not exist',
+  'invoices.errors.alreadyStamped': 'The invoice is already stamped',
+  'invoices.errors.stampedCannotDelete': 'A stamped invoice cannot be deleted; it must be cancelled with the SAT',
+  'cfdi.errors.pattern': 'invalid format',
+  'cfdi.errors.required': 'is required',
+  'cfdi.errors.catalog': 'is not in the SAT catalog',
+  'cfdi.errors.genericRfc': 'the generic RFC requires a global invoice',
+  'cfdi.errors.positive': 'must be greater than zero',
+  'cfdi.errors.amount': 'does not add up',
+  'cfdi.errors.exempt': 'an exempt tax has no rate or amount',
+
+  // SAT keys
+  'satKeys.productKey': 'SAT product key',
+  'satKeys.unitKey': 'SAT unit key',
+  'satKeys.searchPlaceholder': 'Search by key or description',
+  'satKeys.invalidFormat': 'Invalid key format',
+  'satKeys.notInCatalog': 'Key not in the bundled catalog; check it against the SAT catalog',
+  'satKeys.badge': 'SAT {product} · {unit}',
+  'satKeys.missing': 'No SAT keys',
+  'satKeys.missingKey': 'Missing',
+  'satKeys.assignTitle': 'Assign keys by category',
+  'satKeys.assignHelp': 'The keys go to the category\'s products that have none of their own; an empty key is left unchanged',
+  'satKeys.overwrite': 'Also replace the keys they already have',
+  'satKeys.assign': 'Assign',
+  'satKeys.keysRequired': 'Choose at least one key',
+  'satKeys.assigned_one': '{count} product updated',
+  'satKeys.assigned_other': '{count} products updated',
+  'satKeys.assignError': 'Error assigning the keys',
+  'satKeys.reportTitle': 'Products missing SAT keys',
+  'satKeys.reportHelp_one': '{count} product would be invoiced with the generic keys 01010101 and H87',
+  'satKeys.reportHelp_other': '{count} products would be invoiced with the generic keys 01010101 and H87',
+  'satKeys.allAssigned': 'Every product has its SAT keys',
+  'satKeys.fileName': 'Products_missing_SAT_keys',
+};
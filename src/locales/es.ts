@@ -0,0 +1,824 @@
+// Textos de la interfaz en español; es el idioma de referencia
+export const es = {
+  // common
+  'common.cancel': 'Cancelar',
+  'common.create': 'Crear',
+  'common.update': 'Actualizar',
+  'common.save': 'Guardar',
+  'common.close': 'Cerrar',
+  'common.add': '+ Agregar',
+  'common.all': 'Todos',
+  'common.allFeminine': 'Todas',
+  'common.name': 'Nombre',
+  'common.description': 'Descripción',
+  'common.notes': 'Notas',
+  'common.date': 'Fecha',
+  'common.startDate': 'Fecha Inicio',
+  'common.endDate': 'Fecha Fin',
+  'common.product': 'Producto',
+  'common.products': 'Productos',
+  'common.quantity': 'Cantidad',
+  'common.unitCost': 'Costo unitario',
+  'common.total': 'Total',
+  'common.status': 'Estado',
+  'common.user': 'Usuario',
+  'common.filters': 'Filtros',
+  'common.exportExcel': 'Exportar a Excel',
+  'common.print': 'Imprimir',
+  'common.unknownProduct': 'Producto desconocido',
+  'common.unknownCategory': 'Sin categoría',
+  'common.logout': 'Cerrar sesión',
+  'common.units_one': '{count} unidad',
+  'common.units_other': '{count} unidades',
+
+  // nav
+  'nav.dashboard': 'Dashboard',
+  'nav.pos': 'Punto de Venta',
+  'nav.invoices': 'Facturas',
+  'nav.categories': 'Categorías',
+  'nav.products': 'Productos',
+  'nav.satKeys': 'Claves SAT',
+  'nav.inventory': 'Inventario',
+  'nav.locations': 'Ubicaciones',
+  'nav.transfers': 'Traspasos',
+  'nav.exchangeRates': 'Tipos de Cambio',
+  'nav.counts': 'Conteos Físicos',
+  'nav.suppliers': 'Proveedores',
+  'nav.purchaseOrders': 'Órdenes de Compra',
+  'nav.reports': 'Reportes',
+  'nav.taxes': 'Impuestos',
+  'nav.periods': 'Cierres',
+  'nav.audit': 'Auditoría',
+  'nav.users': 'Usuarios',
+  'nav.logout': 'Cerrar sesión',
+  'nav.profile': 'Mi perfil',
+  'nav.location': 'Ubicación',
+  'nav.allLocations': 'Todas las ubicaciones',
+  'nav.online': 'En línea',
+  'nav.offline': 'Sin conexión',
+  'nav.switchLanguage': 'Switch to English',
+  'nav.lowStockAlerts': 'Alertas de stock bajo',
+
+  // auth
+  'auth.defaultUserName': 'Usuario',
+  'auth.signUpClosed': 'El registro está cerrado; solo pueden crear una cuenta los correos invitados',
+  'auth.signUpSuccess': 'Usuario registrado exitosamente; revisa tu correo para verificar la cuenta',
+  'auth.signUpError': 'Error al registrar usuario',
+  'auth.emailInUse': 'Este correo ya está registrado',
+  'auth.weakPassword': 'La contraseña debe tener al menos 6 caracteres',
+  'auth.invalidEmail': 'El formato del correo no es válido',
+  'auth.resetSent': 'Te enviamos un correo con el enlace para restablecer tu contraseña',
+  'auth.resetError': 'Error al enviar el correo de recuperación',
+  'auth.userNotFound': 'No hay ninguna cuenta con este correo',
+  'auth.tooManyRequests': 'Demasiados intentos; espera unos minutos',
+  'auth.errors.demoDisabled': 'El modo demo está desactivado',
+  'auth.errors.signInToUpdateProfile': 'Inicia sesión para actualizar tu perfil',
+  'auth.errors.displayNameRequired': 'El nombre es requerido',
+  'auth.errors.signInToVerify': 'Inicia sesión para verificar tu correo',
+  'auth.errors.invalidSessionTimeout': 'El tiempo de inactividad debe ser cero o un número positivo de minutos',
+  'auth.errors.permissionDenied': 'Tu rol no permite esta operación ({permission})',
+
+  // roles
+  'roles.owner': 'Dueño',
+  'roles.manager': 'Gerente',
+  'roles.cashier': 'Cajero',
+  'roles.auditor': 'Auditor',
+  'roles.none': 'Sin rol',
+
+  // access, verify, session
+  'access.denied': 'Sin acceso',
+  'access.disabled': 'Tu cuenta está desactivada en esta tienda.',
+  'access.roleDenied': 'Tu rol no tiene permiso para ver esta sección.',
+  'access.noRole': 'Aún no tienes un rol en esta tienda; pide al dueño que te asigne uno.',
+  'verify.verified': '¡Correo verificado!',
+  'verify.notVerified': 'Tu correo aún no está verificado; abre el enlace que te enviamos',
+  'verify.checkError': 'Error al comprobar la verificación',
+  'verify.resent': 'Te enviamos un nuevo correo de verificación',
+  'verify.resendError': 'Error al enviar el correo de verificación',
+  'verify.title': 'Revisa tu correo',
+  'verify.sentTo': 'Enviamos un enlace de verificación a',
+  'verify.instructions': 'Ábrelo y vuelve aquí para continuar.',
+  'verify.done': 'Ya lo verifiqué',
+  'verify.resend': 'Reenviar correo',
+  'config.title': 'Falta la configuración de Firebase',
+  'config.missing': 'Estas variables no tienen valor:',
+  'config.instructions': 'Copia .env.example a .env, llena las variables VITE_FIREBASE_* con la configuración de tu app web de Firebase y vuelve a iniciar la aplicación. Para usar los emuladores, define VITE_USE_FIREBASE_EMULATOR=true.',
+  'session.expired': 'Cerramos tu sesión por inactividad',
+  'session.title': '¿Sigues ahí?',
+  'session.warning_one': 'Por inactividad, tu sesión se cerrará en {count} segundo.',
+  'session.warning_other': 'Por inactividad, tu sesión se cerrará en {count} segundos.',
+  'session.stay': 'Seguir conectado',
+
+  // login
+  'login.demoWelcome': '¡Bienvenido a la demo!',
+  'login.demoError': 'Error al entrar con la cuenta demo. ¿Está corriendo el emulador?',
+  'login.missingFields': 'Por favor ingrese email y contraseña',
+  'login.welcome': '¡Bienvenido!',
+  'login.invalidCredentials': 'Credenciales inválidas. Verifique su email y contraseña.',
+  'login.error': 'Error al iniciar sesión. Intente nuevamente.',
+  'login.subtitle': 'Sistema de Control de Inventario',
+  'login.firebase': 'Conectado con Firebase',
+  'login.email': 'Correo Electrónico',
+  'login.emailPlaceholder': 'tu@email.com',
+  'login.password': 'Contraseña',
+  'login.forgotPassword': '¿Olvidaste tu contraseña?',
+  'login.signingIn': 'Iniciando sesión...',
+  'login.signIn': 'Iniciar sesión',
+  'login.demo': 'Entrar con la cuenta demo',
+  'login.noAccount': '¿No tienes cuenta?',
+  'login.createAccount': 'Crear una cuenta nueva',
+  'login.backToLogin': 'Volver a iniciar sesión',
+
+  // signUp, forgot
+  'signUp.requiredFields': 'Todos los campos son requeridos',
+  'signUp.invalidEmail': 'Por favor ingrese un email válido',
+  'signUp.passwordMismatch': 'Las contraseñas no coinciden',
+  'signUp.error': 'Error al registrar usuario. Intente nuevamente.',
+  'signUp.title': 'Crear Cuenta',
+  'signUp.subtitle': 'Sistema de Control de Inventario MiniSuper',
+  'signUp.firebase': 'Registro con Firebase',
+  'signUp.fullName': 'Nombre Completo',
+  'signUp.fullNamePlaceholder': 'Ingrese su nombre completo',
+  'signUp.optional': '(opcional)',
+  'signUp.storePlaceholder': 'Código de la tienda',
+  'signUp.passwordPlaceholder': 'Mínimo 6 caracteres',
+  'signUp.confirmPassword': 'Confirmar Contraseña',
+  'signUp.confirmPasswordPlaceholder': 'Repita su contraseña',
+  'signUp.submitting': 'Registrando...',
+  'signUp.haveAccount': '¿Ya tienes una cuenta?',
+  'forgot.missingEmail': 'Por favor ingrese su correo',
+  'forgot.title': 'Recuperar contraseña',
+  'forgot.subtitle': 'Te enviaremos un enlace para elegir una contraseña nueva',
+  'forgot.sent': 'Si {email} tiene una cuenta, en unos minutos recibirás el correo. Revisa también la carpeta de spam.',
+  'forgot.sending': 'Enviando...',
+  'forgot.send': 'Enviar enlace',
+
+  // profile
+  'profile.saved': 'Perfil actualizado',
+  'profile.saveError': 'Error al guardar el perfil',
+  'profile.timeoutSaved': 'Cierre de sesión actualizado',
+  'profile.title': 'Mi Perfil',
+  'profile.email': 'Correo',
+  'profile.role': 'Rol',
+  'profile.phone': 'Teléfono',
+  'profile.language': 'Idioma',
+  'profile.store': 'Tienda',
+  'profile.defaultStore': 'Tienda predeterminada',
+  'profile.defaultStoreHelp': 'Déjalo vacío para usar la tienda configurada en la aplicación. Al cambiarla trabajarás con los datos de esa tienda, donde el dueño debe darte acceso.',
+  'profile.thisDevice': 'Este equipo',
+  'profile.sessionTimeout': 'Cerrar sesión por inactividad',
+  'profile.timeoutNever': 'Nunca',
+  'profile.timeoutAfter_one': 'Después de {count} minuto',
+  'profile.timeoutAfter_other': 'Después de {count} minutos',
+  'profile.sessionTimeoutHelp': 'Se guarda solo en este navegador. En las computadoras compartidas del mostrador conviene un tiempo corto.',
+
+  // inventory context
+  'transactionType.entry': 'Entrada',
+  'transactionType.exit': 'Salida',
+  'transactionType.adjustment': 'Ajuste',
+  'adjustmentReason.merma': 'Merma',
+  'adjustmentReason.robo': 'Robo',
+  'adjustmentReason.caducidad': 'Caducidad',
+  'adjustmentReason.error_captura': 'Error de captura',
+  'inventory.reversalNote': 'Reverso: {reason}',
+  'inventory.transferOutNote': 'Traspaso {folio} a {location}',
+  'inventory.transferInNote': 'Traspaso {folio} desde {location}',
+  'inventory.errors.categoryInUse': 'No se puede eliminar una categoría que usan productos',
+  'inventory.errors.productHasTransactions': 'No se puede eliminar un producto con movimientos',
+  'inventory.errors.locationNotFound': 'No se encontró la ubicación',
+  'inventory.errors.locationInactive': '{location} está inactiva y no acepta movimientos nuevos',
+  'inventory.errors.chooseLocation': 'Elige una ubicación en la barra superior antes de registrar movimientos',
+  'inventory.errors.periodClosed': 'El periodo está cerrado hasta el {date}; los movimientos no pueden tener esa fecha o una anterior',
+  'inventory.errors.reasonRequired': 'Los ajustes requieren un motivo',
+  'inventory.errors.notEnoughStock': 'No hay existencia suficiente para este movimiento',
+  'inventory.errors.transactionNotFound': 'No se encontró el movimiento',
+  'inventory.errors.alreadyVoided': 'Este movimiento ya fue cancelado o es un reverso',
+  'inventory.errors.transferNotVoidable': 'Los movimientos de un traspaso no se cancelan; registra un traspaso de regreso',
+  'inventory.errors.voidReasonRequired': 'Se requiere un motivo para cancelar un movimiento',
+  'inventory.errors.periodClosedVoid': 'El periodo está cerrado hasta el {date}; no se pueden cancelar movimientos de esa fecha o anteriores',
+  'inventory.errors.voidNegativeStock': 'Cancelar esta entrada dejaría existencia negativa el {date}',
+  'inventory.errors.backdatedNegativeStock': 'Con este movimiento la existencia quedaría negativa el {date}',
+  'inventory.errors.locationNameRequired': 'La ubicación necesita un nombre',
+  'inventory.errors.lastActiveLocation': 'Debe quedar al menos una ubicación activa',
+  'inventory.errors.signInToTransfer': 'Inicia sesión para traspasar existencias',
+  'inventory.errors.sameLocation': 'El origen y el destino deben ser ubicaciones distintas',
+  'inventory.errors.periodClosedTransfer': 'El periodo está cerrado hasta el {date}; los traspasos no pueden tener esa fecha o una anterior',
+  'inventory.errors.emptyTransfer': 'El traspaso no tiene productos',
+  'inventory.errors.notEnoughStockAt': 'No hay existencia suficiente de {product} en {location}',
+  'inventory.errors.signInToClose': 'Inicia sesión para cerrar un periodo',
+  'inventory.errors.alreadyClosed': 'El periodo ya está cerrado hasta el {date}',
+  'inventory.errors.signInToReopen': 'Inicia sesión para reabrir un periodo',
+  'inventory.errors.reopenReasonRequired': 'Se requiere un motivo para reabrir un periodo',
+  'inventory.errors.notClosed': 'Solo se pueden reabrir periodos cerrados',
+  'inventory.errors.reopenLatestFirst': 'Reabre primero el periodo cerrado más reciente',
+  'inventory.errors.exchangeRateRequired': 'Las entradas en otra moneda necesitan un tipo de cambio mayor a 0',
+  'inventory.errors.exchangeRateInvalid': 'El tipo de cambio debe ser de una moneda extranjera y mayor a 0',
+  'inventory.errors.invalidSatKey': 'La clave de producto SAT lleva 8 dígitos y la de unidad hasta 3 letras o números',
+
+  // inventory page
+  'inventory.productRequired': 'Debe seleccionar un producto',
+  'inventory.quantityRequired': 'La cantidad debe ser mayor a 0',
+  'inventory.unitCostRequired': 'El costo unitario debe ser mayor a 0',
+  'inventory.entrySaved': 'Entrada registrada con éxito',
+  'inventory.exitSaved': 'Salida registrada con éxito',
+  'inventory.entryError': 'Error al registrar entrada',
+  'inventory.exitError': 'Error al registrar salida',
+  'inventory.voidReasonRequired': 'Debe indicar el motivo de la anulación',
+  'inventory.voided': 'Movimiento anulado con éxito',
+  'inventory.voidError': 'Error al anular el movimiento',
+  'inventory.registerEntry': 'Registrar Entrada',
+  'inventory.registerExit': 'Registrar Salida',
+  'inventory.searchPlaceholder': 'Buscar por producto...',
+  'inventory.transactionType': 'Tipo de Transacción',
+  'inventory.entries': 'Entradas',
+  'inventory.exits': 'Salidas',
+  'inventory.adjustments': 'Ajustes',
+  'inventory.movements': 'Movimientos de Inventario',
+  'inventory.type': 'Tipo',
+  'inventory.unitCostShort': 'Costo Unit.',
+  'inventory.totalCost': 'Costo Total',
+  'inventory.lot': 'Lote {lot}',
+  'inventory.expiresShort': 'Cad. {date}',
+  'inventory.voidedBadge': 'Anulado',
+  'inventory.reversalBadge': 'Reverso',
+  'inventory.transferBadge': 'Traspaso',
+  'inventory.createdBy': 'Registró {name}',
+  'inventory.voidTitle': 'Anular Movimiento',
+  'inventory.empty': 'No se encontraron transacciones',
+  'inventory.selectProduct': 'Seleccione un producto',
+  'inventory.outOfStock': '(Sin stock)',
+  'inventory.stockOption': '(Stock: {stock})',
+  'inventory.lotNumber': 'Lote',
+  'inventory.expiryDate': 'Caducidad',
+  'inventory.unitCostLabel': 'Costo Unitario ($)',
+  'inventory.currency': 'Moneda',
+  'inventory.exchangeRate': 'Tipo de cambio (pesos por {currency})',
+  'inventory.baseCost': 'Costo en pesos: {cost}',
+  'inventory.noExchangeRate': 'No hay tipo de cambio de {currency} registrado a esta fecha; captúralo',
+  'inventory.originalCost': '{cost} a T.C. {rate}',
+  'inventory.closedThrough': 'Período cerrado hasta el {date}',
+  'inventory.voidMovement.entry': 'una salida',
+  'inventory.voidMovement.exit': 'una entrada',
+  'inventory.voidMovement.adjustment': 'un ajuste contrario',
+  'inventory.voidExplanation': 'Se registrará {movement} de {units} de {product} con fecha {date} que compensa este movimiento.',
+  'inventory.reason': 'Motivo',
+  'inventory.void': 'Anular',
+
+  // dashboard
+  'dashboard.totalProducts': 'Total Productos',
+  'dashboard.lowStock': 'Stock Bajo',
+  'dashboard.entries': 'Entradas',
+  'dashboard.exits': 'Salidas',
+  'dashboard.stockByProduct': 'Inventario por Producto',
+  'dashboard.stock': 'Existencia',
+  'dashboard.minStock': 'Stock mínimo',
+  'dashboard.byCategory': 'Distribución por Categoría',
+  'dashboard.stockAlerts': 'Alertas de Stock',
+  'dashboard.currentStock': 'Stock actual',
+  'dashboard.minimum': 'Mínimo',
+  'dashboard.noLowStock': 'No hay productos con stock bajo',
+  'dashboard.expiry': 'Caducidades',
+  'dashboard.lotUnits_one': 'Lote {lot}: {count} unidad',
+  'dashboard.lotUnits_other': 'Lote {lot}: {count} unidades',
+  'dashboard.expired': 'Caducado',
+  'dashboard.expiringSoon': 'Por caducar',
+  'dashboard.noExpiring': 'No hay lotes caducados ni por caducar',
+  'dashboard.recentActivity': 'Actividad Reciente',
+  'dashboard.adjustmentUnits_one': 'Ajuste de {quantity} unidad',
+  'dashboard.adjustmentUnits_other': 'Ajuste de {quantity} unidades',
+  'dashboard.entryUnits_one': 'Entrada de {count} unidad',
+  'dashboard.entryUnits_other': 'Entrada de {count} unidades',
+  'dashboard.exitUnits_one': 'Salida de {count} unidad',
+  'dashboard.exitUnits_other': 'Salida de {count} unidades',
+  'dashboard.noRecent': 'No hay transacciones recientes',
+  'dashboard.totalValue': 'Valor Total del Inventario',
+  'locations.type.store': 'Tienda',
+  'locations.type.warehouse': 'Almacén',
+  'locations.deleted': 'Ubicación eliminada',
+
+  // products
+  'products.nameRequired': 'El nombre del producto es requerido',
+  'products.categoryRequired': 'Debe seleccionar una categoría',
+  'products.updated': 'Producto actualizado con éxito',
+  'products.created': 'Producto agregado con éxito',
+  'products.saveError': 'Error al guardar el producto',
+  'products.deleted': 'Producto eliminado con éxito',
+  'products.deleteError': 'Error al eliminar el producto',
+  'products.new': 'Nuevo Producto',
+  'products.edit': 'Editar Producto',
+  'products.searchPlaceholder': 'Buscar productos...',
+  'products.allCategories': 'Todas las categorías',
+  'products.stock': 'Stock: {stock}',
+  'products.low': '(Bajo)',
+  'products.minimum': 'Mínimo: {minStock}',
+  'products.noResults': 'No se encontraron productos con esos filtros',
+  'products.empty': 'No hay productos registrados',
+  'products.barcode': 'Código de Barras',
+  'products.category': 'Categoría',
+  'products.selectCategory': 'Seleccione una categoría',
+  'products.generalMinStock': 'Stock Mínimo General',
+  'products.minStock': 'Stock Mínimo',
+  'products.price': 'Precio ($)',
+  'products.minStockByLocation': 'Mínimo por ubicación',
+  'products.imageUrl': 'URL de Imagen',
+  'products.imagePlaceholder': 'https://ejemplo.com/imagen.jpg',
+  'products.preview': 'Vista previa',
+
+  // categories, locations
+  'categories.nameRequired': 'El nombre de la categoría es requerido',
+  'categories.updated': 'Categoría actualizada con éxito',
+  'categories.created': 'Categoría agregada con éxito',
+  'categories.saveError': 'Error al guardar la categoría',
+  'categories.deleted': 'Categoría eliminada con éxito',
+  'categories.deleteError': 'Error al eliminar la categoría',
+  'categories.new': 'Nueva Categoría',
+  'categories.edit': 'Editar Categoría',
+  'categories.searchPlaceholder': 'Buscar categorías...',
+  'categories.perishable': 'Perecedero',
+  'categories.perishableHelp': 'Perecedero (registrar lote y caducidad en las entradas)',
+  'categories.taxesHelp': 'Los productos de la categoría usan estas tasas salvo que tengan las suyas',
+  'categories.noResults': 'No se encontraron categorías con esa búsqueda',
+  'categories.empty': 'No hay categorías registradas',
+  'locations.nameRequired': 'El nombre de la ubicación es requerido',
+  'locations.updated': 'Ubicación actualizada con éxito',
+  'locations.created': 'Ubicación agregada con éxito',
+  'locations.saveError': 'Error al guardar la ubicación',
+  'locations.new': 'Nueva Ubicación',
+  'locations.edit': 'Editar Ubicación',
+  'locations.inactive': 'Inactiva',
+  'locations.unitsOnHand_one': '{count} unidad en existencia',
+  'locations.unitsOnHand_other': '{count} unidades en existencia',
+  'locations.activeHelp': 'Activa (recibe ventas, movimientos y traspasos)',
+
+  // transfers
+  'transfers.saved': 'Traspaso {folio} registrado con éxito',
+  'transfers.saveError': 'Error al registrar el traspaso',
+  'transfers.addProduct': 'Agregue al menos un producto',
+  'transfers.new': 'Nuevo Traspaso',
+  'transfers.folio': 'Folio',
+  'transfers.route': 'Ruta',
+  'transfers.value': 'Valor',
+  'transfers.createdBy': 'Registró',
+  'transfers.needTwoLocations': 'Registre al menos dos ubicaciones activas para hacer traspasos',
+  'transfers.empty': 'No hay traspasos registrados',
+  'transfers.from': 'Origen',
+  'transfers.to': 'Destino',
+  'transfers.available': 'Disponible: {stock}',
+  'transfers.register': 'Registrar',
+
+  // cycle counts
+  'counts.status.open': 'Abierto',
+  'counts.status.approved': 'Aprobado',
+  'counts.status.cancelled': 'Cancelado',
+  'counts.started': 'Conteo iniciado',
+  'counts.startError': 'Error al iniciar el conteo',
+  'counts.confirmApprove': 'Se registrarán los ajustes de inventario de este conteo. ¿Desea continuar?',
+  'counts.approved': 'Conteo aprobado y ajustes registrados',
+  'counts.approveError': 'Error al aprobar el conteo',
+  'counts.confirmCancel': '¿Está seguro de cancelar este conteo?',
+  'counts.cancelled': 'Conteo cancelado',
+  'counts.cancelError': 'Error al cancelar el conteo',
+  'counts.deletedCategory': 'Categoría eliminada',
+  'counts.wholeStore': 'Toda la tienda',
+  'counts.new': 'Nuevo Conteo',
+  'counts.scope': 'Alcance',
+  'counts.progress': 'Avance',
+  'counts.startedAt': 'Iniciado',
+  'counts.expected': 'Esperado',
+  'counts.counted': 'Contado',
+  'counts.variance': 'Diferencia',
+  'counts.progressValue_one': '{counted} de {count} producto',
+  'counts.progressValue_other': '{counted} de {count} productos',
+  'counts.startedBy': '{date} por {name}',
+  'counts.view': 'Ver',
+  'counts.empty': 'No hay conteos registrados',
+  'counts.detailTitle': 'Conteo {folio} · {scope}',
+  'counts.cancel': 'Cancelar conteo',
+  'counts.approve': 'Aprobar',
+  'counts.countedProducts': 'Productos contados',
+  'counts.withVariance_one': '{count} con diferencia',
+  'counts.withVariance_other': '{count} con diferencia',
+  'counts.missing': 'Faltantes',
+  'counts.over': 'Sobrantes',
+  'counts.net': 'Resultado neto',
+  'counts.reasonSummary': '{reason}: {units} u. ({value})',
+  'counts.selectReason': 'Seleccione un motivo',
+  'counts.approvedBy': 'Aprobado por {name} el {date}',
+  'counts.expectedHelp': 'Las existencias esperadas se toman del sistema al momento de aprobar el conteo.',
+  'counts.start': 'Iniciar',
+
+  // purchase orders
+  'purchaseOrders.status.draft': 'Borrador',
+  'purchaseOrders.status.sent': 'Enviada',
+  'purchaseOrders.status.partial': 'Recibida parcial',
+  'purchaseOrders.status.received': 'Recibida',
+  'purchaseOrders.unknownSupplier': 'Proveedor desconocido',
+  'purchaseOrders.supplierRequired': 'Debe seleccionar un proveedor',
+  'purchaseOrders.updated': 'Orden de compra actualizada con éxito',
+  'purchaseOrders.created': 'Orden de compra creada con éxito',
+  'purchaseOrders.saveError': 'Error al guardar la orden de compra',
+  'purchaseOrders.deleted': 'Orden de compra eliminada con éxito',
+  'purchaseOrders.deleteError': 'Error al eliminar la orden de compra',
+  'purchaseOrders.sent': 'Orden de compra marcada como enviada',
+  'purchaseOrders.sendError': 'Error al enviar la orden de compra',
+  'purchaseOrders.received': 'Recepción registrada con éxito',
+  'purchaseOrders.receiveError': 'Error al registrar la recepción',
+  'purchaseOrders.newShort': 'Nueva Orden',
+  'purchaseOrders.new': 'Nueva Orden de Compra',
+  'purchaseOrders.edit': 'Editar Orden de Compra',
+  'purchaseOrders.allStatuses': 'Todos los estados',
+  'purchaseOrders.supplier': 'Proveedor',
+  'purchaseOrders.expectedDate': 'Entrega Esperada',
+  'purchaseOrders.markSent': 'Marcar como enviada',
+  'purchaseOrders.receiveGoods': 'Recibir mercancía',
+  'purchaseOrders.needSupplier': 'Registre un proveedor para crear órdenes de compra',
+  'purchaseOrders.empty': 'No hay órdenes de compra',
+  'purchaseOrders.totalValue': 'Total: {total}',
+  'purchaseOrders.receiveTitle': 'Recibir {folio}',
+  'purchaseOrders.pending': 'Pendiente: {pending} a {cost}',
+  'purchaseOrders.receiptDate': 'Fecha de Recepción',
+
+  // suppliers
+  'suppliers.nameRequired': 'El nombre del proveedor es requerido',
+  'suppliers.invalidRfc': 'El RFC no tiene un formato válido',
+  'suppliers.updated': 'Proveedor actualizado con éxito',
+  'suppliers.created': 'Proveedor agregado con éxito',
+  'suppliers.saveError': 'Error al guardar el proveedor',
+  'suppliers.deleted': 'Proveedor eliminado con éxito',
+  'suppliers.deleteError': 'Error al eliminar el proveedor',
+  'suppliers.searchPlaceholder': 'Buscar proveedores...',
+  'suppliers.noContact': 'Sin datos de contacto',
+  'suppliers.new': 'Nuevo Proveedor',
+  'suppliers.edit': 'Editar Proveedor',
+  'suppliers.leadTime_one': 'Entrega en {count} día',
+  'suppliers.leadTime_other': 'Entrega en {count} días',
+  'suppliers.noResults': 'No se encontraron proveedores con esa búsqueda',
+  'suppliers.empty': 'No hay proveedores registrados',
+  'suppliers.rfc': 'RFC',
+  'suppliers.leadTimeDays': 'Tiempo de Entrega (días)',
+  'suppliers.contact': 'Contacto',
+  'suppliers.email': 'Correo',
+  'suppliers.products': 'Productos que surte',
+  'suppliers.lastCost': 'Último costo',
+
+  // point of sale
+  'pos.payment.cash': 'Efectivo',
+  'pos.payment.card': 'Tarjeta de crédito',
+  'pos.payment.debit': 'Tarjeta de débito',
+  'pos.payment.transfer': 'Transferencia',
+  'pos.notEnoughStock': 'No hay suficiente stock de {product}',
+  'pos.onlyAvailable_one': 'Solo hay {count} unidad disponible',
+  'pos.onlyAvailable_other': 'Solo hay {count} unidades disponibles',
+  'pos.productNotFound': 'Producto no encontrado',
+  'pos.saleSaved': 'Venta {folio} registrada',
+  'pos.saleError': 'Error al registrar la venta',
+  'pos.todaySales': 'Ventas de hoy ({count})',
+  'pos.searchPlaceholder': 'Código de barras, SKU o nombre...',
+  'pos.stock': 'Stock: {stock}',
+  'pos.cart': 'Carrito',
+  'pos.each': '{price} c/u',
+  'pos.emptyCart': 'Escanee o busque un producto para agregarlo',
+  'pos.received': 'Recibido ($)',
+  'pos.change': 'Cambio',
+  'pos.ivaIncluded': 'IVA incluido',
+  'pos.iepsIncluded': 'IEPS incluido',
+  'pos.customerOptional': 'Cliente (opcional)',
+  'pos.checkout': 'Cobrar',
+  'pos.ticket': 'Ticket {folio}',
+  'pos.folio': 'Folio: {folio}',
+  'pos.customer': 'Cliente: {name}',
+  'pos.thanks': '¡Gracias por su compra!',
+
+  // reports
+  'reports.method.PEPS': 'Primeras Entradas, Primeras Salidas',
+  'reports.method.UEPS': 'Últimas Entradas, Primeras Salidas',
+  'reports.method.weighted': 'Costo Promedio Ponderado',
+  'reports.methodShort.PEPS': 'PEPS',
+  'reports.methodShort.UEPS': 'UEPS',
+  'reports.methodShort.weighted': 'Promedio Ponderado',
+  'reports.excel.title': 'Reporte de inventario',
+  'reports.excel.product': 'Producto:',
+  'reports.excel.location': 'Ubicación:',
+  'reports.excel.method': 'Método de Valuación:',
+  'reports.excel.period': 'Período:',
+  'reports.excel.generatedOn': 'Fecha de Generación:',
+  'reports.excel.summary': 'Resumen',
+  'reports.excel.openingStock': 'Inventario Inicial:',
+  'reports.excel.finalStock': 'Stock Final:',
+  'reports.excel.totalCost': 'Costo Total:',
+  'reports.excel.averageCost': 'Costo Unitario Promedio:',
+  'reports.excel.costOfSales': 'Costo de Ventas:',
+  'reports.excel.shrinkage': 'Mermas y Faltantes de Conteo:',
+  'reports.excel.adjustment': 'ajuste',
+  'reports.excel.fileName': 'Reporte',
+  'reports.purchases': 'Compras',
+  'reports.sales': 'Ventas',
+  'reports.balance': 'Saldos',
+  'reports.openingStock': 'Inventario inicial',
+  'reports.generator': 'Generador de Reportes',
+  'reports.generateError': 'No se pudo generar el reporte',
+  'reports.byMethod': 'Reporte de Inventario por Método',
+  'reports.inventoryMethod': 'Método de Inventario',
+  'reports.generate': 'Generar Reporte',
+  'reports.clear': 'Limpiar',
+  'reports.quickActions': 'Acciones rápidas',
+  'reports.print': 'Imprimir Reporte',
+  'reports.charts': 'Ver Gráficos',
+  'reports.resultTitle': 'Reporte de Inventario: {product}',
+  'reports.resultSubtitle': 'Ubicación: {location} · Método: {method}',
+  'reports.finalStock': 'Stock Final',
+  'reports.averageCost': 'Costo Unitario Promedio',
+  'reports.costOfSales': 'Costo de Ventas',
+  'reports.countShrinkage': 'Mermas de conteo: {value}',
+  'reports.unfilled_one': 'Hay {count} unidad en salidas sin existencia suficiente; no se incluye en el costo de ventas.',
+  'reports.unfilled_other': 'Hay {count} unidades en salidas sin existencia suficiente; no se incluyen en el costo de ventas.',
+  'reports.kardexTitle': 'Kardex - Control de Inventario {method}',
+  'reports.countAdjustment': 'Ajuste de conteo',
+  'reports.short': 'Faltan {count}',
+  'reports.noMovements': 'No hay movimientos en el período seleccionado',
+
+  // periods
+  'periods.cutoffRequired': 'Debe seleccionar una fecha de corte',
+  'periods.closed': 'Período cerrado con éxito',
+  'periods.closeError': 'Error al cerrar el período',
+  'periods.reasonRequired': 'Debe indicar el motivo de la reapertura',
+  'periods.reopened': 'Período reabierto',
+  'periods.reopenError': 'Error al reabrir el período',
+  'periods.title': 'Cierres de Período',
+  'periods.closeTitle': 'Cerrar período',
+  'periods.closedThrough': 'Los movimientos están cerrados hasta el {date}.',
+  'periods.noneClosed': 'No hay períodos cerrados.',
+  'periods.closeHelp': 'Al cerrar se guardan las existencias y capas de costo de cada producto para PEPS, UEPS y Promedio Ponderado.',
+  'periods.cutoffDate': 'Fecha de Corte',
+  'periods.close': 'Cerrar Período',
+  'periods.history': 'Historial de Cierres',
+  'periods.cutoff': 'Corte',
+  'periods.valuePEPS': 'Valor PEPS',
+  'periods.valueUEPS': 'Valor UEPS',
+  'periods.valueWeighted': 'Valor Promedio',
+  'periods.detail': 'Detalle',
+  'periods.status.closed': 'Cerrado',
+  'periods.status.reopened': 'Reabierto',
+  'periods.closedBy': 'Cerrado por {name} el {date}',
+  'periods.reopenedBy': 'Reabierto por {name} el {date}: {reason}',
+  'periods.reopen': 'Reabrir',
+  'periods.empty': 'No hay cierres registrados',
+  'periods.reopenTitle': 'Reabrir período al {date}',
+
+  // sync review
+  'sync.collection.categories': 'Categoría',
+  'sync.collection.products': 'Producto',
+  'sync.collection.transactions': 'Movimiento',
+  'sync.deletedRecord': 'Registro eliminado',
+  'sync.transactionSummary_one': '{product} · {count} unidad del {date}',
+  'sync.transactionSummary_other': '{product} · {count} unidades del {date}',
+  'sync.keptLocal': 'Se enviará tu versión',
+  'sync.keptRemote': 'Se conservó la versión remota',
+  'sync.resolveError': 'Error al resolver el conflicto',
+  'sync.title': 'Sincronización',
+  'sync.disabled': 'La sincronización está desactivada; los datos se guardan solo en este navegador.',
+  'sync.onlineHelp': 'Los cambios se envían al momento.',
+  'sync.offlineHelp': 'Los cambios se guardan en este equipo y se enviarán al reconectar.',
+  'sync.pending': 'Cambios pendientes',
+  'sync.toReview': 'Conflictos por revisar',
+  'sync.conflicts': 'Conflictos',
+  'sync.overdraw': 'Esta salida se registró sin conexión y, con los movimientos de otros equipos, dejaría en negativo la existencia de su ubicación.',
+  'sync.overdrawSale': 'Es parte de una venta: si la descartas, la venta queda marcada como no registrada por completo.',
+  'sync.deleteConflict': 'Eliminaste este registro sin conexión, pero otro equipo lo modificó.',
+  'sync.editConflict': 'Modificaste este registro sin conexión, pero otro equipo también lo cambió.',
+  'sync.changedAt': 'Cambio del {date}',
+  'sync.discardExit': 'Descartar salida',
+  'sync.useRemote': 'Usar versión remota',
+  'sync.registerAnyway': 'Registrar de todos modos',
+  'sync.keepMine': 'Conservar mi versión',
+  'sync.field': 'Campo',
+  'sync.mine': 'Mi versión',
+  'sync.remote': 'Versión remota',
+  'sync.noConflicts': 'No hay conflictos',
+  'sync.pendingTitle': 'Cambios pendientes de enviar',
+  'sync.deletion': '(eliminación)',
+
+  // users
+  'users.invited': 'Invitación guardada',
+  'users.inviteError': 'Error al invitar',
+  'users.registrationOpen': 'Registro abierto',
+  'users.registrationInviteOnly': 'Registro solo por invitación',
+  'users.settingsError': 'Error al guardar la configuración',
+  'users.invitationCancelled': 'Invitación cancelada',
+  'users.cancelInvitationError': 'Error al cancelar la invitación',
+  'users.roleUpdated': 'Rol actualizado',
+  'users.roleError': 'Error al cambiar el rol',
+  'users.enabled': 'Usuario activado',
+  'users.disabled': 'Usuario desactivado',
+  'users.statusError': 'Error al cambiar el estado',
+  'users.enable': 'Activar',
+  'users.disable': 'Desactivar',
+  'users.unavailable': 'La administración de usuarios necesita una tienda compartida: define {variable} con el identificador del dueño y activa la sincronización.',
+  'users.registration': 'Registro',
+  'users.allowAnyone': 'Permitir que cualquiera cree una cuenta',
+  'users.openHelp': 'Las cuentas nuevas entran sin rol hasta que les asignes uno.',
+  'users.inviteOnlyHelp': 'Solo los correos invitados pueden registrarse.',
+  'users.inviteTitle': 'Invitar usuario',
+  'users.invite': 'Invitar',
+  'users.cancelInvitation': 'Cancelar invitación',
+  'users.members': 'Usuarios de la tienda',
+  'users.lastLogin': 'Último acceso',
+  'users.status.active': 'Activo',
+  'users.status.disabled': 'Desactivado',
+  'users.empty': 'No hay usuarios registrados',
+
+  // audit
+  'audit.action.create': 'Alta',
+  'audit.action.update': 'Cambio',
+  'audit.action.delete': 'Baja',
+  'audit.action.void': 'Cancelación',
+  'audit.action.close': 'Cierre',
+  'audit.action.reopen': 'Reapertura',
+  'audit.entity.category': 'Categoría',
+  'audit.entity.product': 'Producto',
+  'audit.entity.transaction': 'Movimiento',
+  'audit.entity.location': 'Ubicación',
+  'audit.entity.exchange_rate': 'Tipo de cambio',
+  'audit.entity.period': 'Periodo',
+  'audit.entity.transfer': 'Traspaso',
+  'audit.action': 'Acción',
+  'audit.entity': 'Entidad',
+  'audit.id': 'Id',
+  'audit.changes': 'Cambios',
+  'audit.fileName': 'Auditoria',
+  'audit.fileStart': 'inicio',
+  'audit.log': 'Bitácora de cambios',
+  'audit.empty': 'No hay cambios registrados',
+
+  // counts, purchasing, sales, users and sync contexts
+  'counts.errors.notFound': 'No se encontró el conteo',
+  'counts.errors.notOpen': 'Solo se pueden modificar conteos abiertos',
+  'counts.errors.signInToStart': 'Debe iniciar sesión para iniciar un conteo',
+  'counts.errors.chooseLocation': 'Elija una ubicación en la barra superior antes de iniciar un conteo',
+  'counts.errors.noProducts': 'No hay productos para contar',
+  'counts.errors.alreadyCounting': 'Algunos de estos productos ya están en un conteo abierto',
+  'counts.errors.negativeQuantity': 'La cantidad contada no puede ser negativa',
+  'counts.errors.signInToApprove': 'Debe iniciar sesión para aprobar un conteo',
+  'counts.errors.notAllCounted': 'Todos los productos deben contarse antes de aprobar',
+  'counts.errors.periodClosed': 'El periodo está cerrado hasta el {date}; no se pueden aprobar conteos',
+  'counts.errors.reasonRequired': 'Cada diferencia necesita un motivo',
+  'counts.note': 'Conteo {folio}',
+  'purchaseOrders.errors.supplierHasOrders': 'No se puede eliminar un proveedor con órdenes de compra',
+  'purchaseOrders.errors.supplierNotFound': 'No se encontró el proveedor',
+  'purchaseOrders.errors.noLines': 'La orden de compra necesita al menos una línea',
+  'purchaseOrders.errors.invalidLines': 'Las cantidades y costos unitarios deben ser mayores a 0',
+  'purchaseOrders.errors.exchangeRateRequired': 'Captura el tipo de cambio de las partidas en otra moneda',
+  'purchaseOrders.errors.editDraftOnly': 'Solo se pueden editar órdenes en borrador',
+  'purchaseOrders.errors.deleteDraftOnly': 'Solo se pueden eliminar órdenes en borrador',
+  'purchaseOrders.errors.sendDraftOnly': 'Solo se pueden enviar órdenes en borrador',
+  'purchaseOrders.errors.notReceivable': 'Solo se pueden recibir órdenes enviadas o recibidas en parte',
+  'purchaseOrders.errors.periodClosed': 'El periodo está cerrado hasta el {date}; las recepciones no pueden tener esa fecha o una anterior',
+  'purchaseOrders.errors.nothingToReceive': 'Indique al menos una cantidad a recibir',
+  'purchaseOrders.errors.lineNotFound': 'No se encontró la línea de la orden de compra',
+  'purchaseOrders.errors.overReceived': 'No se puede recibir más de lo pedido',
+  'purchaseOrders.receiptNote': 'Recepción {folio}',
+  'pos.errors.empty': 'La venta no tiene productos',
+  'pos.errors.chooseLocation': 'Elija una ubicación en la barra superior antes de registrar ventas',
+  'pos.errors.periodClosed': 'El periodo está cerrado hasta el {date}; no se pueden registrar ventas',
+  'pos.errors.notEnoughCash': 'El monto recibido no cubre el total',
+  'pos.saleNote': 'Venta {folio}',
+  'users.errors.noSharedStore': 'La administración de usuarios necesita una tienda compartida (VITE_STORE_ID o una tienda predeterminada)',
+  'users.errors.notFound': 'No se encontró el usuario',
+  'users.errors.ownerLocked': 'La cuenta del dueño de la tienda no se puede cambiar',
+  'users.errors.selfLocked': 'No puede cambiar su propio acceso',
+  'users.errors.invalidEmail': 'Ingrese un correo válido',
+  'users.errors.alreadyMember': 'Este correo ya pertenece a un usuario de la tienda',
+  'sync.errors.inactive': 'La sincronización no está activa',
+  'sync.errors.conflictNotFound': 'El conflicto ya no existe; puede que otro equipo lo haya resuelto',
+  'sync.errors.noFoliosOffline': 'Sin conexión y sin folios reservados en este equipo; conéctate para continuar',
+  'sync.errors.folioNotReserved': 'No se pudo asignar un folio, inténtalo de nuevo',
+  'sync.errors.invoicingOffline': 'Para facturar o eliminar un borrador se necesita conexión: el folio y la venta facturada se registran en el servidor',
+
+  // exchange rates page
+  'exchangeRates.new': 'Nuevo Tipo de Cambio',
+  'exchangeRates.help': 'Cada entrada en otra moneda toma el último tipo de cambio registrado hasta su fecha, y se puede corregir al capturarla. Los costos y la valuación del inventario quedan en pesos.',
+  'exchangeRates.rate': 'Pesos por unidad',
+  'exchangeRates.empty': 'Todavía no hay tipos de cambio registrados',
+  'exchangeRates.rateRequired': 'El tipo de cambio debe ser mayor a 0',
+  'exchangeRates.saved': 'Tipo de cambio guardado',
+  'exchangeRates.saveError': 'Error al guardar el tipo de cambio',
+  'exchangeRates.deleted': 'Tipo de cambio eliminado',
+  'exchangeRates.deleteError': 'Error al eliminar el tipo de cambio',
+  'exchangeRates.confirmDelete': '¿Eliminar este tipo de cambio? Las entradas ya registradas conservan el suyo.',
+  'exchangeRates.delete': 'Eliminar',
+
+  // taxes
+  'taxes.iva': 'IVA',
+  'taxes.iva.tasa16': 'IVA 16%',
+  'taxes.iva.tasa0': 'IVA tasa 0%',
+  'taxes.iva.exento': 'Exento de IVA',
+  'taxes.iepsPercent': 'IEPS (%)',
+  'taxes.iepsRate': 'IEPS {rate}%',
+  'taxes.iepsInvalid': 'El IEPS debe estar entre 0 y 100%',
+  'taxes.priceIncludesTax': 'El precio incluye impuestos',
+  'taxes.useCategory': 'Usar los impuestos de la categoría',
+  'taxReport.title': 'Resumen de impuestos',
+  'taxReport.help': 'Las ventas ya incluyen sus impuestos; a los costos de compra se les suman. Los movimientos anulados no cuentan, y los registrados antes de configurar impuestos no tienen desglose.',
+  'taxReport.concept': 'Concepto',
+  'taxReport.sales': 'Ventas (cobrado)',
+  'taxReport.purchases': 'Compras (pagado)',
+  'taxReport.balance': 'A pagar',
+  'taxReport.base16': 'Base gravada al 16%',
+  'taxReport.base0': 'Base a tasa 0%',
+  'taxReport.baseExempt': 'Base exenta',
+  'taxReport.iepsBase': 'Base con IEPS',
+  'taxReport.iva': 'IVA',
+  'taxReport.ieps': 'IEPS',
+  'taxReport.fileName': 'Impuestos',
+
+  // invoices
+  'invoices.sales': 'Ventas',
+  'invoices.saleFolio': 'Venta',
+  'invoices.customer': 'Cliente',
+  'invoices.noSales': 'No hay ventas en el periodo',
+  'invoices.invoice': 'Facturar',
+  'invoices.invoicedAs': 'Factura {folio}',
+  'invoices.exitsDiscarded': 'Salidas descartadas al sincronizar',
+  'invoices.empty': 'No hay facturas',
+  'invoices.folio': 'Factura',
+  'invoices.receptor': 'Receptor',
+  'invoices.status.draft': 'Sin timbrar',
+  'invoices.status.stamped': 'Timbrada',
+  'invoices.stamp': 'Timbrar',
+  'invoices.downloadXml': 'Descargar XML',
+  'invoices.printable': 'Representación impresa',
+  'invoices.delete': 'Eliminar factura',
+  'invoices.new': 'Facturar la venta {folio}',
+  'invoices.rfc': 'RFC',
+  'invoices.postalCode': 'Código postal fiscal',
+  'invoices.legalName': 'Nombre o razón social',
+  'invoices.legalNameHelp': 'Tal como aparece en la constancia de situación fiscal, sin el régimen societario (S.A. de C.V.)',
+  'invoices.taxRegime': 'Régimen fiscal',
+  'invoices.use': 'Uso del CFDI',
+  'invoices.generate': 'Generar factura',
+  'invoices.validationErrors_one': 'La factura tiene {count} error:',
+  'invoices.validationErrors_other': 'La factura tiene {count} errores:',
+  'invoices.validationScope': 'Se revisan las reglas de cfdv40.xsd y sus catálogos que aplican a esta factura y sus sumas, pero no se valida contra el XSD del SAT: esa validación la hace el PAC al timbrar, o xmllint con los XSD descargados del SAT.',
+  'invoices.created': 'Factura generada; falta timbrarla',
+  'invoices.saveError': 'Error al generar la factura',
+  'invoices.stamped': 'Factura timbrada',
+  'invoices.stampError': 'Error al timbrar la factura',
+  'invoices.confirmDelete': '¿Eliminar esta factura sin timbrar?',
+  'invoices.deleted': 'Factura eliminada',
+  'invoices.deleteError': 'Error al eliminar la factura',
+  'invoices.noIssuerHelp': 'Para facturar, configura el RFC, nombre, régimen fiscal y código postal del emisor (VITE_CFDI_*) en el archivo .env',
+  'invoices.draftWatermark': 'SIN TIMBRAR - SIN VALIDEZ FISCAL',
+  'invoices.issuedAt': 'Lugar de expedición: {postalCode}',
+  'invoices.invoiceFolio': 'Factura {folio}',
+  'invoices.type': 'Tipo: I - Ingreso',
+  'invoices.productKey': 'Clave',
+  'invoices.unitKey': 'Unidad',
+  'invoices.unitValue': 'Valor unitario',
+  'invoices.amount': 'Importe',
+  'invoices.paymentForm': 'Forma de pago: {code}',
+  'invoices.paymentMethod': 'Método de pago: {code} - Pago en una sola exhibición',
+  'invoices.currency': 'Moneda: MXN - Peso mexicano',
+  'invoices.subtotal': 'Subtotal',
+  'invoices.uuid': 'Folio fiscal',
+  'invoices.stampedAt': 'Timbrada el {date} con el certificado SAT {certificate}',
+  'invoices.issuerSeal': 'Sello digital del emisor',
+  'invoices.satSeal': 'Sello del SAT',
+  'invoices.verify': 'Verificación',
+  'invoices.errors.noIssuer': 'Faltan los datos fiscales del emisor en la configuración',
+  'invoices.errors.saleNotFound': 'La venta no existe',
+  'invoices.errors.alreadyInvoiced': 'La venta ya tiene factura',
+  'invoices.errors.invalid': 'La factura no pasa la validación del CFDI',
+  'invoices.errors.notFound': 'La factura no existe',
+  'invoices.errors.alreadyStamped': 'La factura ya está timbrada',
+  'invoices.errors.stampedCannotDelete': 'Una factura timbrada no se puede eliminar; debe cancelarse ante el SAT',
+  'cfdi.errors.pattern': 'formato no válido',
+  'cfdi.errors.required': 'es obligatorio',
+  'cfdi.errors.catalog': 'no está en el catálogo del SAT',
+  'cfdi.errors.genericRfc': 'el RFC genérico requiere una factura global',
+  'cfdi.errors.positive': 'debe ser mayor que cero',
+  'cfdi.errors.amount': 'no cuadra con las cantidades',
+  'cfdi.errors.exempt': 'un traslado exento no lleva tasa ni importe',
+
+  // SAT keys
+  'satKeys.productKey': 'Clave de producto SAT',
+  'satKeys.unitKey': 'Clave de unidad SAT',
+  'satKeys.searchPlaceholder': 'Buscar por clave o descripción',
+  'satKeys.invalidFormat': 'Formato de clave no válido',
+  'satKeys.notInCatalog': 'Clave fuera del catálogo incluido; verifícala en el catálogo del SAT',
+  'satKeys.badge': 'SAT {product} · {unit}',
+  'satKeys.missing': 'Sin claves SAT',
+  'satKeys.missingKey': 'Falta',
+  'satKeys.assignTitle': 'Asignar claves por categoría',
+  'satKeys.assignHelp': 'Las claves se aplican a los productos de la categoría que no tienen las suyas; una clave vacía no se cambia',
+  'satKeys.overwrite': 'Reemplazar también las claves que ya tienen',
+  'satKeys.assign': 'Asignar',
+  'satKeys.keysRequired': 'Elige al menos una clave',
+  'satKeys.assigned_one': 'Se actualizó {count} producto',
+  'satKeys.assigned_other': 'Se actualizaron {count} productos',
+  'satKeys.assignError': 'Error al asignar las claves',
+  'satKeys.reportTitle': 'Productos sin claves SAT',
+  'satKeys.reportHelp_one': '{count} producto se facturaría con las claves genéricas 01010101 y H87',
+  'satKeys.reportHelp_other': '{count} productos se facturarían con las claves genéricas 01010101 y H87',
+  'satKeys.allAssigned': 'Todos los productos tienen sus claves SAT',
+  'satKeys.fileName': 'Productos_sin_claves_SAT',
+};
@@ -0,0 +1,14 @@
+import type { es } from './es';
+
+type Key = keyof typeof es;
+
+// "items_one" and "items_other" are both asked for as "items" with a count
+type PluralBase<K> = K extends `${infer Base}_${'one' | 'other'}` ? Base : never;
+
+export type TranslationKey = Exclude<Key, `${string}_one` | `${string}_other`> | PluralBase<Key>;
+
+// Spanish is the reference locale; any other one that misses a key or adds one
+// that Spanish lacks does not type-check
+export type Translations = Record<Key, string>;
+
+export type TranslationParams = Record<string, string | number>;
@@ -1,10 +1,28 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
-import App from './App.tsx';
+import ConfigurationError from './components/layout/ConfigurationError';
+import { LanguageProvider } from './contexts/LanguageContext';
+import { missingFirebaseConfig } from './firebaseConfig';
 import './index.css';
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
-);
+const root = createRoot(document.getElementById('root')!);
+
+// Firebase fails as soon as it loads without its keys, so the app is only
+// imported once the configuration is complete
+if (missingFirebaseConfig.length > 0) {
+  root.render(
+    <StrictMode>
+      <LanguageProvider>
+        <ConfigurationError missing={missingFirebaseConfig} />
+      </LanguageProvider>
+    </StrictMode>
+  );
+} else {
+  import('./App.tsx').then(({ default: App }) =>
+    root.render(
+      <StrictMode>
+        <App />
+      </StrictMode>
+    )
+  );
+}
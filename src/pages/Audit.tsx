@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import * as XLSX from 'xlsx';
+import { useInventory } from '../contexts/InventoryContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  formatAuditChange,
+  AuditAction,
+  AuditEntity,
+  AuditEntry,
+} from '../utils/audit';
+import { getToday, toCalendarDate } from '../utils/format';
+import { Download } from 'lucide-react';
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+  void: 'bg-amber-100 text-amber-800',
+  close: 'bg-gray-100 text-gray-800',
+  reopen: 'bg-purple-100 text-purple-800',
+};
+
+// The date filters are in the user's time zone; timestamps are stored in UTC
+const getLocalDate = (timestamp: string) => toCalendarDate(new Date(timestamp));
+
+// Realtime Database drops empty arrays
+const getChanges = (entry: AuditEntry) => entry.changes ?? [];
+
+const Audit: React.FC = () => {
+  const { auditLog } = useInventory();
+  const { t, formatDateTime } = useLanguage();
+
+  // Filters
+  const [filterUser, setFilterUser] = useState('');
+  const [filterEntity, setFilterEntity] = useState<'' | AuditEntity>('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  // Every user that appears in the log, with their latest name
+  const users = [...new Map(auditLog.map((entry) => [entry.userId, entry.userName])).entries()].sort((a, b) =>
+    a[1].localeCompare(b[1])
+  );
+
+  const filteredEntries = auditLog
+    .filter((entry) => {
+      const date = getLocalDate(entry.timestamp);
+      return (
+        (filterUser === '' || entry.userId === filterUser) &&
+        (filterEntity === '' || entry.entity === filterEntity) &&
+        (!startDate || date >= startDate) &&
+        (!endDate || date <= endDate)
+      );
+    })
+    .sort((a, b) => (a.timestamp < b.timestamp ? 1 : -1));
+
+  const exportToExcel = () => {
+    const workbook = XLSX.utils.book_new();
+    const sheetData = [
+      [
+        t('common.date'),
+        t('common.user'),
+        t('audit.action'),
+        t('audit.entity'),
+        t('common.name'),
+        t('audit.id'),
+        t('audit.changes'),
+      ],
+      ...filteredEntries.map((entry) => [
+        formatDateTime(entry.timestamp),
+        entry.userName,
+        t(AUDIT_ACTION_LABELS[entry.action]),
+        t(AUDIT_ENTITY_LABELS[entry.entity]),
+        entry.entityName,
+        entry.entityId,
+        getChanges(entry).map(formatAuditChange).join('\n'),
+      ]),
+    ];
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(sheetData), t('nav.audit'));
+
+    XLSX.writeFile(workbook, `${t('audit.fileName')}_${startDate || t('audit.fileStart')}_${endDate || getToday()}.xlsx`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">{t('nav.audit')}</h1>
+        <button
+          onClick={exportToExcel}
+          disabled={filteredEntries.length === 0}
+          className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 ${
+            filteredEntries.length === 0 ? 'opacity-50 cursor-not-allowed' : ''
+          }`}
+        >
+          <Download className="h-4 w-4 mr-2" />
+          {t('common.exportExcel')}
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white shadow rounded-lg p-4">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">{t('common.filters')}</h2>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor="filterUser" className="block text-sm font-medium text-gray-700">
+              {t('common.user')}
+            </label>
+            <select
+              id="filterUser"
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              value={filterUser}
+              onChange={(e) => setFilterUser(e.target.value)}
+            >
+              <option value="">{t('common.all')}</option>
+              {users.map(([userId, userName]) => (
+                <option key={userId} value={userId}>
+                  {userName || userId}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="filterEntity" className="block text-sm font-medium text-gray-700">
+              {t('audit.entity')}
+            </label>
+            <select
+              id="filterEntity"
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              value={filterEntity}
+              onChange={(e) => setFilterEntity(e.target.value as '' | AuditEntity)}
+            >
+              <option value="">{t('common.allFeminine')}</option>
+              {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntity[]).map((entity) => (
+                <option key={entity} value={entity}>
+                  {t(AUDIT_ENTITY_LABELS[entity])}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="startDate" className="block text-sm font-medium text-gray-700">
+              {t('common.startDate')}
+            </label>
+            <input
+              type="date"
+              id="startDate"
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div>
+            <label htmlFor="endDate" className="block text-sm font-medium text-gray-700">
+              {t('common.endDate')}
+            </label>
+            <input
+              type="date"
+              id="endDate"
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200 bg-gray-50">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">{t('audit.log')}</h3>
+        </div>
+        {filteredEntries.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('common.date')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('common.user')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('audit.action')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('audit.entity')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('audit.changes')}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredEntries.map((entry) => (
+                  <tr key={entry.id} className="align-top">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDateTime(entry.timestamp)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{entry.userName || entry.userId}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${ACTION_STYLES[entry.action]}`}>
+                        {t(AUDIT_ACTION_LABELS[entry.action])}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <p className="font-medium text-gray-900">{entry.entityName}</p>
+                      <p className="text-gray-500">{t(AUDIT_ENTITY_LABELS[entry.entity])}</p>
+                    </td>
+                    <td className="px-6 py-4 text-xs text-gray-600">
+                      <ul className="space-y-1">
+                        {getChanges(entry).map((change) => (
+                          <li key={change.field} className="break-all">
+                            {formatAuditChange(change)}
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="py-8 text-center text-gray-500">
+            {t('audit.empty')}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Audit;
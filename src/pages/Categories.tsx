@@ -1,20 +1,31 @@
 import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
 import { useInventory } from '../contexts/InventoryContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import TaxFields from '../components/catalog/TaxFields';
+import { DEFAULT_TAX_CONFIG, IVA_RATE_LABELS, isValidTaxConfig, TaxConfig } from '../utils/taxes';
 import { Plus, Edit, Trash2, X } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 interface CategoryFormData {
   name: string;
   description: string;
+  perishable: boolean;
+  taxes: TaxConfig;
 }
 
 const Categories: React.FC = () => {
   const { categories, addCategory, updateCategory, deleteCategory } = useInventory();
+  const { hasPermission } = useAuth();
+  const { t, formatNumber } = useLanguage();
+  const canEdit = hasPermission('catalog.edit');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<string | null>(null);
   const [formData, setFormData] = useState<CategoryFormData>({
     name: '',
     description: '',
+    perishable: false,
+    taxes: DEFAULT_TAX_CONFIG,
   });
   const [searchTerm, setSearchTerm] = useState('');
 
@@ -25,6 +36,8 @@ const Categories: React.FC = () => {
         setFormData({
           name: category.name,
           description: category.description,
+          perishable: !!category.perishable,
+          taxes: category.taxes ?? DEFAULT_TAX_CONFIG,
         });
         setEditingCategory(categoryId);
       }
@@ -32,6 +45,8 @@ const Categories: React.FC = () => {
       setFormData({
         name: '',
         description: '',
+        perishable: false,
+        taxes: DEFAULT_TAX_CONFIG,
       });
       setEditingCategory(null);
     }
@@ -47,7 +62,7 @@ const Categories: React.FC = () => {
     const { name, value } = e.target;
     setFormData((prev) => ({
       ...prev,
-      [name]: value,
+      [name]: e.target instanceof HTMLInputElement && e.target.type === 'checkbox' ? e.target.checked : value,
     }));
   };
 
@@ -55,7 +70,12 @@ const Categories: React.FC = () => {
     e.preventDefault();
     
     if (!formData.name.trim()) {
-      toast.error('El nombre de la categoría es requerido');
+      toast.error(t('categories.nameRequired'));
+      return;
+    }
+
+    if (!isValidTaxConfig(formData.taxes)) {
+      toast.error(t('taxes.iepsInvalid'));
       return;
     }
     
@@ -65,14 +85,18 @@ const Categories: React.FC = () => {
           id: editingCategory,
           ...formData,
         });
-        toast.success('Categoría actualizada con éxito');
+        toast.success(t('categories.updated'));
       } else {
         addCategory(formData);
-        toast.success('Categoría agregada con éxito');
+        toast.success(t('categories.created'));
       }
       handleCloseModal();
     } catch (error) {
-      toast.error('Error al guardar la categoría');
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('categories.saveError'));
+      }
       console.error(error);
     }
   };
@@ -80,12 +104,12 @@ const Categories: React.FC = () => {
   const handleDelete = (id: string) => {
     try {
       deleteCategory(id);
-      toast.success('Categoría eliminada con éxito');
+      toast.success(t('categories.deleted'));
     } catch (error) {
       if (error instanceof Error) {
         toast.error(error.message);
       } else {
-        toast.error('Error al eliminar la categoría');
+        toast.error(t('categories.deleteError'));
       }
       console.error(error);
     }
@@ -101,14 +125,16 @@ const Categories: React.FC = () => {
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
-        <h1 className="text-2xl font-bold text-gray-900">Categorías</h1>
-        <button
-          onClick={() => handleOpenModal()}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Nueva Categoría
-        </button>
+        <h1 className="text-2xl font-bold text-gray-900">{t('nav.categories')}</h1>
+        {canEdit && (
+          <button
+            onClick={() => handleOpenModal()}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {t('categories.new')}
+          </button>
+        )}
       </div>
 
       {/* Search bar */}
@@ -116,7 +142,7 @@ const Categories: React.FC = () => {
         <input
           type="text"
           className="w-full px-4 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
-          placeholder="Buscar categorías..."
+          placeholder={t('categories.searchPlaceholder')}
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.target.value)}
         />
@@ -131,23 +157,37 @@ const Categories: React.FC = () => {
                 <div className="px-4 py-4 sm:px-6">
                   <div className="flex items-center justify-between">
                     <div>
-                      <h3 className="text-lg font-medium text-gray-900">{category.name}</h3>
+                      <h3 className="text-lg font-medium text-gray-900">
+                        {category.name}
+                        {category.perishable && (
+                          <span className="ml-2 rounded-full bg-amber-100 px-2.5 py-0.5 text-xs font-normal text-amber-800">
+                            {t('categories.perishable')}
+                          </span>
+                        )}
+                      </h3>
                       <p className="mt-1 text-sm text-gray-500">{category.description}</p>
+                      <p className="mt-1 text-xs text-gray-400">
+                        {t(IVA_RATE_LABELS[(category.taxes ?? DEFAULT_TAX_CONFIG).ivaRate])}
+                        {!!category.taxes?.iepsRate &&
+                          ` · ${t('taxes.iepsRate', { rate: formatNumber(category.taxes.iepsRate * 100) })}`}
+                      </p>
                     </div>
-                    <div className="flex space-x-2">
-                      <button
-                        onClick={() => handleOpenModal(category.id)}
-                        className="p-2 text-blue-600 hover:bg-blue-100 rounded-full"
-                      >
-                        <Edit className="h-5 w-5" />
-                      </button>
-                      <button
-                        onClick={() => handleDelete(category.id)}
-                        className="p-2 text-red-600 hover:bg-red-100 rounded-full"
-                      >
-                        <Trash2 className="h-5 w-5" />
-                      </button>
-                    </div>
+                    {canEdit && (
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => handleOpenModal(category.id)}
+                          className="p-2 text-blue-600 hover:bg-blue-100 rounded-full"
+                        >
+                          <Edit className="h-5 w-5" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(category.id)}
+                          className="p-2 text-red-600 hover:bg-red-100 rounded-full"
+                        >
+                          <Trash2 className="h-5 w-5" />
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
               </li>
@@ -155,7 +195,7 @@ const Categories: React.FC = () => {
           </ul>
         ) : (
           <div className="py-8 text-center text-gray-500">
-            {searchTerm ? "No se encontraron categorías con esa búsqueda" : "No hay categorías registradas"}
+            {searchTerm ? t('categories.noResults') : t('categories.empty')}
           </div>
         )}
       </div>
@@ -174,7 +214,7 @@ const Categories: React.FC = () => {
             <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
               <div className="flex justify-between items-center px-6 py-4 bg-gray-50 border-b">
                 <h3 className="text-lg font-medium text-gray-900">
-                  {editingCategory ? 'Editar Categoría' : 'Nueva Categoría'}
+                  {editingCategory ? t('categories.edit') : t('categories.new')}
                 </h3>
                 <button
                   onClick={handleCloseModal}
@@ -188,7 +228,7 @@ const Categories: React.FC = () => {
                   <div className="space-y-4">
                     <div>
                       <label htmlFor="name" className="block text-sm font-medium text-gray-700">
-                        Nombre
+                        {t('common.name')}
                       </label>
                       <input
                         type="text"
@@ -202,7 +242,7 @@ const Categories: React.FC = () => {
                     </div>
                     <div>
                       <label htmlFor="description" className="block text-sm font-medium text-gray-700">
-                        Descripción
+                        {t('common.description')}
                       </label>
                       <textarea
                         name="description"
@@ -213,6 +253,27 @@ const Categories: React.FC = () => {
                         className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                       />
                     </div>
+                    <div className="flex items-center">
+                      <input
+                        type="checkbox"
+                        name="perishable"
+                        id="perishable"
+                        checked={formData.perishable}
+                        onChange={handleInputChange}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      <label htmlFor="perishable" className="ml-2 block text-sm text-gray-700">
+                        {t('categories.perishableHelp')}
+                      </label>
+                    </div>
+                    <div>
+                      <TaxFields
+                        idPrefix="category"
+                        value={formData.taxes}
+                        onChange={(taxes) => setFormData((prev) => ({ ...prev, taxes }))}
+                      />
+                      <p className="mt-1 text-xs text-gray-500">{t('categories.taxesHelp')}</p>
+                    </div>
                   </div>
                 </div>
                 <div className="px-6 py-3 bg-gray-50 flex justify-end">
@@ -221,13 +282,13 @@ const Categories: React.FC = () => {
                     onClick={handleCloseModal}
                     className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 mr-2"
                   >
-                    Cancelar
+                    {t('common.cancel')}
                   </button>
                   <button
                     type="submit"
                     className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
                   >
-                    {editingCategory ? 'Actualizar' : 'Crear'}
+                    {editingCategory ? t('common.update') : t('common.create')}
                   </button>
                 </div>
               </form>
@@ -0,0 +1,432 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useInventory, AdjustmentReason, ADJUSTMENT_REASON_LABELS } from '../contexts/InventoryContext';
+import { useCycleCounts, CountSession, CountLine } from '../contexts/CycleCountContext';
+import { TranslationKey, useLanguage } from '../contexts/LanguageContext';
+import { DEFAULT_LOCATION_ID } from '../utils/locations';
+import { Plus, X, CheckCircle, XCircle, ClipboardCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const STATUS_LABELS: Record<CountSession['status'], TranslationKey> = {
+  open: 'counts.status.open',
+  approved: 'counts.status.approved',
+  cancelled: 'counts.status.cancelled',
+};
+
+const STATUS_STYLES: Record<CountSession['status'], string> = {
+  open: 'bg-blue-100 text-blue-800',
+  approved: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+const CycleCounts: React.FC = () => {
+  const { products, categories, locations, getProductStock } = useInventory();
+  const { hasPermission } = useAuth();
+  const { t, formatCurrency, formatDateTime } = useLanguage();
+  const canCapture = hasPermission('counts.capture');
+  const {
+    sessions,
+    startSession,
+    updateCountLine,
+    approveSession,
+    cancelSession,
+    getShrinkageSummary,
+  } = useCycleCounts();
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [scopeCategoryId, setScopeCategoryId] = useState('');
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+
+  const selectedSession = sessions.find((s) => s.id === selectedSessionId) ?? null;
+
+  const runAction = (action: () => void, successMessage: string, fallbackMessage: string) => {
+    try {
+      action();
+      toast.success(successMessage);
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(fallbackMessage);
+      }
+      console.error(error);
+    }
+  };
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const session = await startSession(scopeCategoryId || null);
+      toast.success(t('counts.started'));
+      setSelectedSessionId(session.id);
+      setIsModalOpen(false);
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('counts.startError'));
+      }
+      console.error(error);
+    }
+  };
+
+  const handleLineChange = (session: CountSession, line: CountLine) => {
+    try {
+      updateCountLine(session.id, line);
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      }
+      console.error(error);
+    }
+  };
+
+  const handleApprove = (session: CountSession) => {
+    if (window.confirm(t('counts.confirmApprove'))) {
+      runAction(() => approveSession(session.id), t('counts.approved'), t('counts.approveError'));
+    }
+  };
+
+  const handleCancel = (session: CountSession) => {
+    if (window.confirm(t('counts.confirmCancel'))) {
+      runAction(() => cancelSession(session.id), t('counts.cancelled'), t('counts.cancelError'));
+    }
+  };
+
+  const getProductName = (productId: string) =>
+    products.find((p) => p.id === productId)?.name ?? t('common.unknownProduct');
+
+  const getSessionLocationId = (session: CountSession) => session.locationId ?? DEFAULT_LOCATION_ID;
+
+  const getScopeLabel = (session: CountSession) => {
+    const scope = session.categoryId
+      ? categories.find((c) => c.id === session.categoryId)?.name ?? t('counts.deletedCategory')
+      : t('counts.wholeStore');
+    if (locations.length < 2) {
+      return scope;
+    }
+    const location = locations.find((l) => l.id === getSessionLocationId(session));
+    return `${scope} · ${location?.name ?? t('locations.deleted')}`;
+  };
+
+  const sortedSessions = [...sessions].sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+  const summary = selectedSession ? getShrinkageSummary(selectedSession) : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">{t('nav.counts')}</h1>
+        {canCapture && (
+          <button
+            onClick={() => {
+              setScopeCategoryId('');
+              setIsModalOpen(true);
+            }}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {t('counts.new')}
+          </button>
+        )}
+      </div>
+
+      {/* Sessions list */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+        {sortedSessions.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('transfers.folio')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('counts.scope')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('common.status')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('counts.progress')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('counts.startedAt')}
+                  </th>
+                  <th scope="col" className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {sortedSessions.map((session) => {
+                  const counted = session.lines.filter((line) => line.countedQuantity !== null).length;
+                  return (
+                    <tr key={session.id} className={session.id === selectedSessionId ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {session.folio}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {getScopeLabel(session)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[session.status]}`}>
+                          {t(STATUS_LABELS[session.status])}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {t('counts.progressValue', { counted, count: session.lines.length })}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {t('counts.startedBy', { date: formatDateTime(session.createdAt), name: session.createdBy })}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <button
+                          onClick={() => setSelectedSessionId(session.id)}
+                          className="text-blue-600 hover:text-blue-900 text-sm font-medium"
+                        >
+                          {t('counts.view')}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="py-8 text-center text-gray-500">
+            {t('counts.empty')}
+          </div>
+        )}
+      </div>
+
+      {/* Session detail */}
+      {selectedSession && summary && (
+        <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+          <div className="px-4 py-5 sm:px-6 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <ClipboardCheck className="h-5 w-5 text-blue-600" />
+              <h3 className="text-lg leading-6 font-medium text-gray-900">
+                {t('counts.detailTitle', { folio: selectedSession.folio, scope: getScopeLabel(selectedSession) })}
+              </h3>
+            </div>
+            {selectedSession.status === 'open' && hasPermission('counts.approve') && (
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => handleCancel(selectedSession)}
+                  className="inline-flex items-center px-3 py-1 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  <XCircle className="h-4 w-4 mr-1" />
+                  {t('counts.cancel')}
+                </button>
+                <button
+                  onClick={() => handleApprove(selectedSession)}
+                  className="inline-flex items-center px-3 py-1 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700"
+                >
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  {t('counts.approve')}
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Shrinkage summary */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 p-6">
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-500">{t('counts.countedProducts')}</p>
+              <p className="text-xl font-semibold text-gray-900">
+                {summary.countedProducts} / {selectedSession.lines.length}
+              </p>
+              <p className="text-xs text-gray-500">{t('counts.withVariance', { count: summary.productsWithVariance })}</p>
+            </div>
+            <div className="bg-red-50 rounded-lg p-4">
+              <p className="text-sm text-red-700">{t('counts.missing')}</p>
+              <p className="text-xl font-semibold text-red-800">{formatCurrency(summary.valueMissing)}</p>
+              <p className="text-xs text-red-700">{t('common.units', { count: summary.unitsMissing })}</p>
+            </div>
+            <div className="bg-green-50 rounded-lg p-4">
+              <p className="text-sm text-green-700">{t('counts.over')}</p>
+              <p className="text-xl font-semibold text-green-800">{formatCurrency(summary.valueOver)}</p>
+              <p className="text-xs text-green-700">{t('common.units', { count: summary.unitsOver })}</p>
+            </div>
+            <div className="bg-blue-50 rounded-lg p-4">
+              <p className="text-sm text-blue-700">{t('counts.net')}</p>
+              <p className={`text-xl font-semibold ${summary.netValue < 0 ? 'text-red-800' : 'text-blue-800'}`}>
+                {formatCurrency(summary.netValue)}
+              </p>
+              {summary.byReason.map((reason) => (
+                <p key={reason.reasonCode} className="text-xs text-blue-700">
+                  {t('counts.reasonSummary', { reason: t(ADJUSTMENT_REASON_LABELS[reason.reasonCode]), units: reason.units, value: formatCurrency(reason.value) })}
+                </p>
+              ))}
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('common.product')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('counts.expected')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('counts.counted')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('counts.variance')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('inventory.reason')}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {selectedSession.lines.map((line) => {
+                  const isOpen = selectedSession.status === 'open' && canCapture;
+                  const expected =
+                    line.expectedQuantity ?? getProductStock(line.productId, getSessionLocationId(selectedSession));
+                  const variance = line.countedQuantity === null ? null : line.countedQuantity - expected;
+                  return (
+                    <tr key={line.productId}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {getProductName(line.productId)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                        {expected}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                        {isOpen ? (
+                          <input
+                            type="number"
+                            min="0"
+                            value={line.countedQuantity ?? ''}
+                            onChange={(e) =>
+                              handleLineChange(selectedSession, {
+                                ...line,
+                                countedQuantity: e.target.value === '' ? null : Number(e.target.value),
+                              })
+                            }
+                            className="w-24 px-2 py-1 border border-gray-300 rounded-md text-right focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          />
+                        ) : (
+                          <span className="text-gray-900">{line.countedQuantity ?? '-'}</span>
+                        )}
+                      </td>
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${
+                        variance === null || variance === 0
+                          ? 'text-gray-500'
+                          : variance < 0
+                            ? 'text-red-600'
+                            : 'text-green-600'
+                      }`}>
+                        {variance === null ? '-' : variance > 0 ? `+${variance}` : variance}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {isOpen ? (
+                          <select
+                            value={line.reasonCode ?? ''}
+                            disabled={!variance}
+                            onChange={(e) =>
+                              handleLineChange(selectedSession, {
+                                ...line,
+                                reasonCode: (e.target.value || undefined) as AdjustmentReason | undefined,
+                              })
+                            }
+                            className="block w-full pl-3 pr-10 py-1 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md disabled:bg-gray-100"
+                          >
+                            <option value="">{t('counts.selectReason')}</option>
+                            {Object.entries(ADJUSTMENT_REASON_LABELS).map(([code, label]) => (
+                              <option key={code} value={code}>
+                                {t(label)}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          variance && line.reasonCode ? t(ADJUSTMENT_REASON_LABELS[line.reasonCode]) : '-'
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {selectedSession.status === 'approved' && selectedSession.approvedAt && (
+            <div className="px-6 py-3 bg-gray-50 border-t text-sm text-gray-500">
+              {t('counts.approvedBy', { name: selectedSession.approvedBy ?? '', date: formatDateTime(selectedSession.approvedAt) })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* New count modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 overflow-y-auto z-50">
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div
+              className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+              onClick={() => setIsModalOpen(false)}
+            ></div>
+
+            <span className="hidden sm:inline-block sm:align-middle sm:h-screen">&#8203;</span>
+
+            <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+              <div className="flex justify-between items-center px-6 py-4 bg-gray-50 border-b">
+                <h3 className="text-lg font-medium text-gray-900">{t('counts.new')}</h3>
+                <button
+                  onClick={() => setIsModalOpen(false)}
+                  className="text-gray-400 hover:text-gray-500"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              <form onSubmit={handleStart}>
+                <div className="px-6 py-4">
+                  <label htmlFor="scopeCategoryId" className="block text-sm font-medium text-gray-700">
+                    {t('counts.scope')}
+                  </label>
+                  <select
+                    id="scopeCategoryId"
+                    value={scopeCategoryId}
+                    onChange={(e) => setScopeCategoryId(e.target.value)}
+                    className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+                  >
+                    <option value="">{t('counts.wholeStore')}</option>
+                    {categories.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-2 text-sm text-gray-500">
+                    {t('counts.expectedHelp')}
+                  </p>
+                </div>
+                <div className="px-6 py-3 bg-gray-50 flex justify-end">
+                  <button
+                    type="button"
+                    onClick={() => setIsModalOpen(false)}
+                    className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 mr-2"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                  <button
+                    type="submit"
+                    className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    {t('counts.start')}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CycleCounts;
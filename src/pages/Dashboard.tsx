@@ -1,19 +1,31 @@
 import React from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { Package2, AlertCircle, ArrowDownCircle, ArrowUpCircle } from 'lucide-react';
-import { useInventory } from '../contexts/InventoryContext';
+import { Package2, AlertCircle, ArrowDownCircle, ArrowUpCircle, CalendarClock } from 'lucide-react';
+import { useInventory, TRANSACTION_TYPE_LABELS } from '../contexts/InventoryContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { isAtLocation } from '../utils/locations';
 
 const Dashboard: React.FC = () => {
   const { 
     products, 
     categories, 
-    transactions, 
+    transactions: allTransactions, 
+    locations,
+    currentLocationId,
+    getLocationName,
     getLowStockProducts,
+    getExpiringLots,
     getProductStock,
+    getMinStock,
     getCategoryStock
   } = useInventory();
+  const { t, formatCurrency, formatDate, formatNumber } = useLanguage();
+
+  // Everything follows the location chosen in the top bar
+  const transactions = allTransactions.filter((transaction) => isAtLocation(transaction, currentLocationId));
 
   const lowStockProducts = getLowStockProducts();
+  const expiringLots = getExpiringLots(7);
   
   // Calculate total inventory value
   const totalInventoryValue = products.reduce((total, product) => {
@@ -42,19 +54,19 @@ const Dashboard: React.FC = () => {
     .map(product => ({
       name: product.name,
       stock: getProductStock(product.id),
-      minStock: product.minStock
+      minStock: getMinStock(product)
     }))
     .sort((a, b) => b.stock - a.stock)
     .slice(0, 5);
   
   // Calculating total entries and exits
   const totalEntries = transactions
-    .filter(t => t.type === 'entry')
-    .reduce((sum, t) => sum + t.quantity, 0);
+    .filter(transaction => transaction.type === 'entry')
+    .reduce((sum, transaction) => sum + transaction.quantity, 0);
   
   const totalExits = transactions
-    .filter(t => t.type === 'exit')
-    .reduce((sum, t) => sum + t.quantity, 0);
+    .filter(transaction => transaction.type === 'exit')
+    .reduce((sum, transaction) => sum + transaction.quantity, 0);
 
   // Colors for the pie chart
   const COLORS = ['#2563EB', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899'];
@@ -62,7 +74,10 @@ const Dashboard: React.FC = () => {
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
-        <h1 className="text-2xl font-bold text-gray-900">Dashboard</h1>
+        <h1 className="text-2xl font-bold text-gray-900">{t('nav.dashboard')}</h1>
+        {locations.length > 1 && (
+          <span className="text-sm text-gray-500">{getLocationName(currentLocationId)}</span>
+        )}
       </div>
 
       {/* Stats Cards */}
@@ -73,7 +88,7 @@ const Dashboard: React.FC = () => {
               <Package2 className="h-6 w-6" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Total Productos</p>
+              <p className="text-sm font-medium text-gray-500">{t('dashboard.totalProducts')}</p>
               <p className="text-xl font-semibold text-gray-900">{products.length}</p>
             </div>
           </div>
@@ -85,7 +100,7 @@ const Dashboard: React.FC = () => {
               <AlertCircle className="h-6 w-6" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Stock Bajo</p>
+              <p className="text-sm font-medium text-gray-500">{t('dashboard.lowStock')}</p>
               <p className="text-xl font-semibold text-gray-900">{lowStockProducts.length}</p>
             </div>
           </div>
@@ -97,7 +112,7 @@ const Dashboard: React.FC = () => {
               <ArrowDownCircle className="h-6 w-6" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Entradas</p>
+              <p className="text-sm font-medium text-gray-500">{t('dashboard.entries')}</p>
               <p className="text-xl font-semibold text-gray-900">{totalEntries}</p>
             </div>
           </div>
@@ -109,7 +124,7 @@ const Dashboard: React.FC = () => {
               <ArrowUpCircle className="h-6 w-6" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-500">Salidas</p>
+              <p className="text-sm font-medium text-gray-500">{t('dashboard.exits')}</p>
               <p className="text-xl font-semibold text-gray-900">{totalExits}</p>
             </div>
           </div>
@@ -119,7 +134,7 @@ const Dashboard: React.FC = () => {
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-white rounded-lg shadow p-6">
-          <h2 className="text-lg font-medium text-gray-900 mb-4">Inventario por Producto</h2>
+          <h2 className="text-lg font-medium text-gray-900 mb-4">{t('dashboard.stockByProduct')}</h2>
           <div className="h-64">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart
@@ -134,16 +149,16 @@ const Dashboard: React.FC = () => {
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis dataKey="name" tick={{ fontSize: 12 }} />
                 <YAxis />
-                <Tooltip />
-                <Bar dataKey="stock" fill="#2563EB" />
-                <Bar dataKey="minStock" fill="#EF4444" />
+                <Tooltip formatter={(value: number) => formatNumber(value)} />
+                <Bar dataKey="stock" name={t('dashboard.stock')} fill="#2563EB" />
+                <Bar dataKey="minStock" name={t('dashboard.minStock')} fill="#EF4444" />
               </BarChart>
             </ResponsiveContainer>
           </div>
         </div>
         
         <div className="bg-white rounded-lg shadow p-6">
-          <h2 className="text-lg font-medium text-gray-900 mb-4">Distribución por Categoría</h2>
+          <h2 className="text-lg font-medium text-gray-900 mb-4">{t('dashboard.byCategory')}</h2>
           <div className="h-64">
             <ResponsiveContainer width="100%" height="100%">
               <PieChart>
@@ -161,7 +176,7 @@ const Dashboard: React.FC = () => {
                     <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                   ))}
                 </Pie>
-                <Tooltip />
+                <Tooltip formatter={(value: number) => formatNumber(value)} />
               </PieChart>
             </ResponsiveContainer>
           </div>
@@ -169,11 +184,11 @@ const Dashboard: React.FC = () => {
       </div>
 
       {/* Alerts and Recent Activity */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Alerts */}
         <div className="bg-white rounded-lg shadow overflow-hidden">
           <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
-            <h2 className="text-lg font-medium text-gray-900">Alertas de Stock</h2>
+            <h2 className="text-lg font-medium text-gray-900">{t('dashboard.stockAlerts')}</h2>
           </div>
           <div className="divide-y divide-gray-200 max-h-80 overflow-y-auto">
             {lowStockProducts.length > 0 ? (
@@ -185,11 +200,52 @@ const Dashboard: React.FC = () => {
                       <div>
                         <p className="text-sm font-medium text-gray-900">{product.name}</p>
                         <p className="text-sm text-gray-500">
-                          Stock actual: <span className="font-medium text-red-600">{stock}</span> / Mínimo: {product.minStock}
+                          {t('dashboard.currentStock')}: <span className="font-medium text-red-600">{stock}</span> / {t('dashboard.minimum')}: {getMinStock(product)}
                         </p>
                       </div>
                       <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-800">
-                        Stock Bajo
+                        {t('dashboard.lowStock')}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })
+            ) : (
+              <div className="px-6 py-4 text-center text-gray-500">
+                {t('dashboard.noLowStock')}
+              </div>
+            )}
+          </div>
+        </div>
+        
+        {/* Expiry */}
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex items-center">
+            <CalendarClock className="h-5 w-5 mr-2 text-gray-500" />
+            <h2 className="text-lg font-medium text-gray-900">{t('dashboard.expiry')}</h2>
+          </div>
+          <div className="divide-y divide-gray-200 max-h-80 overflow-y-auto">
+            {expiringLots.length > 0 ? (
+              expiringLots.map(lot => {
+                const product = products.find(p => p.id === lot.productId);
+                return (
+                  <div key={`${lot.productId}-${lot.lotNumber}`} className="px-6 py-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{product?.name}</p>
+                        <p className="text-sm text-gray-500">
+                          {t('dashboard.lotUnits', { lot: lot.lotNumber || '-', count: lot.quantity })}
+                        </p>
+                        <p className="text-xs text-gray-400">
+                          {formatDate(lot.expiryDate)}
+                        </p>
+                      </div>
+                      <span className={`px-2 py-1 text-xs rounded-full ${
+                        lot.expired
+                          ? 'bg-red-100 text-red-800'
+                          : 'bg-amber-100 text-amber-800'
+                      }`}>
+                        {lot.expired ? t('dashboard.expired') : t('dashboard.expiringSoon')}
                       </span>
                     </div>
                   </div>
@@ -197,7 +253,7 @@ const Dashboard: React.FC = () => {
               })
             ) : (
               <div className="px-6 py-4 text-center text-gray-500">
-                No hay productos con stock bajo
+                {t('dashboard.noExpiring')}
               </div>
             )}
           </div>
@@ -206,7 +262,7 @@ const Dashboard: React.FC = () => {
         {/* Recent Activity */}
         <div className="bg-white rounded-lg shadow overflow-hidden">
           <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
-            <h2 className="text-lg font-medium text-gray-900">Actividad Reciente</h2>
+            <h2 className="text-lg font-medium text-gray-900">{t('dashboard.recentActivity')}</h2>
           </div>
           <div className="divide-y divide-gray-200 max-h-80 overflow-y-auto">
             {recentTransactions.length > 0 ? (
@@ -218,18 +274,27 @@ const Dashboard: React.FC = () => {
                       <div>
                         <p className="text-sm font-medium text-gray-900">{product?.name}</p>
                         <p className="text-sm text-gray-500">
-                          {transaction.type === 'entry' ? 'Entrada' : 'Salida'} de {transaction.quantity} unidades
+                          {transaction.type === 'adjustment'
+                            ? t('dashboard.adjustmentUnits', {
+                                quantity: `${transaction.quantity > 0 ? '+' : ''}${transaction.quantity}`,
+                                count: Math.abs(transaction.quantity),
+                              })
+                            : t(transaction.type === 'entry' ? 'dashboard.entryUnits' : 'dashboard.exitUnits', {
+                                count: transaction.quantity,
+                              })}
                         </p>
                         <p className="text-xs text-gray-400">
-                          {new Date(transaction.date).toLocaleDateString()}
+                          {formatDate(transaction.date)}
                         </p>
                       </div>
                       <span className={`px-2 py-1 text-xs rounded-full ${
                         transaction.type === 'entry' 
                           ? 'bg-green-100 text-green-800' 
-                          : 'bg-amber-100 text-amber-800'
+                          : transaction.type === 'adjustment'
+                            ? 'bg-purple-100 text-purple-800'
+                            : 'bg-amber-100 text-amber-800'
                       }`}>
-                        {transaction.type === 'entry' ? 'Entrada' : 'Salida'}
+                        {t(TRANSACTION_TYPE_LABELS[transaction.type])}
                       </span>
                     </div>
                   </div>
@@ -237,7 +302,7 @@ const Dashboard: React.FC = () => {
               })
             ) : (
               <div className="px-6 py-4 text-center text-gray-500">
-                No hay transacciones recientes
+                {t('dashboard.noRecent')}
               </div>
             )}
           </div>
@@ -246,9 +311,9 @@ const Dashboard: React.FC = () => {
 
       {/* Inventory Value Card */}
       <div className="bg-white rounded-lg shadow p-6">
-        <h2 className="text-lg font-medium text-gray-900 mb-2">Valor Total del Inventario</h2>
+        <h2 className="text-lg font-medium text-gray-900 mb-2">{t('dashboard.totalValue')}</h2>
         <p className="text-3xl font-bold text-blue-600">
-          ${totalInventoryValue.toFixed(2)}
+          {formatCurrency(totalInventoryValue)}
         </p>
       </div>
     </div>
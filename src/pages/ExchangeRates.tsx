@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useInventory } from '../contexts/InventoryContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { getToday, BASE_CURRENCY, CURRENCIES, CurrencyCode } from '../utils/format';
+import { Plus, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface ExchangeRateFormData {
+  currency: CurrencyCode;
+  date: string;
+  rate: number;
+}
+
+// Pesos are the base currency, so they have no rate
+const FOREIGN_CURRENCIES = CURRENCIES.filter((currency) => currency !== BASE_CURRENCY);
+
+const ExchangeRates: React.FC = () => {
+  const { exchangeRates, addExchangeRate, deleteExchangeRate } = useInventory();
+  const { hasPermission } = useAuth();
+  const { t, formatDate, formatNumber } = useLanguage();
+  const canManage = hasPermission('costs.edit');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [formData, setFormData] = useState<ExchangeRateFormData>({
+    currency: FOREIGN_CURRENCIES[0],
+    date: getToday(),
+    rate: 0,
+  });
+
+  // Most recent first
+  const sortedRates = [...exchangeRates].sort((a, b) =>
+    a.date === b.date ? a.currency.localeCompare(b.currency) : a.date < b.date ? 1 : -1
+  );
+
+  const handleOpenModal = () => {
+    setFormData({ currency: FOREIGN_CURRENCIES[0], date: getToday(), rate: 0 });
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.rate <= 0) {
+      toast.error(t('exchangeRates.rateRequired'));
+      return;
+    }
+
+    try {
+      addExchangeRate(formData);
+      toast.success(t('exchangeRates.saved'));
+      handleCloseModal();
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('exchangeRates.saveError'));
+      }
+      console.error(error);
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    if (!window.confirm(t('exchangeRates.confirmDelete'))) {
+      return;
+    }
+    try {
+      deleteExchangeRate(id);
+      toast.success(t('exchangeRates.deleted'));
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('exchangeRates.deleteError'));
+      }
+      console.error(error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">{t('nav.exchangeRates')}</h1>
+        {canManage && (
+          <button
+            onClick={handleOpenModal}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {t('exchangeRates.new')}
+          </button>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-500">{t('exchangeRates.help')}</p>
+
+      {/* Rates table */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('common.date')}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('inventory.currency')}
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('exchangeRates.rate')}
+              </th>
+              <th className="relative px-6 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {sortedRates.length > 0 ? (
+              sortedRates.map((rate) => (
+                <tr key={rate.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatDate(rate.date)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{rate.currency}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">{formatNumber(rate.rate)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    {canManage && (
+                      <button
+                        onClick={() => handleDelete(rate.id)}
+                        className="p-2 text-red-600 hover:bg-red-100 rounded-full"
+                        title={t('exchangeRates.delete')}
+                      >
+                        <Trash2 className="h-5 w-5" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-500">
+                  {t('exchangeRates.empty')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 overflow-y-auto z-50">
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div
+              className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+              onClick={handleCloseModal}
+            ></div>
+
+            <span className="hidden sm:inline-block sm:align-middle sm:h-screen">&#8203;</span>
+
+            <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+              <div className="flex justify-between items-center px-6 py-4 bg-gray-50 border-b">
+                <h3 className="text-lg font-medium text-gray-900">{t('exchangeRates.new')}</h3>
+                <button
+                  onClick={handleCloseModal}
+                  className="text-gray-400 hover:text-gray-500"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              <form onSubmit={handleSubmit}>
+                <div className="px-6 py-4">
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor="currency" className="block text-sm font-medium text-gray-700">
+                          {t('inventory.currency')}
+                        </label>
+                        <select
+                          id="currency"
+                          value={formData.currency}
+                          onChange={(e) => setFormData((prev) => ({ ...prev, currency: e.target.value as CurrencyCode }))}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        >
+                          {FOREIGN_CURRENCIES.map((currency) => (
+                            <option key={currency} value={currency}>
+                              {currency}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label htmlFor="date" className="block text-sm font-medium text-gray-700">
+                          {t('common.date')}
+                        </label>
+                        <input
+                          type="date"
+                          id="date"
+                          value={formData.date}
+                          onChange={(e) => setFormData((prev) => ({ ...prev, date: e.target.value }))}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          required
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label htmlFor="rate" className="block text-sm font-medium text-gray-700">
+                        {t('exchangeRates.rate')}
+                      </label>
+                      <input
+                        type="number"
+                        id="rate"
+                        min="0.0001"
+                        step="0.0001"
+                        value={formData.rate}
+                        onChange={(e) => setFormData((prev) => ({ ...prev, rate: Number(e.target.value) }))}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        required
+                      />
+                    </div>
+                  </div>
+                </div>
+                <div className="px-6 py-3 bg-gray-50 flex justify-end">
+                  <button
+                    type="button"
+                    onClick={handleCloseModal}
+                    className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 mr-2"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                  <button
+                    type="submit"
+                    className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    {t('common.save')}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExchangeRates;
@@ -1,19 +1,62 @@
 import React, { useState } from 'react';
-import { useInventory } from '../contexts/InventoryContext';
-import { ArrowDownCircle, ArrowUpCircle, X, Filter, Search } from 'lucide-react';
+import {
+  useInventory,
+  InventoryTransaction,
+  TransactionType,
+  ADJUSTMENT_REASON_LABELS,
+  TRANSACTION_TYPE_LABELS,
+} from '../contexts/InventoryContext';
+import { useAuth } from '../contexts/AuthContext';
+import { TranslationKey, useLanguage } from '../contexts/LanguageContext';
+import { getTransactionLocationId } from '../utils/locations';
+import { getToday, BASE_CURRENCY, CURRENCIES, CurrencyCode } from '../utils/format';
+import { getBaseUnitCost } from '../utils/valuation';
+import { ArrowDownCircle, ArrowUpCircle, X, Filter, Search, Ban } from 'lucide-react';
 import toast from 'react-hot-toast';
 
+const TYPE_STYLES: Record<TransactionType, string> = {
+  entry: 'bg-green-100 text-green-800',
+  exit: 'bg-amber-100 text-amber-800',
+  adjustment: 'bg-purple-100 text-purple-800',
+};
+
+// The movement that compensates each type when it is voided
+const VOID_MOVEMENT_LABELS: Record<TransactionType, TranslationKey> = {
+  entry: 'inventory.voidMovement.entry',
+  exit: 'inventory.voidMovement.exit',
+  adjustment: 'inventory.voidMovement.adjustment',
+};
+
 interface TransactionFormData {
   productId: string;
   type: 'entry' | 'exit';
   quantity: number;
   unitCost: number;
+  currency: CurrencyCode;
+  exchangeRate: number;
   date: string;
   notes: string;
+  lotNumber: string;
+  expiryDate: string;
 }
 
 const Inventory: React.FC = () => {
-  const { products, transactions, addTransaction, getProductStock } = useInventory();
+  const { hasPermission } = useAuth();
+  const { t, formatCurrency, formatDate, formatNumber } = useLanguage();
+  const {
+    products,
+    categories,
+    transactions,
+    locations,
+    currentLocationId,
+    getLocationName,
+    addTransaction,
+    voidTransaction,
+    getProductStock,
+    getClosedThroughDate,
+    getExchangeRate,
+  } = useInventory();
+  const hasLocations = locations.length > 1;
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [transactionType, setTransactionType] = useState<'entry' | 'exit'>('entry');
   const [formData, setFormData] = useState<TransactionFormData>({
@@ -21,17 +64,27 @@ const Inventory: React.FC = () => {
     type: 'entry',
     quantity: 1,
     unitCost: 0,
-    date: new Date().toISOString().split('T')[0],
+    currency: BASE_CURRENCY,
+    exchangeRate: 1,
+    date: getToday(),
     notes: '',
+    lotNumber: '',
+    expiryDate: '',
   });
   
   // Filters
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterType, setFilterType] = useState<'' | 'entry' | 'exit'>('');
+  const [filterType, setFilterType] = useState<'' | TransactionType>('');
   const [startDate, setStartDate] = useState<string>('');
   const [endDate, setEndDate] = useState<string>('');
   const [showFilters, setShowFilters] = useState(false);
 
+  // Void
+  const [voidingTransaction, setVoidingTransaction] = useState<InventoryTransaction | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+
+  const closedThrough = getClosedThroughDate();
+
   const handleOpenModal = (type: 'entry' | 'exit') => {
     setTransactionType(type);
     setFormData({
@@ -39,8 +92,12 @@ const Inventory: React.FC = () => {
       type,
       quantity: 1,
       unitCost: type === 'entry' ? 0 : 0,
-      date: new Date().toISOString().split('T')[0],
+      currency: BASE_CURRENCY,
+      exchangeRate: 1,
+      date: getToday(),
       notes: '',
+      lotNumber: '',
+      expiryDate: '',
     });
     setIsModalOpen(true);
   };
@@ -53,39 +110,101 @@ const Inventory: React.FC = () => {
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
   ) => {
     const { name, value } = e.target;
-    setFormData((prev) => ({
-      ...prev,
-      [name]: ['quantity', 'unitCost'].includes(name) ? Number(value) : value,
-    }));
+    setFormData((prev) => {
+      const next = {
+        ...prev,
+        [name]: ['quantity', 'unitCost', 'exchangeRate'].includes(name) ? Number(value) : value,
+      };
+      // The rate comes from the table for the currency and date, and can still be typed over
+      if (name === 'currency' || name === 'date') {
+        const rate = getExchangeRate(next.currency, next.date);
+        if (rate !== null) {
+          next.exchangeRate = rate;
+        } else if (name === 'currency') {
+          next.exchangeRate = 0;
+        }
+      }
+      return next;
+    });
   };
 
+  const isForeignCurrency = formData.type === 'entry' && formData.currency !== BASE_CURRENCY;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!formData.productId) {
-      toast.error('Debe seleccionar un producto');
+      toast.error(t('inventory.productRequired'));
       return;
     }
     
     if (formData.quantity <= 0) {
-      toast.error('La cantidad debe ser mayor a 0');
+      toast.error(t('inventory.quantityRequired'));
       return;
     }
     
     if (formData.type === 'entry' && formData.unitCost <= 0) {
-      toast.error('El costo unitario debe ser mayor a 0');
+      toast.error(t('inventory.unitCostRequired'));
+      return;
+    }
+    
+    if (isForeignCurrency && formData.exchangeRate <= 0) {
+      toast.error(t('inventory.errors.exchangeRateRequired'));
       return;
     }
     
+    const { lotNumber, expiryDate, currency, exchangeRate, ...transaction } = formData;
+    
     try {
-      addTransaction(formData);
-      toast.success(`${formData.type === 'entry' ? 'Entrada' : 'Salida'} registrada con éxito`);
+      addTransaction({
+        ...transaction,
+        // Pesos are the default, so only other currencies are stored
+        ...(isForeignCurrency ? { currency, exchangeRate } : {}),
+        lotNumber: lotNumber.trim() || undefined,
+        expiryDate: expiryDate || undefined,
+      });
+      toast.success(t(formData.type === 'entry' ? 'inventory.entrySaved' : 'inventory.exitSaved'));
       handleCloseModal();
     } catch (error) {
       if (error instanceof Error) {
         toast.error(error.message);
       } else {
-        toast.error(`Error al registrar ${formData.type === 'entry' ? 'entrada' : 'salida'}`);
+        toast.error(t(formData.type === 'entry' ? 'inventory.entryError' : 'inventory.exitError'));
+      }
+      console.error(error);
+    }
+  };
+
+  const handleOpenVoidModal = (transaction: InventoryTransaction) => {
+    setVoidingTransaction(transaction);
+    setVoidReason('');
+  };
+
+  const handleCloseVoidModal = () => {
+    setVoidingTransaction(null);
+  };
+
+  const handleVoid = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!voidingTransaction) {
+      return;
+    }
+
+    if (!voidReason.trim()) {
+      toast.error(t('inventory.voidReasonRequired'));
+      return;
+    }
+
+    try {
+      voidTransaction(voidingTransaction.id, voidReason);
+      toast.success(t('inventory.voided'));
+      handleCloseVoidModal();
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('inventory.voidError'));
       }
       console.error(error);
     }
@@ -100,46 +219,60 @@ const Inventory: React.FC = () => {
       : false;
     
     const matchesType = filterType === '' || transaction.type === filterType;
+
+    // With every location selected, both legs of each transfer are listed
+    const matchesLocation =
+      currentLocationId === null || getTransactionLocationId(transaction) === currentLocationId;
     
-    const transactionDate = new Date(transaction.date);
-    const isAfterStartDate = !startDate || transactionDate >= new Date(startDate);
-    const isBeforeEndDate = !endDate || transactionDate <= new Date(endDate);
+    // Calendar dates compare as text
+    const isAfterStartDate = !startDate || transaction.date >= startDate;
+    const isBeforeEndDate = !endDate || transaction.date <= endDate;
     
-    return matchesSearch && matchesType && isAfterStartDate && isBeforeEndDate;
+    return matchesSearch && matchesType && matchesLocation && isAfterStartDate && isBeforeEndDate;
   }).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
+  // Entries of perishable products capture lot and expiry
+  const isPerishable = (productId: string) => {
+    const product = products.find((p) => p.id === productId);
+    return !!categories.find((c) => c.id === product?.categoryId)?.perishable;
+  };
+
   // Get product name by ID
   const getProductName = (productId: string) => {
     const product = products.find((p) => p.id === productId);
-    return product ? product.name : 'Producto desconocido';
+    return product ? product.name : t('common.unknownProduct');
   };
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
-        <h1 className="text-2xl font-bold text-gray-900">Inventario</h1>
-        <div className="flex space-x-2">
-          <button
-            onClick={() => handleOpenModal('entry')}
-            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
-          >
-            <ArrowDownCircle className="h-4 w-4 mr-2" />
-            Registrar Entrada
-          </button>
-          <button
-            onClick={() => handleOpenModal('exit')}
-            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-amber-600 hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500"
-          >
-            <ArrowUpCircle className="h-4 w-4 mr-2" />
-            Registrar Salida
-          </button>
-        </div>
+        <h1 className="text-2xl font-bold text-gray-900">{t('nav.inventory')}</h1>
+        {hasPermission('inventory.move') && (
+          <div className="flex space-x-2">
+            {hasPermission('costs.edit') && (
+              <button
+                onClick={() => handleOpenModal('entry')}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+              >
+                <ArrowDownCircle className="h-4 w-4 mr-2" />
+                {t('inventory.registerEntry')}
+              </button>
+            )}
+            <button
+              onClick={() => handleOpenModal('exit')}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-amber-600 hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500"
+            >
+              <ArrowUpCircle className="h-4 w-4 mr-2" />
+              {t('inventory.registerExit')}
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Filters */}
       <div className="bg-white shadow rounded-lg p-4 mb-6">
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-lg font-medium text-gray-900">Filtros</h2>
+          <h2 className="text-lg font-medium text-gray-900">{t('common.filters')}</h2>
           <button 
             onClick={() => setShowFilters(!showFilters)} 
             className="text-gray-500 hover:text-gray-700"
@@ -156,7 +289,7 @@ const Inventory: React.FC = () => {
             <input
               type="text"
               className="pl-10 w-full px-4 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
-              placeholder="Buscar por producto..."
+              placeholder={t('inventory.searchPlaceholder')}
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
             />
@@ -167,22 +300,23 @@ const Inventory: React.FC = () => {
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
               <label htmlFor="filterType" className="block text-sm font-medium text-gray-700">
-                Tipo de Transacción
+                {t('inventory.transactionType')}
               </label>
               <select
                 id="filterType"
                 className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                 value={filterType}
-                onChange={(e) => setFilterType(e.target.value as '' | 'entry' | 'exit')}
+                onChange={(e) => setFilterType(e.target.value as '' | TransactionType)}
               >
-                <option value="">Todos</option>
-                <option value="entry">Entradas</option>
-                <option value="exit">Salidas</option>
+                <option value="">{t('common.all')}</option>
+                <option value="entry">{t('inventory.entries')}</option>
+                <option value="exit">{t('inventory.exits')}</option>
+                <option value="adjustment">{t('inventory.adjustments')}</option>
               </select>
             </div>
             <div>
               <label htmlFor="startDate" className="block text-sm font-medium text-gray-700">
-                Fecha Inicio
+                {t('common.startDate')}
               </label>
               <input
                 type="date"
@@ -194,7 +328,7 @@ const Inventory: React.FC = () => {
             </div>
             <div>
               <label htmlFor="endDate" className="block text-sm font-medium text-gray-700">
-                Fecha Fin
+                {t('common.endDate')}
               </label>
               <input
                 type="date"
@@ -211,7 +345,7 @@ const Inventory: React.FC = () => {
       {/* Transactions list */}
       <div className="bg-white shadow overflow-hidden sm:rounded-lg">
         <div className="px-4 py-5 sm:px-6 border-b border-gray-200 bg-gray-50">
-          <h3 className="text-lg leading-6 font-medium text-gray-900">Movimientos de Inventario</h3>
+          <h3 className="text-lg leading-6 font-medium text-gray-900">{t('inventory.movements')}</h3>
         </div>
         {filteredTransactions.length > 0 ? (
           <div className="overflow-x-auto">
@@ -219,59 +353,116 @@ const Inventory: React.FC = () => {
               <thead className="bg-gray-50">
                 <tr>
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Fecha
+                    {t('common.date')}
                   </th>
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Producto
+                    {t('common.product')}
                   </th>
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Tipo
+                    {t('inventory.type')}
                   </th>
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Cantidad
+                    {t('common.quantity')}
                   </th>
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Costo Unit.
+                    {t('inventory.unitCostShort')}
                   </th>
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Costo Total
+                    {t('inventory.totalCost')}
                   </th>
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Notas
+                    {t('common.notes')}
                   </th>
+                  <th scope="col" className="px-6 py-3"></th>
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {filteredTransactions.map((transaction) => (
-                  <tr key={transaction.id}>
+                  <tr key={transaction.id} className={transaction.voidedBy ? 'bg-gray-50' : ''}>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {new Date(transaction.date).toLocaleDateString()}
+                      {formatDate(transaction.date)}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {getProductName(transaction.productId)}
+                      {transaction.lotNumber && (
+                        <span className="block text-xs text-gray-500">
+                          {t('inventory.lot', { lot: transaction.lotNumber })}
+                          {transaction.expiryDate &&
+                            ` · ${t('inventory.expiresShort', { date: formatDate(transaction.expiryDate) })}`}
+                        </span>
+                      )}
+                      {hasLocations && (
+                        <span className="block text-xs text-gray-500">
+                          {getLocationName(getTransactionLocationId(transaction))}
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                        transaction.type === 'entry'
-                          ? 'bg-green-100 text-green-800'
-                          : 'bg-amber-100 text-amber-800'
-                      }`}>
-                        {transaction.type === 'entry' ? 'Entrada' : 'Salida'}
+                      <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${TYPE_STYLES[transaction.type]}`}>
+                        {t(TRANSACTION_TYPE_LABELS[transaction.type])}
                       </span>
+                      {transaction.reasonCode && (
+                        <span className="ml-2 text-xs text-gray-500">
+                          {t(ADJUSTMENT_REASON_LABELS[transaction.reasonCode])}
+                        </span>
+                      )}
+                      {transaction.voidedBy && (
+                        <span className="ml-2 px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                          {t('inventory.voidedBadge')}
+                        </span>
+                      )}
+                      {transaction.reversalOf && (
+                        <span className="ml-2 px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">
+                          {t('inventory.reversalBadge')}
+                        </span>
+                      )}
+                      {transaction.transferId && (
+                        <span className="ml-2 px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-indigo-100 text-indigo-800">
+                          {t('inventory.transferBadge')}
+                        </span>
+                      )}
                     </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm text-gray-500 ${transaction.voidedBy ? 'line-through' : ''}`}>
+                      {transaction.type === 'adjustment' && transaction.quantity > 0 ? '+' : ''}
                       {transaction.quantity}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {transaction.type === 'entry' ? `$${transaction.unitCost.toFixed(2)}` : '-'}
+                      {transaction.type === 'entry' ? formatCurrency(getBaseUnitCost(transaction)) : '-'}
+                      {transaction.type === 'entry' && transaction.currency && transaction.exchangeRate !== undefined && (
+                        <p className="text-xs text-gray-400">
+                          {t('inventory.originalCost', {
+                            cost: formatCurrency(transaction.unitCost, transaction.currency),
+                            rate: formatNumber(transaction.exchangeRate),
+                          })}
+                        </p>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {transaction.type === 'entry'
-                        ? `$${(transaction.quantity * transaction.unitCost).toFixed(2)}`
+                        ? formatCurrency(transaction.quantity * getBaseUnitCost(transaction))
                         : '-'}
+                      {transaction.type === 'entry' && transaction.currency && (
+                        <p className="text-xs text-gray-400">
+                          {formatCurrency(transaction.quantity * transaction.unitCost, transaction.currency)}
+                        </p>
+                      )}
                     </td>
-                    <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">
+                    <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate" title={transaction.voidReason}>
                       {transaction.notes || '-'}
+                      {transaction.createdByName && (
+                        <p className="text-xs text-gray-400">{t('inventory.createdBy', { name: transaction.createdByName })}</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      {!transaction.voidedBy && !transaction.reversalOf && !transaction.transferId && hasPermission('inventory.void') && (
+                        <button
+                          onClick={() => handleOpenVoidModal(transaction)}
+                          className="p-2 text-red-600 hover:bg-red-100 rounded-full"
+                          title={t('inventory.voidTitle')}
+                        >
+                          <Ban className="h-4 w-4" />
+                        </button>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -280,7 +471,7 @@ const Inventory: React.FC = () => {
           </div>
         ) : (
           <div className="py-8 text-center text-gray-500">
-            No se encontraron transacciones
+            {t('inventory.empty')}
           </div>
         )}
       </div>
@@ -299,7 +490,8 @@ const Inventory: React.FC = () => {
             <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
               <div className="flex justify-between items-center px-6 py-4 bg-gray-50 border-b">
                 <h3 className="text-lg font-medium text-gray-900">
-                  {transactionType === 'entry' ? 'Registrar Entrada' : 'Registrar Salida'}
+                  {transactionType === 'entry' ? t('inventory.registerEntry') : t('inventory.registerExit')}
+                  {hasLocations && ` · ${getLocationName(currentLocationId)}`}
                 </h3>
                 <button
                   onClick={handleCloseModal}
@@ -313,7 +505,7 @@ const Inventory: React.FC = () => {
                   <div className="space-y-4">
                     <div>
                       <label htmlFor="productId" className="block text-sm font-medium text-gray-700">
-                        Producto
+                        {t('common.product')}
                       </label>
                       <select
                         name="productId"
@@ -324,7 +516,7 @@ const Inventory: React.FC = () => {
                         required
                       >
                         <option value="" disabled>
-                          Seleccione un producto
+                          {t('inventory.selectProduct')}
                         </option>
                         {products.map((product) => {
                           const stock = getProductStock(product.id);
@@ -332,7 +524,7 @@ const Inventory: React.FC = () => {
                           
                           return (
                             <option key={product.id} value={product.id} disabled={disabled}>
-                              {product.name} {disabled ? '(Sin stock)' : `(Stock: ${stock})`}
+                              {product.name} {disabled ? t('inventory.outOfStock') : t('inventory.stockOption', { stock })}
                             </option>
                           );
                         })}
@@ -340,7 +532,7 @@ const Inventory: React.FC = () => {
                     </div>
                     <div>
                       <label htmlFor="quantity" className="block text-sm font-medium text-gray-700">
-                        Cantidad
+                        {t('common.quantity')}
                       </label>
                       <input
                         type="number"
@@ -353,27 +545,100 @@ const Inventory: React.FC = () => {
                         required
                       />
                     </div>
+                    {transactionType === 'entry' && isPerishable(formData.productId) && (
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label htmlFor="lotNumber" className="block text-sm font-medium text-gray-700">
+                            {t('inventory.lotNumber')}
+                          </label>
+                          <input
+                            type="text"
+                            name="lotNumber"
+                            id="lotNumber"
+                            value={formData.lotNumber}
+                            onChange={handleInputChange}
+                            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          />
+                        </div>
+                        <div>
+                          <label htmlFor="expiryDate" className="block text-sm font-medium text-gray-700">
+                            {t('inventory.expiryDate')}
+                          </label>
+                          <input
+                            type="date"
+                            name="expiryDate"
+                            id="expiryDate"
+                            value={formData.expiryDate}
+                            onChange={handleInputChange}
+                            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          />
+                        </div>
+                      </div>
+                    )}
                     {transactionType === 'entry' && (
+                      <div className="grid grid-cols-3 gap-4">
+                        <div className="col-span-2">
+                          <label htmlFor="unitCost" className="block text-sm font-medium text-gray-700">
+                            {t('inventory.unitCostLabel')}
+                          </label>
+                          <input
+                            type="number"
+                            name="unitCost"
+                            id="unitCost"
+                            min="0.01"
+                            step="0.01"
+                            value={formData.unitCost}
+                            onChange={handleInputChange}
+                            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                            required
+                          />
+                        </div>
+                        <div>
+                          <label htmlFor="currency" className="block text-sm font-medium text-gray-700">
+                            {t('inventory.currency')}
+                          </label>
+                          <select
+                            name="currency"
+                            id="currency"
+                            value={formData.currency}
+                            onChange={handleInputChange}
+                            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          >
+                            {CURRENCIES.map((currency) => (
+                              <option key={currency} value={currency}>
+                                {currency}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+                    )}
+                    {isForeignCurrency && (
                       <div>
-                        <label htmlFor="unitCost" className="block text-sm font-medium text-gray-700">
-                          Costo Unitario ($)
+                        <label htmlFor="exchangeRate" className="block text-sm font-medium text-gray-700">
+                          {t('inventory.exchangeRate', { currency: formData.currency })}
                         </label>
                         <input
                           type="number"
-                          name="unitCost"
-                          id="unitCost"
-                          min="0.01"
-                          step="0.01"
-                          value={formData.unitCost}
+                          name="exchangeRate"
+                          id="exchangeRate"
+                          min="0.0001"
+                          step="0.0001"
+                          value={formData.exchangeRate}
                           onChange={handleInputChange}
                           className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                           required
                         />
+                        <p className="mt-1 text-xs text-gray-500">
+                          {getExchangeRate(formData.currency, formData.date) === null
+                            ? t('inventory.noExchangeRate', { currency: formData.currency })
+                            : t('inventory.baseCost', { cost: formatCurrency(formData.unitCost * formData.exchangeRate) })}
+                        </p>
                       </div>
                     )}
                     <div>
                       <label htmlFor="date" className="block text-sm font-medium text-gray-700">
-                        Fecha
+                        {t('common.date')}
                       </label>
                       <input
                         type="date"
@@ -384,10 +649,15 @@ const Inventory: React.FC = () => {
                         className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                         required
                       />
+                      {closedThrough && (
+                        <p className="mt-1 text-xs text-gray-500">
+                          {t('inventory.closedThrough', { date: formatDate(closedThrough) })}
+                        </p>
+                      )}
                     </div>
                     <div>
                       <label htmlFor="notes" className="block text-sm font-medium text-gray-700">
-                        Notas
+                        {t('common.notes')}
                       </label>
                       <textarea
                         name="notes"
@@ -406,7 +676,7 @@ const Inventory: React.FC = () => {
                     onClick={handleCloseModal}
                     className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 mr-2"
                   >
-                    Cancelar
+                    {t('common.cancel')}
                   </button>
                   <button
                     type="submit"
@@ -416,7 +686,73 @@ const Inventory: React.FC = () => {
                         : 'bg-amber-600 hover:bg-amber-700 focus:ring-amber-500'
                     }`}
                   >
-                    {transactionType === 'entry' ? 'Registrar Entrada' : 'Registrar Salida'}
+                    {transactionType === 'entry' ? t('inventory.registerEntry') : t('inventory.registerExit')}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Void modal */}
+      {voidingTransaction && (
+        <div className="fixed inset-0 overflow-y-auto z-50">
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div
+              className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+              onClick={handleCloseVoidModal}
+            ></div>
+
+            <span className="hidden sm:inline-block sm:align-middle sm:h-screen">&#8203;</span>
+
+            <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+              <div className="flex justify-between items-center px-6 py-4 bg-gray-50 border-b">
+                <h3 className="text-lg font-medium text-gray-900">{t('inventory.voidTitle')}</h3>
+                <button
+                  onClick={handleCloseVoidModal}
+                  className="text-gray-400 hover:text-gray-500"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              <form onSubmit={handleVoid}>
+                <div className="px-6 py-4 space-y-4">
+                  <p className="text-sm text-gray-500">
+                    {t('inventory.voidExplanation', {
+                      movement: t(VOID_MOVEMENT_LABELS[voidingTransaction.type]),
+                      units: t('common.units', { count: Math.abs(voidingTransaction.quantity) }),
+                      product: getProductName(voidingTransaction.productId),
+                      date: formatDate(voidingTransaction.date),
+                    })}
+                  </p>
+                  <div>
+                    <label htmlFor="voidReason" className="block text-sm font-medium text-gray-700">
+                      {t('inventory.reason')}
+                    </label>
+                    <textarea
+                      id="voidReason"
+                      rows={3}
+                      value={voidReason}
+                      onChange={(e) => setVoidReason(e.target.value)}
+                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="px-6 py-3 bg-gray-50 flex justify-end">
+                  <button
+                    type="button"
+                    onClick={handleCloseVoidModal}
+                    className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 mr-2"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                  <button
+                    type="submit"
+                    className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                  >
+                    {t('inventory.void')}
                   </button>
                 </div>
               </form>
@@ -0,0 +1,667 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useInvoicing, Invoice, InvoiceStatus } from '../contexts/InvoicingContext';
+import { useSales } from '../contexts/SalesContext';
+import { TranslationKey, useLanguage } from '../contexts/LanguageContext';
+import { CfdiReceptor, CfdiValidationError, REGIMENES_FISCALES, USOS_CFDI, validateCfdi } from '../utils/cfdi';
+import { getToday } from '../utils/format';
+import { FileText, Download, Stamp, Printer, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const STATUS_LABELS: Record<InvoiceStatus, TranslationKey> = {
+  draft: 'invoices.status.draft',
+  stamped: 'invoices.status.stamped',
+};
+
+const STATUS_STYLES: Record<InvoiceStatus, string> = {
+  draft: 'bg-yellow-100 text-yellow-800',
+  stamped: 'bg-green-100 text-green-800',
+};
+
+const TAX_NAMES: Record<string, string> = {
+  '002': 'IVA',
+  '003': 'IEPS',
+};
+
+const EMPTY_RECEPTOR: CfdiReceptor = {
+  rfc: '',
+  nombre: '',
+  domicilioFiscal: '',
+  regimenFiscal: '616',
+  usoCfdi: 'G03',
+};
+
+// The SAT's verification service; the printed invoice carries it instead of a QR code
+const getVerificationUrl = (invoice: Invoice) => {
+  const { cfdi } = invoice;
+  const params = new URLSearchParams({
+    id: cfdi.timbre?.uuid ?? '',
+    re: cfdi.emisor.rfc,
+    rr: cfdi.receptor.rfc,
+    tt: cfdi.total.toFixed(6),
+    fe: cfdi.sello.slice(-8),
+  });
+  return `https://verificacfdi.facturaelectronica.sat.gob.mx/default.aspx?${params.toString()}`;
+};
+
+const downloadXml = (fileName: string, xml: string) => {
+  const url = URL.createObjectURL(new Blob([xml], { type: 'application/xml' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const Invoices: React.FC = () => {
+  const { invoices, issuer, previewInvoice, createInvoice, stampInvoice, deleteInvoice, getInvoiceForSale, getInvoiceXml } =
+    useInvoicing();
+  const { sales } = useSales();
+  const { hasPermission } = useAuth();
+  const { t, formatCurrency, formatDateTime, formatNumber } = useLanguage();
+  const canIssue = hasPermission('invoices.issue');
+
+  const [startDate, setStartDate] = useState(() => `${getToday().slice(0, 8)}01`);
+  const [endDate, setEndDate] = useState(getToday());
+  const [saleId, setSaleId] = useState<string | null>(null);
+  const [receptor, setReceptor] = useState<CfdiReceptor>(EMPTY_RECEPTOR);
+  const [validationErrors, setValidationErrors] = useState<CfdiValidationError[]>([]);
+  const [stampingId, setStampingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [printed, setPrinted] = useState<Invoice | null>(null);
+
+  // Most recent first
+  const periodSales = sales
+    .filter((sale) => sale.date >= startDate && sale.date <= endDate)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const sortedInvoices = [...invoices].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const getSaleFolio = (id: string) => sales.find((sale) => sale.id === id)?.folio ?? '';
+  const getInvoiceFolio = (invoice: Invoice) => `${invoice.cfdi.serie}-${invoice.cfdi.folio}`;
+
+  const handleOpenModal = (id: string) => {
+    setSaleId(id);
+    setReceptor(EMPTY_RECEPTOR);
+    setValidationErrors([]);
+  };
+
+  const handleCloseModal = () => {
+    setSaleId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!saleId) {
+      return;
+    }
+
+    try {
+      // Validation errors are listed in the form rather than in a toast
+      const errors = validateCfdi(previewInvoice(saleId, receptor));
+      setValidationErrors(errors);
+      if (errors.length > 0) {
+        return;
+      }
+      setSaving(true);
+      await createInvoice(saleId, receptor);
+      toast.success(t('invoices.created'));
+      handleCloseModal();
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('invoices.saveError'));
+      }
+      console.error(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStamp = async (id: string) => {
+    setStampingId(id);
+    try {
+      await stampInvoice(id);
+      toast.success(t('invoices.stamped'));
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('invoices.stampError'));
+      }
+      console.error(error);
+    } finally {
+      setStampingId(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm(t('invoices.confirmDelete'))) {
+      return;
+    }
+    try {
+      await deleteInvoice(id);
+      toast.success(t('invoices.deleted'));
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('invoices.deleteError'));
+      }
+      console.error(error);
+    }
+  };
+
+  const handleDownload = (invoice: Invoice) => {
+    downloadXml(`${invoice.cfdi.timbre?.uuid ?? getInvoiceFolio(invoice)}.xml`, getInvoiceXml(invoice));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between print:hidden">
+        <h1 className="text-2xl font-bold text-gray-900">{t('nav.invoices')}</h1>
+      </div>
+
+      {!issuer && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 text-sm text-yellow-800 print:hidden">
+          {t('invoices.noIssuerHelp')}
+        </div>
+      )}
+
+      {/* Sales in the period */}
+      <div className="bg-white shadow rounded-lg p-4 print:hidden">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">{t('invoices.sales')}</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div>
+            <label htmlFor="startDate" className="block text-sm font-medium text-gray-700">
+              {t('common.startDate')}
+            </label>
+            <input
+              type="date"
+              id="startDate"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="endDate" className="block text-sm font-medium text-gray-700">
+              {t('common.endDate')}
+            </label>
+            <input
+              type="date"
+              id="endDate"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('invoices.saleFolio')}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('common.date')}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('invoices.customer')}
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('common.total')}
+              </th>
+              <th className="relative px-6 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {periodSales.length > 0 ? (
+              periodSales.map((sale) => {
+                const invoice = getInvoiceForSale(sale.id);
+                return (
+                  <tr key={sale.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {sale.folio}
+                      {sale.discardedProductIds && (
+                        <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                          {t('invoices.exitsDiscarded')}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDateTime(sale.createdAt)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{sale.customer}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                      {formatCurrency(sale.total)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      {invoice ? (
+                        <span className="text-gray-500">{t('invoices.invoicedAs', { folio: getInvoiceFolio(invoice) })}</span>
+                      ) : (
+                        canIssue &&
+                        issuer && (
+                          <button
+                            onClick={() => handleOpenModal(sale.id)}
+                            className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                          >
+                            <FileText className="h-4 w-4 mr-1" />
+                            {t('invoices.invoice')}
+                          </button>
+                        )
+                      )}
+                    </td>
+                  </tr>
+                );
+              })
+            ) : (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                  {t('invoices.noSales')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Invoices table */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-md print:hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('invoices.folio')}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('common.date')}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('invoices.receptor')}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('invoices.saleFolio')}
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('common.total')}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('common.status')}
+              </th>
+              <th className="relative px-6 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {sortedInvoices.length > 0 ? (
+              sortedInvoices.map((invoice) => (
+                <tr key={invoice.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {getInvoiceFolio(invoice)}
+                    {invoice.cfdi.timbre && (
+                      <span className="block text-xs font-normal text-gray-500">{invoice.cfdi.timbre.uuid}</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDateTime(invoice.createdAt)}</td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {invoice.cfdi.receptor.nombre}
+                    <span className="block text-xs text-gray-500">{invoice.cfdi.receptor.rfc}</span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{getSaleFolio(invoice.saleId)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                    {formatCurrency(invoice.cfdi.total)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[invoice.status]}`}>
+                      {t(STATUS_LABELS[invoice.status])}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <div className="flex justify-end space-x-2">
+                      {canIssue && invoice.status === 'draft' && (
+                        <button
+                          onClick={() => handleStamp(invoice.id)}
+                          disabled={stampingId === invoice.id}
+                          className="p-2 text-green-600 hover:bg-green-100 rounded-full disabled:opacity-50"
+                          title={t('invoices.stamp')}
+                        >
+                          <Stamp className="h-5 w-5" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDownload(invoice)}
+                        className="p-2 text-blue-600 hover:bg-blue-100 rounded-full"
+                        title={t('invoices.downloadXml')}
+                      >
+                        <Download className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={() => setPrinted(invoice)}
+                        className="p-2 text-gray-600 hover:bg-gray-100 rounded-full"
+                        title={t('invoices.printable')}
+                      >
+                        <Printer className="h-5 w-5" />
+                      </button>
+                      {canIssue && invoice.status === 'draft' && (
+                        <button
+                          onClick={() => handleDelete(invoice.id)}
+                          className="p-2 text-red-600 hover:bg-red-100 rounded-full"
+                          title={t('invoices.delete')}
+                        >
+                          <Trash2 className="h-5 w-5" />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                  {t('invoices.empty')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Customer's tax data */}
+      {saleId && (
+        <div className="fixed inset-0 overflow-y-auto z-50">
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div
+              className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+              onClick={handleCloseModal}
+            ></div>
+
+            <span className="hidden sm:inline-block sm:align-middle sm:h-screen">&#8203;</span>
+
+            <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+              <div className="flex justify-between items-center px-6 py-4 bg-gray-50 border-b">
+                <h3 className="text-lg font-medium text-gray-900">
+                  {t('invoices.new', { folio: getSaleFolio(saleId) })}
+                </h3>
+                <button
+                  onClick={handleCloseModal}
+                  className="text-gray-400 hover:text-gray-500"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              <form onSubmit={handleSubmit}>
+                <div className="px-6 py-4">
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor="rfc" className="block text-sm font-medium text-gray-700">
+                          {t('invoices.rfc')}
+                        </label>
+                        <input
+                          type="text"
+                          id="rfc"
+                          value={receptor.rfc}
+                          onChange={(e) => setReceptor((prev) => ({ ...prev, rfc: e.target.value }))}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm uppercase"
+                          required
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="domicilioFiscal" className="block text-sm font-medium text-gray-700">
+                          {t('invoices.postalCode')}
+                        </label>
+                        <input
+                          type="text"
+                          id="domicilioFiscal"
+                          inputMode="numeric"
+                          maxLength={5}
+                          value={receptor.domicilioFiscal}
+                          onChange={(e) => setReceptor((prev) => ({ ...prev, domicilioFiscal: e.target.value }))}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          required
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label htmlFor="nombre" className="block text-sm font-medium text-gray-700">
+                        {t('invoices.legalName')}
+                      </label>
+                      <input
+                        type="text"
+                        id="nombre"
+                        value={receptor.nombre}
+                        onChange={(e) => setReceptor((prev) => ({ ...prev, nombre: e.target.value }))}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm uppercase"
+                        required
+                      />
+                      <p className="mt-1 text-xs text-gray-500">{t('invoices.legalNameHelp')}</p>
+                    </div>
+                    <div>
+                      <label htmlFor="regimenFiscal" className="block text-sm font-medium text-gray-700">
+                        {t('invoices.taxRegime')}
+                      </label>
+                      <select
+                        id="regimenFiscal"
+                        value={receptor.regimenFiscal}
+                        onChange={(e) => setReceptor((prev) => ({ ...prev, regimenFiscal: e.target.value }))}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      >
+                        {Object.entries(REGIMENES_FISCALES).map(([code, name]) => (
+                          <option key={code} value={code}>
+                            {code} - {name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="usoCfdi" className="block text-sm font-medium text-gray-700">
+                        {t('invoices.use')}
+                      </label>
+                      <select
+                        id="usoCfdi"
+                        value={receptor.usoCfdi}
+                        onChange={(e) => setReceptor((prev) => ({ ...prev, usoCfdi: e.target.value }))}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      >
+                        {Object.entries(USOS_CFDI).map(([code, name]) => (
+                          <option key={code} value={code}>
+                            {code} - {name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {validationErrors.length > 0 && (
+                      <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                        <p className="text-sm font-medium text-red-800">
+                          {t('invoices.validationErrors', { count: validationErrors.length })}
+                        </p>
+                        <ul className="mt-2 list-disc list-inside text-xs text-red-700 space-y-1">
+                          {validationErrors.map((error, index) => (
+                            <li key={index}>
+                              <span className="font-mono">{error.path}</span>: {t(error.message)}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    <p className="text-xs text-gray-500">{t('invoices.validationScope')}</p>
+                  </div>
+                </div>
+                <div className="px-6 py-3 bg-gray-50 flex justify-end">
+                  <button
+                    type="button"
+                    onClick={handleCloseModal}
+                    className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 mr-2"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                  >
+                    {t('invoices.generate')}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Printed representation */}
+      {printed && (
+        <div className="fixed inset-0 overflow-y-auto z-50 print:static print:overflow-visible">
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0 print:block print:min-h-0 print:p-0">
+            <div
+              className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity print:hidden"
+              onClick={() => setPrinted(null)}
+            ></div>
+
+            <span className="hidden sm:inline-block sm:align-middle sm:h-screen print:hidden">&#8203;</span>
+
+            <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-3xl sm:w-full print:shadow-none print:m-0 print:max-w-none">
+              <div className="flex justify-between items-center px-6 py-4 bg-gray-50 border-b print:hidden">
+                <h3 className="text-lg font-medium text-gray-900">{t('invoices.printable')}</h3>
+                <button
+                  onClick={() => setPrinted(null)}
+                  className="text-gray-400 hover:text-gray-500"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              <div className="px-6 py-4 text-sm text-gray-900 space-y-4">
+                {printed.status === 'draft' && (
+                  <p className="text-center font-bold text-red-700">{t('invoices.draftWatermark')}</p>
+                )}
+                <div className="flex justify-between">
+                  <div>
+                    <p className="font-bold">{printed.cfdi.emisor.nombre}</p>
+                    <p>{t('invoices.rfc')}: {printed.cfdi.emisor.rfc}</p>
+                    <p>
+                      {t('invoices.taxRegime')}: {printed.cfdi.emisor.regimenFiscal} -{' '}
+                      {REGIMENES_FISCALES[printed.cfdi.emisor.regimenFiscal]}
+                    </p>
+                    <p>{t('invoices.issuedAt', { postalCode: printed.cfdi.lugarExpedicion })}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-bold">{t('invoices.invoiceFolio', { folio: getInvoiceFolio(printed) })}</p>
+                    <p>{printed.cfdi.fecha.replace('T', ' ')}</p>
+                    <p>{t('invoices.type')}</p>
+                  </div>
+                </div>
+
+                <div className="border-t pt-2">
+                  <p className="font-bold">{t('invoices.receptor')}</p>
+                  <p>{printed.cfdi.receptor.nombre}</p>
+                  <p>{t('invoices.rfc')}: {printed.cfdi.receptor.rfc}</p>
+                  <p>{t('invoices.postalCode')}: {printed.cfdi.receptor.domicilioFiscal}</p>
+                  <p>
+                    {t('invoices.taxRegime')}: {printed.cfdi.receptor.regimenFiscal} -{' '}
+                    {REGIMENES_FISCALES[printed.cfdi.receptor.regimenFiscal]}
+                  </p>
+                  <p>
+                    {t('invoices.use')}: {printed.cfdi.receptor.usoCfdi} - {USOS_CFDI[printed.cfdi.receptor.usoCfdi]}
+                  </p>
+                </div>
+
+                <table className="w-full text-xs">
+                  <thead className="border-b">
+                    <tr>
+                      <th className="py-1 text-left">{t('invoices.productKey')}</th>
+                      <th className="py-1 text-right">{t('common.quantity')}</th>
+                      <th className="py-1 text-left pl-2">{t('invoices.unitKey')}</th>
+                      <th className="py-1 text-left">{t('common.description')}</th>
+                      <th className="py-1 text-right">{t('invoices.unitValue')}</th>
+                      <th className="py-1 text-right">{t('invoices.amount')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {printed.cfdi.conceptos.map((concepto, index) => (
+                      <tr key={index} className="align-top">
+                        <td className="py-1">{concepto.claveProdServ}</td>
+                        <td className="py-1 text-right">{formatNumber(concepto.cantidad)}</td>
+                        <td className="py-1 pl-2">{concepto.claveUnidad}</td>
+                        <td className="py-1">
+                          {concepto.descripcion}
+                          {concepto.traslados.map((traslado) => (
+                            <span key={traslado.impuesto} className="block text-gray-500">
+                              {TAX_NAMES[traslado.impuesto]}{' '}
+                              {traslado.tasaOCuota === undefined
+                                ? t('taxes.iva.exento')
+                                : `${formatNumber(traslado.tasaOCuota * 100)} %`}
+                              {traslado.importe !== undefined && `: ${formatCurrency(traslado.importe)}`}
+                            </span>
+                          ))}
+                        </td>
+                        <td className="py-1 text-right">{formatCurrency(concepto.valorUnitario)}</td>
+                        <td className="py-1 text-right">{formatCurrency(concepto.importe)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <div className="border-t pt-2 flex justify-between">
+                  <div>
+                    <p>{t('invoices.paymentForm', { code: printed.cfdi.formaPago })}</p>
+                    <p>{t('invoices.paymentMethod', { code: printed.cfdi.metodoPago })}</p>
+                    <p>{t('invoices.currency')}</p>
+                  </div>
+                  <div className="text-right space-y-1">
+                    <p>
+                      {t('invoices.subtotal')}: {formatCurrency(printed.cfdi.subTotal)}
+                    </p>
+                    {printed.cfdi.traslados
+                      .filter((traslado) => traslado.importe !== undefined)
+                      .map((traslado) => (
+                        <p key={`${traslado.impuesto}-${traslado.tasaOCuota}`}>
+                          {TAX_NAMES[traslado.impuesto]} {formatNumber((traslado.tasaOCuota ?? 0) * 100)} %:{' '}
+                          {formatCurrency(traslado.importe ?? 0)}
+                        </p>
+                      ))}
+                    <p className="font-bold">
+                      {t('common.total')}: {formatCurrency(printed.cfdi.total)}
+                    </p>
+                  </div>
+                </div>
+
+                {printed.cfdi.timbre && (
+                  <div className="border-t pt-2 text-xs break-all space-y-1">
+                    <p>{t('invoices.uuid')}: {printed.cfdi.timbre.uuid}</p>
+                    <p>
+                      {t('invoices.stampedAt', {
+                        date: printed.cfdi.timbre.fechaTimbrado.replace('T', ' '),
+                        certificate: printed.cfdi.timbre.noCertificadoSAT,
+                      })}
+                    </p>
+                    <p>{t('invoices.issuerSeal')}: {printed.cfdi.sello}</p>
+                    <p>{t('invoices.satSeal')}: {printed.cfdi.timbre.selloSAT}</p>
+                    <p>{t('invoices.verify')}: {getVerificationUrl(printed)}</p>
+                  </div>
+                )}
+              </div>
+              <div className="px-6 py-3 bg-gray-50 flex justify-end print:hidden">
+                <button
+                  type="button"
+                  onClick={() => setPrinted(null)}
+                  className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 mr-2"
+                >
+                  {t('common.close')}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => window.print()}
+                  className="inline-flex items-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  <Printer className="h-4 w-4 mr-2" />
+                  {t('common.print')}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Invoices;
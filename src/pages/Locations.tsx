@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useInventory, LocationType, LOCATION_TYPE_LABELS } from '../contexts/InventoryContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { Plus, Edit, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface LocationFormData {
+  name: string;
+  type: LocationType;
+  active: boolean;
+}
+
+const emptyForm: LocationFormData = {
+  name: '',
+  type: 'store',
+  active: true,
+};
+
+const Locations: React.FC = () => {
+  const { locations, addLocation, updateLocation, getProductStock, products } = useInventory();
+  const { hasPermission } = useAuth();
+  const { t } = useLanguage();
+  const canManage = hasPermission('locations.manage');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<string | null>(null);
+  const [formData, setFormData] = useState<LocationFormData>(emptyForm);
+
+  // Units on hand of every product at the location
+  const getLocationUnits = (locationId: string) =>
+    products.reduce((total, product) => total + getProductStock(product.id, locationId), 0);
+
+  const handleOpenModal = (locationId?: string) => {
+    const location = locationId ? locations.find((l) => l.id === locationId) : undefined;
+    if (location) {
+      setFormData({
+        name: location.name,
+        type: location.type,
+        active: location.active,
+      });
+      setEditingLocation(location.id);
+    } else {
+      setFormData(emptyForm);
+      setEditingLocation(null);
+    }
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingLocation(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error(t('locations.nameRequired'));
+      return;
+    }
+
+    try {
+      if (editingLocation) {
+        updateLocation({ id: editingLocation, ...formData });
+        toast.success(t('locations.updated'));
+      } else {
+        addLocation(formData);
+        toast.success(t('locations.created'));
+      }
+      handleCloseModal();
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('locations.saveError'));
+      }
+      console.error(error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">{t('nav.locations')}</h1>
+        {canManage && (
+          <button
+            onClick={() => handleOpenModal()}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {t('locations.new')}
+          </button>
+        )}
+      </div>
+
+      {/* Locations list */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        <ul className="divide-y divide-gray-200">
+          {locations.map((location) => (
+            <li key={location.id}>
+              <div className="px-4 py-4 sm:px-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900">
+                      {location.name}
+                      {!location.active && (
+                        <span className="ml-2 rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-normal text-gray-800">
+                          {t('locations.inactive')}
+                        </span>
+                      )}
+                    </h3>
+                    <p className="mt-1 text-sm text-gray-500">
+                      {t(LOCATION_TYPE_LABELS[location.type])} · {t('locations.unitsOnHand', { count: getLocationUnits(location.id) })}
+                    </p>
+                  </div>
+                  {canManage && (
+                    <button
+                      onClick={() => handleOpenModal(location.id)}
+                      className="p-2 text-blue-600 hover:bg-blue-100 rounded-full"
+                    >
+                      <Edit className="h-5 w-5" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 overflow-y-auto z-50">
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div
+              className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+              onClick={handleCloseModal}
+            ></div>
+
+            <span className="hidden sm:inline-block sm:align-middle sm:h-screen">&#8203;</span>
+
+            <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+              <div className="flex justify-between items-center px-6 py-4 bg-gray-50 border-b">
+                <h3 className="text-lg font-medium text-gray-900">
+                  {editingLocation ? t('locations.edit') : t('locations.new')}
+                </h3>
+                <button
+                  onClick={handleCloseModal}
+                  className="text-gray-400 hover:text-gray-500"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              <form onSubmit={handleSubmit}>
+                <div className="px-6 py-4">
+                  <div className="space-y-4">
+                    <div>
+                      <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+                        {t('common.name')}
+                      </label>
+                      <input
+                        type="text"
+                        id="name"
+                        value={formData.name}
+                        onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="type" className="block text-sm font-medium text-gray-700">
+                        {t('inventory.type')}
+                      </label>
+                      <select
+                        id="type"
+                        value={formData.type}
+                        onChange={(e) => setFormData((prev) => ({ ...prev, type: e.target.value as LocationType }))}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      >
+                        {(Object.keys(LOCATION_TYPE_LABELS) as LocationType[]).map((type) => (
+                          <option key={type} value={type}>
+                            {t(LOCATION_TYPE_LABELS[type])}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex items-center">
+                      <input
+                        type="checkbox"
+                        id="active"
+                        checked={formData.active}
+                        onChange={(e) => setFormData((prev) => ({ ...prev, active: e.target.checked }))}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      <label htmlFor="active" className="ml-2 block text-sm text-gray-700">
+                        {t('locations.activeHelp')}
+                      </label>
+                    </div>
+                  </div>
+                </div>
+                <div className="px-6 py-3 bg-gray-50 flex justify-end">
+                  <button
+                    type="button"
+                    onClick={handleCloseModal}
+                    className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 mr-2"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                  <button
+                    type="submit"
+                    className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    {editingLocation ? t('common.update') : t('common.create')}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Locations;
@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import LanguageToggle from '../components/layout/LanguageToggle';
+import { isDemoMode } from '../firebase';
 import { ShoppingCart, Mail, Lock, Eye, EyeOff } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -10,22 +13,19 @@ const Login: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
   
-  const { login, isAuthenticated } = useAuth();
+  const { login, loginAsDemo, isAuthenticated } = useAuth();
+  const { t } = useLanguage();
   const navigate = useNavigate();
 
-  // Auto-login para desarrollo/testing
-  const handleAutoLogin = async () => {
+  // Cuenta demo contra el emulador de Auth (VITE_DEMO_MODE)
+  const handleDemoLogin = async () => {
     setLoading(true);
     try {
-      const success = await login('nuevo@gmail.com', '123456');
-      if (success) {
-        toast.success('¡Login automático exitoso!');
-        navigate('/');
-      } else {
-        toast.error('Error en login automático');
-      }
+      await loginAsDemo();
+      toast.success(t('login.demoWelcome'));
+      navigate('/');
     } catch (error) {
-      toast.error('Error en login automático');
+      toast.error(t('login.demoError'));
       console.error(error);
     } finally {
       setLoading(false);
@@ -45,7 +45,7 @@ const Login: React.FC = () => {
     setLoading(true);
     
     if (!email || !password) {
-      toast.error('Por favor ingrese email y contraseña');
+      toast.error(t('login.missingFields'));
       setLoading(false);
       return;
     }
@@ -54,13 +54,13 @@ const Login: React.FC = () => {
       const success = await login(email, password);
       
       if (success) {
-        toast.success('¡Bienvenido!');
+        toast.success(t('login.welcome'));
         navigate('/');
       } else {
-        toast.error('Credenciales inválidas. Verifique su email y contraseña.');
+        toast.error(t('login.invalidCredentials'));
       }
     } catch (err) {
-      toast.error('Error al iniciar sesión. Intente nuevamente.');
+      toast.error(t('login.error'));
       console.error(err);
     } finally {
       setLoading(false);
@@ -68,7 +68,12 @@ const Login: React.FC = () => {
   };
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+    <div className="relative min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      {/* Antes de entrar el idioma solo se recuerda en este navegador */}
+      <div className="absolute top-4 right-4">
+        <LanguageToggle />
+      </div>
+
       {/* Header con logo y título */}
       <div className="sm:mx-auto sm:w-full sm:max-w-md">
         <div className="flex justify-center">
@@ -80,10 +85,10 @@ const Login: React.FC = () => {
           MiniSuper
         </h2>
         <p className="mt-2 text-center text-sm text-gray-600">
-          Sistema de Control de Inventario
+          {t('login.subtitle')}
         </p>
         <p className="mt-1 text-center text-xs text-indigo-600 font-medium">
-           Conectado con Firebase
+           {t('login.firebase')}
         </p>
       </div>
 
@@ -95,7 +100,7 @@ const Login: React.FC = () => {
             {/* Campo de email */}
             <div>
               <label htmlFor="email" className="block text-sm font-medium text-gray-700">
-                Correo Electrónico
+                {t('login.email')}
               </label>
               <div className="mt-1 relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -110,7 +115,7 @@ const Login: React.FC = () => {
                   value={email}
                   onChange={(e) => setEmail(e.target.value)}
                   className="appearance-none block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm transition-colors"
-                  placeholder="tu@email.com"
+                  placeholder={t('login.emailPlaceholder')}
                 />
               </div>
             </div>
@@ -118,7 +123,7 @@ const Login: React.FC = () => {
             {/* Campo de contraseña */}
             <div>
               <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Contraseña
+                {t('login.password')}
               </label>
               <div className="mt-1 relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -147,6 +152,15 @@ const Login: React.FC = () => {
                   )}
                 </button>
               </div>
+              <div className="mt-2 text-right text-sm">
+                <Link
+                  to="/forgot-password"
+                  state={{ email }}
+                  className="font-medium text-indigo-600 hover:text-indigo-500 transition-colors"
+                >
+                  {t('login.forgotPassword')}
+                </Link>
+              </div>
             </div>
 
             {/* Botón de login */}
@@ -164,25 +178,27 @@ const Login: React.FC = () => {
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
-                    Iniciando sesión...
+                    {t('login.signingIn')}
                   </>
                 ) : (
-                  'Iniciar sesión'
+                  t('login.signIn')
                 )}
               </button>
             </div>
           </form>
           
-          {/* Botón de Auto-Login para desarrollo */}
-          <div className="mt-4">
-            <button
-              onClick={handleAutoLogin}
-              disabled={loading}
-              className="w-full flex justify-center py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-all duration-200"
-            >
-              🤖 Auto-Login (Desarrollo)
-            </button>
-          </div>
+          {/* Cuenta demo, solo en desarrollo con el emulador */}
+          {isDemoMode && (
+            <div className="mt-4">
+              <button
+                onClick={handleDemoLogin}
+                disabled={loading}
+                className="w-full flex justify-center py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-all duration-200"
+              >
+                {t('login.demo')}
+              </button>
+            </div>
+          )}
           
           {/* Link para ir al registro */}
           <div className="mt-6">
@@ -192,7 +208,7 @@ const Login: React.FC = () => {
               </div>
               <div className="relative flex justify-center text-sm">
                 <span className="px-2 bg-white text-gray-500">
-                  ¿No tienes cuenta?
+                  {t('login.noAccount')}
                 </span>
               </div>
             </div>
@@ -202,7 +218,7 @@ const Login: React.FC = () => {
                 to="/signup"
                 className="font-medium text-indigo-600 hover:text-indigo-500 transition-colors"
               >
-                Crear una cuenta nueva
+                {t('login.createAccount')}
               </Link>
             </div>
           </div>
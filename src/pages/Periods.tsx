@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useInventory, InventoryMethod, InventoryPeriod } from '../contexts/InventoryContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { Lock, Unlock, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const Periods: React.FC = () => {
+  const { periods, closePeriod, reopenPeriod, getClosedThroughDate } = useInventory();
+  const { hasPermission } = useAuth();
+  const { t, formatCurrency, formatDate, formatDateTime } = useLanguage();
+  const canManage = hasPermission('periods.manage');
+  const [cutoffDate, setCutoffDate] = useState<string>('');
+  const [reopeningPeriod, setReopeningPeriod] = useState<InventoryPeriod | null>(null);
+  const [reopenReason, setReopenReason] = useState('');
+
+  const closedThrough = getClosedThroughDate();
+
+  const handleClose = () => {
+    if (!cutoffDate) {
+      toast.error(t('periods.cutoffRequired'));
+      return;
+    }
+
+    try {
+      closePeriod(cutoffDate);
+      toast.success(t('periods.closed'));
+      setCutoffDate('');
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('periods.closeError'));
+      }
+      console.error(error);
+    }
+  };
+
+  const handleOpenReopenModal = (period: InventoryPeriod) => {
+    setReopeningPeriod(period);
+    setReopenReason('');
+  };
+
+  const handleCloseReopenModal = () => {
+    setReopeningPeriod(null);
+  };
+
+  const handleReopen = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!reopeningPeriod) {
+      return;
+    }
+
+    if (!reopenReason.trim()) {
+      toast.error(t('periods.reasonRequired'));
+      return;
+    }
+
+    try {
+      reopenPeriod(reopeningPeriod.id, reopenReason);
+      toast.success(t('periods.reopened'));
+      handleCloseReopenModal();
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('periods.reopenError'));
+      }
+      console.error(error);
+    }
+  };
+
+  // Total value of a snapshot for one valuation method
+  const getSnapshotValue = (period: InventoryPeriod, method: InventoryMethod) =>
+    period.snapshot.reduce(
+      (total, item) =>
+        total + item.layers[method].reduce((sum, layer) => sum + layer.quantity * layer.unitCost, 0),
+      0
+    );
+
+  const sortedPeriods = [...periods].sort((a, b) => (a.cutoffDate < b.cutoffDate ? 1 : -1));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">{t('periods.title')}</h1>
+      </div>
+
+      {/* Close period */}
+      {canManage && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <Lock className="h-5 w-5 text-blue-600" />
+            <h2 className="text-lg font-medium text-gray-900">{t('periods.closeTitle')}</h2>
+          </div>
+          <p className="text-sm text-gray-500 mb-4">
+            {closedThrough
+              ? t('periods.closedThrough', { date: formatDate(closedThrough) })
+              : t('periods.noneClosed')}
+            {' '}{t('periods.closeHelp')}
+          </p>
+          <div className="flex items-end space-x-2">
+            <div>
+              <label htmlFor="cutoffDate" className="block text-sm font-medium text-gray-700">
+                {t('periods.cutoffDate')}
+              </label>
+              <input
+                type="date"
+                id="cutoffDate"
+                value={cutoffDate}
+                onChange={(e) => setCutoffDate(e.target.value)}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+            <button
+              onClick={handleClose}
+              disabled={!cutoffDate}
+              className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${
+                !cutoffDate ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              <Lock className="h-4 w-4 mr-2" />
+              {t('periods.close')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Periods list */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200 bg-gray-50">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">{t('periods.history')}</h3>
+        </div>
+        {sortedPeriods.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('periods.cutoff')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('common.status')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('periods.valuePEPS')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('periods.valueUEPS')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('periods.valueWeighted')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('periods.detail')}
+                  </th>
+                  <th scope="col" className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {sortedPeriods.map((period) => (
+                  <tr key={period.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDate(period.cutoffDate)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        period.status === 'closed'
+                          ? 'bg-blue-100 text-blue-800'
+                          : 'bg-gray-100 text-gray-800'
+                      }`}>
+                        {period.status === 'closed' ? t('periods.status.closed') : t('periods.status.reopened')}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatCurrency(getSnapshotValue(period, 'PEPS'))}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatCurrency(getSnapshotValue(period, 'UEPS'))}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatCurrency(getSnapshotValue(period, 'weighted'))}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      <p>{t('periods.closedBy', { name: period.closedBy, date: formatDateTime(period.closedAt) })}</p>
+                      {period.status === 'reopened' && period.reopenedAt && (
+                        <p className="text-amber-700">
+                          {t('periods.reopenedBy', {
+                            name: period.reopenedBy ?? '',
+                            date: formatDateTime(period.reopenedAt),
+                            reason: period.reopenReason ?? '',
+                          })}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      {period.status === 'closed' && canManage && (
+                        <button
+                          onClick={() => handleOpenReopenModal(period)}
+                          className="inline-flex items-center px-3 py-1 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                        >
+                          <Unlock className="h-4 w-4 mr-1" />
+                          {t('periods.reopen')}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="py-8 text-center text-gray-500">
+            {t('periods.empty')}
+          </div>
+        )}
+      </div>
+
+      {/* Reopen modal */}
+      {reopeningPeriod && (
+        <div className="fixed inset-0 overflow-y-auto z-50">
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div
+              className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+              onClick={handleCloseReopenModal}
+            ></div>
+
+            <span className="hidden sm:inline-block sm:align-middle sm:h-screen">&#8203;</span>
+
+            <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+              <div className="flex justify-between items-center px-6 py-4 bg-gray-50 border-b">
+                <h3 className="text-lg font-medium text-gray-900">
+                  {t('periods.reopenTitle', { date: formatDate(reopeningPeriod.cutoffDate) })}
+                </h3>
+                <button
+                  onClick={handleCloseReopenModal}
+                  className="text-gray-400 hover:text-gray-500"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              <form onSubmit={handleReopen}>
+                <div className="px-6 py-4">
+                  <label htmlFor="reopenReason" className="block text-sm font-medium text-gray-700">
+                    {t('inventory.reason')}
+                  </label>
+                  <textarea
+                    id="reopenReason"
+                    rows={3}
+                    value={reopenReason}
+                    onChange={(e) => setReopenReason(e.target.value)}
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    required
+                  />
+                </div>
+                <div className="px-6 py-3 bg-gray-50 flex justify-end">
+                  <button
+                    type="button"
+                    onClick={handleCloseReopenModal}
+                    className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 mr-2"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                  <button
+                    type="submit"
+                    className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-amber-600 hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500"
+                  >
+                    {t('periods.reopen')}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Periods;
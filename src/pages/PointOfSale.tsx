@@ -0,0 +1,394 @@
+import React, { useState } from 'react';
+import { useInventory, Product } from '../contexts/InventoryContext';
+import { useSales, PaymentMethod, Sale, SaleLine } from '../contexts/SalesContext';
+import { TranslationKey, useLanguage } from '../contexts/LanguageContext';
+import { getToday } from '../utils/format';
+import { Search, Trash2, X, Printer, Banknote, CreditCard, ArrowRightLeft, ShoppingCart } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const PAYMENT_LABELS: Record<PaymentMethod, TranslationKey> = {
+  cash: 'pos.payment.cash',
+  card: 'pos.payment.card',
+  debit: 'pos.payment.debit',
+  transfer: 'pos.payment.transfer',
+};
+
+const PointOfSale: React.FC = () => {
+  const { products, getProductStock, getSalePrice } = useInventory();
+  const { registerSale, getSalesByDate } = useSales();
+  const { t, formatCurrency, formatDateTime } = useLanguage();
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [cart, setCart] = useState<SaleLine[]>([]);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [amountReceived, setAmountReceived] = useState<number>(0);
+  const [customer, setCustomer] = useState('');
+  const [lastSale, setLastSale] = useState<Sale | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const todaySales = getSalesByDate(getToday());
+  const todayTotal = todaySales.reduce((sum, sale) => sum + sale.total, 0);
+
+  const total = cart.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
+  const change = paymentMethod === 'cash' ? amountReceived - total : 0;
+
+  const searchResults = searchTerm.trim()
+    ? products
+        .filter(
+          (p) =>
+            p.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+            p.sku.toLowerCase().includes(searchTerm.toLowerCase()) ||
+            (p.barcode ?? '').includes(searchTerm)
+        )
+        .slice(0, 8)
+    : [];
+
+  const getProduct = (productId: string) => products.find((p) => p.id === productId);
+
+  const addToCart = (product: Product) => {
+    const inCart = cart.find((line) => line.productId === product.id);
+    const stock = getProductStock(product.id);
+
+    if ((inCart?.quantity ?? 0) + 1 > stock) {
+      toast.error(t('pos.notEnoughStock', { product: product.name }));
+      return;
+    }
+
+    if (inCart) {
+      setCart(cart.map((line) =>
+        line.productId === product.id ? { ...line, quantity: line.quantity + 1 } : line
+      ));
+    } else {
+      setCart([...cart, { productId: product.id, quantity: 1, unitPrice: getSalePrice(product) }]);
+    }
+  };
+
+  const handleQuantityChange = (productId: string, quantity: number) => {
+    const stock = getProductStock(productId);
+    if (quantity > stock) {
+      toast.error(t('pos.onlyAvailable', { count: stock }));
+      return;
+    }
+    setCart(cart.map((line) => (line.productId === productId ? { ...line, quantity } : line)));
+  };
+
+  const handleRemove = (productId: string) => {
+    setCart(cart.filter((line) => line.productId !== productId));
+  };
+
+  // Exact barcode or SKU match adds the product right away (barcode scanners send Enter)
+  const handleSearchSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) {
+      return;
+    }
+
+    const match = products.find(
+      (p) => p.barcode?.toLowerCase() === term || p.sku.toLowerCase() === term
+    );
+    if (match) {
+      addToCart(match);
+      setSearchTerm('');
+    } else if (searchResults.length === 1) {
+      addToCart(searchResults[0]);
+      setSearchTerm('');
+    } else {
+      toast.error(t('pos.productNotFound'));
+    }
+  };
+
+  const handleCheckout = async () => {
+    try {
+      setSaving(true);
+      const sale = await registerSale({
+        lines: cart,
+        paymentMethod,
+        amountReceived,
+        customer: customer.trim(),
+      });
+      toast.success(t('pos.saleSaved', { folio: sale.folio }));
+      setLastSale(sale);
+      setCart([]);
+      setAmountReceived(0);
+      setCustomer('');
+      setPaymentMethod('cash');
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('pos.saleError'));
+      }
+      console.error(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const canCheckout =
+    !saving &&
+    cart.length > 0 && cart.every((line) => line.quantity > 0) && (paymentMethod !== 'cash' || amountReceived >= total);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between print:hidden">
+        <h1 className="text-2xl font-bold text-gray-900">{t('nav.pos')}</h1>
+        <div className="text-right">
+          <p className="text-sm text-gray-500">{t('pos.todaySales', { count: todaySales.length })}</p>
+          <p className="text-lg font-semibold text-gray-900">{formatCurrency(todayTotal)}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 print:hidden">
+        {/* Product lookup */}
+        <div className="bg-white shadow rounded-lg p-4">
+          <form onSubmit={handleSearchSubmit} className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Search className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              autoFocus
+              className="pl-10 w-full px-4 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              placeholder={t('pos.searchPlaceholder')}
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </form>
+          <ul className="mt-4 divide-y divide-gray-200">
+            {searchResults.map((product) => {
+              const stock = getProductStock(product.id);
+              return (
+                <li key={product.id}>
+                  <button
+                    onClick={() => addToCart(product)}
+                    disabled={stock <= 0}
+                    className={`w-full flex items-center justify-between px-2 py-3 text-left hover:bg-gray-50 ${
+                      stock <= 0 ? 'opacity-50 cursor-not-allowed' : ''
+                    }`}
+                  >
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{product.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {product.sku} · {t('pos.stock', { stock })}
+                      </p>
+                    </div>
+                    <span className="text-sm font-medium text-green-600">{formatCurrency(getSalePrice(product))}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+
+        {/* Cart */}
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-4 py-4 border-b border-gray-200 bg-gray-50 flex items-center">
+            <ShoppingCart className="h-5 w-5 mr-2 text-gray-500" />
+            <h2 className="text-lg font-medium text-gray-900">{t('pos.cart')}</h2>
+          </div>
+          {cart.length > 0 ? (
+            <ul className="divide-y divide-gray-200">
+              {cart.map((line) => (
+                <li key={line.productId} className="px-4 py-3 flex items-center justify-between">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{getProduct(line.productId)?.name}</p>
+                    <p className="text-xs text-gray-500">{t('pos.each', { price: formatCurrency(line.unitPrice) })}</p>
+                  </div>
+                  <input
+                    type="number"
+                    min="1"
+                    value={line.quantity}
+                    onChange={(e) => handleQuantityChange(line.productId, Number(e.target.value))}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  />
+                  <span className="w-24 text-right text-sm font-medium text-gray-900">
+                    {formatCurrency(line.quantity * line.unitPrice)}
+                  </span>
+                  <button
+                    onClick={() => handleRemove(line.productId)}
+                    className="ml-2 p-2 text-red-600 hover:bg-red-100 rounded-full"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="py-8 text-center text-gray-500">
+              {t('pos.emptyCart')}
+            </div>
+          )}
+
+          <div className="px-4 py-4 border-t border-gray-200 space-y-4">
+            <div className="flex justify-between text-xl font-bold text-gray-900">
+              <span>{t('common.total')}</span>
+              <span>{formatCurrency(total)}</span>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(PAYMENT_LABELS) as PaymentMethod[]).map((method) => {
+                const Icon = method === 'cash' ? Banknote : method === 'transfer' ? ArrowRightLeft : CreditCard;
+                return (
+                  <button
+                    key={method}
+                    onClick={() => setPaymentMethod(method)}
+                    className={`flex items-center justify-center px-3 py-2 border rounded-md text-sm font-medium ${
+                      paymentMethod === method
+                        ? 'border-blue-600 bg-blue-50 text-blue-700'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    <Icon className="h-4 w-4 mr-2" />
+                    {t(PAYMENT_LABELS[method])}
+                  </button>
+                );
+              })}
+            </div>
+
+            {paymentMethod === 'cash' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="amountReceived" className="block text-sm font-medium text-gray-700">
+                    {t('pos.received')}
+                  </label>
+                  <input
+                    type="number"
+                    id="amountReceived"
+                    min="0"
+                    step="0.01"
+                    value={amountReceived}
+                    onChange={(e) => setAmountReceived(Number(e.target.value))}
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  />
+                </div>
+                <div>
+                  <p className="block text-sm font-medium text-gray-700">{t('pos.change')}</p>
+                  <p className={`mt-1 text-2xl font-bold ${change < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatCurrency(Math.max(change, 0))}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="customer" className="block text-sm font-medium text-gray-700">
+                {t('pos.customerOptional')}
+              </label>
+              <input
+                type="text"
+                id="customer"
+                value={customer}
+                onChange={(e) => setCustomer(e.target.value)}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+
+            <button
+              onClick={handleCheckout}
+              disabled={!canCheckout}
+              className={`w-full inline-flex justify-center py-3 px-4 border border-transparent shadow-sm text-base font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 ${
+                !canCheckout ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              {t('pos.checkout')}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Ticket */}
+      {lastSale && (
+        <div className="fixed inset-0 overflow-y-auto z-50 print:static print:overflow-visible">
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0 print:block print:min-h-0 print:p-0">
+            <div
+              className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity print:hidden"
+              onClick={() => setLastSale(null)}
+            ></div>
+
+            <span className="hidden sm:inline-block sm:align-middle sm:h-screen print:hidden">&#8203;</span>
+
+            <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-sm sm:w-full print:shadow-none print:m-0">
+              <div className="flex justify-between items-center px-6 py-4 bg-gray-50 border-b print:hidden">
+                <h3 className="text-lg font-medium text-gray-900">{t('pos.ticket', { folio: lastSale.folio })}</h3>
+                <button
+                  onClick={() => setLastSale(null)}
+                  className="text-gray-400 hover:text-gray-500"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              <div className="px-6 py-4 font-mono text-sm text-gray-900">
+                <p className="text-center font-bold">MiniSuper</p>
+                <p className="text-center text-xs">{formatDateTime(lastSale.createdAt)}</p>
+                <p className="text-center text-xs mb-3">{t('pos.folio', { folio: lastSale.folio })}</p>
+                {lastSale.customer && <p className="text-xs mb-2">{t('pos.customer', { name: lastSale.customer })}</p>}
+                <table className="w-full text-xs">
+                  <tbody>
+                    {lastSale.lines.map((line) => (
+                      <tr key={line.productId}>
+                        <td className="py-1 pr-2">
+                          {line.quantity} x {getProduct(line.productId)?.name}
+                          <span className="block text-gray-500">@ {formatCurrency(line.unitPrice)}</span>
+                        </td>
+                        <td className="py-1 text-right align-top">{formatCurrency(line.quantity * line.unitPrice)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className="mt-3 border-t border-dashed border-gray-400 pt-2 space-y-1">
+                  <p className="flex justify-between font-bold">
+                    <span>{t('common.total').toUpperCase()}</span>
+                    <span>{formatCurrency(lastSale.total)}</span>
+                  </p>
+                  {!!lastSale.taxes?.iva && (
+                    <p className="flex justify-between text-xs">
+                      <span>{t('pos.ivaIncluded')}</span>
+                      <span>{formatCurrency(lastSale.taxes.iva)}</span>
+                    </p>
+                  )}
+                  {!!lastSale.taxes?.ieps && (
+                    <p className="flex justify-between text-xs">
+                      <span>{t('pos.iepsIncluded')}</span>
+                      <span>{formatCurrency(lastSale.taxes.ieps)}</span>
+                    </p>
+                  )}
+                  <p className="flex justify-between text-xs">
+                    <span>{t(PAYMENT_LABELS[lastSale.paymentMethod])}</span>
+                    <span>{formatCurrency(lastSale.amountReceived)}</span>
+                  </p>
+                  {lastSale.paymentMethod === 'cash' && (
+                    <p className="flex justify-between text-xs">
+                      <span>{t('pos.change')}</span>
+                      <span>{formatCurrency(lastSale.change)}</span>
+                    </p>
+                  )}
+                </div>
+                <p className="mt-3 text-center text-xs">{t('pos.thanks')}</p>
+              </div>
+              <div className="px-6 py-3 bg-gray-50 flex justify-end print:hidden">
+                <button
+                  type="button"
+                  onClick={() => setLastSale(null)}
+                  className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 mr-2"
+                >
+                  {t('common.close')}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => window.print()}
+                  className="inline-flex items-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  <Printer className="h-4 w-4 mr-2" />
+                  {t('common.print')}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PointOfSale;
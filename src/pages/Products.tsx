@@ -1,5 +1,11 @@
 import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
 import { useInventory } from '../contexts/InventoryContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import TaxFields from '../components/catalog/TaxFields';
+import SatKeyPicker from '../components/catalog/SatKeyPicker';
+import { IVA_RATE_LABELS, isValidTaxConfig, priceIncludesTax, resolveTaxConfig, TaxConfig } from '../utils/taxes';
+import { CLAVES_PROD_SERV, CLAVES_UNIDAD, hasSatKeys, isValidClaveProdServ, isValidClaveUnidad } from '../utils/satCatalog';
 import { Plus, Edit, Trash2, X, Package2 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -9,13 +15,33 @@ interface ProductFormData {
   categoryId: string;
   sku: string;
   minStock: number;
+  minStockByLocation?: Record<string, number>;
   image: string;
   price: number;
+  priceIncludesTax?: boolean;
+  taxes?: TaxConfig; // Missing: the category's
   barcode?: string;
+  claveProdServ?: string;
+  claveUnidad?: string;
 }
 
 const Products: React.FC = () => {
-  const { products, categories, addProduct, updateProduct, deleteProduct, getProductStock } = useInventory();
+  const {
+    products,
+    categories,
+    locations,
+    addProduct,
+    updateProduct,
+    deleteProduct,
+    getProductStock,
+    getMinStock,
+    getProductLots,
+    getProductTaxes,
+    getSalePrice,
+  } = useInventory();
+  const activeLocations = locations.filter((location) => location.active);
+  const { hasPermission } = useAuth();
+  const { t, formatCurrency, formatDate, formatNumber } = useLanguage();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<string | null>(null);
   const [formData, setFormData] = useState<ProductFormData>({
@@ -43,7 +69,12 @@ const Products: React.FC = () => {
           barcode: '',
           image: product.image,
           price: product.price,
+          priceIncludesTax: priceIncludesTax(product),
+          taxes: product.taxes,
           barcode: product.barcode || '',
+          claveProdServ: product.claveProdServ ?? '',
+          claveUnidad: product.claveUnidad ?? '',
+          minStockByLocation: product.minStockByLocation,
         });
         setEditingProduct(productId);
       }
@@ -54,6 +85,7 @@ const Products: React.FC = () => {
         categoryId: categories.length > 0 ? categories[0].id : '',
         sku: '',
         minStock: 5,
+        priceIncludesTax: true,
       });
       setEditingProduct(null);
     }
@@ -75,33 +107,80 @@ const Products: React.FC = () => {
     }));
   };
 
+  // Own rates start from the category's, to be adjusted
+  const handleUseCategoryTaxesChange = (useCategoryTaxes: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      taxes: useCategoryTaxes
+        ? undefined
+        : resolveTaxConfig(undefined, categories.find((c) => c.id === prev.categoryId)),
+    }));
+  };
+
+  // An empty field falls back to the general minimum
+  const handleLocationMinStockChange = (locationId: string, value: string) => {
+    setFormData((prev) => {
+      const minStockByLocation = { ...prev.minStockByLocation };
+      if (value === '') {
+        delete minStockByLocation[locationId];
+      } else {
+        minStockByLocation[locationId] = Number(value);
+      }
+      return { ...prev, minStockByLocation };
+    });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!formData.name.trim()) {
-      toast.error('El nombre del producto es requerido');
+      toast.error(t('products.nameRequired'));
       return;
     }
     
     if (!formData.categoryId) {
-      toast.error('Debe seleccionar una categoría');
+      toast.error(t('products.categoryRequired'));
+      return;
+    }
+
+    if (formData.taxes && !isValidTaxConfig(formData.taxes)) {
+      toast.error(t('taxes.iepsInvalid'));
       return;
     }
+
+    if (
+      (formData.claveProdServ && !isValidClaveProdServ(formData.claveProdServ)) ||
+      (formData.claveUnidad && !isValidClaveUnidad(formData.claveUnidad))
+    ) {
+      toast.error(t('inventory.errors.invalidSatKey'));
+      return;
+    }
+
+    // Empty SAT keys are left out rather than saved blank
+    const product = {
+      ...formData,
+      claveProdServ: formData.claveProdServ || undefined,
+      claveUnidad: formData.claveUnidad || undefined,
+    };
     
     try {
       if (editingProduct) {
         updateProduct({
           id: editingProduct,
-          ...formData,
+          ...product,
         });
-        toast.success('Producto actualizado con éxito');
+        toast.success(t('products.updated'));
       } else {
-        addProduct(formData);
-        toast.success('Producto agregado con éxito');
+        addProduct(product);
+        toast.success(t('products.created'));
       }
       handleCloseModal();
     } catch (error) {
-      toast.error('Error al guardar el producto');
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('products.saveError'));
+      }
       console.error(error);
     }
   };
@@ -109,12 +188,12 @@ const Products: React.FC = () => {
   const handleDelete = (id: string) => {
     try {
       deleteProduct(id);
-      toast.success('Producto eliminado con éxito');
+      toast.success(t('products.deleted'));
     } catch (error) {
       if (error instanceof Error) {
         toast.error(error.message);
       } else {
-        toast.error('Error al eliminar el producto');
+        toast.error(t('products.deleteError'));
       }
       console.error(error);
     }
@@ -132,20 +211,22 @@ const Products: React.FC = () => {
   // Get category name by ID
   const getCategoryName = (categoryId: string) => {
     const category = categories.find((c) => c.id === categoryId);
-    return category ? category.name : 'Sin categoría';
+    return category ? category.name : t('common.unknownCategory');
   };
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
-        <h1 className="text-2xl font-bold text-gray-900">Productos</h1>
-        <button
-          onClick={() => handleOpenModal()}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Nuevo Producto
-        </button>
+        <h1 className="text-2xl font-bold text-gray-900">{t('nav.products')}</h1>
+        {hasPermission('catalog.edit') && hasPermission('costs.edit') && (
+          <button
+            onClick={() => handleOpenModal()}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {t('products.new')}
+          </button>
+        )}
       </div>
 
       {/* Filters */}
@@ -155,7 +236,7 @@ const Products: React.FC = () => {
           <input
             type="text"
             className="w-full px-4 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
-            placeholder="Buscar productos..."
+            placeholder={t('products.searchPlaceholder')}
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
           />
@@ -168,7 +249,7 @@ const Products: React.FC = () => {
             value={categoryFilter}
             onChange={(e) => setCategoryFilter(e.target.value)}
           >
-            <option value="">Todas las categorías</option>
+            <option value="">{t('products.allCategories')}</option>
             {categories.map((category) => (
               <option key={category.id} value={category.id}>
                 {category.name}
@@ -184,7 +265,10 @@ const Products: React.FC = () => {
           <ul className="divide-y divide-gray-200">
             {filteredProducts.map((product) => {
               const stock = getProductStock(product.id);
-              const isLowStock = stock <= product.minStock;
+              const minStock = getMinStock(product);
+              const isLowStock = stock <= minStock;
+              const lots = getProductLots(product.id).filter((lot) => lot.lotNumber !== '');
+              const taxes = getProductTaxes(product.id);
               
               return (
                 <li key={product.id}>
@@ -217,35 +301,63 @@ const Products: React.FC = () => {
                               ? 'bg-red-100 text-red-800' 
                               : 'bg-green-100 text-green-800'
                           }`}>
-                            Stock: {stock} {isLowStock ? '(Bajo)' : ''}
+                            {t('products.stock', { stock })} {isLowStock ? t('products.low') : ''}
                           </span>
                           <span className="ml-3 text-xs text-gray-500">
-                            Mínimo: {product.minStock}
+                            {t('products.minimum', { minStock })}
                           </span>
                           <span className="ml-3 text-xs font-medium text-green-600">
-                            ${product.price.toFixed(2)}
+                            {formatCurrency(getSalePrice(product))}
+                          </span>
+                          <span className="ml-3 text-xs text-gray-400">
+                            {t(IVA_RATE_LABELS[taxes.ivaRate])}
+                            {taxes.iepsRate > 0 && ` · ${t('taxes.iepsRate', { rate: formatNumber(taxes.iepsRate * 100) })}`}
                           </span>
                           {product.barcode && (
                             <span className="ml-3 text-xs text-gray-400">
                               {product.barcode}
                             </span>
                           )}
+                          {hasSatKeys(product) ? (
+                            <span className="ml-3 text-xs text-gray-400">
+                              {t('satKeys.badge', { product: product.claveProdServ ?? '', unit: product.claveUnidad ?? '' })}
+                            </span>
+                          ) : (
+                            <span className="ml-3 rounded-full bg-yellow-100 px-2.5 py-0.5 text-xs text-yellow-800">
+                              {t('satKeys.missing')}
+                            </span>
+                          )}
                         </div>
+                        {lots.length > 0 && (
+                          <div className="mt-2 flex items-center text-xs flex-wrap gap-2">
+                            {lots.map((lot) => (
+                              <span key={lot.lotNumber} className="rounded-full bg-gray-100 px-2.5 py-0.5 text-gray-700">
+                                {t('inventory.lot', { lot: lot.lotNumber })}: {lot.quantity}
+                                {lot.expiryDate &&
+                                  ` (${t('inventory.expiresShort', { date: formatDate(lot.expiryDate) })})`}
+                              </span>
+                            ))}
+                          </div>
+                        )}
                         </div>
                       </div>
                       <div className="flex space-x-2">
-                        <button
-                          onClick={() => handleOpenModal(product.id)}
-                          className="p-2 text-blue-600 hover:bg-blue-100 rounded-full"
-                        >
-                          <Edit className="h-5 w-5" />
-                        </button>
-                        <button
-                          onClick={() => handleDelete(product.id)}
-                          className="p-2 text-red-600 hover:bg-red-100 rounded-full"
-                        >
-                          <Trash2 className="h-5 w-5" />
-                        </button>
+                        {hasPermission('catalog.edit') && (
+                          <button
+                            onClick={() => handleOpenModal(product.id)}
+                            className="p-2 text-blue-600 hover:bg-blue-100 rounded-full"
+                          >
+                            <Edit className="h-5 w-5" />
+                          </button>
+                        )}
+                        {hasPermission('products.delete') && (
+                          <button
+                            onClick={() => handleDelete(product.id)}
+                            className="p-2 text-red-600 hover:bg-red-100 rounded-full"
+                          >
+                            <Trash2 className="h-5 w-5" />
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -255,9 +367,7 @@ const Products: React.FC = () => {
           </ul>
         ) : (
           <div className="py-8 text-center text-gray-500">
-            {searchTerm || categoryFilter
-              ? "No se encontraron productos con esos filtros"
-              : "No hay productos registrados"}
+            {searchTerm || categoryFilter ? t('products.noResults') : t('products.empty')}
           </div>
         )}
       </div>
@@ -276,7 +386,7 @@ const Products: React.FC = () => {
             <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
               <div className="flex justify-between items-center px-6 py-4 bg-gray-50 border-b">
                 <h3 className="text-lg font-medium text-gray-900">
-                  {editingProduct ? 'Editar Producto' : 'Nuevo Producto'}
+                  {editingProduct ? t('products.edit') : t('products.new')}
                 </h3>
                 <button
                   onClick={handleCloseModal}
@@ -290,7 +400,7 @@ const Products: React.FC = () => {
                   <div className="space-y-4">
                     <div>
                       <label htmlFor="name" className="block text-sm font-medium text-gray-700">
-                        Nombre
+                        {t('common.name')}
                       </label>
                       <input
                         type="text"
@@ -317,7 +427,7 @@ const Products: React.FC = () => {
                     </div>
                     <div>
                       <label htmlFor="barcode" className="block text-sm font-medium text-gray-700">
-                        Código de Barras
+                        {t('products.barcode')}
                       </label>
                       <input
                         type="text"
@@ -330,7 +440,7 @@ const Products: React.FC = () => {
                     </div>
                     <div>
                       <label htmlFor="categoryId" className="block text-sm font-medium text-gray-700">
-                        Categoría
+                        {t('products.category')}
                       </label>
                       <select
                         name="categoryId"
@@ -341,7 +451,7 @@ const Products: React.FC = () => {
                         required
                       >
                         <option value="" disabled>
-                          Seleccione una categoría
+                          {t('products.selectCategory')}
                         </option>
                         {categories.map((category) => (
                           <option key={category.id} value={category.id}>
@@ -350,10 +460,28 @@ const Products: React.FC = () => {
                         ))}
                       </select>
                     </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <SatKeyPicker
+                        id="claveProdServ"
+                        label={t('satKeys.productKey')}
+                        entries={CLAVES_PROD_SERV}
+                        value={formData.claveProdServ ?? ''}
+                        onChange={(claveProdServ) => setFormData((prev) => ({ ...prev, claveProdServ }))}
+                        isValid={isValidClaveProdServ}
+                      />
+                      <SatKeyPicker
+                        id="claveUnidad"
+                        label={t('satKeys.unitKey')}
+                        entries={CLAVES_UNIDAD}
+                        value={formData.claveUnidad ?? ''}
+                        onChange={(claveUnidad) => setFormData((prev) => ({ ...prev, claveUnidad }))}
+                        isValid={isValidClaveUnidad}
+                      />
+                    </div>
                     <div className="grid grid-cols-2 gap-4">
                       <div>
                       <label htmlFor="minStock" className="block text-sm font-medium text-gray-700">
-                        Stock Mínimo
+                        {activeLocations.length > 1 ? t('products.generalMinStock') : t('products.minStock')}
                       </label>
                       <input
                         type="number"
@@ -367,7 +495,7 @@ const Products: React.FC = () => {
                       </div>
                       <div>
                         <label htmlFor="price" className="block text-sm font-medium text-gray-700">
-                          Precio ($)
+                          {t('products.price')}
                         </label>
                         <input
                           type="number"
@@ -377,14 +505,70 @@ const Products: React.FC = () => {
                           step="0.01"
                           value={formData.price}
                           onChange={handleInputChange}
-                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          disabled={!hasPermission('costs.edit')}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm disabled:bg-gray-100"
                           required
                         />
                       </div>
                     </div>
+                    <div className="space-y-2">
+                      <div className="flex items-center">
+                        <input
+                          type="checkbox"
+                          id="priceIncludesTax"
+                          checked={formData.priceIncludesTax ?? true}
+                          onChange={(e) => setFormData((prev) => ({ ...prev, priceIncludesTax: e.target.checked }))}
+                          disabled={!hasPermission('costs.edit')}
+                          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                        <label htmlFor="priceIncludesTax" className="ml-2 block text-sm text-gray-700">
+                          {t('taxes.priceIncludesTax')}
+                        </label>
+                      </div>
+                      <div className="flex items-center">
+                        <input
+                          type="checkbox"
+                          id="useCategoryTaxes"
+                          checked={!formData.taxes}
+                          onChange={(e) => handleUseCategoryTaxesChange(e.target.checked)}
+                          disabled={!hasPermission('costs.edit')}
+                          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                        <label htmlFor="useCategoryTaxes" className="ml-2 block text-sm text-gray-700">
+                          {t('taxes.useCategory')}
+                        </label>
+                      </div>
+                      {formData.taxes && (
+                        <TaxFields
+                          idPrefix="product"
+                          value={formData.taxes}
+                          onChange={(taxes) => setFormData((prev) => ({ ...prev, taxes }))}
+                        />
+                      )}
+                    </div>
+                    {activeLocations.length > 1 && (
+                      <div>
+                        <p className="block text-sm font-medium text-gray-700">{t('products.minStockByLocation')}</p>
+                        <div className="mt-1 grid grid-cols-2 gap-2">
+                          {activeLocations.map((location) => (
+                            <label key={location.id} className="text-xs text-gray-500">
+                              {location.name}
+                              <input
+                                type="number"
+                                min="0"
+                                value={formData.minStockByLocation?.[location.id] ?? ''}
+                                onChange={(e) => handleLocationMinStockChange(location.id, e.target.value)}
+                                placeholder={String(formData.minStock)}
+                                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                              />
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                     <div>
                       <label htmlFor="image" className="block text-sm font-medium text-gray-700">
-                        URL de Imagen
+                        {t('products.imageUrl')}
                       </label>
                       <input
                         type="url"
@@ -393,13 +577,13 @@ const Products: React.FC = () => {
                         value={formData.image}
                         onChange={handleInputChange}
                         className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                        placeholder="https://ejemplo.com/imagen.jpg"
+                        placeholder={t('products.imagePlaceholder')}
                       />
                       {formData.image && (
                         <div className="mt-2">
                           <img 
                             src={formData.image} 
-                            alt="Vista previa" 
+                            alt={t('products.preview')} 
                             className="h-20 w-20 object-cover rounded-lg"
                             onError={(e) => {
                               e.currentTarget.src = 'https://images.pexels.com/photos/264636/pexels-photo-264636.jpeg?auto=compress&cs=tinysrgb&w=400';
@@ -410,7 +594,7 @@ const Products: React.FC = () => {
                     </div>
                     <div>
                       <label htmlFor="description" className="block text-sm font-medium text-gray-700">
-                        Descripción
+                        {t('common.description')}
                       </label>
                       <textarea
                         name="description"
@@ -429,13 +613,13 @@ const Products: React.FC = () => {
                     onClick={handleCloseModal}
                     className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 mr-2"
                   >
-                    Cancelar
+                    {t('common.cancel')}
                   </button>
                   <button
                     type="submit"
                     className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
                   >
-                    {editingProduct ? 'Actualizar' : 'Crear'}
+                    {editingProduct ? t('common.update') : t('common.create')}
                   </button>
                 </div>
               </form>
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { Language, useLanguage } from '../contexts/LanguageContext';
+import { UserProfile } from '../storage';
+import { ROLE_LABELS } from '../utils/permissions';
+import { Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const SESSION_TIMEOUT_OPTIONS = [0, 5, 10, 15, 30, 60, 120];
+
+const Profile: React.FC = () => {
+  const { user, updateProfile, sessionTimeoutMinutes, setSessionTimeoutMinutes } = useAuth();
+  const { language, t } = useLanguage();
+  const [formData, setFormData] = useState<UserProfile>({
+    displayName: user?.name ?? '',
+    phone: user?.profile?.phone ?? '',
+    language: user?.profile?.language ?? language,
+    defaultStoreId: user?.profile?.defaultStoreId ?? '',
+  });
+  const [saving, setSaving] = useState(false);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await updateProfile(formData);
+      toast.success(t('profile.saved'));
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('profile.saveError'));
+      }
+      console.error(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const timeoutOptions = SESSION_TIMEOUT_OPTIONS.includes(sessionTimeoutMinutes)
+    ? SESSION_TIMEOUT_OPTIONS
+    : [...SESSION_TIMEOUT_OPTIONS, sessionTimeoutMinutes].sort((a, b) => a - b);
+
+  const handleTimeoutChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setSessionTimeoutMinutes(Number(e.target.value));
+    toast.success(t('profile.timeoutSaved'));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">{t('profile.title')}</h1>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-6 space-y-4 max-w-2xl">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <p className="block text-sm font-medium text-gray-700">{t('profile.email')}</p>
+            <p className="mt-1 text-sm text-gray-900">{user?.email}</p>
+          </div>
+          <div>
+            <p className="block text-sm font-medium text-gray-700">{t('profile.role')}</p>
+            <p className="mt-1 text-sm text-gray-900">{user?.role ? t(ROLE_LABELS[user.role]) : t('roles.none')}</p>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="displayName" className="block text-sm font-medium text-gray-700">
+            {t('common.name')}
+          </label>
+          <input
+            type="text"
+            name="displayName"
+            id="displayName"
+            value={formData.displayName}
+            onChange={handleInputChange}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            required
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="phone" className="block text-sm font-medium text-gray-700">
+              {t('profile.phone')}
+            </label>
+            <input
+              type="tel"
+              name="phone"
+              id="phone"
+              value={formData.phone}
+              onChange={handleInputChange}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="language" className="block text-sm font-medium text-gray-700">
+              {t('profile.language')}
+            </label>
+            <select
+              name="language"
+              id="language"
+              value={formData.language}
+              onChange={(e) => setFormData((prev) => ({ ...prev, language: e.target.value as Language }))}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              <option value="es">Español</option>
+              <option value="en">English</option>
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="defaultStoreId" className="block text-sm font-medium text-gray-700">
+            {t('profile.defaultStore')}
+          </label>
+          <input
+            type="text"
+            name="defaultStoreId"
+            id="defaultStoreId"
+            value={formData.defaultStoreId}
+            onChange={handleInputChange}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            placeholder={user?.storeId}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            {t('profile.defaultStoreHelp')}
+          </p>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${
+              saving ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {t('common.save')}
+          </button>
+        </div>
+      </form>
+
+      <div className="bg-white shadow rounded-lg p-6 space-y-4 max-w-2xl">
+        <h2 className="text-lg font-medium text-gray-900">{t('profile.thisDevice')}</h2>
+        <div>
+          <label htmlFor="sessionTimeout" className="block text-sm font-medium text-gray-700">
+            {t('profile.sessionTimeout')}
+          </label>
+          <select
+            id="sessionTimeout"
+            value={sessionTimeoutMinutes}
+            onChange={handleTimeoutChange}
+            className="mt-1 block w-full md:w-1/2 px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          >
+            {timeoutOptions.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes === 0 ? t('profile.timeoutNever') : t('profile.timeoutAfter', { count: minutes })}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500">
+            {t('profile.sessionTimeoutHelp')}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Profile;
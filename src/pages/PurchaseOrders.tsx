@@ -0,0 +1,691 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useInventory } from '../contexts/InventoryContext';
+import {
+  getLineBaseCost,
+  usePurchasing,
+  PurchaseOrder,
+  PurchaseOrderInput,
+  PurchaseOrderStatus,
+} from '../contexts/PurchasingContext';
+import { TranslationKey, useLanguage } from '../contexts/LanguageContext';
+import { addDays, getToday, BASE_CURRENCY, CURRENCIES, CurrencyCode } from '../utils/format';
+import { Plus, Edit, Trash2, X, Send, PackageCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, TranslationKey> = {
+  draft: 'purchaseOrders.status.draft',
+  sent: 'purchaseOrders.status.sent',
+  partial: 'purchaseOrders.status.partial',
+  received: 'purchaseOrders.status.received',
+};
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  partial: 'bg-amber-100 text-amber-800',
+  received: 'bg-green-100 text-green-800',
+};
+
+const PurchaseOrders: React.FC = () => {
+  const { products, getExchangeRate } = useInventory();
+  const {
+    suppliers,
+    purchaseOrders,
+    createPurchaseOrder,
+    updatePurchaseOrder,
+    deletePurchaseOrder,
+    sendPurchaseOrder,
+    receivePurchaseOrder,
+  } = usePurchasing();
+  const { hasPermission } = useAuth();
+  const { t, formatCurrency, formatDate } = useLanguage();
+  const canManage = hasPermission('purchasing.manage');
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<string | null>(null);
+  const [formData, setFormData] = useState<PurchaseOrderInput>({
+    supplierId: '',
+    expectedDate: getToday(),
+    notes: '',
+    lines: [],
+  });
+
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [receiptQuantities, setReceiptQuantities] = useState<Record<string, number>>({});
+  const [receiptDate, setReceiptDate] = useState<string>(getToday());
+
+  const [statusFilter, setStatusFilter] = useState<'' | PurchaseOrderStatus>('');
+
+  const getSupplierName = (supplierId: string) => {
+    const supplier = suppliers.find((s) => s.id === supplierId);
+    return supplier ? supplier.name : t('purchaseOrders.unknownSupplier');
+  };
+
+  const getProductName = (productId: string) => {
+    const product = products.find((p) => p.id === productId);
+    return product ? product.name : t('common.unknownProduct');
+  };
+
+  // In pesos, each line at its exchange rate
+  const getOrderTotal = (order: Pick<PurchaseOrder, 'lines'> | PurchaseOrderInput) =>
+    order.lines.reduce((sum, line) => sum + getLineBaseCost(line), 0);
+
+  // Order modal
+  const handleOpenModal = (orderId?: string) => {
+    if (orderId) {
+      const order = purchaseOrders.find((o) => o.id === orderId);
+      if (order) {
+        setFormData({
+          supplierId: order.supplierId,
+          expectedDate: order.expectedDate,
+          notes: order.notes,
+          lines: order.lines.map(({ productId, quantity, unitCost, currency, exchangeRate }) => ({
+            productId,
+            quantity,
+            unitCost,
+            currency,
+            exchangeRate,
+          })),
+        });
+        setEditingOrder(orderId);
+      }
+    } else {
+      const supplier = suppliers[0];
+      setFormData({
+        supplierId: supplier ? supplier.id : '',
+        expectedDate: addDays(getToday(), supplier ? supplier.leadTimeDays : 0),
+        notes: '',
+        lines: [],
+      });
+      setEditingOrder(null);
+    }
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingOrder(null);
+  };
+
+  const handleSupplierChange = (supplierId: string) => {
+    const supplier = suppliers.find((s) => s.id === supplierId);
+    setFormData((prev) => ({
+      ...prev,
+      supplierId,
+      expectedDate: addDays(getToday(), supplier ? supplier.leadTimeDays : 0),
+    }));
+  };
+
+  // The rate comes from the table for today, and can still be typed over
+  const getTodayRate = (currency: CurrencyCode) => getExchangeRate(currency, getToday()) ?? 0;
+
+  // Suggest the supplier's last cost for the product, in the currency it was bought in
+  const getSuggestedCost = (productId: string) => {
+    const supplier = suppliers.find((s) => s.id === formData.supplierId);
+    const last = supplier?.products.find((sp) => sp.productId === productId);
+    if (!last) {
+      return null;
+    }
+    const foreign = last.currency && last.currency !== BASE_CURRENCY;
+    return {
+      unitCost: last.lastCost,
+      currency: foreign ? last.currency : undefined,
+      exchangeRate: foreign && last.currency ? getTodayRate(last.currency) || last.exchangeRate : undefined,
+    };
+  };
+
+  const handleAddLine = () => {
+    const supplier = suppliers.find((s) => s.id === formData.supplierId);
+    const productId = supplier?.products[0]?.productId ?? products[0]?.id ?? '';
+    setFormData((prev) => ({
+      ...prev,
+      lines: [...prev.lines, { productId, quantity: 1, unitCost: 0, ...getSuggestedCost(productId) }],
+    }));
+  };
+
+  const handleLineChange = (
+    index: number,
+    field: 'productId' | 'quantity' | 'unitCost' | 'currency' | 'exchangeRate',
+    value: string
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      lines: prev.lines.map((line, i) => {
+        if (i !== index) {
+          return line;
+        }
+        if (field === 'productId') {
+          return { ...line, productId: value, ...getSuggestedCost(value) };
+        }
+        // Pesos lines carry no currency, like entries registered in pesos
+        if (field === 'currency') {
+          const currency = value as CurrencyCode;
+          return currency === BASE_CURRENCY
+            ? { ...line, currency: undefined, exchangeRate: undefined }
+            : { ...line, currency, exchangeRate: getTodayRate(currency) };
+        }
+        return { ...line, [field]: Number(value) };
+      }),
+    }));
+  };
+
+  const handleRemoveLine = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      lines: prev.lines.filter((_, i) => i !== index),
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.supplierId) {
+      toast.error(t('purchaseOrders.supplierRequired'));
+      return;
+    }
+
+    try {
+      if (editingOrder) {
+        updatePurchaseOrder(editingOrder, formData);
+        toast.success(t('purchaseOrders.updated'));
+      } else {
+        await createPurchaseOrder(formData);
+        toast.success(t('purchaseOrders.created'));
+      }
+      handleCloseModal();
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('purchaseOrders.saveError'));
+      }
+      console.error(error);
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    try {
+      deletePurchaseOrder(id);
+      toast.success(t('purchaseOrders.deleted'));
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('purchaseOrders.deleteError'));
+      }
+      console.error(error);
+    }
+  };
+
+  const handleSend = (id: string) => {
+    try {
+      sendPurchaseOrder(id);
+      toast.success(t('purchaseOrders.sent'));
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('purchaseOrders.sendError'));
+      }
+      console.error(error);
+    }
+  };
+
+  // Receive modal
+  const handleOpenReceiveModal = (order: PurchaseOrder) => {
+    setReceivingOrder(order);
+    setReceiptQuantities(
+      Object.fromEntries(order.lines.map((line) => [line.id, line.quantity - line.receivedQuantity]))
+    );
+    setReceiptDate(getToday());
+  };
+
+  const handleCloseReceiveModal = () => {
+    setReceivingOrder(null);
+  };
+
+  const handleReceive = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!receivingOrder) {
+      return;
+    }
+
+    try {
+      receivePurchaseOrder(
+        receivingOrder.id,
+        Object.entries(receiptQuantities).map(([lineId, quantity]) => ({ lineId, quantity })),
+        receiptDate
+      );
+      toast.success(t('purchaseOrders.received'));
+      handleCloseReceiveModal();
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('purchaseOrders.receiveError'));
+      }
+      console.error(error);
+    }
+  };
+
+  const filteredOrders = purchaseOrders
+    .filter((order) => statusFilter === '' || order.status === statusFilter)
+    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">{t('nav.purchaseOrders')}</h1>
+        {canManage && (
+          <button
+            onClick={() => handleOpenModal()}
+            disabled={suppliers.length === 0}
+            className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${
+              suppliers.length === 0 ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {t('purchaseOrders.newShort')}
+          </button>
+        )}
+      </div>
+
+      {/* Status filter */}
+      <div className="md:w-1/3">
+        <select
+          className="w-full px-4 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as '' | PurchaseOrderStatus)}
+        >
+          <option value="">{t('purchaseOrders.allStatuses')}</option>
+          {(Object.keys(STATUS_LABELS) as PurchaseOrderStatus[]).map((status) => (
+            <option key={status} value={status}>
+              {t(STATUS_LABELS[status])}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Orders list */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+        {filteredOrders.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('transfers.folio')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('purchaseOrders.supplier')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('purchaseOrders.expectedDate')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('common.products')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('common.total')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('common.status')}
+                  </th>
+                  <th scope="col" className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredOrders.map((order) => (
+                  <tr key={order.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {order.folio}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {getSupplierName(order.supplierId)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(order.expectedDate)}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {order.lines.map((line) => (
+                        <p key={line.id}>
+                          {getProductName(line.productId)}: {line.receivedQuantity}/{line.quantity}
+                        </p>
+                      ))}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatCurrency(getOrderTotal(order))}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[order.status]}`}>
+                        {t(STATUS_LABELS[order.status])}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      <div className="flex justify-end space-x-2">
+                        {order.status === 'draft' && canManage && (
+                          <>
+                            <button
+                              onClick={() => handleSend(order.id)}
+                              className="p-2 text-blue-600 hover:bg-blue-100 rounded-full"
+                              title={t('purchaseOrders.markSent')}
+                            >
+                              <Send className="h-5 w-5" />
+                            </button>
+                            <button
+                              onClick={() => handleOpenModal(order.id)}
+                              className="p-2 text-blue-600 hover:bg-blue-100 rounded-full"
+                            >
+                              <Edit className="h-5 w-5" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(order.id)}
+                              className="p-2 text-red-600 hover:bg-red-100 rounded-full"
+                            >
+                              <Trash2 className="h-5 w-5" />
+                            </button>
+                          </>
+                        )}
+                        {(order.status === 'sent' || order.status === 'partial') && canManage && (
+                          <button
+                            onClick={() => handleOpenReceiveModal(order)}
+                            className="p-2 text-green-600 hover:bg-green-100 rounded-full"
+                            title={t('purchaseOrders.receiveGoods')}
+                          >
+                            <PackageCheck className="h-5 w-5" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="py-8 text-center text-gray-500">
+            {suppliers.length === 0
+              ? t('purchaseOrders.needSupplier')
+              : t('purchaseOrders.empty')}
+          </div>
+        )}
+      </div>
+
+      {/* Order modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 overflow-y-auto z-50">
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div
+              className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+              onClick={handleCloseModal}
+            ></div>
+
+            <span className="hidden sm:inline-block sm:align-middle sm:h-screen">&#8203;</span>
+
+            <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+              <div className="flex justify-between items-center px-6 py-4 bg-gray-50 border-b">
+                <h3 className="text-lg font-medium text-gray-900">
+                  {editingOrder ? t('purchaseOrders.edit') : t('purchaseOrders.new')}
+                </h3>
+                <button
+                  onClick={handleCloseModal}
+                  className="text-gray-400 hover:text-gray-500"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              <form onSubmit={handleSubmit}>
+                <div className="px-6 py-4">
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor="supplierId" className="block text-sm font-medium text-gray-700">
+                          {t('purchaseOrders.supplier')}
+                        </label>
+                        <select
+                          id="supplierId"
+                          value={formData.supplierId}
+                          onChange={(e) => handleSupplierChange(e.target.value)}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          required
+                        >
+                          {suppliers.map((supplier) => (
+                            <option key={supplier.id} value={supplier.id}>
+                              {supplier.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label htmlFor="expectedDate" className="block text-sm font-medium text-gray-700">
+                          {t('purchaseOrders.expectedDate')}
+                        </label>
+                        <input
+                          type="date"
+                          id="expectedDate"
+                          value={formData.expectedDate}
+                          onChange={(e) => setFormData((prev) => ({ ...prev, expectedDate: e.target.value }))}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          required
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <div className="flex items-center justify-between">
+                        <span className="block text-sm font-medium text-gray-700">{t('common.products')}</span>
+                        <button
+                          type="button"
+                          onClick={handleAddLine}
+                          className="text-sm text-blue-600 hover:text-blue-700"
+                        >
+                          {t('common.add')}
+                        </button>
+                      </div>
+                      <div className="mt-2 space-y-2">
+                        {formData.lines.map((line, index) => (
+                          <div key={index} className="space-y-1">
+                            <div className="flex items-center space-x-2">
+                              <select
+                                value={line.productId}
+                                onChange={(e) => handleLineChange(index, 'productId', e.target.value)}
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                              >
+                                {products.map((product) => (
+                                  <option key={product.id} value={product.id}>
+                                    {product.name}
+                                  </option>
+                                ))}
+                              </select>
+                              <input
+                                type="number"
+                                min="1"
+                                value={line.quantity}
+                                onChange={(e) => handleLineChange(index, 'quantity', e.target.value)}
+                                className="w-24 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                                title={t('common.quantity')}
+                              />
+                              <input
+                                type="number"
+                                min="0.01"
+                                step="0.01"
+                                value={line.unitCost}
+                                onChange={(e) => handleLineChange(index, 'unitCost', e.target.value)}
+                                className="w-28 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                                title={t('common.unitCost')}
+                              />
+                              <select
+                                value={line.currency ?? BASE_CURRENCY}
+                                onChange={(e) => handleLineChange(index, 'currency', e.target.value)}
+                                className="w-20 px-2 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                                title={t('inventory.currency')}
+                              >
+                                {CURRENCIES.map((currency) => (
+                                  <option key={currency} value={currency}>
+                                    {currency}
+                                  </option>
+                                ))}
+                              </select>
+                              <button
+                                type="button"
+                                onClick={() => handleRemoveLine(index)}
+                                className="p-2 text-red-600 hover:bg-red-100 rounded-full"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            </div>
+                            {line.currency && line.currency !== BASE_CURRENCY && (
+                              <div className="flex items-center justify-end space-x-2">
+                                <label htmlFor={`exchangeRate-${index}`} className="text-xs text-gray-500">
+                                  {t('inventory.exchangeRate', { currency: line.currency })}
+                                </label>
+                                <input
+                                  type="number"
+                                  id={`exchangeRate-${index}`}
+                                  min="0.0001"
+                                  step="0.0001"
+                                  value={line.exchangeRate ?? 0}
+                                  onChange={(e) => handleLineChange(index, 'exchangeRate', e.target.value)}
+                                  className="w-28 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                                  required
+                                />
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                        {formData.lines.length > 0 && (
+                          <p className="text-right text-sm font-medium text-gray-900">
+                            {t('purchaseOrders.totalValue', { total: formatCurrency(getOrderTotal(formData)) })}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    <div>
+                      <label htmlFor="notes" className="block text-sm font-medium text-gray-700">
+                        {t('common.notes')}
+                      </label>
+                      <textarea
+                        id="notes"
+                        rows={2}
+                        value={formData.notes}
+                        onChange={(e) => setFormData((prev) => ({ ...prev, notes: e.target.value }))}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                    </div>
+                  </div>
+                </div>
+                <div className="px-6 py-3 bg-gray-50 flex justify-end">
+                  <button
+                    type="button"
+                    onClick={handleCloseModal}
+                    className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 mr-2"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                  <button
+                    type="submit"
+                    className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    {editingOrder ? t('common.update') : t('common.create')}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Receive modal */}
+      {receivingOrder && (
+        <div className="fixed inset-0 overflow-y-auto z-50">
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div
+              className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+              onClick={handleCloseReceiveModal}
+            ></div>
+
+            <span className="hidden sm:inline-block sm:align-middle sm:h-screen">&#8203;</span>
+
+            <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+              <div className="flex justify-between items-center px-6 py-4 bg-gray-50 border-b">
+                <h3 className="text-lg font-medium text-gray-900">
+                  {t('purchaseOrders.receiveTitle', { folio: receivingOrder.folio })}
+                </h3>
+                <button
+                  onClick={handleCloseReceiveModal}
+                  className="text-gray-400 hover:text-gray-500"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              <form onSubmit={handleReceive}>
+                <div className="px-6 py-4 space-y-4">
+                  {receivingOrder.lines.map((line) => {
+                    const pending = line.quantity - line.receivedQuantity;
+                    return (
+                      <div key={line.id} className="flex items-center justify-between">
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">{getProductName(line.productId)}</p>
+                          <p className="text-xs text-gray-500">
+                            {t('purchaseOrders.pending', { pending, cost: formatCurrency(line.unitCost, line.currency) })}
+                          </p>
+                          {line.currency && line.exchangeRate !== undefined && (
+                            <p className="text-xs text-gray-400">
+                              {t('inventory.baseCost', { cost: formatCurrency(line.unitCost * line.exchangeRate) })}
+                            </p>
+                          )}
+                        </div>
+                        <input
+                          type="number"
+                          min="0"
+                          max={pending}
+                          value={receiptQuantities[line.id] ?? 0}
+                          disabled={pending === 0}
+                          onChange={(e) =>
+                            setReceiptQuantities((prev) => ({ ...prev, [line.id]: Number(e.target.value) }))
+                          }
+                          className="w-24 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        />
+                      </div>
+                    );
+                  })}
+                  <div>
+                    <label htmlFor="receiptDate" className="block text-sm font-medium text-gray-700">
+                      {t('purchaseOrders.receiptDate')}
+                    </label>
+                    <input
+                      type="date"
+                      id="receiptDate"
+                      value={receiptDate}
+                      onChange={(e) => setReceiptDate(e.target.value)}
+                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="px-6 py-3 bg-gray-50 flex justify-end">
+                  <button
+                    type="button"
+                    onClick={handleCloseReceiveModal}
+                    className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 mr-2"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                  <button
+                    type="submit"
+                    className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+                  >
+                    {t('inventory.registerEntry')}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PurchaseOrders;
@@ -1,36 +1,68 @@
 import React, { useState } from 'react';
-import { useInventory, InventoryMethod } from '../contexts/InventoryContext';
+import { useInventory, InventoryMethod, InventoryCostReport } from '../contexts/InventoryContext';
+import { TranslationKey, useLanguage } from '../contexts/LanguageContext';
 import { PieChart, Printer, Download, FileText, Filter } from 'lucide-react';
 import * as XLSX from 'xlsx';
+import toast from 'react-hot-toast';
+import { getToday } from '../utils/format';
+import type { KardexRow } from '../utils/valuation';
+
+const METHOD_LABELS: Record<InventoryMethod, TranslationKey> = {
+  PEPS: 'reports.method.PEPS',
+  UEPS: 'reports.method.UEPS',
+  weighted: 'reports.method.weighted',
+};
+
+// Siglas del método; el promedio ponderado no tiene
+const METHOD_SHORT_LABELS: Record<InventoryMethod, TranslationKey> = {
+  PEPS: 'reports.methodShort.PEPS',
+  UEPS: 'reports.methodShort.UEPS',
+  weighted: 'reports.methodShort.weighted',
+};
 
 const Reports: React.FC = () => {
-  const { products, calculateInventoryCost, getProductTransactions } = useInventory();
+  const { products, currentLocationId, getLocationName, calculateInventoryCost } = useInventory();
+  const { t, formatCurrency, formatDate, formatNumber } = useLanguage();
   
   // Parámetros de informe
   const [productId, setProductId] = useState<string>('');
   const [inventoryMethod, setInventoryMethod] = useState<InventoryMethod>('weighted');
   const [startDate, setStartDate] = useState<string>('');
-  const [endDate, setEndDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  const [endDate, setEndDate] = useState<string>(getToday());
   const [showReport, setShowReport] = useState(false);
   
   // Informar datos
-  const [reportData, setReportData] = useState<{
-    entries: any[];
-    exits: any[];
-    kardexData?: any[];
-    remainingStock: number;
-    totalCost: number;
-    averageCost: number;
-  } | null>(null);
+  const [reportData, setReportData] = useState<InventoryCostReport | null>(null);
+  // La ubicación de la barra superior al generarlo; todas juntas no cuentan los traspasos
+  const [reportLocation, setReportLocation] = useState('');
   
-  const generateReport = () => {
+  // Costo como se facturó, para compras en otra moneda
+  const getOriginalCost = ({ costoOriginal }: KardexRow) =>
+    costoOriginal
+      ? t('inventory.originalCost', {
+          cost: formatCurrency(costoOriginal.costoUnitario, costoOriginal.moneda),
+          rate: formatNumber(costoOriginal.tipoCambio),
+        })
+      : '';
+
+  const generateReport = async () => {
     if (!productId || !startDate || !endDate) {
       return;
     }
     
-    const data = calculateInventoryCost(productId, inventoryMethod, startDate, endDate);
-    setReportData(data);
-    setShowReport(true);
+    try {
+      const data = await calculateInventoryCost(productId, inventoryMethod, startDate, endDate);
+      setReportData(data);
+      setReportLocation(getLocationName(currentLocationId));
+      setShowReport(true);
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('reports.generateError'));
+      }
+      console.error(error);
+    }
   };
   
   const resetReport = () => {
@@ -38,6 +70,8 @@ const Reports: React.FC = () => {
     setReportData(null);
   };
   
+  const getMethodLabel = (method: InventoryMethod) => t(METHOD_LABELS[method]);
+
   const handlePrint = () => {
     window.print();
   };
@@ -52,65 +86,64 @@ const Reports: React.FC = () => {
     
     // Datos del resumen
     const summaryData = [
-      ['REPORTE DE INVENTARIO'],
+      [t('reports.excel.title').toUpperCase()],
       [''],
-      ['Producto:', getProductName(productId)],
-      ['Método de Valuación:', 
-        inventoryMethod === 'PEPS' ? 'Primeras Entradas, Primeras Salidas' :
-        inventoryMethod === 'UEPS' ? 'Últimas Entradas, Primeras Salidas' :
-        'Costo Promedio Ponderado'
-      ],
-      ['Período:', `${new Date(startDate).toLocaleDateString()} - ${new Date(endDate).toLocaleDateString()}`],
-      ['Fecha de Generación:', new Date().toLocaleDateString()],
+      [t('reports.excel.product'), getProductName(productId)],
+      [t('reports.excel.location'), reportLocation],
+      [t('reports.excel.method'), getMethodLabel(inventoryMethod)],
+      [t('reports.excel.period'), `${formatDate(startDate)} - ${formatDate(endDate)}`],
+      [t('reports.excel.generatedOn'), formatDate(getToday())],
       [''],
-      ['RESUMEN'],
-      ['Stock Final:', reportData.remainingStock + ' unidades'],
-      ['Costo Total:', '$' + reportData.totalCost.toFixed(2)],
-      ['Costo Unitario Promedio:', '$' + reportData.averageCost.toFixed(2)],
+      [t('reports.excel.summary').toUpperCase()],
+      [t('reports.excel.openingStock'), t('common.units', { count: reportData.openingStock }), formatCurrency(reportData.openingCost)],
+      [t('reports.excel.finalStock'), t('common.units', { count: reportData.remainingStock })],
+      [t('reports.excel.totalCost'), formatCurrency(reportData.totalCost)],
+      [t('reports.excel.averageCost'), formatCurrency(reportData.averageCost)],
+      [t('reports.excel.costOfSales'), formatCurrency(reportData.costOfGoodsSold)],
+      [t('reports.excel.shrinkage'), formatCurrency(reportData.shrinkageCost)],
       ['']
     ];
 
     // Crear hoja de resumen
     const summarySheet = XLSX.utils.aoa_to_sheet(summaryData);
-    XLSX.utils.book_append_sheet(workbook, summarySheet, 'Resumen');
+    XLSX.utils.book_append_sheet(workbook, summarySheet, t('reports.excel.summary'));
 
-    // Datos de entradas
-    if (reportData.entries.length > 0) {
-      const entriesData = [
-        ['ENTRADAS'],
+    // Kardex con el mismo formato para los tres métodos
+    if (reportData.kardexData.length > 0) {
+      const kardexSheetData = [
+        [`KARDEX - ${getMethodLabel(inventoryMethod).toUpperCase()}`],
         [''],
-        ['Fecha', 'Cantidad', 'Costo Unitario', 'Costo Total'],
-        ...reportData.entries.map(entry => [
-          new Date(entry.date).toLocaleDateString(),
-          entry.quantity,
-          '$' + entry.unitCost.toFixed(2),
-          '$' + (entry.quantity * entry.unitCost).toFixed(2)
+        ['', t('reports.purchases'), '', '', t('reports.sales'), '', '', t('reports.balance'), '', ''],
+        [
+          t('common.date'),
+          t('common.quantity'), t('common.unitCost'), t('inventory.totalCost'),
+          t('common.quantity'), t('common.unitCost'), t('inventory.totalCost'),
+          t('common.quantity'), t('common.unitCost'), t('inventory.totalCost'),
+        ],
+        ...reportData.kardexData.map(row => [
+          row.transactionId === null
+            ? t('reports.openingStock')
+            : formatDate(row.fecha) + (row.ajuste ? ` (${t('reports.excel.adjustment')})` : ''),
+          row.compras.cantidad || '',
+          row.compras.cantidad
+            ? formatCurrency(row.compras.costoUnitario) + (row.costoOriginal ? ` (${getOriginalCost(row)})` : '')
+            : '',
+          row.compras.cantidad ? formatCurrency(row.compras.costoTotal) : '',
+          row.ventas.cantidad || '',
+          row.ventas.cantidad ? formatCurrency(row.ventas.costoUnitario) : '',
+          row.ventas.cantidad ? formatCurrency(row.ventas.costoTotal) : '',
+          row.saldos.cantidad,
+          formatCurrency(row.saldos.costoUnitario),
+          formatCurrency(row.saldos.costoTotal),
         ])
       ];
-      
-      const entriesSheet = XLSX.utils.aoa_to_sheet(entriesData);
-      XLSX.utils.book_append_sheet(workbook, entriesSheet, 'Entradas');
-    }
 
-    // Datos de salidas
-    if (reportData.exits.length > 0) {
-      const exitsData = [
-        ['SALIDAS'],
-        [''],
-        ['Fecha', 'Cantidad', 'Costo Calculado'],
-        ...reportData.exits.map(exit => [
-          new Date(exit.date).toLocaleDateString(),
-          exit.quantity,
-          '$' + (exit.quantity * reportData.averageCost).toFixed(2)
-        ])
-      ];
-      
-      const exitsSheet = XLSX.utils.aoa_to_sheet(exitsData);
-      XLSX.utils.book_append_sheet(workbook, exitsSheet, 'Salidas');
+      const kardexSheet = XLSX.utils.aoa_to_sheet(kardexSheetData);
+      XLSX.utils.book_append_sheet(workbook, kardexSheet, 'Kardex');
     }
 
     // Generar nombre del archivo
-    const fileName = `Reporte_${getProductName(productId).replace(/\s+/g, '_')}_${startDate}_${endDate}.xlsx`;
+    const fileName = `${t('reports.excel.fileName')}_${getProductName(productId).replace(/\s+/g, '_')}_${startDate}_${endDate}.xlsx`;
     
     // Descargar el archivo
     XLSX.writeFile(workbook, fileName);
@@ -119,29 +152,29 @@ const Reports: React.FC = () => {
   // Obtener el nombre del producto por ID
   const getProductName = (id: string) => {
     const product = products.find(p => p.id === id);
-    return product ? product.name : 'Producto desconocido';
+    return product ? product.name : t('common.unknownProduct');
   };
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
-        <h1 className="text-2xl font-bold text-gray-900">Reportes</h1>
+        <h1 className="text-2xl font-bold text-gray-900">{t('nav.reports')}</h1>
       </div>
 
       {/* Generador de informes */}
       <div className="bg-white shadow rounded-lg p-6">
         <div className="flex items-center space-x-2 mb-4">
           <FileText className="h-5 w-5 text-blue-600" />
-          <h2 className="text-lg font-medium text-gray-900">Generador de Reportes</h2>
+          <h2 className="text-lg font-medium text-gray-900">{t('reports.generator')}</h2>
         </div>
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div>
-            <h3 className="text-md font-medium text-gray-700 mb-3">Reporte de Inventario por Método</h3>
+            <h3 className="text-md font-medium text-gray-700 mb-3">{t('reports.byMethod')}</h3>
             <div className="space-y-4">
               <div>
                 <label htmlFor="productId" className="block text-sm font-medium text-gray-700">
-                  Producto
+                  {t('common.product')}
                 </label>
                 <select
                   id="productId"
@@ -149,7 +182,7 @@ const Reports: React.FC = () => {
                   onChange={(e) => setProductId(e.target.value)}
                   className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                 >
-                  <option value="">Seleccione un producto</option>
+                  <option value="">{t('inventory.selectProduct')}</option>
                   {products.map((product) => (
                     <option key={product.id} value={product.id}>
                       {product.name}
@@ -160,7 +193,7 @@ const Reports: React.FC = () => {
               
               <div>
                 <label htmlFor="inventoryMethod" className="block text-sm font-medium text-gray-700">
-                  Método de Inventario
+                  {t('reports.inventoryMethod')}
                 </label>
                 <select
                   id="inventoryMethod"
@@ -168,16 +201,16 @@ const Reports: React.FC = () => {
                   onChange={(e) => setInventoryMethod(e.target.value as InventoryMethod)}
                   className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                 >
-                  <option value="weighted">Costo Promedio Ponderado</option>
-                  <option value="PEPS">PEPS (Primeras Entradas, Primeras Salidas)</option>
-                  <option value="UEPS">UEPS (Últimas Entradas, Primeras Salidas)</option>
+                  <option value="weighted">{t(METHOD_LABELS.weighted)}</option>
+                  <option value="PEPS">{t(METHOD_SHORT_LABELS.PEPS)} ({t(METHOD_LABELS.PEPS)})</option>
+                  <option value="UEPS">{t(METHOD_SHORT_LABELS.UEPS)} ({t(METHOD_LABELS.UEPS)})</option>
                 </select>
               </div>
               
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label htmlFor="startDate" className="block text-sm font-medium text-gray-700">
-                    Fecha Inicio
+                    {t('common.startDate')}
                   </label>
                   <input
                     type="date"
@@ -189,7 +222,7 @@ const Reports: React.FC = () => {
                 </div>
                 <div>
                   <label htmlFor="endDate" className="block text-sm font-medium text-gray-700">
-                    Fecha Fin
+                    {t('common.endDate')}
                   </label>
                   <input
                     type="date"
@@ -210,7 +243,7 @@ const Reports: React.FC = () => {
                   }`}
                 >
                   <Filter className="h-4 w-4 mr-2" />
-                  Generar Reporte
+                  {t('reports.generate')}
                 </button>
                 
                 {showReport && (
@@ -218,7 +251,7 @@ const Reports: React.FC = () => {
                     onClick={resetReport}
                     className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
                   >
-                    Limpiar
+                    {t('reports.clear')}
                   </button>
                 )}
               </div>
@@ -226,7 +259,7 @@ const Reports: React.FC = () => {
           </div>
           
           <div className="border-l border-gray-200 pl-6">
-            <h3 className="text-md font-medium text-gray-700 mb-3">Acciones rápidas</h3>
+            <h3 className="text-md font-medium text-gray-700 mb-3">{t('reports.quickActions')}</h3>
             <div className="space-y-4">
               <button
                 onClick={handlePrint}
@@ -236,7 +269,7 @@ const Reports: React.FC = () => {
                 }`}
               >
                 <Printer className="h-4 w-4 mr-2" />
-                Imprimir Reporte
+                {t('reports.print')}
               </button>
               
               <button
@@ -247,7 +280,7 @@ const Reports: React.FC = () => {
                 }`}
               >
                 <Download className="h-4 w-4 mr-2" />
-                Exportar a Excel
+                {t('common.exportExcel')}
               </button>
               
               <button
@@ -257,7 +290,7 @@ const Reports: React.FC = () => {
                 }`}
               >
                 <PieChart className="h-4 w-4 mr-2" />
-                Ver Gráficos
+                {t('reports.charts')}
               </button>
             </div>
           </div>
@@ -270,111 +303,131 @@ const Reports: React.FC = () => {
           <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 print:bg-white">
             <div className="flex justify-between items-center">
               <h2 className="text-lg font-medium text-gray-900">
-                Reporte de Inventario: {getProductName(productId)}
+                {t('reports.resultTitle', { product: getProductName(productId) })}
               </h2>
               <div className="text-sm text-gray-500">
-                {new Date(startDate).toLocaleDateString()} - {new Date(endDate).toLocaleDateString()}
+                {formatDate(startDate)} - {formatDate(endDate)}
               </div>
             </div>
             <p className="text-sm text-gray-500 mt-1">
-              Método: {
-                inventoryMethod === 'PEPS' ? 'Primeras Entradas, Primeras Salidas' :
-                inventoryMethod === 'UEPS' ? 'Últimas Entradas, Primeras Salidas' :
-                'Costo Promedio Ponderado'
-              }
+              {t('reports.resultSubtitle', { location: reportLocation, method: getMethodLabel(inventoryMethod) })}
             </p>
           </div>
           
           <div className="p-6">
             {/* Summary */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
               <div className="bg-blue-50 p-4 rounded-lg">
-                <p className="text-sm font-medium text-blue-800">Stock Final</p>
-                <p className="text-2xl font-bold text-blue-900">{reportData.remainingStock} unidades</p>
+                <p className="text-sm font-medium text-blue-800">{t('reports.finalStock')}</p>
+                <p className="text-2xl font-bold text-blue-900">{t('common.units', { count: reportData.remainingStock })}</p>
               </div>
               
               <div className="bg-green-50 p-4 rounded-lg">
-                <p className="text-sm font-medium text-green-800">Costo Total</p>
-                <p className="text-2xl font-bold text-green-900">${reportData.totalCost.toFixed(2)}</p>
+                <p className="text-sm font-medium text-green-800">{t('inventory.totalCost')}</p>
+                <p className="text-2xl font-bold text-green-900">{formatCurrency(reportData.totalCost)}</p>
               </div>
               
               <div className="bg-amber-50 p-4 rounded-lg">
-                <p className="text-sm font-medium text-amber-800">Costo Unitario Promedio</p>
+                <p className="text-sm font-medium text-amber-800">{t('reports.averageCost')}</p>
                 <p className="text-2xl font-bold text-amber-900">
-                  ${reportData.averageCost.toFixed(2)}
+                  {formatCurrency(reportData.averageCost)}
                 </p>
               </div>
+
+              <div className="bg-red-50 p-4 rounded-lg">
+                <p className="text-sm font-medium text-red-800">{t('reports.costOfSales')}</p>
+                <p className="text-2xl font-bold text-red-900">{formatCurrency(reportData.costOfGoodsSold)}</p>
+                {reportData.shrinkageCost > 0 && (
+                  <p className="text-xs text-red-700">{t('reports.countShrinkage', { value: formatCurrency(reportData.shrinkageCost) })}</p>
+                )}
+              </div>
             </div>
+
+            {reportData.unfilledQuantity > 0 && (
+              <div className="mb-6 p-4 rounded-lg bg-amber-50 text-sm text-amber-800">
+                {t('reports.unfilled', { count: reportData.unfilledQuantity })}
+              </div>
+            )}
             
-            {/* Entries */}
-            {/* Kardex Table for PEPS */}
-            {inventoryMethod === 'PEPS' && reportData.kardexData ? (
+            {/* Kardex Table */}
+            {reportData.kardexData.length > 0 ? (
               <div className="mb-6">
-                <h3 className="text-md font-medium text-gray-900 mb-3">Kardex - Control de Inventario PEPS</h3>
+                <h3 className="text-md font-medium text-gray-900 mb-3">
+                  {t('reports.kardexTitle', { method: t(METHOD_SHORT_LABELS[inventoryMethod]) })}
+                </h3>
                 <div className="overflow-x-auto">
                   <table className="min-w-full divide-y divide-gray-200 border">
                     <thead className="bg-gray-50">
                       <tr>
                         <th rowSpan={2} className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider border-r">
-                          Fecha
+                          {t('common.date')}
                         </th>
                         <th colSpan={3} className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider border-r bg-green-50">
-                          Compras
+                          {t('reports.purchases')}
                         </th>
                         <th colSpan={3} className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider border-r bg-red-50">
-                          Ventas
+                          {t('reports.sales')}
                         </th>
                         <th colSpan={3} className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider bg-blue-50">
-                          Saldos
+                          {t('reports.balance')}
                         </th>
                       </tr>
                       <tr>
-                        <th className="px-2 py-2 text-xs font-medium text-gray-500 uppercase border-r">Cantidad</th>
-                        <th className="px-2 py-2 text-xs font-medium text-gray-500 uppercase border-r">Costo Unit.</th>
-                        <th className="px-2 py-2 text-xs font-medium text-gray-500 uppercase border-r">Costo Total</th>
-                        <th className="px-2 py-2 text-xs font-medium text-gray-500 uppercase border-r">Cantidad</th>
-                        <th className="px-2 py-2 text-xs font-medium text-gray-500 uppercase border-r">Costo Unit.</th>
-                        <th className="px-2 py-2 text-xs font-medium text-gray-500 uppercase border-r">Costo Total</th>
-                        <th className="px-2 py-2 text-xs font-medium text-gray-500 uppercase border-r">Cantidad</th>
-                        <th className="px-2 py-2 text-xs font-medium text-gray-500 uppercase border-r">Costo Unit.</th>
-                        <th className="px-2 py-2 text-xs font-medium text-gray-500 uppercase">Costo Total</th>
+                        <th className="px-2 py-2 text-xs font-medium text-gray-500 uppercase border-r">{t('common.quantity')}</th>
+                        <th className="px-2 py-2 text-xs font-medium text-gray-500 uppercase border-r">{t('inventory.unitCostShort')}</th>
+                        <th className="px-2 py-2 text-xs font-medium text-gray-500 uppercase border-r">{t('inventory.totalCost')}</th>
+                        <th className="px-2 py-2 text-xs font-medium text-gray-500 uppercase border-r">{t('common.quantity')}</th>
+                        <th className="px-2 py-2 text-xs font-medium text-gray-500 uppercase border-r">{t('inventory.unitCostShort')}</th>
+                        <th className="px-2 py-2 text-xs font-medium text-gray-500 uppercase border-r">{t('inventory.totalCost')}</th>
+                        <th className="px-2 py-2 text-xs font-medium text-gray-500 uppercase border-r">{t('common.quantity')}</th>
+                        <th className="px-2 py-2 text-xs font-medium text-gray-500 uppercase border-r">{t('inventory.unitCostShort')}</th>
+                        <th className="px-2 py-2 text-xs font-medium text-gray-500 uppercase">{t('inventory.totalCost')}</th>
                       </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
-                      {reportData.kardexData.map((row, index) => (
-                        <tr key={index} className="hover:bg-gray-50">
+                      {reportData.kardexData.map((row) => (
+                        <tr key={row.transactionId ?? 'inicial'} className="hover:bg-gray-50">
                           <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900 border-r">
-                            {new Date(row.fecha).toLocaleDateString()}
+                            {row.transactionId === null
+                              ? <span className="font-medium">{t('reports.openingStock')}</span>
+                              : formatDate(row.fecha)}
+                            {row.ajuste && (
+                              <span className="block text-xs text-purple-600">{t('reports.countAdjustment')}</span>
+                            )}
                           </td>
                           {/* Compras */}
                           <td className="px-2 py-3 whitespace-nowrap text-sm text-gray-900 text-center border-r bg-green-25">
                             {row.compras.cantidad || '-'}
                           </td>
                           <td className="px-2 py-3 whitespace-nowrap text-sm text-gray-900 text-right border-r bg-green-25">
-                            {row.compras.costoUnitario ? `$${row.compras.costoUnitario.toFixed(2)}` : '-'}
+                            {row.compras.costoUnitario ? formatCurrency(row.compras.costoUnitario) : '-'}
+                            {row.costoOriginal && <p className="text-xs text-gray-400">{getOriginalCost(row)}</p>}
                           </td>
                           <td className="px-2 py-3 whitespace-nowrap text-sm text-gray-900 text-right border-r bg-green-25">
-                            {row.compras.costoTotal ? `$${row.compras.costoTotal.toFixed(2)}` : '-'}
+                            {row.compras.costoTotal ? formatCurrency(row.compras.costoTotal) : '-'}
                           </td>
                           {/* Ventas */}
                           <td className="px-2 py-3 whitespace-nowrap text-sm text-gray-900 text-center border-r bg-red-25">
                             {row.ventas.cantidad || '-'}
+                            {row.faltante > 0 && (
+                              <span className="block text-xs text-amber-600">{t('reports.short', { count: row.faltante })}</span>
+                            )}
                           </td>
                           <td className="px-2 py-3 whitespace-nowrap text-sm text-gray-900 text-right border-r bg-red-25">
-                            {row.ventas.costoUnitario ? `$${row.ventas.costoUnitario.toFixed(2)}` : '-'}
+                            {row.ventas.costoUnitario ? formatCurrency(row.ventas.costoUnitario) : '-'}
                           </td>
                           <td className="px-2 py-3 whitespace-nowrap text-sm text-gray-900 text-right border-r bg-red-25">
-                            {row.ventas.costoTotal ? `$${row.ventas.costoTotal.toFixed(2)}` : '-'}
+                            {row.ventas.costoTotal ? formatCurrency(row.ventas.costoTotal) : '-'}
                           </td>
                           {/* Saldos */}
                           <td className="px-2 py-3 whitespace-nowrap text-sm font-medium text-gray-900 text-center border-r bg-blue-25">
                             {row.saldos.cantidad}
                           </td>
                           <td className="px-2 py-3 whitespace-nowrap text-sm font-medium text-gray-900 text-right border-r bg-blue-25">
-                            ${row.saldos.costoUnitario.toFixed(2)}
+                            {formatCurrency(row.saldos.costoUnitario)}
                           </td>
                           <td className="px-2 py-3 whitespace-nowrap text-sm font-medium text-gray-900 text-right bg-blue-25">
-                            ${row.saldos.costoTotal.toFixed(2)}
+                            {formatCurrency(row.saldos.costoTotal)}
                           </td>
                         </tr>
                       ))}
@@ -383,95 +436,7 @@ const Reports: React.FC = () => {
                 </div>
               </div>
             ) : (
-              <>
-                {/* Traditional format for other methods */}
-                <div className="mb-6">
-                  <h3 className="text-md font-medium text-gray-900 mb-3">Entradas</h3>
-                  {reportData.entries.length > 0 ? (
-                    <div className="overflow-x-auto">
-                      <table className="min-w-full divide-y divide-gray-200">
-                        <thead className="bg-gray-50">
-                          <tr>
-                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                              Fecha
-                            </th>
-                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                              Cantidad
-                            </th>
-                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                              Costo Unitario
-                            </th>
-                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                              Costo Total
-                            </th>
-                          </tr>
-                        </thead>
-                        <tbody className="bg-white divide-y divide-gray-200">
-                          {reportData.entries.map((entry) => (
-                            <tr key={entry.id}>
-                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                                {new Date(entry.date).toLocaleDateString()}
-                              </td>
-                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                                {entry.quantity}
-                              </td>
-                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                                ${entry.unitCost.toFixed(2)}
-                              </td>
-                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                                ${(entry.quantity * entry.unitCost).toFixed(2)}
-                              </td>
-                            </tr>
-                          ))}
-                        </tbody>
-                      </table>
-                    </div>
-                  ) : (
-                    <p className="text-gray-500">No hay entradas en el período seleccionado</p>
-                  )}
-                </div>
-                
-                {/* Exits */}
-                <div>
-                  <h3 className="text-md font-medium text-gray-900 mb-3">Salidas</h3>
-                  {reportData.exits.length > 0 ? (
-                    <div className="overflow-x-auto">
-                      <table className="min-w-full divide-y divide-gray-200">
-                        <thead className="bg-gray-50">
-                          <tr>
-                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                              Fecha
-                            </th>
-                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                              Cantidad
-                            </th>
-                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                              Costo Calculado
-                            </th>
-                          </tr>
-                        </thead>
-                        <tbody className="bg-white divide-y divide-gray-200">
-                          {reportData.exits.map((exit) => (
-                            <tr key={exit.id}>
-                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                                {new Date(exit.date).toLocaleDateString()}
-                              </td>
-                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                                {exit.quantity}
-                              </td>
-                              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                                ${(exit.quantity * reportData.averageCost).toFixed(2)}
-                              </td>
-                            </tr>
-                          ))}
-                        </tbody>
-                      </table>
-                    </div>
-                  ) : (
-                    <p className="text-gray-500">No hay salidas en el período seleccionado</p>
-                  )}
-                </div>
-              </>
+              <p className="text-gray-500">{t('reports.noMovements')}</p>
             )}
           </div>
         </div>
@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import * as XLSX from 'xlsx';
+import { useAuth } from '../contexts/AuthContext';
+import { useInventory } from '../contexts/InventoryContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import SatKeyPicker from '../components/catalog/SatKeyPicker';
+import { getToday } from '../utils/format';
+import { CLAVES_PROD_SERV, CLAVES_UNIDAD, hasSatKeys, isValidClaveProdServ, isValidClaveUnidad } from '../utils/satCatalog';
+import { Download } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface AssignFormData {
+  categoryId: string;
+  claveProdServ: string;
+  claveUnidad: string;
+  overwrite: boolean;
+}
+
+const SatKeys: React.FC = () => {
+  const { products, categories, assignSatKeys } = useInventory();
+  const { hasPermission } = useAuth();
+  const { t } = useLanguage();
+  const canEdit = hasPermission('catalog.edit');
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [formData, setFormData] = useState<AssignFormData>({
+    categoryId: '',
+    claveProdServ: '',
+    claveUnidad: '',
+    overwrite: false,
+  });
+
+  const getCategoryName = (categoryId: string) =>
+    categories.find((c) => c.id === categoryId)?.name ?? t('common.unknownCategory');
+
+  // Products that would be invoiced with the generic keys
+  const missingProducts = products
+    .filter((product) => !hasSatKeys(product))
+    .filter((product) => categoryFilter === '' || product.categoryId === categoryFilter)
+    .sort((a, b) => getCategoryName(a.categoryId).localeCompare(getCategoryName(b.categoryId)) || a.name.localeCompare(b.name));
+
+  const handleAssign = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.categoryId) {
+      toast.error(t('products.categoryRequired'));
+      return;
+    }
+    if (!formData.claveProdServ && !formData.claveUnidad) {
+      toast.error(t('satKeys.keysRequired'));
+      return;
+    }
+
+    try {
+      const count = assignSatKeys(
+        formData.categoryId,
+        { claveProdServ: formData.claveProdServ || undefined, claveUnidad: formData.claveUnidad || undefined },
+        formData.overwrite
+      );
+      toast.success(t('satKeys.assigned', { count }));
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('satKeys.assignError'));
+      }
+      console.error(error);
+    }
+  };
+
+  const exportToExcel = () => {
+    const workbook = XLSX.utils.book_new();
+    const sheetData = [
+      [t('satKeys.reportTitle')],
+      [''],
+      [t('common.product'), 'SKU', t('products.category'), t('satKeys.productKey'), t('satKeys.unitKey')],
+      ...missingProducts.map((product) => [
+        product.name,
+        product.sku,
+        getCategoryName(product.categoryId),
+        product.claveProdServ ?? '',
+        product.claveUnidad ?? '',
+      ]),
+    ];
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(sheetData), t('nav.satKeys'));
+    XLSX.writeFile(workbook, `${t('satKeys.fileName')}_${getToday()}.xlsx`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">{t('nav.satKeys')}</h1>
+        <button
+          onClick={exportToExcel}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          {t('common.exportExcel')}
+        </button>
+      </div>
+
+      {/* Bulk assignment */}
+      {canEdit && (
+        <form onSubmit={handleAssign} className="bg-white shadow rounded-lg p-4 space-y-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">{t('satKeys.assignTitle')}</h2>
+            <p className="text-sm text-gray-500">{t('satKeys.assignHelp')}</p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="assignCategory" className="block text-sm font-medium text-gray-700">
+                {t('products.category')}
+              </label>
+              <select
+                id="assignCategory"
+                value={formData.categoryId}
+                onChange={(e) => setFormData((prev) => ({ ...prev, categoryId: e.target.value }))}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                <option value="" disabled>
+                  {t('products.selectCategory')}
+                </option>
+                {categories.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <SatKeyPicker
+              id="assignClaveProdServ"
+              label={t('satKeys.productKey')}
+              entries={CLAVES_PROD_SERV}
+              value={formData.claveProdServ}
+              onChange={(claveProdServ) => setFormData((prev) => ({ ...prev, claveProdServ }))}
+              isValid={isValidClaveProdServ}
+            />
+            <SatKeyPicker
+              id="assignClaveUnidad"
+              label={t('satKeys.unitKey')}
+              entries={CLAVES_UNIDAD}
+              value={formData.claveUnidad}
+              onChange={(claveUnidad) => setFormData((prev) => ({ ...prev, claveUnidad }))}
+              isValid={isValidClaveUnidad}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="overwrite"
+                checked={formData.overwrite}
+                onChange={(e) => setFormData((prev) => ({ ...prev, overwrite: e.target.checked }))}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <label htmlFor="overwrite" className="ml-2 block text-sm text-gray-700">
+                {t('satKeys.overwrite')}
+              </label>
+            </div>
+            <button
+              type="submit"
+              className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              {t('satKeys.assign')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Products missing keys */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">{t('satKeys.reportTitle')}</h2>
+            <p className="text-sm text-gray-500">{t('satKeys.reportHelp', { count: missingProducts.length })}</p>
+          </div>
+          <select
+            value={categoryFilter}
+            onChange={(e) => setCategoryFilter(e.target.value)}
+            className="md:w-1/3 px-4 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">{t('products.allCategories')}</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('common.product')}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('products.category')}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('satKeys.productKey')}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('satKeys.unitKey')}
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {missingProducts.length > 0 ? (
+              missingProducts.map((product) => (
+                <tr key={product.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {product.name}
+                    <span className="ml-2 text-xs text-gray-500">{product.sku}</span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{getCategoryName(product.categoryId)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-mono">
+                    {product.claveProdServ ?? <span className="font-sans text-red-600">{t('satKeys.missingKey')}</span>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-mono">
+                    {product.claveUnidad ?? <span className="font-sans text-red-600">{t('satKeys.missingKey')}</span>}
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-500">
+                  {t('satKeys.allAssigned')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SatKeys;
@@ -1,12 +1,17 @@
 import React, { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { ShoppingCart, User, Lock, Mail, Eye, EyeOff } from 'lucide-react';
+import { Language, useLanguage } from '../contexts/LanguageContext';
+import { ShoppingCart, User, Lock, Mail, Eye, EyeOff, Phone, Store } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 const SignUp: React.FC = () => {
+  const { language, t } = useLanguage();
   const [formData, setFormData] = useState({
     name: '',
+    phone: '',
+    language,
+    defaultStoreId: '',
     email: '',
     password: '',
     confirmPassword: '',
@@ -26,7 +31,7 @@ const SignUp: React.FC = () => {
   }, [isAuthenticated, navigate]);
 
   // Manejar cambios en los campos del formulario
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
@@ -46,29 +51,34 @@ const SignUp: React.FC = () => {
     
     // Validaciones del lado del cliente
     if (!formData.email || !formData.password || !formData.name) {
-      toast.error('Todos los campos son requeridos');
+      toast.error(t('signUp.requiredFields'));
       return;
     }
 
     if (!isValidEmail(formData.email)) {
-      toast.error('Por favor ingrese un email válido');
+      toast.error(t('signUp.invalidEmail'));
       return;
     }
 
     if (formData.password !== formData.confirmPassword) {
-      toast.error('Las contraseñas no coinciden');
+      toast.error(t('signUp.passwordMismatch'));
       return;
     }
 
     if (formData.password.length < 6) {
-      toast.error('La contraseña debe tener al menos 6 caracteres');
+      toast.error(t('auth.weakPassword'));
       return;
     }
     
     try {
       setLoading(true);
       
-      const result = await signUp(formData.email, formData.password, formData.name);
+      const result = await signUp(formData.email, formData.password, {
+        displayName: formData.name.trim(),
+        phone: formData.phone.trim(),
+        language: formData.language as Language,
+        defaultStoreId: formData.defaultStoreId.trim(),
+      });
       
       if (result.success) {
         toast.success(result.message);
@@ -77,7 +87,7 @@ const SignUp: React.FC = () => {
         toast.error(result.message);
       }
     } catch (err) {
-      toast.error('Error al registrar usuario. Intente nuevamente.');
+      toast.error(t('signUp.error'));
       console.error(err);
     } finally {
       setLoading(false);
@@ -94,13 +104,13 @@ const SignUp: React.FC = () => {
           </div>
         </div>
         <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
-          Crear Cuenta
+          {t('signUp.title')}
         </h2>
         <p className="mt-2 text-center text-sm text-gray-600">
-          Sistema de Control de Inventario MiniSuper
+          {t('signUp.subtitle')}
         </p>
         <p className="mt-1 text-center text-xs text-indigo-600 font-medium">
-          🔥 Registro con Firebase
+          🔥 {t('signUp.firebase')}
         </p>
       </div>
 
@@ -112,7 +122,7 @@ const SignUp: React.FC = () => {
             {/* Campo de nombre completo */}
             <div>
               <label htmlFor="name" className="block text-sm font-medium text-gray-700">
-                Nombre Completo
+                {t('signUp.fullName')}
               </label>
               <div className="mt-1 relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -126,7 +136,7 @@ const SignUp: React.FC = () => {
                   value={formData.name}
                   onChange={handleInputChange}
                   className="appearance-none block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm transition-colors"
-                  placeholder="Ingrese su nombre completo"
+                  placeholder={t('signUp.fullNamePlaceholder')}
                 />
               </div>
             </div>
@@ -134,7 +144,7 @@ const SignUp: React.FC = () => {
             {/* Campo de email */}
             <div>
               <label htmlFor="email" className="block text-sm font-medium text-gray-700">
-                Correo Electrónico
+                {t('login.email')}
               </label>
               <div className="mt-1 relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -149,15 +159,75 @@ const SignUp: React.FC = () => {
                   value={formData.email}
                   onChange={handleInputChange}
                   className="appearance-none block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm transition-colors"
-                  placeholder="tu@email.com"
+                  placeholder={t('login.emailPlaceholder')}
                 />
               </div>
             </div>
 
+            {/* Campo de teléfono */}
+            <div>
+              <label htmlFor="phone" className="block text-sm font-medium text-gray-700">
+                {t('profile.phone')} <span className="text-gray-400">{t('signUp.optional')}</span>
+              </label>
+              <div className="mt-1 relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Phone className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  id="phone"
+                  name="phone"
+                  type="tel"
+                  autoComplete="tel"
+                  value={formData.phone}
+                  onChange={handleInputChange}
+                  className="appearance-none block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm transition-colors"
+                  placeholder="55 1234 5678"
+                />
+              </div>
+            </div>
+
+            {/* Idioma y tienda */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="language" className="block text-sm font-medium text-gray-700">
+                  {t('profile.language')}
+                </label>
+                <select
+                  id="language"
+                  name="language"
+                  value={formData.language}
+                  onChange={handleInputChange}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                >
+                  <option value="es">Español</option>
+                  <option value="en">English</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="defaultStoreId" className="block text-sm font-medium text-gray-700">
+                  {t('profile.store')} <span className="text-gray-400">{t('signUp.optional')}</span>
+                </label>
+                <div className="mt-1 relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Store className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    id="defaultStoreId"
+                    name="defaultStoreId"
+                    type="text"
+                    value={formData.defaultStoreId}
+                    onChange={handleInputChange}
+                    className="appearance-none block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm transition-colors"
+                    placeholder={t('signUp.storePlaceholder')}
+                  />
+                </div>
+              </div>
+            </div>
+
             {/* Campo de contraseña */}
             <div>
               <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Contraseña
+                {t('login.password')}
               </label>
               <div className="mt-1 relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -172,7 +242,7 @@ const SignUp: React.FC = () => {
                   value={formData.password}
                   onChange={handleInputChange}
                   className="appearance-none block w-full pl-10 pr-10 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm transition-colors"
-                  placeholder="Mínimo 6 caracteres"
+                  placeholder={t('signUp.passwordPlaceholder')}
                 />
                 <button
                   type="button"
@@ -191,7 +261,7 @@ const SignUp: React.FC = () => {
             {/* Campo de confirmación de contraseña */}
             <div>
               <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
-                Confirmar Contraseña
+                {t('signUp.confirmPassword')}
               </label>
               <div className="mt-1 relative">
                 <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -206,7 +276,7 @@ const SignUp: React.FC = () => {
                   value={formData.confirmPassword}
                   onChange={handleInputChange}
                   className="appearance-none block w-full pl-10 pr-10 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm transition-colors"
-                  placeholder="Repita su contraseña"
+                  placeholder={t('signUp.confirmPasswordPlaceholder')}
                 />
                 <button
                   type="button"
@@ -237,10 +307,10 @@ const SignUp: React.FC = () => {
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
-                    Registrando...
+                    {t('signUp.submitting')}
                   </>
                 ) : (
-                  'Crear Cuenta'
+                  t('signUp.title')
                 )}
               </button>
             </div>
@@ -254,7 +324,7 @@ const SignUp: React.FC = () => {
               </div>
               <div className="relative flex justify-center text-sm">
                 <span className="px-2 bg-white text-gray-500">
-                  ¿Ya tienes una cuenta?
+                  {t('signUp.haveAccount')}
                 </span>
               </div>
             </div>
@@ -264,7 +334,7 @@ const SignUp: React.FC = () => {
                 to="/login"
                 className="font-medium text-indigo-600 hover:text-indigo-500 transition-colors"
               >
-                Iniciar Sesión
+                {t('login.signIn')}
               </Link>
             </div>
           </div>
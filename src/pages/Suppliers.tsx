@@ -0,0 +1,451 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useInventory } from '../contexts/InventoryContext';
+import { usePurchasing, SupplierProduct } from '../contexts/PurchasingContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { BASE_CURRENCY, CURRENCIES, CurrencyCode } from '../utils/format';
+import { Plus, Edit, Trash2, X, Truck } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface SupplierFormData {
+  name: string;
+  rfc: string;
+  contact: string;
+  phone: string;
+  email: string;
+  leadTimeDays: number;
+  products: SupplierProduct[];
+}
+
+const emptyForm: SupplierFormData = {
+  name: '',
+  rfc: '',
+  contact: '',
+  phone: '',
+  email: '',
+  leadTimeDays: 1,
+  products: [],
+};
+
+// RFC de persona moral (12) o física (13)
+const RFC_PATTERN = /^[A-ZÑ&]{3,4}\d{6}[A-Z0-9]{3}$/;
+
+const Suppliers: React.FC = () => {
+  const { products } = useInventory();
+  const { suppliers, addSupplier, updateSupplier, deleteSupplier } = usePurchasing();
+  const { hasPermission } = useAuth();
+  const { t, formatCurrency } = useLanguage();
+  const canManage = hasPermission('purchasing.manage');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<string | null>(null);
+  const [formData, setFormData] = useState<SupplierFormData>(emptyForm);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const handleOpenModal = (supplierId?: string) => {
+    if (supplierId) {
+      const supplier = suppliers.find((s) => s.id === supplierId);
+      if (supplier) {
+        setFormData({
+          name: supplier.name,
+          rfc: supplier.rfc,
+          contact: supplier.contact,
+          phone: supplier.phone,
+          email: supplier.email,
+          leadTimeDays: supplier.leadTimeDays,
+          products: supplier.products,
+        });
+        setEditingSupplier(supplierId);
+      }
+    } else {
+      setFormData(emptyForm);
+      setEditingSupplier(null);
+    }
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setEditingSupplier(null);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: name === 'leadTimeDays' ? Number(value) : name === 'rfc' ? value.toUpperCase() : value,
+    }));
+  };
+
+  const handleAddProduct = () => {
+    const available = products.find((p) => !formData.products.some((sp) => sp.productId === p.id));
+    if (!available) {
+      return;
+    }
+    setFormData((prev) => ({
+      ...prev,
+      products: [...prev.products, { productId: available.id, lastCost: 0 }],
+    }));
+  };
+
+  const handleProductChange = (index: number, field: 'productId' | 'lastCost' | 'currency', value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      products: prev.products.map((sp, i) => {
+        if (i !== index) {
+          return sp;
+        }
+        // The rate is only known once something is received in that currency
+        if (field === 'currency') {
+          const currency = value as CurrencyCode;
+          return { ...sp, currency: currency === BASE_CURRENCY ? undefined : currency, exchangeRate: undefined };
+        }
+        return { ...sp, [field]: field === 'lastCost' ? Number(value) : value };
+      }),
+    }));
+  };
+
+  const handleRemoveProduct = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      products: prev.products.filter((_, i) => i !== index),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error(t('suppliers.nameRequired'));
+      return;
+    }
+
+    if (formData.rfc && !RFC_PATTERN.test(formData.rfc)) {
+      toast.error(t('suppliers.invalidRfc'));
+      return;
+    }
+
+    try {
+      if (editingSupplier) {
+        updateSupplier({
+          id: editingSupplier,
+          ...formData,
+        });
+        toast.success(t('suppliers.updated'));
+      } else {
+        addSupplier(formData);
+        toast.success(t('suppliers.created'));
+      }
+      handleCloseModal();
+    } catch (error) {
+      toast.error(t('suppliers.saveError'));
+      console.error(error);
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    try {
+      deleteSupplier(id);
+      toast.success(t('suppliers.deleted'));
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('suppliers.deleteError'));
+      }
+      console.error(error);
+    }
+  };
+
+  // Get product name by ID
+  const getProductName = (productId: string) => {
+    const product = products.find((p) => p.id === productId);
+    return product ? product.name : t('common.unknownProduct');
+  };
+
+  // Filter suppliers based on search term
+  const filteredSuppliers = suppliers.filter(
+    (supplier) =>
+      supplier.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      supplier.rfc.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      supplier.contact.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">{t('nav.suppliers')}</h1>
+        {canManage && (
+          <button
+            onClick={() => handleOpenModal()}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {t('suppliers.new')}
+          </button>
+        )}
+      </div>
+
+      {/* Search bar */}
+      <div className="relative">
+        <input
+          type="text"
+          className="w-full px-4 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          placeholder={t('suppliers.searchPlaceholder')}
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+      </div>
+
+      {/* Suppliers list */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-md">
+        {filteredSuppliers.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {filteredSuppliers.map((supplier) => (
+              <li key={supplier.id}>
+                <div className="px-4 py-4 sm:px-6">
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1 min-w-0">
+                      <h3 className="text-lg font-medium text-gray-900 flex items-center">
+                        <Truck className="h-5 w-5 mr-2 text-gray-400" />
+                        {supplier.name}
+                        {supplier.rfc && (
+                          <span className="ml-2 text-sm font-normal text-gray-500">{supplier.rfc}</span>
+                        )}
+                      </h3>
+                      <p className="mt-1 text-sm text-gray-500">
+                        {[supplier.contact, supplier.phone, supplier.email].filter(Boolean).join(' · ') || t('suppliers.noContact')}
+                      </p>
+                      <div className="mt-2 flex items-center text-sm flex-wrap gap-2">
+                        <span className="rounded-full bg-blue-100 px-2.5 py-0.5 text-xs text-blue-800">
+                          {t('suppliers.leadTime', { count: supplier.leadTimeDays })}
+                        </span>
+                        {supplier.products.map((sp) => (
+                          <span key={sp.productId} className="rounded-full bg-gray-100 px-2.5 py-0.5 text-xs text-gray-700">
+                            {getProductName(sp.productId)}: {formatCurrency(sp.lastCost, sp.currency)}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                    {canManage && (
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => handleOpenModal(supplier.id)}
+                          className="p-2 text-blue-600 hover:bg-blue-100 rounded-full"
+                        >
+                          <Edit className="h-5 w-5" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(supplier.id)}
+                          className="p-2 text-red-600 hover:bg-red-100 rounded-full"
+                        >
+                          <Trash2 className="h-5 w-5" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="py-8 text-center text-gray-500">
+            {searchTerm ? t('suppliers.noResults') : t('suppliers.empty')}
+          </div>
+        )}
+      </div>
+
+      {/* Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 overflow-y-auto z-50">
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div
+              className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+              onClick={handleCloseModal}
+            ></div>
+
+            <span className="hidden sm:inline-block sm:align-middle sm:h-screen">&#8203;</span>
+
+            <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+              <div className="flex justify-between items-center px-6 py-4 bg-gray-50 border-b">
+                <h3 className="text-lg font-medium text-gray-900">
+                  {editingSupplier ? t('suppliers.edit') : t('suppliers.new')}
+                </h3>
+                <button
+                  onClick={handleCloseModal}
+                  className="text-gray-400 hover:text-gray-500"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              <form onSubmit={handleSubmit}>
+                <div className="px-6 py-4">
+                  <div className="space-y-4">
+                    <div>
+                      <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+                        {t('common.name')}
+                      </label>
+                      <input
+                        type="text"
+                        name="name"
+                        id="name"
+                        value={formData.name}
+                        onChange={handleInputChange}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        required
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor="rfc" className="block text-sm font-medium text-gray-700">
+                          {t('suppliers.rfc')}
+                        </label>
+                        <input
+                          type="text"
+                          name="rfc"
+                          id="rfc"
+                          maxLength={13}
+                          value={formData.rfc}
+                          onChange={handleInputChange}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="leadTimeDays" className="block text-sm font-medium text-gray-700">
+                          {t('suppliers.leadTimeDays')}
+                        </label>
+                        <input
+                          type="number"
+                          name="leadTimeDays"
+                          id="leadTimeDays"
+                          min="0"
+                          value={formData.leadTimeDays}
+                          onChange={handleInputChange}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label htmlFor="contact" className="block text-sm font-medium text-gray-700">
+                        {t('suppliers.contact')}
+                      </label>
+                      <input
+                        type="text"
+                        name="contact"
+                        id="contact"
+                        value={formData.contact}
+                        onChange={handleInputChange}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor="phone" className="block text-sm font-medium text-gray-700">
+                          {t('profile.phone')}
+                        </label>
+                        <input
+                          type="tel"
+                          name="phone"
+                          id="phone"
+                          value={formData.phone}
+                          onChange={handleInputChange}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                          {t('suppliers.email')}
+                        </label>
+                        <input
+                          type="email"
+                          name="email"
+                          id="email"
+                          value={formData.email}
+                          onChange={handleInputChange}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <div className="flex items-center justify-between">
+                        <span className="block text-sm font-medium text-gray-700">{t('suppliers.products')}</span>
+                        <button
+                          type="button"
+                          onClick={handleAddProduct}
+                          className="text-sm text-blue-600 hover:text-blue-700"
+                        >
+                          {t('common.add')}
+                        </button>
+                      </div>
+                      <div className="mt-2 space-y-2">
+                        {formData.products.map((sp, index) => (
+                          <div key={index} className="flex items-center space-x-2">
+                            <select
+                              value={sp.productId}
+                              onChange={(e) => handleProductChange(index, 'productId', e.target.value)}
+                              className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                            >
+                              {products.map((product) => (
+                                <option key={product.id} value={product.id}>
+                                  {product.name}
+                                </option>
+                              ))}
+                            </select>
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={sp.lastCost}
+                              onChange={(e) => handleProductChange(index, 'lastCost', e.target.value)}
+                              className="w-28 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                              title={t('suppliers.lastCost')}
+                            />
+                            <select
+                              value={sp.currency ?? BASE_CURRENCY}
+                              onChange={(e) => handleProductChange(index, 'currency', e.target.value)}
+                              className="w-20 px-2 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                              title={t('inventory.currency')}
+                            >
+                              {CURRENCIES.map((currency) => (
+                                <option key={currency} value={currency}>
+                                  {currency}
+                                </option>
+                              ))}
+                            </select>
+                            <button
+                              type="button"
+                              onClick={() => handleRemoveProduct(index)}
+                              className="p-2 text-red-600 hover:bg-red-100 rounded-full"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+                <div className="px-6 py-3 bg-gray-50 flex justify-end">
+                  <button
+                    type="button"
+                    onClick={handleCloseModal}
+                    className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 mr-2"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                  <button
+                    type="submit"
+                    className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    {editingSupplier ? t('common.update') : t('common.create')}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Suppliers;
@@ -0,0 +1,223 @@
+import React from 'react';
+import { useInventory, Category, InventoryTransaction, Product } from '../contexts/InventoryContext';
+import { useSync } from '../contexts/SyncContext';
+import { TranslationKey, useLanguage } from '../contexts/LanguageContext';
+import { CollectionName, StoredRecord, SyncConflict } from '../storage';
+import { Cloud, CloudOff, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const COLLECTION_LABELS: Partial<Record<CollectionName, TranslationKey>> = {
+  categories: 'sync.collection.categories',
+  products: 'sync.collection.products',
+  transactions: 'sync.collection.transactions',
+};
+
+// Fields that differ between the local and the remote version of a record
+const getChangedFields = (local: StoredRecord | null, remote: StoredRecord | null) => {
+  const left = (local ?? {}) as unknown as Record<string, unknown>;
+  const right = (remote ?? {}) as unknown as Record<string, unknown>;
+  return [...new Set([...Object.keys(left), ...Object.keys(right)])].filter(
+    (key) => JSON.stringify(left[key]) !== JSON.stringify(right[key])
+  );
+};
+
+const formatValue = (value: unknown) =>
+  value === undefined || value === null || value === '' ? '-' : String(value);
+
+const SyncReview: React.FC = () => {
+  const { products } = useInventory();
+  const { isSyncEnabled, isOnline, pending, conflicts, resolveConflict } = useSync();
+  const { t, formatDate, formatDateTime } = useLanguage();
+
+  const getProductName = (productId: string) =>
+    products.find((p) => p.id === productId)?.name ?? t('common.unknownProduct');
+
+  const describeRecord = (collection: CollectionName, record: StoredRecord | null) => {
+    if (!record) {
+      return t('sync.deletedRecord');
+    }
+    if (collection === 'transactions') {
+      const transaction = record as InventoryTransaction;
+      return t('sync.transactionSummary', {
+        product: getProductName(transaction.productId),
+        count: transaction.quantity,
+        date: formatDate(transaction.date),
+      });
+    }
+    return (record as Category | Product).name ?? record.id;
+  };
+
+  const getCollectionLabel = (collection: CollectionName) => {
+    const label = COLLECTION_LABELS[collection];
+    return label ? t(label) : collection;
+  };
+
+  const handleResolve = async (conflict: SyncConflict, keep: 'local' | 'remote') => {
+    try {
+      await resolveConflict(conflict.id, keep);
+      toast.success(keep === 'local' ? t('sync.keptLocal') : t('sync.keptRemote'));
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('sync.resolveError'));
+      }
+      console.error(error);
+    }
+  };
+
+  if (!isSyncEnabled) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold text-gray-900">{t('sync.title')}</h1>
+        <div className="bg-white shadow rounded-lg p-6 text-gray-500">
+          {t('sync.disabled')}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">{t('sync.title')}</h1>
+      </div>
+
+      {/* Status */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className={`rounded-lg p-4 ${isOnline ? 'bg-green-50' : 'bg-amber-50'}`}>
+          <div className="flex items-center">
+            {isOnline ? (
+              <Cloud className="h-5 w-5 mr-2 text-green-700" />
+            ) : (
+              <CloudOff className="h-5 w-5 mr-2 text-amber-700" />
+            )}
+            <p className={`text-sm font-medium ${isOnline ? 'text-green-800' : 'text-amber-800'}`}>
+              {isOnline ? t('nav.online') : t('nav.offline')}
+            </p>
+          </div>
+          <p className={`mt-1 text-xs ${isOnline ? 'text-green-700' : 'text-amber-700'}`}>
+            {isOnline
+              ? t('sync.onlineHelp')
+              : t('sync.offlineHelp')}
+          </p>
+        </div>
+        <div className="bg-blue-50 rounded-lg p-4">
+          <p className="text-sm font-medium text-blue-800">{t('sync.pending')}</p>
+          <p className="text-2xl font-bold text-blue-900">{pending.length}</p>
+        </div>
+        <div className="bg-red-50 rounded-lg p-4">
+          <p className="text-sm font-medium text-red-800">{t('sync.toReview')}</p>
+          <p className="text-2xl font-bold text-red-900">{conflicts.length}</p>
+        </div>
+      </div>
+
+      {/* Conflicts */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200 bg-gray-50">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">{t('sync.conflicts')}</h3>
+        </div>
+        {conflicts.length > 0 ? (
+          <ul className="divide-y divide-gray-200">
+            {conflicts.map((conflict) => {
+              const { entry } = conflict;
+              const changedFields = conflict.kind === 'edit' ? getChangedFields(entry.record, conflict.remote) : [];
+              return (
+                <li key={conflict.id} className="px-6 py-4 space-y-3">
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-start">
+                      <AlertTriangle className="h-5 w-5 mr-2 text-red-500 flex-shrink-0" />
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">
+                          {getCollectionLabel(entry.collection)}: {describeRecord(entry.collection, entry.record ?? entry.base)}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          {conflict.kind === 'overdraw'
+                            ? t('sync.overdraw')
+                            : entry.operation === 'delete'
+                              ? t('sync.deleteConflict')
+                              : t('sync.editConflict')}
+                        </p>
+                        {conflict.kind === 'overdraw' && (entry.record as InventoryTransaction | null)?.saleId && (
+                          <p className="text-sm text-amber-700">{t('sync.overdrawSale')}</p>
+                        )}
+                        <p className="text-xs text-gray-400">
+                          {t('sync.changedAt', { date: formatDateTime(entry.createdAt) })}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex space-x-2 flex-shrink-0">
+                      <button
+                        onClick={() => handleResolve(conflict, 'remote')}
+                        className="inline-flex items-center px-3 py-1 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        {conflict.kind === 'overdraw' ? t('sync.discardExit') : t('sync.useRemote')}
+                      </button>
+                      <button
+                        onClick={() => handleResolve(conflict, 'local')}
+                        className="inline-flex items-center px-3 py-1 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                      >
+                        {conflict.kind === 'overdraw' ? t('sync.registerAnyway') : t('sync.keepMine')}
+                      </button>
+                    </div>
+                  </div>
+
+                  {changedFields.length > 0 && (
+                    <table className="min-w-full divide-y divide-gray-200 border text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{t('sync.field')}</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{t('sync.mine')}</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{t('sync.remote')}</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {changedFields.map((field) => (
+                          <tr key={field}>
+                            <td className="px-4 py-2 text-gray-500">{field}</td>
+                            <td className="px-4 py-2 text-gray-900">
+                              {formatValue((entry.record as unknown as Record<string, unknown> | null)?.[field])}
+                            </td>
+                            <td className="px-4 py-2 text-gray-900">
+                              {formatValue((conflict.remote as unknown as Record<string, unknown> | null)?.[field])}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <div className="py-8 text-center text-gray-500">
+            {t('sync.noConflicts')}
+          </div>
+        )}
+      </div>
+
+      {/* Pending changes */}
+      {pending.length > 0 && (
+        <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+          <div className="px-4 py-5 sm:px-6 border-b border-gray-200 bg-gray-50">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">{t('sync.pendingTitle')}</h3>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {pending.map((entry) => (
+              <li key={entry.id} className="px-6 py-3 text-sm flex justify-between">
+                <span className="text-gray-900">
+                  {getCollectionLabel(entry.collection)}: {describeRecord(entry.collection, entry.record ?? entry.base)}
+                  {entry.operation === 'delete' && <span className="ml-2 text-red-600">{t('sync.deletion')}</span>}
+                </span>
+                <span className="text-gray-400">{formatDateTime(entry.createdAt)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncReview;
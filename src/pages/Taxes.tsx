@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import * as XLSX from 'xlsx';
+import { useInventory } from '../contexts/InventoryContext';
+import { TranslationKey, useLanguage } from '../contexts/LanguageContext';
+import { getToday } from '../utils/format';
+import { TaxTotals } from '../utils/taxes';
+import { Download } from 'lucide-react';
+
+const BASE_ROWS: Array<{ key: keyof TaxTotals; label: TranslationKey }> = [
+  { key: 'base16', label: 'taxReport.base16' },
+  { key: 'base0', label: 'taxReport.base0' },
+  { key: 'baseExempt', label: 'taxReport.baseExempt' },
+  { key: 'iepsBase', label: 'taxReport.iepsBase' },
+];
+
+// Collected minus paid is what is owed for the period
+const TAX_ROWS: Array<{ key: keyof TaxTotals; label: TranslationKey }> = [
+  { key: 'iva', label: 'taxReport.iva' },
+  { key: 'ieps', label: 'taxReport.ieps' },
+];
+
+const Taxes: React.FC = () => {
+  const { getTaxSummary, currentLocationId, getLocationName } = useInventory();
+  const { t, formatCurrency, formatDate } = useLanguage();
+  const [startDate, setStartDate] = useState(() => `${getToday().slice(0, 8)}01`);
+  const [endDate, setEndDate] = useState(getToday());
+
+  const summary = getTaxSummary(startDate, endDate);
+
+  const exportToExcel = () => {
+    const workbook = XLSX.utils.book_new();
+    const sheetData = [
+      [t('taxReport.title')],
+      [t('reports.excel.location'), getLocationName(currentLocationId)],
+      [t('reports.excel.period'), `${formatDate(startDate)} - ${formatDate(endDate)}`],
+      [''],
+      [t('taxReport.concept'), t('taxReport.sales'), t('taxReport.purchases'), t('taxReport.balance')],
+      ...BASE_ROWS.map(({ key, label }) => [t(label), summary.sales[key], summary.purchases[key], '']),
+      ...TAX_ROWS.map(({ key, label }) => [
+        t(label),
+        summary.sales[key],
+        summary.purchases[key],
+        summary.sales[key] - summary.purchases[key],
+      ]),
+    ];
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(sheetData), t('nav.taxes'));
+    XLSX.writeFile(workbook, `${t('taxReport.fileName')}_${startDate}_${endDate}.xlsx`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">{t('nav.taxes')}</h1>
+        <button
+          onClick={exportToExcel}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          {t('common.exportExcel')}
+        </button>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="startDate" className="block text-sm font-medium text-gray-700">
+              {t('common.startDate')}
+            </label>
+            <input
+              type="date"
+              id="startDate"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="endDate" className="block text-sm font-medium text-gray-700">
+              {t('common.endDate')}
+            </label>
+            <input
+              type="date"
+              id="endDate"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+        </div>
+        <p className="mt-3 text-xs text-gray-500">{t('taxReport.help')}</p>
+      </div>
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('taxReport.concept')}
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('taxReport.sales')}
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('taxReport.purchases')}
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('taxReport.balance')}
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {BASE_ROWS.map(({ key, label }) => (
+              <tr key={key}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{t(label)}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                  {formatCurrency(summary.sales[key])}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                  {formatCurrency(summary.purchases[key])}
+                </td>
+                <td className="px-6 py-4"></td>
+              </tr>
+            ))}
+            {TAX_ROWS.map(({ key, label }) => {
+              const balance = summary.sales[key] - summary.purchases[key];
+              return (
+                <tr key={key} className="bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{t(label)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                    {formatCurrency(summary.sales[key])}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                    {formatCurrency(summary.purchases[key])}
+                  </td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm font-semibold text-right ${balance > 0 ? 'text-red-700' : 'text-green-700'}`}>
+                    {formatCurrency(balance)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default Taxes;
@@ -0,0 +1,353 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useInventory, Transfer, TransferInput } from '../contexts/InventoryContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { getToday } from '../utils/format';
+import { Plus, Trash2, X, ArrowRight } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const Transfers: React.FC = () => {
+  const { products, locations, transfers, currentLocationId, addTransfer, getLocationName, getProductStock } =
+    useInventory();
+  const { hasPermission } = useAuth();
+  const { t, formatCurrency, formatDate } = useLanguage();
+  const canMove = hasPermission('inventory.move');
+
+  const activeLocations = locations.filter((location) => location.active);
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [formData, setFormData] = useState<TransferInput>({
+    date: getToday(),
+    fromLocationId: '',
+    toLocationId: '',
+    lines: [],
+    notes: '',
+  });
+
+  const getProductName = (productId: string) => {
+    const product = products.find((p) => p.id === productId);
+    return product ? product.name : t('common.unknownProduct');
+  };
+
+  const getTransferValue = (transfer: Transfer) =>
+    transfer.lines.reduce((sum, line) => sum + line.quantity * (line.unitCost ?? 0), 0);
+
+  const handleOpenModal = () => {
+    // Sends from the location in use by default
+    const from = activeLocations.find((l) => l.id === currentLocationId) ?? activeLocations[0];
+    const to = activeLocations.find((l) => l.id !== from?.id);
+    setFormData({
+      date: getToday(),
+      fromLocationId: from?.id ?? '',
+      toLocationId: to?.id ?? '',
+      lines: [],
+      notes: '',
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+  };
+
+  const handleAddLine = () => {
+    setFormData((prev) => ({
+      ...prev,
+      lines: [...prev.lines, { productId: products[0]?.id ?? '', quantity: 1 }],
+    }));
+  };
+
+  const handleLineChange = (index: number, field: 'productId' | 'quantity', value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      lines: prev.lines.map((line, i) =>
+        i === index ? { ...line, [field]: field === 'quantity' ? Number(value) : value } : line
+      ),
+    }));
+  };
+
+  const handleRemoveLine = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      lines: prev.lines.filter((_, i) => i !== index),
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.fromLocationId === formData.toLocationId) {
+      toast.error(t('inventory.errors.sameLocation'));
+      return;
+    }
+    if (formData.lines.length === 0) {
+      toast.error(t('transfers.addProduct'));
+      return;
+    }
+
+    try {
+      const transfer = await addTransfer(formData);
+      toast.success(t('transfers.saved', { folio: transfer.folio }));
+      handleCloseModal();
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(t('transfers.saveError'));
+      }
+      console.error(error);
+    }
+  };
+
+  const sortedTransfers = [...transfers].sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">{t('nav.transfers')}</h1>
+        {canMove && (
+          <button
+            onClick={handleOpenModal}
+            disabled={activeLocations.length < 2}
+            className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${
+              activeLocations.length < 2 ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {t('transfers.new')}
+          </button>
+        )}
+      </div>
+
+      {/* Transfers list */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+        {sortedTransfers.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('transfers.folio')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('common.date')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('transfers.route')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('common.products')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('transfers.value')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('transfers.createdBy')}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {sortedTransfers.map((transfer) => (
+                  <tr key={transfer.id} className="align-top">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {transfer.folio}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(transfer.date)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <span className="inline-flex items-center">
+                        {getLocationName(transfer.fromLocationId)}
+                        <ArrowRight className="h-4 w-4 mx-1 text-gray-400" />
+                        {getLocationName(transfer.toLocationId)}
+                      </span>
+                      {transfer.notes && <p className="text-xs text-gray-500">{transfer.notes}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {transfer.lines.map((line) => (
+                        <p key={line.productId}>
+                          {getProductName(line.productId)}: {line.quantity}
+                        </p>
+                      ))}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatCurrency(getTransferValue(transfer))}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {transfer.createdByName}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="py-8 text-center text-gray-500">
+            {activeLocations.length < 2
+              ? t('transfers.needTwoLocations')
+              : t('transfers.empty')}
+          </div>
+        )}
+      </div>
+
+      {/* Transfer modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 overflow-y-auto z-50">
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div
+              className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+              onClick={handleCloseModal}
+            ></div>
+
+            <span className="hidden sm:inline-block sm:align-middle sm:h-screen">&#8203;</span>
+
+            <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+              <div className="flex justify-between items-center px-6 py-4 bg-gray-50 border-b">
+                <h3 className="text-lg font-medium text-gray-900">{t('transfers.new')}</h3>
+                <button
+                  onClick={handleCloseModal}
+                  className="text-gray-400 hover:text-gray-500"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              <form onSubmit={handleSubmit}>
+                <div className="px-6 py-4">
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-3 gap-4">
+                      <div>
+                        <label htmlFor="fromLocationId" className="block text-sm font-medium text-gray-700">
+                          {t('transfers.from')}
+                        </label>
+                        <select
+                          id="fromLocationId"
+                          value={formData.fromLocationId}
+                          onChange={(e) => setFormData((prev) => ({ ...prev, fromLocationId: e.target.value }))}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          required
+                        >
+                          {activeLocations.map((location) => (
+                            <option key={location.id} value={location.id}>
+                              {location.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label htmlFor="toLocationId" className="block text-sm font-medium text-gray-700">
+                          {t('transfers.to')}
+                        </label>
+                        <select
+                          id="toLocationId"
+                          value={formData.toLocationId}
+                          onChange={(e) => setFormData((prev) => ({ ...prev, toLocationId: e.target.value }))}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          required
+                        >
+                          {activeLocations.map((location) => (
+                            <option key={location.id} value={location.id}>
+                              {location.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label htmlFor="date" className="block text-sm font-medium text-gray-700">
+                          {t('common.date')}
+                        </label>
+                        <input
+                          type="date"
+                          id="date"
+                          value={formData.date}
+                          onChange={(e) => setFormData((prev) => ({ ...prev, date: e.target.value }))}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          required
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <div className="flex items-center justify-between">
+                        <span className="block text-sm font-medium text-gray-700">{t('common.products')}</span>
+                        <button
+                          type="button"
+                          onClick={handleAddLine}
+                          className="text-sm text-blue-600 hover:text-blue-700"
+                        >
+                          {t('common.add')}
+                        </button>
+                      </div>
+                      <div className="mt-2 space-y-2">
+                        {formData.lines.map((line, index) => (
+                          <div key={index} className="flex items-center space-x-2">
+                            <select
+                              value={line.productId}
+                              onChange={(e) => handleLineChange(index, 'productId', e.target.value)}
+                              className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                            >
+                              {products.map((product) => (
+                                <option key={product.id} value={product.id}>
+                                  {product.name}
+                                </option>
+                              ))}
+                            </select>
+                            <input
+                              type="number"
+                              min="1"
+                              value={line.quantity}
+                              onChange={(e) => handleLineChange(index, 'quantity', e.target.value)}
+                              className="w-24 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                              title={t('common.quantity')}
+                            />
+                            <span className="w-28 text-xs text-gray-500">
+                              {t('transfers.available', { stock: getProductStock(line.productId, formData.fromLocationId) })}
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => handleRemoveLine(index)}
+                              className="p-2 text-red-600 hover:bg-red-100 rounded-full"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <label htmlFor="notes" className="block text-sm font-medium text-gray-700">
+                        {t('common.notes')}
+                      </label>
+                      <textarea
+                        id="notes"
+                        rows={2}
+                        value={formData.notes}
+                        onChange={(e) => setFormData((prev) => ({ ...prev, notes: e.target.value }))}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                    </div>
+                  </div>
+                </div>
+                <div className="px-6 py-3 bg-gray-50 flex justify-end">
+                  <button
+                    type="button"
+                    onClick={handleCloseModal}
+                    className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 mr-2"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                  <button
+                    type="submit"
+                    className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    {t('transfers.register')}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Transfers;
@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useUsers } from '../contexts/UsersContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { ROLES, ROLE_LABELS, Role } from '../utils/permissions';
+import { UserPlus, UserX, UserCheck, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const Users: React.FC = () => {
+  const { user } = useAuth();
+  const { t, formatDateTime } = useLanguage();
+  const {
+    isAvailable,
+    storeId,
+    members,
+    invitations,
+    openRegistration,
+    inviteUser,
+    cancelInvitation,
+    changeRole,
+    setUserDisabled,
+    setOpenRegistration,
+  } = useUsers();
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<Role>('cashier');
+
+  const run = async (action: () => Promise<void>, success: string, fallback: string) => {
+    try {
+      await action();
+      toast.success(success);
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error(error.message);
+      } else {
+        toast.error(fallback);
+      }
+      console.error(error);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await run(
+      async () => {
+        await inviteUser(inviteEmail, inviteRole);
+        setInviteEmail('');
+      },
+      t('users.invited'),
+      t('users.inviteError')
+    );
+  };
+
+  const sortedMembers = [...members].sort((a, b) => a.name.localeCompare(b.name));
+
+  if (!isAvailable) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold text-gray-900">{t('nav.users')}</h1>
+        <div className="bg-white shadow rounded-lg p-6 text-gray-500">
+          {t('users.unavailable', { variable: 'VITE_STORE_ID' })}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">{t('nav.users')}</h1>
+      </div>
+
+      {/* Registration and invitations */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white shadow rounded-lg p-6 space-y-4">
+          <h2 className="text-lg font-medium text-gray-900">{t('users.registration')}</h2>
+          <label className="flex items-start space-x-3">
+            <input
+              type="checkbox"
+              checked={openRegistration}
+              onChange={(e) =>
+                run(
+                  () => setOpenRegistration(e.target.checked),
+                  e.target.checked ? t('users.registrationOpen') : t('users.registrationInviteOnly'),
+                  t('users.settingsError')
+                )
+              }
+              className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-700">
+              {t('users.allowAnyone')}
+              <span className="block text-xs text-gray-500">
+                {openRegistration
+                  ? t('users.openHelp')
+                  : t('users.inviteOnlyHelp')}
+              </span>
+            </span>
+          </label>
+        </div>
+
+        <form onSubmit={handleInvite} className="bg-white shadow rounded-lg p-6 space-y-4">
+          <h2 className="text-lg font-medium text-gray-900">{t('users.inviteTitle')}</h2>
+          <div className="flex flex-col sm:flex-row sm:items-end sm:space-x-2 space-y-2 sm:space-y-0">
+            <div className="flex-1">
+              <label htmlFor="inviteEmail" className="block text-sm font-medium text-gray-700">
+                {t('suppliers.email')}
+              </label>
+              <input
+                type="email"
+                id="inviteEmail"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="inviteRole" className="block text-sm font-medium text-gray-700">
+                {t('profile.role')}
+              </label>
+              <select
+                id="inviteRole"
+                value={inviteRole}
+                onChange={(e) => setInviteRole(e.target.value as Role)}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              >
+                {ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {t(ROLE_LABELS[role])}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="submit"
+              className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              <UserPlus className="h-4 w-4 mr-2" />
+              {t('users.invite')}
+            </button>
+          </div>
+
+          {invitations.length > 0 && (
+            <ul className="divide-y divide-gray-200 border-t border-gray-200">
+              {invitations.map((invitation) => (
+                <li key={invitation.email} className="py-2 flex items-center justify-between text-sm">
+                  <span className="text-gray-900">
+                    {invitation.email}
+                    <span className="ml-2 text-gray-500">{t(ROLE_LABELS[invitation.role])}</span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      run(
+                        () => cancelInvitation(invitation.email),
+                        t('users.invitationCancelled'),
+                        t('users.cancelInvitationError')
+                      )
+                    }
+                    className="p-1 text-red-600 hover:bg-red-100 rounded-full"
+                    title={t('users.cancelInvitation')}
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </form>
+      </div>
+
+      {/* Members */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200 bg-gray-50">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">{t('users.members')}</h3>
+        </div>
+        {sortedMembers.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('common.user')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('profile.role')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('users.lastLogin')}
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('common.status')}
+                  </th>
+                  <th scope="col" className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {sortedMembers.map((member) => {
+                  const isLocked = member.uid === storeId || member.uid === user?.id;
+                  return (
+                    <tr key={member.uid}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <p className="font-medium text-gray-900">{member.name}</p>
+                        <p className="text-gray-500">{member.email}</p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {isLocked ? (
+                          <span className="text-gray-900">{member.role ? t(ROLE_LABELS[member.role]) : t('roles.none')}</span>
+                        ) : (
+                          <select
+                            value={member.role ?? ''}
+                            onChange={(e) =>
+                              run(
+                                () => changeRole(member.uid, e.target.value as Role),
+                                t('users.roleUpdated'),
+                                t('users.roleError')
+                              )
+                            }
+                            className="px-2 py-1 border border-gray-300 bg-white rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          >
+                            {!member.role && <option value="">{t('roles.none')}</option>}
+                            {ROLES.map((role) => (
+                              <option key={role} value={role}>
+                                {t(ROLE_LABELS[role])}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {member.lastLoginAt ? formatDateTime(member.lastLoginAt) : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                            member.disabled ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                          }`}
+                        >
+                          {member.disabled ? t('users.status.disabled') : t('users.status.active')}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        {!isLocked && (
+                          <button
+                            onClick={() =>
+                              run(
+                                () => setUserDisabled(member.uid, !member.disabled),
+                                member.disabled ? t('users.enabled') : t('users.disabled'),
+                                t('users.statusError')
+                              )
+                            }
+                            className={`p-2 rounded-full ${
+                              member.disabled ? 'text-green-600 hover:bg-green-100' : 'text-red-600 hover:bg-red-100'
+                            }`}
+                            title={member.disabled ? t('users.enable') : t('users.disable')}
+                          >
+                            {member.disabled ? <UserCheck className="h-5 w-5" /> : <UserX className="h-5 w-5" />}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="py-8 text-center text-gray-500">
+            {t('users.empty')}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Users;
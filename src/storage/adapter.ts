@@ -0,0 +1,22 @@
+import { createIndexedDbAdapter } from './indexedDbAdapter';
+import { createLocalStorageAdapter } from './localStorageAdapter';
+import { StorageAdapter } from './types';
+
+// One adapter per synced store, plus the device's own data under null
+const adapters = new Map<string | null, StorageAdapter>();
+
+// IndexedDB when the browser has it, otherwise the original localStorage format.
+// Each store keeps its own copy so one store's data never shows up in another.
+export const getStorageAdapter = (storeId: string | null = null): StorageAdapter => {
+  let adapter = adapters.get(storeId);
+  if (!adapter) {
+    adapter = typeof indexedDB !== 'undefined' ? createIndexedDbAdapter(storeId) : createLocalStorageAdapter(storeId);
+    adapters.set(storeId, adapter);
+  }
+  return adapter;
+};
+
+// Lets tests or alternative backends replace the adapter before the providers mount
+export const setStorageAdapter = (storageAdapter: StorageAdapter, storeId: string | null = null) => {
+  adapters.set(storeId, storageAdapter);
+};
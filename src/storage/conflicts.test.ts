@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { InventoryTransaction } from '../contexts/InventoryContext';
+import { detectConflict } from './conflicts';
+import { OutboxEntry, StoredRecord } from './types';
+
+const outboxEntry = (fields: Partial<OutboxEntry> & Pick<OutboxEntry, 'recordId'>): OutboxEntry => ({
+  id: `o-${fields.recordId}`,
+  storeId: 's1',
+  collection: 'products',
+  operation: 'put',
+  record: null,
+  base: null,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  ...fields,
+});
+
+const movement = (
+  id: string,
+  type: InventoryTransaction['type'],
+  quantity: number,
+  locationId?: string
+): InventoryTransaction => ({
+  id,
+  productId: 'p1',
+  type,
+  quantity,
+  unitCost: 10,
+  date: '2024-01-01',
+  notes: '',
+  locationId,
+});
+
+const exitEntry = (transaction: InventoryTransaction) =>
+  outboxEntry({ collection: 'transactions', recordId: transaction.id, record: transaction });
+
+describe('detectConflict', () => {
+  const base: StoredRecord = { id: 'p1', name: 'Leche', price: 20 } as StoredRecord;
+  const mine = { ...base, price: 22 } as StoredRecord;
+
+  describe('edits', () => {
+    it('replays an edit made on the current remote version', () => {
+      const entry = outboxEntry({ recordId: 'p1', record: mine, base });
+
+      expect(detectConflict(entry, [base])).toBeNull();
+    });
+
+    it('flags an edit whose record someone else changed meanwhile', () => {
+      const theirs = { ...base, price: 25 } as StoredRecord;
+      const entry = outboxEntry({ recordId: 'p1', record: mine, base });
+
+      expect(detectConflict(entry, [theirs])).toBe('edit');
+    });
+
+    it('flags an edit whose record someone else deleted meanwhile', () => {
+      const entry = outboxEntry({ recordId: 'p1', record: mine, base });
+
+      expect(detectConflict(entry, [])).toBe('edit');
+    });
+
+    it('replays a change that already reached the remote, e.g. before a reload', () => {
+      expect(detectConflict(outboxEntry({ recordId: 'p1', record: mine, base }), [mine])).toBeNull();
+      expect(detectConflict(outboxEntry({ recordId: 'p1', operation: 'delete', base }), [])).toBeNull();
+    });
+
+    it('ignores key order and missing fields when comparing with the remote', () => {
+      const rebuilt = { price: 20, name: 'Leche', id: 'p1', image: undefined } as StoredRecord;
+      const entry = outboxEntry({ recordId: 'p1', record: mine, base });
+
+      expect(detectConflict(entry, [rebuilt])).toBeNull();
+    });
+  });
+
+  describe('new movements', () => {
+    const remote = [movement('in', 'entry', 5), movement('in-b', 'entry', 10, 'b'), movement('out', 'exit', 2)];
+
+    it('replays an exit the shared stock at its location covers', () => {
+      expect(detectConflict(exitEntry(movement('new', 'exit', 3)), remote)).toBeNull();
+    });
+
+    it('flags an exit that would leave the shared stock at its location negative', () => {
+      expect(detectConflict(exitEntry(movement('new', 'exit', 4)), remote)).toBe('overdraw');
+      expect(detectConflict(exitEntry(movement('new', 'adjustment', -4)), remote)).toBe('overdraw');
+    });
+
+    it('does not count the stock of other locations', () => {
+      expect(detectConflict(exitEntry(movement('new', 'exit', 10, 'b')), remote)).toBeNull();
+      expect(detectConflict(exitEntry(movement('new', 'exit', 11, 'b')), remote)).toBe('overdraw');
+    });
+
+    it('flags an exit on a collection that was never written', () => {
+      expect(detectConflict(exitEntry(movement('new', 'exit', 1)), null)).toBe('overdraw');
+    });
+
+    it('never flags entries', () => {
+      expect(detectConflict(exitEntry(movement('new', 'entry', 1)), null)).toBeNull();
+    });
+  });
+});
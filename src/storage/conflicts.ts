@@ -0,0 +1,44 @@
+import type { InventoryTransaction } from '../contexts/InventoryContext';
+import { getTransactionLocationId, isAtLocation } from '../utils/locations';
+import { getStockDelta } from '../utils/valuation';
+import { isSameValue } from './records';
+import { OutboxEntry, StoredRecord, SyncConflictKind } from './types';
+
+/**
+ * Why a queued change cannot be replayed as is over the current remote
+ * records of its collection (null when the collection was never written),
+ * or null when it can.
+ */
+export const detectConflict = (
+  entry: OutboxEntry,
+  remoteRecords: StoredRecord[] | null
+): SyncConflictKind | null => {
+  const remoteRecord = remoteRecords?.find((record) => record.id === entry.recordId) ?? null;
+
+  // Someone else changed or removed the record since this device last saw it
+  if (entry.base) {
+    const changedRemotely = !isSameValue(remoteRecord, entry.base);
+    const alreadyApplied =
+      entry.operation === 'put' ? isSameValue(remoteRecord, entry.record) : remoteRecord === null;
+    if (changedRemotely && !alreadyApplied) {
+      return 'edit';
+    }
+  }
+
+  // New movements that take out more than the shared stock has at their location
+  if (entry.collection === 'transactions' && entry.operation === 'put' && !entry.base) {
+    const transaction = entry.record as InventoryTransaction;
+    const delta = getStockDelta(transaction);
+    if (delta < 0) {
+      const locationId = getTransactionLocationId(transaction);
+      const stock = ((remoteRecords ?? []) as InventoryTransaction[])
+        .filter((t) => t.productId === transaction.productId && isAtLocation(t, locationId))
+        .reduce((sum, t) => sum + getStockDelta(t), 0);
+      if (stock + delta < 0) {
+        return 'overdraw';
+      }
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,100 @@
+import { ref, runTransaction } from 'firebase/database';
+import { database } from '../firebase';
+
+// Store-wide numbering, under `stores/<storeId>/counters/<sequence>`
+export type FolioSequence = 'sales' | 'purchase_orders' | 'transfers' | 'count_sessions';
+
+// Folios this device reserved and has not used yet: `next` up to `last`
+interface FolioBlock {
+  next: number;
+  last: number;
+}
+
+const getBlockKey = (storeId: string, sequence: FolioSequence) => `inventory_folios_${storeId}_${sequence}`;
+
+const readBlock = (storeId: string, sequence: FolioSequence): FolioBlock | null => {
+  const saved = localStorage.getItem(getBlockKey(storeId, sequence));
+  return saved ? (JSON.parse(saved) as FolioBlock) : null;
+};
+
+const saveBlock = (storeId: string, sequence: FolioSequence, block: FolioBlock) => {
+  if (block.next > block.last) {
+    localStorage.removeItem(getBlockKey(storeId, sequence));
+  } else {
+    localStorage.setItem(getBlockKey(storeId, sequence), JSON.stringify(block));
+  }
+};
+
+// Next folio of a block reserved earlier, or null when there is none left.
+// Works offline.
+export const takeReservedFolio = (storeId: string, sequence: FolioSequence): number | null => {
+  const block = readBlock(storeId, sequence);
+  if (!block || block.next > block.last) {
+    return null;
+  }
+  saveBlock(storeId, sequence, { ...block, next: block.next + 1 });
+  return block.next;
+};
+
+/**
+ * Reserves `count` consecutive folios on the shared counter and returns the
+ * first one; the rest are kept on this device for later, so it can keep
+ * numbering while offline. The counter is advanced in a Realtime Database
+ * transaction, which only commits on the server, so two devices never get
+ * the same folio. `floor` is the highest folio already in use, for stores
+ * that numbered their records before the counter existed. Returns null if
+ * the transaction was aborted.
+ */
+export const reserveFolios = async (
+  storeId: string,
+  sequence: FolioSequence,
+  floor: number,
+  count: number
+): Promise<number | null> => {
+  const result = await runTransaction(
+    ref(database, `stores/${storeId}/counters/${sequence}`),
+    (current: number | null) => Math.max(current ?? 0, floor) + count,
+    { applyLocally: false }
+  );
+  if (!result.committed) {
+    return null;
+  }
+
+  const last = result.snapshot.val() as number;
+  const first = last - count + 1;
+  saveBlock(storeId, sequence, { next: first + 1, last });
+  return first;
+};
+
+// Invoice folios are fiscal: taken one at a time on the server, never ahead
+export const takeInvoiceFolio = async (storeId: string, floor: number): Promise<number | null> => {
+  const result = await runTransaction(
+    ref(database, `stores/${storeId}/counters/invoices`),
+    (current: number | null) => Math.max(current ?? 0, floor) + 1,
+    { applyLocally: false }
+  );
+  return result.committed ? (result.snapshot.val() as number) : null;
+};
+
+/**
+ * Marks the sale as invoiced under `stores/<storeId>/invoice_claims/<saleId>`.
+ * Like the counters, the claim only commits on the server, so a sale that
+ * another device is invoicing at the same time returns false.
+ */
+export const claimSaleInvoice = async (storeId: string, saleId: string, invoiceId: string): Promise<boolean> => {
+  const result = await runTransaction(
+    ref(database, `stores/${storeId}/invoice_claims/${saleId}`),
+    (current: string | null) => (current === null ? invoiceId : undefined),
+    { applyLocally: false }
+  );
+  return result.committed;
+};
+
+// Frees the sale when its draft is deleted, unless another invoice claimed it
+export const releaseSaleInvoice = async (storeId: string, saleId: string, invoiceId: string) => {
+  await runTransaction(
+    ref(database, `stores/${storeId}/invoice_claims/${saleId}`),
+    (current: string | null) => (current === null || current === invoiceId ? null : undefined),
+    { applyLocally: false }
+  );
+};
@@ -0,0 +1,76 @@
+import { ref, onValue, update } from 'firebase/database';
+import { database } from '../firebase';
+import { CollectionName, RemoteCollection, StoredRecord } from './types';
+
+// Same shape as the IndexedDB entries: the position keeps the capture order
+interface RemoteEntry<T> {
+  position: number;
+  record: T;
+}
+
+// The user's default store, else the one shared through VITE_STORE_ID, else their own
+export const getStoreId = (userId: string, defaultStoreId?: string): string =>
+  defaultStoreId || import.meta.env.VITE_STORE_ID || userId;
+
+export const isSyncEnabled = () => import.meta.env.VITE_DISABLE_SYNC !== 'true';
+
+// Members, invitations and roles only make sense for a store chosen explicitly
+export const isSharedStore = (defaultStoreId?: string) =>
+  isSyncEnabled() && Boolean(defaultStoreId || import.meta.env.VITE_STORE_ID);
+
+// Client clock plus a counter, so records created in the same millisecond keep their order
+let sequence = 0;
+const nextPosition = () => Date.now() * 1000 + sequence++;
+
+// Realtime Database rejects undefined values
+const toRemote = <T>(record: T): T => JSON.parse(JSON.stringify(record));
+
+/**
+ * A collection under `stores/<storeId>/<collection>/<recordId>` in Realtime
+ * Database. New records get a position when first written; updates only
+ * replace the record so its place is kept.
+ */
+export const createFirebaseCollection = <T extends StoredRecord>(
+  storeId: string,
+  collection: CollectionName
+): RemoteCollection<T> => {
+  const collectionRef = ref(database, `stores/${storeId}/${collection}`);
+  const knownIds = new Set<string>();
+
+  return {
+    subscribe: (onChange, onError) =>
+      onValue(
+        collectionRef,
+        (snapshot) => {
+          const value = snapshot.val() as Record<string, RemoteEntry<T>> | null;
+          knownIds.clear();
+          if (!value) {
+            onChange(null);
+            return;
+          }
+
+          const entries = Object.values(value).sort((a, b) => a.position - b.position);
+          entries.forEach((entry) => knownIds.add(entry.record.id));
+          onChange(entries.map((entry) => entry.record));
+        },
+        onError
+      ),
+
+    save: (changed, removedIds) => {
+      const updates: Record<string, unknown> = {};
+      for (const record of changed) {
+        if (knownIds.has(record.id)) {
+          updates[`${record.id}/record`] = toRemote(record);
+        } else {
+          updates[record.id] = { position: nextPosition(), record: toRemote(record) };
+          knownIds.add(record.id);
+        }
+      }
+      removedIds.forEach((id) => {
+        updates[id] = null;
+        knownIds.delete(id);
+      });
+      return update(collectionRef, updates);
+    },
+  };
+};
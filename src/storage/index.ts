@@ -0,0 +1,26 @@
+export * from './types';
+export { getStorageAdapter, setStorageAdapter } from './adapter';
+export { usePersistentCollection } from './usePersistentCollection';
+export { StorageScopeContext, useStorageScope } from './scope';
+export type { StorageScope } from './scope';
+export { createFirebaseCollection, getStoreId, isSharedStore, isSyncEnabled } from './firebaseSync';
+export {
+  canJoinStore,
+  getEmailKey,
+  joinStore,
+  removeInvitation,
+  saveInvitation,
+  setOpenRegistration,
+  subscribeInvitations,
+  subscribeMember,
+  subscribeMembers,
+  subscribeOpenRegistration,
+  updateMember,
+} from './members';
+export type { JoiningUser, StoreInvitation, StoreMember } from './members';
+export { getCachedProfile, saveProfile, subscribeProfile } from './profiles';
+export type { UserProfile } from './profiles';
+export { claimSaleInvoice, releaseSaleInvoice, reserveFolios, takeInvoiceFolio, takeReservedFolio } from './counters';
+export type { FolioSequence } from './counters';
+export { createOfflineSync } from './offlineSync';
+export type { OfflineSync, SyncStatus } from './offlineSync';
@@ -0,0 +1,173 @@
+import type { InventoryTransaction } from '../contexts/InventoryContext';
+import { getLegacyKey } from './localStorageAdapter';
+import { COLLECTIONS, CollectionName, StorageAdapter, StoredRecord, TransactionQuery } from './types';
+
+const DB_NAME = 'minisuper-inventory';
+const DB_VERSION = 6;
+const META_STORE = 'meta';
+const MIGRATION_KEY = 'localStorageMigration';
+
+// Records are wrapped so the capture order survives: same-day movements are
+// valued in the order they were registered
+interface StoredEntry<T> {
+  id: string;
+  position: number;
+  record: T;
+}
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// The device's own data keeps the original database; each synced store gets its own
+const getDatabaseName = (storeId: string | null) => (storeId === null ? DB_NAME : `${DB_NAME}-${storeId}`);
+
+const openDatabase = (name: string) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      // Later versions only add collections, so create whatever is missing
+      for (const collection of COLLECTIONS) {
+        if (db.objectStoreNames.contains(collection)) {
+          continue;
+        }
+        const store = db.createObjectStore(collection, { keyPath: 'id' });
+        store.createIndex('position', 'position');
+        if (collection === 'transactions') {
+          store.createIndex('productId', 'record.productId');
+          store.createIndex('date', 'record.date');
+          store.createIndex('productId_date', ['record.productId', 'record.date']);
+        }
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: 'key' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Copies the old `inventory_*` localStorage arrays once, then removes them
+const migrateLocalStorage = async (db: IDBDatabase) => {
+  const meta = db.transaction(META_STORE).objectStore(META_STORE);
+  if (await promisify(meta.get(MIGRATION_KEY))) {
+    return;
+  }
+
+  const transaction = db.transaction([...COLLECTIONS, META_STORE], 'readwrite');
+  for (const collection of COLLECTIONS) {
+    const saved = localStorage.getItem(getLegacyKey(collection));
+    if (!saved) {
+      continue;
+    }
+    const store = transaction.objectStore(collection);
+    (JSON.parse(saved) as StoredRecord[]).forEach((record, position) => {
+      store.put({ id: record.id, position, record });
+    });
+    transaction.objectStore(META_STORE).put({ key: collection });
+  }
+  transaction.objectStore(META_STORE).put({ key: MIGRATION_KEY, completedAt: new Date().toISOString() });
+  await transactionDone(transaction);
+
+  // Only drop the old keys once everything is safely in IndexedDB
+  COLLECTIONS.forEach((collection) => localStorage.removeItem(getLegacyKey(collection)));
+};
+
+export const createIndexedDbAdapter = (storeId: string | null = null): StorageAdapter => {
+  // The old localStorage data belongs to the device, not to any synced store
+  const ready = openDatabase(getDatabaseName(storeId)).then(async (db) => {
+    if (storeId === null) {
+      await migrateLocalStorage(db);
+    }
+    return db;
+  });
+
+  // Next free position per collection, read once from the highest stored one
+  const nextPositions = new Map<CollectionName, Promise<{ value: number }>>();
+  const getNextPosition = (db: IDBDatabase, collection: CollectionName) => {
+    let next = nextPositions.get(collection);
+    if (!next) {
+      const index = db.transaction(collection).objectStore(collection).index('position');
+      next = promisify(index.openCursor(null, 'prev')).then((cursor) => ({
+        value: cursor ? (cursor.value as StoredEntry<StoredRecord>).position + 1 : 0,
+      }));
+      nextPositions.set(collection, next);
+    }
+    return next;
+  };
+
+  const readEntries = async <T>(request: IDBRequest<StoredEntry<T>[]>) =>
+    (await promisify(request))
+      .sort((a, b) => a.position - b.position)
+      .map((entry) => entry.record);
+
+  return {
+    getAll: async <T extends StoredRecord>(collection: CollectionName) => {
+      const db = await ready;
+      const transaction = db.transaction([collection, META_STORE]);
+      const [records, initialized] = await Promise.all([
+        readEntries<T>(transaction.objectStore(collection).index('position').getAll()),
+        promisify(transaction.objectStore(META_STORE).get(collection)),
+      ]);
+      return initialized || records.length > 0 ? records : null;
+    },
+
+    save: async <T extends StoredRecord>(collection: CollectionName, changed: T[], removedIds: string[]) => {
+      const db = await ready;
+      const position = await getNextPosition(db, collection);
+
+      const transaction = db.transaction([collection, META_STORE], 'readwrite');
+      const store = transaction.objectStore(collection);
+      for (const record of changed) {
+        // Updated records keep their place, new ones go at the end
+        const existing = store.get(record.id);
+        existing.onsuccess = () => {
+          const entry = existing.result as StoredEntry<T> | undefined;
+          store.put({ id: record.id, position: entry ? entry.position : position.value++, record });
+        };
+      }
+      removedIds.forEach((id) => store.delete(id));
+      transaction.objectStore(META_STORE).put({ key: collection });
+
+      await transactionDone(transaction);
+    },
+
+    queryTransactions: async ({ productId, startDate, endDate }: TransactionQuery) => {
+      const db = await ready;
+      const store = db.transaction('transactions').objectStore('transactions');
+      const lower = startDate ?? '';
+      const upper = endDate ?? '\uffff';
+      // An empty range, which IDBKeyRange would reject
+      if (lower > upper) {
+        return [];
+      }
+
+      let request: IDBRequest<StoredEntry<InventoryTransaction>[]>;
+      if (productId && (startDate || endDate)) {
+        request = store
+          .index('productId_date')
+          .getAll(IDBKeyRange.bound([productId, lower], [productId, upper]));
+      } else if (productId) {
+        request = store.index('productId').getAll(productId);
+      } else if (startDate || endDate) {
+        request = store.index('date').getAll(IDBKeyRange.bound(lower, upper));
+      } else {
+        request = store.getAll();
+      }
+
+      return readEntries(request);
+    },
+  };
+};
@@ -0,0 +1,37 @@
+import type { InventoryTransaction } from '../contexts/InventoryContext';
+import { CollectionName, StorageAdapter, StoredRecord, TransactionQuery } from './types';
+
+export const getLegacyKey = (collection: CollectionName) => `inventory_${collection}`;
+
+// A synced store's collections go under their own prefix
+const getKey = (storeId: string | null, collection: CollectionName) =>
+  storeId === null ? getLegacyKey(collection) : `inventory_${storeId}_${collection}`;
+
+const read = <T>(storeId: string | null, collection: CollectionName): T[] | null => {
+  const saved = localStorage.getItem(getKey(storeId, collection));
+  return saved ? JSON.parse(saved) : null;
+};
+
+export const matchesTransactionQuery = (
+  transaction: InventoryTransaction,
+  { productId, startDate, endDate }: TransactionQuery
+) =>
+  (!productId || transaction.productId === productId) &&
+  (!startDate || transaction.date >= startDate) &&
+  (!endDate || transaction.date <= endDate);
+
+// Fallback for browsers without IndexedDB (e.g. some private modes). Keeps the
+// original format: one JSON array per collection.
+export const createLocalStorageAdapter = (storeId: string | null = null): StorageAdapter => ({
+  getAll: async <T extends StoredRecord>(collection: CollectionName) => read<T>(storeId, collection),
+
+  save: async <T extends StoredRecord>(collection: CollectionName, changed: T[], removedIds: string[]) => {
+    const records = new Map((read<T>(storeId, collection) ?? []).map((record) => [record.id, record]));
+    removedIds.forEach((id) => records.delete(id));
+    changed.forEach((record) => records.set(record.id, record));
+    localStorage.setItem(getKey(storeId, collection), JSON.stringify([...records.values()]));
+  },
+
+  queryTransactions: async (query) =>
+    (read<InventoryTransaction>(storeId, 'transactions') ?? []).filter((t) => matchesTransactionQuery(t, query)),
+});
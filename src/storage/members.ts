@@ -0,0 +1,161 @@
+import { ref, get, onValue, update, set } from 'firebase/database';
+import { database } from '../firebase';
+import type { Role } from '../utils/permissions';
+
+// A user of a store, under `stores/<storeId>/members/<uid>`
+export interface StoreMember {
+  uid: string;
+  email: string;
+  name: string;
+  role?: Role; // Missing until the owner assigns one
+  disabled?: boolean;
+  joinedAt: string;
+  lastLoginAt?: string;
+}
+
+// Pending access for an email, under `stores/<storeId>/invitations/<emailKey>`
+export interface StoreInvitation {
+  email: string;
+  role: Role;
+  invitedBy: string;
+  invitedAt: string;
+}
+
+export interface JoiningUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+// Realtime Database keys cannot contain dots
+export const getEmailKey = (email: string) => email.trim().toLowerCase().replace(/\./g, ',');
+
+const getStorePath = (storeId: string) => `stores/${storeId}`;
+
+const subscribeList = <T>(
+  path: string,
+  onChange: (items: T[]) => void,
+  onError: (error: Error) => void
+) =>
+  onValue(
+    ref(database, path),
+    (snapshot) => onChange(Object.values((snapshot.val() ?? {}) as Record<string, T>)),
+    onError
+  );
+
+export const subscribeMember = (
+  storeId: string,
+  uid: string,
+  onChange: (member: StoreMember | null) => void,
+  onError: (error: Error) => void
+) =>
+  onValue(
+    ref(database, `${getStorePath(storeId)}/members/${uid}`),
+    (snapshot) => onChange(snapshot.val() as StoreMember | null),
+    onError
+  );
+
+export const subscribeMembers = (
+  storeId: string,
+  onChange: (members: StoreMember[]) => void,
+  onError: (error: Error) => void
+) => subscribeList(`${getStorePath(storeId)}/members`, onChange, onError);
+
+export const subscribeInvitations = (
+  storeId: string,
+  onChange: (invitations: StoreInvitation[]) => void,
+  onError: (error: Error) => void
+) => subscribeList(`${getStorePath(storeId)}/invitations`, onChange, onError);
+
+// Open unless the owner turned it off
+export const subscribeOpenRegistration = (
+  storeId: string,
+  onChange: (open: boolean) => void,
+  onError: (error: Error) => void
+) =>
+  onValue(
+    ref(database, `${getStorePath(storeId)}/settings/openRegistration`),
+    (snapshot) => onChange(snapshot.val() !== false),
+    onError
+  );
+
+/**
+ * Whether the email may join the store: it has an invitation, or the store
+ * accepts anyone. Only reads, so it can be checked before the email is
+ * verified; joining itself needs a verified email.
+ */
+export const canJoinStore = async (storeId: string, email: string): Promise<boolean> => {
+  const storePath = getStorePath(storeId);
+  const invitation = await get(ref(database, `${storePath}/invitations/${getEmailKey(email)}`));
+  if (invitation.exists()) {
+    return true;
+  }
+  const openRegistration = await get(ref(database, `${storePath}/settings/openRegistration`));
+  return openRegistration.val() !== false;
+};
+
+/**
+ * Records a sign-in to the store. The first time, the user becomes a member:
+ * with the role of their invitation if there is one, which is then used up,
+ * or without a role while registration is open. Returns false when the store
+ * only accepts invited emails and there is no invitation. The database rules
+ * only let a verified email become a member.
+ */
+export const joinStore = async (storeId: string, user: JoiningUser): Promise<boolean> => {
+  const storePath = getStorePath(storeId);
+  const memberPath = `${storePath}/members/${user.id}`;
+  const now = new Date().toISOString();
+
+  const existing = await get(ref(database, memberPath));
+  if (existing.exists()) {
+    await update(ref(database, memberPath), { lastLoginAt: now });
+    return true;
+  }
+
+  const member: StoreMember = {
+    uid: user.id,
+    email: user.email,
+    name: user.name,
+    joinedAt: now,
+    lastLoginAt: now,
+  };
+
+  // The store's own account is always its owner
+  if (user.id === storeId) {
+    await set(ref(database, memberPath), { ...member, role: 'owner' });
+    return true;
+  }
+
+  const invitationPath = `${storePath}/invitations/${getEmailKey(user.email)}`;
+  const invitation = await get(ref(database, invitationPath));
+  if (invitation.exists()) {
+    const { role } = invitation.val() as StoreInvitation;
+    await update(ref(database), {
+      [memberPath]: { ...member, role },
+      [invitationPath]: null,
+    });
+    return true;
+  }
+
+  const openRegistration = await get(ref(database, `${storePath}/settings/openRegistration`));
+  if (openRegistration.val() === false) {
+    return false;
+  }
+  await set(ref(database, memberPath), member);
+  return true;
+};
+
+export const saveInvitation = (storeId: string, invitation: StoreInvitation) =>
+  set(ref(database, `${getStorePath(storeId)}/invitations/${getEmailKey(invitation.email)}`), invitation);
+
+export const removeInvitation = (storeId: string, email: string) =>
+  set(ref(database, `${getStorePath(storeId)}/invitations/${getEmailKey(email)}`), null);
+
+export const updateMember = (
+  storeId: string,
+  uid: string,
+  changes: Partial<Pick<StoreMember, 'name' | 'role' | 'disabled'>>
+) => update(ref(database, `${getStorePath(storeId)}/members/${uid}`), changes);
+
+export const setOpenRegistration = (storeId: string, open: boolean) =>
+  set(ref(database, `${getStorePath(storeId)}/settings/openRegistration`), open);
@@ -0,0 +1,314 @@
+import { ref, onValue } from 'firebase/database';
+import { v4 as uuidv4 } from 'uuid';
+import { database } from '../firebase';
+import type { InventoryTransaction } from '../contexts/InventoryContext';
+import type { Sale } from '../contexts/SalesContext';
+import { getStorageAdapter } from './adapter';
+import { detectConflict } from './conflicts';
+import { createFirebaseCollection } from './firebaseSync';
+import { CollectionName, OutboxEntry, RemoteCollection, StoredRecord, SyncConflict } from './types';
+
+export interface SyncStatus {
+  isOnline: boolean;
+  pending: OutboxEntry[];
+  conflicts: SyncConflict[];
+}
+
+export interface OfflineSync {
+  storeId: string;
+  collection: <T extends StoredRecord>(name: CollectionName) => RemoteCollection<T>;
+  onStatusChange: (listener: (status: SyncStatus) => void) => () => void;
+  // False when the conflict was already resolved
+  resolveConflict: (id: string, keep: 'local' | 'remote') => Promise<boolean>;
+  dispose: () => void;
+}
+
+interface CollectionState {
+  remote: RemoteCollection<StoredRecord>;
+  remoteLoaded: boolean;
+  // Latest remote records; null when the collection was never written
+  remoteRecords: StoredRecord[] | null;
+  // What subscribers last saw, the base for new local changes
+  localView: Map<string, StoredRecord>;
+  listeners: Set<(records: StoredRecord[] | null) => void>;
+  unsubscribe: (() => void) | null;
+}
+
+const applyEntry = (records: StoredRecord[], entry: OutboxEntry) => {
+  const index = records.findIndex((record) => record.id === entry.recordId);
+  if (entry.operation === 'delete') {
+    if (index >= 0) {
+      records.splice(index, 1);
+    }
+  } else if (index >= 0) {
+    records[index] = entry.record!;
+  } else {
+    records.push(entry.record!);
+  }
+};
+
+/**
+ * Wraps the Realtime Database collections of a store with a durable outbox.
+ * Local changes are queued in IndexedDB and replayed in order while the
+ * database is reachable; until then subscribers see the remote data with
+ * the pending changes applied on top.
+ *
+ * Before replaying, each change is checked against the current remote data.
+ * An edit whose record was changed by someone else in the meantime, or a new
+ * exit that would leave the remote stock negative, is set aside as a
+ * conflict for review instead of being written.
+ */
+export const createOfflineSync = (storeId: string): OfflineSync => {
+  const storage = getStorageAdapter();
+  const collections = new Map<CollectionName, CollectionState>();
+  const statusListeners = new Set<(status: SyncStatus) => void>();
+  let outbox: OutboxEntry[] = [];
+  let conflicts: SyncConflict[] = [];
+  let isOnline = false;
+  let isFlushing = false;
+  let disposed = false;
+
+  const notify = () => {
+    const status = { isOnline, pending: outbox, conflicts };
+    statusListeners.forEach((listener) => listener(status));
+  };
+
+  // The outbox is shared by every store that used this browser; only this store's entries are used
+  const loaded = Promise.all([
+    storage.getAll<OutboxEntry>('outbox'),
+    storage.getAll<SyncConflict>('sync_conflicts'),
+  ]).then(([savedOutbox, savedConflicts]) => {
+    outbox = (savedOutbox ?? []).filter((entry) => entry.storeId === storeId);
+    conflicts = (savedConflicts ?? []).filter((conflict) => conflict.entry.storeId === storeId);
+    notify();
+  });
+
+  const getState = (name: CollectionName): CollectionState => {
+    let state = collections.get(name);
+    if (!state) {
+      state = {
+        remote: createFirebaseCollection(storeId, name),
+        remoteLoaded: false,
+        remoteRecords: null,
+        localView: new Map(),
+        listeners: new Set(),
+        unsubscribe: null,
+      };
+      collections.set(name, state);
+    }
+    return state;
+  };
+
+  const deliver = (name: CollectionName) => {
+    const state = collections.get(name);
+    if (!state || !state.remoteLoaded || disposed) {
+      return;
+    }
+
+    const pending = outbox.filter((entry) => entry.collection === name);
+    let view: StoredRecord[] | null = null;
+    if (state.remoteRecords !== null || pending.length > 0) {
+      view = [...(state.remoteRecords ?? [])];
+      pending.forEach((entry) => applyEntry(view!, entry));
+    }
+
+    state.localView = new Map((view ?? []).map((record) => [record.id, record]));
+    state.listeners.forEach((listener) => listener(view));
+  };
+
+  const flush = async () => {
+    if (isFlushing || !isOnline || disposed) {
+      return;
+    }
+    isFlushing = true;
+
+    try {
+      while (isOnline && !disposed) {
+        // Oldest change whose collection has remote data to check against
+        const entry = outbox.find((e) => collections.get(e.collection)?.remoteLoaded);
+        if (!entry) {
+          break;
+        }
+        const state = collections.get(entry.collection)!;
+
+        const kind = entry.force ? null : detectConflict(entry, state.remoteRecords);
+        if (kind) {
+          const conflict: SyncConflict = {
+            id: uuidv4(),
+            kind,
+            entry,
+            remote: state.remoteRecords?.find((record) => record.id === entry.recordId) ?? null,
+            detectedAt: new Date().toISOString(),
+          };
+          conflicts = [...conflicts, conflict];
+          await storage.save('sync_conflicts', [conflict], []);
+        } else {
+          if (entry.operation === 'put') {
+            await state.remote.save([entry.record!], []);
+          } else {
+            await state.remote.save([], [entry.recordId]);
+          }
+          // So the next checks see it before the snapshot comes back
+          state.remoteRecords = [...(state.remoteRecords ?? [])];
+          applyEntry(state.remoteRecords, entry);
+        }
+
+        outbox = outbox.filter((e) => e.id !== entry.id);
+        await storage.save('outbox', [], [entry.id]);
+        notify();
+        if (kind) {
+          deliver(entry.collection);
+        }
+      }
+    } catch (error) {
+      console.error('Could not replay the outbox', error);
+    } finally {
+      isFlushing = false;
+    }
+  };
+
+  const enqueue = async (entries: OutboxEntry[]) => {
+    outbox = [...outbox, ...entries];
+    await storage.save('outbox', entries, []);
+    notify();
+    flush();
+  };
+
+  const unsubscribeConnection = onValue(ref(database, '.info/connected'), (snapshot) => {
+    isOnline = snapshot.val() === true;
+    notify();
+    if (isOnline) {
+      loaded.then(flush);
+    }
+  });
+
+  const collection = <T extends StoredRecord>(name: CollectionName): RemoteCollection<T> => {
+    const state = getState(name);
+
+    return {
+      subscribe: (onChange, onError) => {
+        const listener = onChange as (records: StoredRecord[] | null) => void;
+        state.listeners.add(listener);
+
+        if (!state.unsubscribe) {
+          state.unsubscribe = state.remote.subscribe((records) => {
+            state.remoteLoaded = true;
+            state.remoteRecords = records;
+            loaded.then(() => {
+              deliver(name);
+              flush();
+            });
+          }, onError);
+        } else if (state.remoteLoaded) {
+          loaded.then(() => deliver(name));
+        }
+
+        return () => {
+          state.listeners.delete(listener);
+          if (state.listeners.size === 0 && state.unsubscribe) {
+            state.unsubscribe();
+            state.unsubscribe = null;
+            state.remoteLoaded = false;
+          }
+        };
+      },
+
+      save: async (changed, removedIds) => {
+        await loaded;
+        const createdAt = new Date().toISOString();
+        const entries: OutboxEntry[] = [
+          ...changed.map((record) => ({ recordId: record.id, operation: 'put' as const, record })),
+          ...removedIds.map((id) => ({ recordId: id, operation: 'delete' as const, record: null })),
+        ].map((change) => ({
+          ...change,
+          id: uuidv4(),
+          storeId,
+          collection: name,
+          base: state.localView.get(change.recordId) ?? null,
+          createdAt,
+        }));
+
+        entries.forEach((entry) => {
+          if (entry.record) {
+            state.localView.set(entry.recordId, entry.record);
+          } else {
+            state.localView.delete(entry.recordId);
+          }
+        });
+
+        await enqueue(entries);
+      },
+    };
+  };
+
+  const instances = new Map<CollectionName, RemoteCollection<StoredRecord>>();
+
+  // The sale keeps its ticket but records which exits never reached the stock
+  const flagSale = async (transaction: InventoryTransaction) => {
+    const sale = transaction.saleId ? (getState('sales').localView.get(transaction.saleId) as Sale | undefined) : undefined;
+    if (!sale) {
+      return;
+    }
+    const flagged: Sale = {
+      ...sale,
+      discardedProductIds: [...new Set([...(sale.discardedProductIds ?? []), transaction.productId])],
+    };
+    await collection<Sale>('sales').save([flagged], []);
+  };
+
+  // Keeping the local version queues it again without the checks; keeping the
+  // remote one drops it and shows the remote data again. Dropping a sale's
+  // exit also flags the sale, which was not fully posted.
+  const resolveConflict = async (id: string, keep: 'local' | 'remote') => {
+    await loaded;
+    const conflict = conflicts.find((c) => c.id === id);
+    if (!conflict) {
+      return false;
+    }
+
+    conflicts = conflicts.filter((c) => c.id !== id);
+    await storage.save('sync_conflicts', [], [id]);
+
+    if (keep === 'local') {
+      await enqueue([
+        { ...conflict.entry, id: uuidv4(), force: true, createdAt: new Date().toISOString() },
+      ]);
+    } else {
+      if (conflict.kind === 'overdraw') {
+        await flagSale(conflict.entry.record as InventoryTransaction);
+      }
+      notify();
+    }
+    deliver(conflict.entry.collection);
+    return true;
+  };
+
+  return {
+    storeId,
+
+    // One instance per collection, so callers can use it as a stable dependency
+    collection: <T extends StoredRecord>(name: CollectionName) => {
+      if (!instances.has(name)) {
+        instances.set(name, collection<StoredRecord>(name));
+      }
+      return instances.get(name) as unknown as RemoteCollection<T>;
+    },
+
+    onStatusChange: (listener) => {
+      statusListeners.add(listener);
+      listener({ isOnline, pending: outbox, conflicts });
+      return () => {
+        statusListeners.delete(listener);
+      };
+    },
+
+    resolveConflict,
+
+    dispose: () => {
+      disposed = true;
+      unsubscribeConnection();
+      collections.forEach((state) => state.unsubscribe?.());
+      statusListeners.clear();
+    },
+  };
+};
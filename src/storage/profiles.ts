@@ -0,0 +1,60 @@
+import { ref, onValue, set } from 'firebase/database';
+import { database } from '../firebase';
+import type { Language } from '../contexts/LanguageContext';
+import { isSyncEnabled } from './firebaseSync';
+
+// What a user tells about themselves, under `users/<uid>/profile`
+export interface UserProfile {
+  displayName: string;
+  phone: string;
+  language: Language;
+  defaultStoreId: string; // Empty for the store given by VITE_STORE_ID or their own
+}
+
+// Last known profile, so the app starts offline with the right name and store
+const getCacheKey = (uid: string) => `inventory_profile_${uid}`;
+
+export const getCachedProfile = (uid: string): UserProfile | null => {
+  const cached = localStorage.getItem(getCacheKey(uid));
+  return cached ? (JSON.parse(cached) as UserProfile) : null;
+};
+
+const cacheProfile = (uid: string, profile: UserProfile | null) => {
+  if (profile) {
+    localStorage.setItem(getCacheKey(uid), JSON.stringify(profile));
+  } else {
+    localStorage.removeItem(getCacheKey(uid));
+  }
+};
+
+/**
+ * Live profile of a user; null when it was never saved. Without sync the
+ * profile only lives in this browser.
+ */
+export const subscribeProfile = (
+  uid: string,
+  onChange: (profile: UserProfile | null) => void,
+  onError: (error: Error) => void
+): (() => void) => {
+  if (!isSyncEnabled()) {
+    onChange(getCachedProfile(uid));
+    return () => {};
+  }
+
+  return onValue(
+    ref(database, `users/${uid}/profile`),
+    (snapshot) => {
+      const profile = snapshot.val() as UserProfile | null;
+      cacheProfile(uid, profile);
+      onChange(profile);
+    },
+    onError
+  );
+};
+
+export const saveProfile = async (uid: string, profile: UserProfile) => {
+  cacheProfile(uid, profile);
+  if (isSyncEnabled()) {
+    await set(ref(database, `users/${uid}/profile`), profile);
+  }
+};
@@ -0,0 +1,29 @@
+import { StoredRecord } from './types';
+
+// Deep comparison that ignores key order and undefined values, since records
+// coming back from a remote store are rebuilt with their keys sorted
+export const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  return [...keys].every((key) => isSameValue(left[key], right[key]));
+};
+
+// Records that are new or were replaced (by reference), and ids that are gone
+export const diffRecords = <T extends StoredRecord>(previous: T[], records: T[]) => {
+  const previousById = new Map(previous.map((record) => [record.id, record]));
+  const currentIds = new Set(records.map((record) => record.id));
+  return {
+    changed: records.filter((record) => previousById.get(record.id) !== record),
+    removedIds: previous.filter((record) => !currentIds.has(record.id)).map((record) => record.id),
+  };
+};
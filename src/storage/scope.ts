@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+
+// Whose local copy the collections read and write: a synced store, or the
+// device's own data (storeId null) when sync is off
+export interface StorageScope {
+  storeId: string | null;
+}
+
+// null while nobody is signed in to a synced store: nothing is loaded then,
+// so the previous user's store is never shown or uploaded anywhere else
+export const StorageScopeContext = createContext<StorageScope | null>({ storeId: null });
+
+export const useStorageScope = () => useContext(StorageScopeContext);
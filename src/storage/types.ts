@@ -0,0 +1,75 @@
+import type { InventoryTransaction } from '../contexts/InventoryContext';
+
+// Every persisted collection; the legacy localStorage key is `inventory_<name>`
+export const COLLECTIONS = [
+  'categories',
+  'products',
+  'transactions',
+  'periods',
+  'suppliers',
+  'purchase_orders',
+  'sales',
+  'count_sessions',
+  'audit_log',
+  'locations',
+  'transfers',
+  'exchange_rates',
+  'invoices',
+  'outbox',
+  'sync_conflicts',
+] as const;
+
+export type CollectionName = (typeof COLLECTIONS)[number];
+
+export interface StoredRecord {
+  id: string;
+}
+
+export interface TransactionQuery {
+  productId?: string;
+  startDate?: string; // Inclusive, 'YYYY-MM-DD'
+  endDate?: string; // Inclusive, 'YYYY-MM-DD'
+}
+
+export interface StorageAdapter {
+  // null when the collection has never been written, so callers can seed it
+  getAll: <T extends StoredRecord>(collection: CollectionName) => Promise<T[] | null>;
+  // Upserts the changed records and deletes the removed ids in one write
+  save: <T extends StoredRecord>(
+    collection: CollectionName,
+    changed: T[],
+    removedIds: string[]
+  ) => Promise<void>;
+  queryTransactions: (query: TransactionQuery) => Promise<InventoryTransaction[]>;
+}
+
+// Copy of a collection shared with other devices, e.g. in Realtime Database
+export interface RemoteCollection<T extends StoredRecord> {
+  // Called with the whole collection on every change; null when it was never written
+  subscribe: (onChange: (records: T[] | null) => void, onError: (error: Error) => void) => () => void;
+  save: (changed: T[], removedIds: string[]) => Promise<void>;
+}
+
+// A local change waiting to be written to the remote collection
+export interface OutboxEntry extends StoredRecord {
+  storeId: string;
+  collection: CollectionName;
+  recordId: string;
+  operation: 'put' | 'delete';
+  record: StoredRecord | null;
+  // The version the change was made on, to detect concurrent edits
+  base: StoredRecord | null;
+  // Skips the conflict checks, for changes confirmed in the review screen
+  force?: boolean;
+  createdAt: string;
+}
+
+export type SyncConflictKind = 'edit' | 'overdraw';
+
+// A queued change that could not be replayed as is and waits for review
+export interface SyncConflict extends StoredRecord {
+  kind: SyncConflictKind;
+  entry: OutboxEntry;
+  remote: StoredRecord | null;
+  detectedAt: string;
+}
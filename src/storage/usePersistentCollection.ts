@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from 'react';
+import { getStorageAdapter } from './adapter';
+import { isSameValue, diffRecords } from './records';
+import { useStorageScope } from './scope';
+import { CollectionName, RemoteCollection, StoredRecord } from './types';
+
+/**
+ * State for one persisted collection. Loads it from the storage adapter of
+ * the current scope on mount (falling back to `seed` when it was never
+ * saved) and afterwards writes only the records that changed or were
+ * removed, compared by reference with what was last persisted. Updates must
+ * therefore replace changed records instead of mutating them, as the
+ * contexts already do. Switching stores reloads from that store's copy;
+ * without a scope (signed out of a synced store) the collection is empty.
+ *
+ * With a `remote` collection, local changes are also written there and its
+ * live updates replace the local state, which then serves as a cache. The
+ * seed only applies to a remote collection that was never written, i.e. a
+ * brand-new store; nothing else cached locally is uploaded on its own.
+ */
+export const usePersistentCollection = <T extends StoredRecord>(
+  collection: CollectionName,
+  seed?: T[],
+  remote?: RemoteCollection<T> | null
+) => {
+  const scope = useStorageScope();
+  const isScoped = scope !== null;
+  const storeId = scope?.storeId ?? null;
+  const [records, setRecords] = useState<T[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // What the storage holds right now; null until loaded, so nothing is written before that
+  const persisted = useRef<T[] | null>(null);
+  // Whether the collection is synced, without reloading when the remote instance changes
+  const hasRemote = Boolean(remote);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Nothing from the previous scope is shown or written while this one loads
+    persisted.current = null;
+    setRecords([]);
+
+    if (!isScoped) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    getStorageAdapter(storeId)
+      .getAll<T>(collection)
+      .then((saved) => {
+        if (cancelled) {
+          return;
+        }
+        persisted.current = saved ?? [];
+        // A synced collection waits for the remote before using the seed
+        setRecords(saved ?? (hasRemote ? [] : seed ?? []));
+        setIsLoading(false);
+      })
+      .catch((error) => {
+        console.error(`Could not load ${collection}`, error);
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [collection, seed, isScoped, storeId, hasRemote]);
+
+  useEffect(() => {
+    const previous = persisted.current;
+    if (isLoading || previous === null || previous === records) {
+      return;
+    }
+
+    const { changed, removedIds } = diffRecords(previous, records);
+    persisted.current = records;
+    if (changed.length > 0 || removedIds.length > 0) {
+      getStorageAdapter(storeId)
+        .save(collection, changed, removedIds)
+        .catch((error) => console.error(`Could not save ${collection}`, error));
+      remote
+        ?.save(changed, removedIds)
+        .catch((error) => console.error(`Could not sync ${collection}`, error));
+    }
+  }, [collection, records, isLoading, remote, storeId]);
+
+  useEffect(() => {
+    if (!remote || isLoading || persisted.current === null) {
+      return;
+    }
+
+    return remote.subscribe(
+      (remoteRecords) => {
+        const previous = persisted.current ?? [];
+
+        // A brand-new store starts from the seed data
+        if (remoteRecords === null) {
+          const initial = seed ?? [];
+          const { removedIds } = diffRecords(previous, initial);
+          if (initial.length === 0 && removedIds.length === 0) {
+            return;
+          }
+          persisted.current = initial;
+          setRecords(initial);
+          getStorageAdapter(storeId)
+            .save(collection, initial, removedIds)
+            .catch((error) => console.error(`Could not save ${collection}`, error));
+          if (initial.length > 0) {
+            remote
+              .save(initial, [])
+              .catch((error) => console.error(`Could not upload ${collection}`, error));
+          }
+          return;
+        }
+
+        // Keep the local objects that did not change so only real changes are cached
+        const previousById = new Map(previous.map((record) => [record.id, record]));
+        const merged = remoteRecords.map((record) => {
+          const local = previousById.get(record.id);
+          return local && isSameValue(local, record) ? local : record;
+        });
+
+        const { changed, removedIds } = diffRecords(previous, merged);
+        if (changed.length === 0 && removedIds.length === 0) {
+          return;
+        }
+
+        persisted.current = merged;
+        setRecords(merged);
+        getStorageAdapter(storeId)
+          .save(collection, changed, removedIds)
+          .catch((error) => console.error(`Could not save ${collection}`, error));
+      },
+      (error) => console.error(`Could not listen to ${collection}`, error)
+    );
+  }, [collection, remote, isLoading, seed, storeId]);
+
+  return [records, setRecords, isLoading] as const;
+};
@@ -4,6 +4,7 @@ export interface DatabaseExport {
     id: string;
     name: string;
     description: string;
+    perishable?: boolean;
   }>;
   products: Array<{
     id: string;
@@ -15,11 +16,13 @@ export interface DatabaseExport {
     image: string;
     price: number;
     barcode?: string;
+    claveProdServ?: string;
+    claveUnidad?: string;
   }>;
   transactions: Array<{
     id: string;
     productId: string;
-    type: 'entry' | 'exit';
+    type: 'entry' | 'exit' | 'adjustment';
     quantity: number;
     unitCost: number;
     date: string;
@@ -0,0 +1,89 @@
+import type { TranslationKey } from '../contexts/LanguageContext';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'void' | 'close' | 'reopen';
+
+export type AuditEntity = 'category' | 'product' | 'transaction' | 'location' | 'exchange_rate' | 'period' | 'transfer';
+
+export type AuditValue = string | number | boolean;
+
+// One field of the record; a missing side means the field did not exist
+export interface AuditChange {
+  field: string;
+  before?: AuditValue;
+  after?: AuditValue;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  userId: string;
+  userName: string; // Display name at the time
+  action: AuditAction;
+  entity: AuditEntity;
+  entityId: string;
+  entityName: string; // Category, product or location name (currency and date for a rate, cutoff for a period, folio for a transfer), so it reads after a delete
+  changes: AuditChange[];
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, TranslationKey> = {
+  create: 'audit.action.create',
+  update: 'audit.action.update',
+  delete: 'audit.action.delete',
+  void: 'audit.action.void',
+  close: 'audit.action.close',
+  reopen: 'audit.action.reopen',
+};
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, TranslationKey> = {
+  category: 'audit.entity.category',
+  product: 'audit.entity.product',
+  transaction: 'audit.entity.transaction',
+  location: 'audit.entity.location',
+  exchange_rate: 'audit.entity.exchange_rate',
+  period: 'audit.entity.period',
+  transfer: 'audit.entity.transfer',
+};
+
+// Product images can be data URLs; the log only needs to show that they changed
+const MAX_TEXT_LENGTH = 200;
+
+const toAuditValue = (value: unknown): AuditValue | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : value;
+  if (typeof text === 'string' && text.length > MAX_TEXT_LENGTH) {
+    return `${text.slice(0, MAX_TEXT_LENGTH)}…`;
+  }
+  return text as AuditValue;
+};
+
+/**
+ * Fields that differ between two versions of a record. A creation lists every
+ * field with only its new value and a deletion every field with its old one.
+ */
+export const diffFields = (before: object | null, after: object | null): AuditChange[] => {
+  const left = (before ?? {}) as Record<string, unknown>;
+  const right = (after ?? {}) as Record<string, unknown>;
+  const fields = [...new Set([...Object.keys(left), ...Object.keys(right)])].filter((field) => field !== 'id');
+
+  return fields.flatMap((field) => {
+    const previous = toAuditValue(left[field]);
+    const next = toAuditValue(right[field]);
+    if (previous === next) {
+      return [];
+    }
+    const change: AuditChange = { field };
+    if (previous !== undefined) {
+      change.before = previous;
+    }
+    if (next !== undefined) {
+      change.after = next;
+    }
+    return [change];
+  });
+};
+
+// "field: before → after" for tables and exports
+export const formatAuditChange = ({ field, before, after }: AuditChange) =>
+  `${field}: ${before === undefined ? '—' : String(before)} → ${after === undefined ? '—' : String(after)}`;
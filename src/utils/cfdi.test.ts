@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { buildCfdi, CfdiInput, CfdiLineInput, FORMAS_PAGO, validateCfdi } from './cfdi';
+import { TaxConfig } from './taxes';
+
+const line = (total: number, cantidad: number, taxes: TaxConfig): CfdiLineInput => ({
+  claveProdServ: '50192100',
+  claveUnidad: 'H87',
+  noIdentificacion: '7501000000001',
+  descripcion: 'Papas fritas',
+  cantidad,
+  total,
+  taxes,
+});
+
+const input = (lines: CfdiLineInput[]): CfdiInput => ({
+  serie: 'A',
+  folio: '1',
+  fecha: '2024-05-10T12:30:00',
+  formaPago: FORMAS_PAGO.cash,
+  lugarExpedicion: '06000',
+  emisor: { rfc: 'EKU9003173C9', nombre: 'ESCUELA KEMPER URGATE', regimenFiscal: '601' },
+  receptor: {
+    rfc: 'XOJI740919U48',
+    nombre: 'INGRID XODAR JIMENEZ',
+    domicilioFiscal: '88965',
+    regimenFiscal: '612',
+    usoCfdi: 'G03',
+  },
+  lines,
+});
+
+// Prices include taxes: $125.28 = $100 + 8 % IEPS + 16 % IVA on $108
+const snack = line(125.28, 2, { ivaRate: 'tasa16', iepsRate: 0.08 });
+const exempt = line(30, 3, { ivaRate: 'exento', iepsRate: 0 });
+const general = line(116, 1, { ivaRate: 'tasa16', iepsRate: 0 });
+
+describe('buildCfdi', () => {
+  it('takes the taxes out of the price paid and charges IVA on the amount plus the IEPS', () => {
+    const [concepto] = buildCfdi(input([snack])).conceptos;
+
+    expect(concepto.valorUnitario).toBe(50);
+    expect(concepto.importe).toBe(100);
+    expect(concepto.traslados).toEqual([
+      { base: 100, impuesto: '003', tipoFactor: 'Tasa', tasaOCuota: 0.08, importe: 8 },
+      { base: 108, impuesto: '002', tipoFactor: 'Tasa', tasaOCuota: 0.16, importe: 17.28 },
+    ]);
+  });
+
+  it('adds up the lines per tax and rate and keeps exempt bases apart', () => {
+    const cfdi = buildCfdi(input([snack, exempt, general]));
+
+    expect(cfdi.traslados).toEqual([
+      { base: 100, impuesto: '003', tipoFactor: 'Tasa', tasaOCuota: 0.08, importe: 8 },
+      { base: 208, impuesto: '002', tipoFactor: 'Tasa', tasaOCuota: 0.16, importe: 33.28 },
+      { base: 30, impuesto: '002', tipoFactor: 'Exento' },
+    ]);
+    expect(cfdi.subTotal).toBe(230);
+    expect(cfdi.totalImpuestosTrasladados).toBe(41.28);
+    expect(cfdi.total).toBe(271.28);
+  });
+
+  it('leaves out the tax total when every line is exempt', () => {
+    const cfdi = buildCfdi(input([exempt]));
+
+    expect(cfdi.totalImpuestosTrasladados).toBeUndefined();
+    expect(cfdi.total).toBe(30);
+  });
+});
+
+describe('validateCfdi', () => {
+  it('accepts an invoice built from valid data', () => {
+    expect(validateCfdi(buildCfdi(input([snack, exempt, general])))).toEqual([]);
+  });
+
+  it('points at the attributes that break the patterns and catalogs', () => {
+    const cfdi = buildCfdi(input([snack]));
+    cfdi.receptor = { ...cfdi.receptor, rfc: 'ABC', usoCfdi: 'Z99' };
+    cfdi.lugarExpedicion = '6000';
+
+    expect(validateCfdi(cfdi)).toEqual([
+      { path: '@LugarExpedicion', message: 'cfdi.errors.pattern' },
+      { path: 'Receptor/@Rfc', message: 'cfdi.errors.pattern' },
+      { path: 'Receptor/@UsoCFDI', message: 'cfdi.errors.catalog' },
+    ]);
+  });
+
+  it('rejects the generic RFC, which needs a global invoice', () => {
+    const cfdi = buildCfdi(input([snack]));
+    cfdi.receptor = { ...cfdi.receptor, rfc: 'XAXX010101000' };
+
+    expect(validateCfdi(cfdi)).toEqual([{ path: 'Receptor/@Rfc', message: 'cfdi.errors.genericRfc' }]);
+  });
+
+  it('checks that the amounts add up', () => {
+    const cfdi = buildCfdi(input([snack]));
+    cfdi.conceptos[0].traslados[1].importe = 20;
+    cfdi.total = 300;
+
+    expect(validateCfdi(cfdi)).toEqual([
+      { path: 'Concepto[1]/Traslado[2]/@Importe', message: 'cfdi.errors.amount' },
+      { path: '@Total', message: 'cfdi.errors.amount' },
+    ]);
+  });
+
+  it('requires at least one line', () => {
+    expect(validateCfdi(buildCfdi(input([])))).toEqual([{ path: 'Conceptos', message: 'cfdi.errors.required' }]);
+  });
+});
@@ -0,0 +1,463 @@
+import type { TranslationKey } from '../contexts/LanguageContext';
+import { extractTaxes, IVA_RATES, TaxConfig } from './taxes';
+
+// CFDI 4.0 (Anexo 20). Only what a retail sale needs: an ingreso paid in one
+// exhibition, in pesos, with IVA and IEPS transferred.
+
+export const CFDI_NAMESPACE = 'http://www.sat.gob.mx/cfd/4';
+export const CFDI_SCHEMA_LOCATION = 'http://www.sat.gob.mx/sitio_internet/cfd/4/cfdv40.xsd';
+const TFD_NAMESPACE = 'http://www.sat.gob.mx/TimbreFiscalDigital';
+const TFD_SCHEMA_LOCATION = 'http://www.sat.gob.mx/sitio_internet/cfd/TimbreFiscalDigital/TimbreFiscalDigitalv11.xsd';
+
+// Products without their own SAT keys: "No existe en el catálogo", by the piece
+export const DEFAULT_CLAVE_PROD_SERV = '01010101';
+export const DEFAULT_CLAVE_UNIDAD = 'H87';
+
+// c_RegimenFiscal
+export const REGIMENES_FISCALES: Record<string, string> = {
+  '601': 'General de Ley Personas Morales',
+  '603': 'Personas Morales con Fines no Lucrativos',
+  '605': 'Sueldos y Salarios e Ingresos Asimilados a Salarios',
+  '606': 'Arrendamiento',
+  '607': 'Régimen de Enajenación o Adquisición de Bienes',
+  '608': 'Demás ingresos',
+  '610': 'Residentes en el Extranjero sin Establecimiento Permanente en México',
+  '611': 'Ingresos por Dividendos (socios y accionistas)',
+  '612': 'Personas Físicas con Actividades Empresariales y Profesionales',
+  '614': 'Ingresos por intereses',
+  '615': 'Régimen de los ingresos por obtención de premios',
+  '616': 'Sin obligaciones fiscales',
+  '620': 'Sociedades Cooperativas de Producción que optan por diferir sus ingresos',
+  '621': 'Incorporación Fiscal',
+  '622': 'Actividades Agrícolas, Ganaderas, Silvícolas y Pesqueras',
+  '623': 'Opcional para Grupos de Sociedades',
+  '624': 'Coordinados',
+  '625': 'Régimen de las Actividades Empresariales con ingresos a través de Plataformas Tecnológicas',
+  '626': 'Régimen Simplificado de Confianza',
+};
+
+// c_UsoCFDI
+export const USOS_CFDI: Record<string, string> = {
+  G01: 'Adquisición de mercancías',
+  G03: 'Gastos en general',
+  I01: 'Construcciones',
+  I02: 'Mobiliario y equipo de oficina por inversiones',
+  D01: 'Honorarios médicos, dentales y gastos hospitalarios',
+  S01: 'Sin efectos fiscales',
+  CP01: 'Pagos',
+};
+
+// c_FormaPago for each way the register takes payment
+export const FORMAS_PAGO: Record<'cash' | 'card' | 'debit' | 'transfer', string> = {
+  cash: '01', // Efectivo
+  card: '04', // Tarjeta de crédito
+  debit: '28', // Tarjeta de débito
+  transfer: '03', // Transferencia electrónica de fondos
+};
+
+export interface CfdiEmisor {
+  rfc: string;
+  nombre: string;
+  regimenFiscal: string;
+}
+
+export interface CfdiReceptor {
+  rfc: string;
+  nombre: string;
+  domicilioFiscal: string; // Código postal of the customer's tax address
+  regimenFiscal: string;
+  usoCfdi: string;
+}
+
+export interface CfdiTraslado {
+  base: number;
+  impuesto: '002' | '003'; // IVA, IEPS
+  tipoFactor: 'Tasa' | 'Exento';
+  tasaOCuota?: number; // Missing when exempt
+  importe?: number;
+}
+
+export interface CfdiConcepto {
+  claveProdServ: string;
+  noIdentificacion: string;
+  cantidad: number;
+  claveUnidad: string;
+  descripcion: string;
+  valorUnitario: number;
+  importe: number;
+  objetoImp: '02'; // Sí objeto de impuesto
+  traslados: CfdiTraslado[];
+}
+
+// Added by the PAC when it stamps the invoice
+export interface TimbreFiscal {
+  uuid: string;
+  fechaTimbrado: string;
+  rfcProvCertif: string;
+  selloCFD: string;
+  noCertificadoSAT: string;
+  selloSAT: string;
+}
+
+export interface CfdiComprobante {
+  serie: string;
+  folio: string;
+  fecha: string;
+  formaPago: string;
+  metodoPago: 'PUE';
+  lugarExpedicion: string;
+  subTotal: number;
+  total: number;
+  emisor: CfdiEmisor;
+  receptor: CfdiReceptor;
+  conceptos: CfdiConcepto[];
+  traslados: CfdiTraslado[]; // Totals per tax and rate
+  totalImpuestosTrasladados?: number;
+  // Sealed with the issuer's CSD; empty until the PAC seals and stamps it
+  sello: string;
+  noCertificado: string;
+  certificado: string;
+  timbre?: TimbreFiscal;
+}
+
+// One line of a sale, with the price the customer paid including taxes
+export interface CfdiLineInput {
+  claveProdServ: string;
+  claveUnidad: string;
+  noIdentificacion: string;
+  descripcion: string;
+  cantidad: number;
+  total: number;
+  taxes: TaxConfig;
+}
+
+export interface CfdiInput {
+  serie: string;
+  folio: string;
+  fecha: string;
+  formaPago: string;
+  lugarExpedicion: string;
+  emisor: CfdiEmisor;
+  receptor: CfdiReceptor;
+  lines: CfdiLineInput[];
+}
+
+const round = (value: number, decimals = 2) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+// t_FechaH: local time of issue without a time zone
+export const toCfdiDate = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  );
+};
+
+// IEPS is charged on the line amount and IVA on the amount plus the IEPS
+const buildConcepto = (line: CfdiLineInput): CfdiConcepto => {
+  const breakdown = extractTaxes(line.total, line.taxes);
+  const valorUnitario = round(breakdown.base / line.cantidad, 6);
+  const importe = round(line.cantidad * valorUnitario);
+  const traslados: CfdiTraslado[] = [];
+
+  let iepsImporte = 0;
+  if (line.taxes.iepsRate > 0) {
+    iepsImporte = round(importe * line.taxes.iepsRate);
+    traslados.push({ base: importe, impuesto: '003', tipoFactor: 'Tasa', tasaOCuota: line.taxes.iepsRate, importe: iepsImporte });
+  }
+
+  const ivaBase = round(importe + iepsImporte);
+  if (line.taxes.ivaRate === 'exento') {
+    traslados.push({ base: ivaBase, impuesto: '002', tipoFactor: 'Exento' });
+  } else {
+    const tasaOCuota = IVA_RATES[line.taxes.ivaRate];
+    traslados.push({ base: ivaBase, impuesto: '002', tipoFactor: 'Tasa', tasaOCuota, importe: round(ivaBase * tasaOCuota) });
+  }
+
+  return {
+    claveProdServ: line.claveProdServ,
+    noIdentificacion: line.noIdentificacion,
+    cantidad: line.cantidad,
+    claveUnidad: line.claveUnidad,
+    descripcion: line.descripcion,
+    valorUnitario,
+    importe,
+    objetoImp: '02',
+    traslados,
+  };
+};
+
+// The comprobante's Impuestos node adds up the lines per tax, factor and rate
+const groupTraslados = (conceptos: CfdiConcepto[]): CfdiTraslado[] => {
+  const groups = new Map<string, CfdiTraslado>();
+  for (const traslado of conceptos.flatMap((concepto) => concepto.traslados)) {
+    const key = `${traslado.impuesto}|${traslado.tipoFactor}|${traslado.tasaOCuota ?? ''}`;
+    const group = groups.get(key);
+    if (group) {
+      group.base = round(group.base + traslado.base);
+      if (traslado.importe !== undefined) {
+        group.importe = round((group.importe ?? 0) + traslado.importe);
+      }
+    } else {
+      groups.set(key, { ...traslado });
+    }
+  }
+  return [...groups.values()];
+};
+
+export const buildCfdi = (input: CfdiInput): CfdiComprobante => {
+  const conceptos = input.lines.map(buildConcepto);
+  const traslados = groupTraslados(conceptos);
+  const subTotal = round(conceptos.reduce((sum, concepto) => sum + concepto.importe, 0));
+  const taxed = traslados.filter((traslado) => traslado.tipoFactor !== 'Exento');
+  const totalImpuestosTrasladados =
+    taxed.length > 0 ? round(taxed.reduce((sum, traslado) => sum + (traslado.importe ?? 0), 0)) : undefined;
+
+  return {
+    serie: input.serie,
+    folio: input.folio,
+    fecha: input.fecha,
+    formaPago: input.formaPago,
+    metodoPago: 'PUE',
+    lugarExpedicion: input.lugarExpedicion,
+    subTotal,
+    total: round(subTotal + (totalImpuestosTrasladados ?? 0)),
+    emisor: input.emisor,
+    receptor: input.receptor,
+    conceptos,
+    traslados,
+    totalImpuestosTrasladados,
+    sello: '',
+    noCertificado: '',
+    certificado: '',
+  };
+};
+
+// XML
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const formatAmount = (value: number) => value.toFixed(2);
+const formatRate = (value: number) => value.toFixed(6);
+
+// Attributes in order, leaving out the optional ones that are missing
+const attributes = (values: Array<[string, string | undefined]>) =>
+  values
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join('');
+
+const serializeTraslado = (traslado: CfdiTraslado, indent: string) =>
+  `${indent}<cfdi:Traslado${attributes([
+    ['Base', formatAmount(traslado.base)],
+    ['Impuesto', traslado.impuesto],
+    ['TipoFactor', traslado.tipoFactor],
+    ['TasaOCuota', traslado.tasaOCuota === undefined ? undefined : formatRate(traslado.tasaOCuota)],
+    ['Importe', traslado.importe === undefined ? undefined : formatAmount(traslado.importe)],
+  ])}/>`;
+
+const serializeConcepto = (concepto: CfdiConcepto) =>
+  [
+    `    <cfdi:Concepto${attributes([
+      ['ClaveProdServ', concepto.claveProdServ],
+      ['NoIdentificacion', concepto.noIdentificacion || undefined],
+      ['Cantidad', String(concepto.cantidad)],
+      ['ClaveUnidad', concepto.claveUnidad],
+      ['Descripcion', concepto.descripcion],
+      ['ValorUnitario', formatRate(concepto.valorUnitario)],
+      ['Importe', formatAmount(concepto.importe)],
+      ['ObjetoImp', concepto.objetoImp],
+    ])}>`,
+    '      <cfdi:Impuestos>',
+    '        <cfdi:Traslados>',
+    ...concepto.traslados.map((traslado) => serializeTraslado(traslado, '          ')),
+    '        </cfdi:Traslados>',
+    '      </cfdi:Impuestos>',
+    '    </cfdi:Concepto>',
+  ].join('\n');
+
+export const serializeCfdi = (cfdi: CfdiComprobante): string => {
+  const schemaLocation = cfdi.timbre
+    ? `${CFDI_NAMESPACE} ${CFDI_SCHEMA_LOCATION} ${TFD_NAMESPACE} ${TFD_SCHEMA_LOCATION}`
+    : `${CFDI_NAMESPACE} ${CFDI_SCHEMA_LOCATION}`;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<cfdi:Comprobante${attributes([
+      ['xmlns:cfdi', CFDI_NAMESPACE],
+      ['xmlns:xsi', 'http://www.w3.org/2001/XMLSchema-instance'],
+      ['xsi:schemaLocation', schemaLocation],
+      ['Version', '4.0'],
+      ['Serie', cfdi.serie],
+      ['Folio', cfdi.folio],
+      ['Fecha', cfdi.fecha],
+      // Left out until the PAC seals it, rather than sent empty
+      ['Sello', cfdi.sello || undefined],
+      ['FormaPago', cfdi.formaPago],
+      ['NoCertificado', cfdi.noCertificado || undefined],
+      ['Certificado', cfdi.certificado || undefined],
+      ['SubTotal', formatAmount(cfdi.subTotal)],
+      ['Moneda', 'MXN'],
+      ['Total', formatAmount(cfdi.total)],
+      ['TipoDeComprobante', 'I'],
+      ['Exportacion', '01'],
+      ['MetodoPago', cfdi.metodoPago],
+      ['LugarExpedicion', cfdi.lugarExpedicion],
+    ])}>`,
+    `  <cfdi:Emisor${attributes([
+      ['Rfc', cfdi.emisor.rfc],
+      ['Nombre', cfdi.emisor.nombre],
+      ['RegimenFiscal', cfdi.emisor.regimenFiscal],
+    ])}/>`,
+    `  <cfdi:Receptor${attributes([
+      ['Rfc', cfdi.receptor.rfc],
+      ['Nombre', cfdi.receptor.nombre],
+      ['DomicilioFiscalReceptor', cfdi.receptor.domicilioFiscal],
+      ['RegimenFiscalReceptor', cfdi.receptor.regimenFiscal],
+      ['UsoCFDI', cfdi.receptor.usoCfdi],
+    ])}/>`,
+    '  <cfdi:Conceptos>',
+    ...cfdi.conceptos.map(serializeConcepto),
+    '  </cfdi:Conceptos>',
+    `  <cfdi:Impuestos${attributes([
+      [
+        'TotalImpuestosTrasladados',
+        cfdi.totalImpuestosTrasladados === undefined ? undefined : formatAmount(cfdi.totalImpuestosTrasladados),
+      ],
+    ])}>`,
+    '    <cfdi:Traslados>',
+    ...cfdi.traslados.map((traslado) => serializeTraslado(traslado, '      ')),
+    '    </cfdi:Traslados>',
+    '  </cfdi:Impuestos>',
+  ];
+
+  if (cfdi.timbre) {
+    lines.push(
+      '  <cfdi:Complemento>',
+      `    <tfd:TimbreFiscalDigital${attributes([
+        ['xmlns:tfd', TFD_NAMESPACE],
+        ['Version', '1.1'],
+        ['UUID', cfdi.timbre.uuid],
+        ['FechaTimbrado', cfdi.timbre.fechaTimbrado],
+        ['RfcProvCertif', cfdi.timbre.rfcProvCertif],
+        ['SelloCFD', cfdi.timbre.selloCFD],
+        ['NoCertificadoSAT', cfdi.timbre.noCertificadoSAT],
+        ['SelloSAT', cfdi.timbre.selloSAT],
+      ])}/>`,
+      '  </cfdi:Complemento>'
+    );
+  }
+
+  lines.push('</cfdi:Comprobante>');
+  return lines.join('\n');
+};
+
+// Validation. The browser has no XSD engine and the SAT's XSDs are not
+// bundled, so this is not schema validation: only the restrictions of
+// cfdv40.xsd and its catalogs (tdCFDI, catCFDI) for the nodes generated here
+// are checked directly, plus the SAT's arithmetic rules for the totals. The
+// full check is the PAC's when stamping, or xmllint against the SAT's XSDs.
+
+export interface CfdiValidationError {
+  path: string; // Node and attribute, e.g. "Receptor/@Rfc"
+  message: TranslationKey;
+}
+
+const PATTERNS = {
+  rfc: /^[A-Z&Ñ]{3,4}[0-9]{2}(0[1-9]|1[012])(0[1-9]|[12][0-9]|3[01])[A-Z0-9]{2}[0-9A]$/,
+  codigoPostal: /^[0-9]{5}$/,
+  fecha: /^(20[1-9][0-9])-(0[1-9]|1[0-2])-(0[1-9]|[12][0-9]|3[01])T(([01][0-9]|2[0-3]):[0-5][0-9]:[0-5][0-9])$/,
+  serie: /^[^|]{1,25}$/,
+  folio: /^[^|]{1,40}$/,
+  nombre: /^[^|]{1,254}$/,
+  claveProdServ: /^[0-9]{8}$/,
+  claveUnidad: /^[A-Z0-9]{1,3}$/,
+  noIdentificacion: /^[^|]{1,100}$/,
+  descripcion: /^[^|]{1,1000}$/,
+};
+
+// Generic RFCs need the InformacionGlobal node of a global invoice, which is not generated
+const GENERIC_RFCS = ['XAXX010101000', 'XEXX010101000'];
+
+// Rounding tolerance of the SAT's checks, in pesos
+const TOLERANCE = 0.01;
+
+export const validateCfdi = (cfdi: CfdiComprobante): CfdiValidationError[] => {
+  const errors: CfdiValidationError[] = [];
+  const check = (valid: boolean, path: string, message: TranslationKey) => {
+    if (!valid) {
+      errors.push({ path, message });
+    }
+  };
+
+  check(PATTERNS.serie.test(cfdi.serie), '@Serie', 'cfdi.errors.pattern');
+  check(PATTERNS.folio.test(cfdi.folio), '@Folio', 'cfdi.errors.pattern');
+  check(PATTERNS.fecha.test(cfdi.fecha), '@Fecha', 'cfdi.errors.pattern');
+  check(Object.values(FORMAS_PAGO).includes(cfdi.formaPago), '@FormaPago', 'cfdi.errors.catalog');
+  check(PATTERNS.codigoPostal.test(cfdi.lugarExpedicion), '@LugarExpedicion', 'cfdi.errors.pattern');
+
+  check(PATTERNS.rfc.test(cfdi.emisor.rfc), 'Emisor/@Rfc', 'cfdi.errors.pattern');
+  check(PATTERNS.nombre.test(cfdi.emisor.nombre), 'Emisor/@Nombre', 'cfdi.errors.required');
+  check(cfdi.emisor.regimenFiscal in REGIMENES_FISCALES, 'Emisor/@RegimenFiscal', 'cfdi.errors.catalog');
+
+  check(PATTERNS.rfc.test(cfdi.receptor.rfc), 'Receptor/@Rfc', 'cfdi.errors.pattern');
+  check(!GENERIC_RFCS.includes(cfdi.receptor.rfc), 'Receptor/@Rfc', 'cfdi.errors.genericRfc');
+  check(PATTERNS.nombre.test(cfdi.receptor.nombre), 'Receptor/@Nombre', 'cfdi.errors.required');
+  check(PATTERNS.codigoPostal.test(cfdi.receptor.domicilioFiscal), 'Receptor/@DomicilioFiscalReceptor', 'cfdi.errors.pattern');
+  check(cfdi.receptor.regimenFiscal in REGIMENES_FISCALES, 'Receptor/@RegimenFiscalReceptor', 'cfdi.errors.catalog');
+  check(cfdi.receptor.usoCfdi in USOS_CFDI, 'Receptor/@UsoCFDI', 'cfdi.errors.catalog');
+
+  check(cfdi.conceptos.length > 0, 'Conceptos', 'cfdi.errors.required');
+  cfdi.conceptos.forEach((concepto, index) => {
+    const path = `Concepto[${index + 1}]`;
+    check(PATTERNS.claveProdServ.test(concepto.claveProdServ), `${path}/@ClaveProdServ`, 'cfdi.errors.pattern');
+    check(PATTERNS.claveUnidad.test(concepto.claveUnidad), `${path}/@ClaveUnidad`, 'cfdi.errors.pattern');
+    check(
+      !concepto.noIdentificacion || PATTERNS.noIdentificacion.test(concepto.noIdentificacion),
+      `${path}/@NoIdentificacion`,
+      'cfdi.errors.pattern'
+    );
+    check(PATTERNS.descripcion.test(concepto.descripcion), `${path}/@Descripcion`, 'cfdi.errors.required');
+    check(concepto.cantidad > 0, `${path}/@Cantidad`, 'cfdi.errors.positive');
+    check(concepto.valorUnitario >= 0, `${path}/@ValorUnitario`, 'cfdi.errors.positive');
+    check(
+      Math.abs(concepto.importe - concepto.cantidad * concepto.valorUnitario) <= TOLERANCE,
+      `${path}/@Importe`,
+      'cfdi.errors.amount'
+    );
+    concepto.traslados.forEach((traslado, trasladoIndex) => {
+      const trasladoPath = `${path}/Traslado[${trasladoIndex + 1}]`;
+      check(traslado.base > 0, `${trasladoPath}/@Base`, 'cfdi.errors.positive');
+      if (traslado.tipoFactor === 'Exento') {
+        check(traslado.tasaOCuota === undefined && traslado.importe === undefined, trasladoPath, 'cfdi.errors.exempt');
+      } else {
+        check(
+          traslado.tasaOCuota !== undefined &&
+            traslado.importe !== undefined &&
+            Math.abs(traslado.importe - traslado.base * traslado.tasaOCuota) <= TOLERANCE,
+          `${trasladoPath}/@Importe`,
+          'cfdi.errors.amount'
+        );
+      }
+    });
+  });
+
+  const subTotal = cfdi.conceptos.reduce((sum, concepto) => sum + concepto.importe, 0);
+  check(Math.abs(cfdi.subTotal - subTotal) <= TOLERANCE, '@SubTotal', 'cfdi.errors.amount');
+  check(
+    Math.abs(cfdi.total - (cfdi.subTotal + (cfdi.totalImpuestosTrasladados ?? 0))) <= TOLERANCE,
+    '@Total',
+    'cfdi.errors.amount'
+  );
+
+  return errors;
+};
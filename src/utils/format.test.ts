@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addDays,
+  formatCurrency,
+  formatDate,
+  formatNumber,
+  getLastFolioNumber,
+  parseCalendarDate,
+  toCalendarDate,
+} from './format';
+
+describe('calendar dates', () => {
+  it('reads a calendar date as local midnight, not UTC', () => {
+    const date = parseCalendarDate('2025-07-01');
+
+    expect([date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()]).toEqual([2025, 6, 1, 0]);
+    expect(toCalendarDate(date)).toBe('2025-07-01');
+  });
+
+  it('still reads ISO timestamps', () => {
+    expect(parseCalendarDate('2025-07-01T12:00:00Z').getTime()).toBe(Date.UTC(2025, 6, 1, 12));
+  });
+
+  it('adds days across month and year ends', () => {
+    expect(addDays('2025-01-31', 1)).toBe('2025-02-01');
+    expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+  });
+});
+
+describe('getLastFolioNumber', () => {
+  it('returns the highest sequence number, ignoring folios it cannot read', () => {
+    expect(getLastFolioNumber([{ folio: 'V-000009' }, { folio: 'V-000123' }, { folio: 'manual' }])).toBe(123);
+  });
+
+  it('is 0 when there are no folios', () => {
+    expect(getLastFolioNumber([])).toBe(0);
+  });
+});
+
+describe('formatters', () => {
+  it('formats amounts in pesos unless told another currency', () => {
+    expect(formatCurrency(1234.5, 'es-MX')).toBe('$1,234.50');
+    // Intl separates the code with a no-break space
+    expect(formatCurrency(1234.5, 'es-MX', 'USD')).toMatch(/^USD\s1,234\.50$/);
+    expect(formatCurrency(1234.5, 'en-US', 'USD')).toBe('$1,234.50');
+  });
+
+  it('rounds numbers to the requested decimals', () => {
+    expect(formatNumber(1234.567, 'es-MX')).toBe('1,234.57');
+    expect(formatNumber(2.4, 'en-US', 0)).toBe('2');
+  });
+
+  it('shows a calendar date on the same day in every language', () => {
+    expect(formatDate('2025-07-01', 'es-MX')).toBe('1 jul 2025');
+    expect(formatDate('2025-07-01', 'en-US')).toBe('Jul 1, 2025');
+  });
+});
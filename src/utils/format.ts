@@ -0,0 +1,78 @@
+import type { Language } from '../contexts/LanguageContext';
+
+export type CurrencyCode = 'MXN' | 'USD';
+
+export const CURRENCIES: CurrencyCode[] = ['MXN', 'USD'];
+
+// Costs, prices and every valuation are kept in pesos
+export const BASE_CURRENCY: CurrencyCode = 'MXN';
+
+// Regional variant used for numbers and dates in each interface language
+export const LOCALES: Record<Language, string> = {
+  es: 'es-MX',
+  en: 'en-US',
+};
+
+// Calendar dates ("2025-07-01") have no time zone; new Date() would read them
+// as UTC midnight, which is the previous day in Mexico
+const CALENDAR_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export const parseCalendarDate = (date: string): Date => {
+  const match = CALENDAR_DATE.exec(date);
+  if (!match) {
+    return new Date(date);
+  }
+  const [, year, month, day] = match;
+  return new Date(Number(year), Number(month) - 1, Number(day));
+};
+
+// The local calendar date of a moment, as stored in InventoryTransaction.date
+export const toCalendarDate = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const getToday = () => toCalendarDate(new Date());
+
+export const addDays = (date: string, days: number) => {
+  const result = parseCalendarDate(date);
+  result.setDate(result.getDate() + days);
+  return toCalendarDate(result);
+};
+
+// Highest sequence number among folios like "V-000123", 0 when there are none
+export const getLastFolioNumber = (records: { folio: string }[]) =>
+  Math.max(0, ...records.map(({ folio }) => Number(folio.slice(folio.lastIndexOf('-') + 1)) || 0));
+
+// Intl formatters are slow to build and tables format hundreds of values
+const formatters = new Map<string, Intl.NumberFormat | Intl.DateTimeFormat>();
+
+const getNumberFormat = (locale: string, options: Intl.NumberFormatOptions) => {
+  const key = `number:${locale}:${JSON.stringify(options)}`;
+  if (!formatters.has(key)) {
+    formatters.set(key, new Intl.NumberFormat(locale, options));
+  }
+  return formatters.get(key) as Intl.NumberFormat;
+};
+
+const getDateFormat = (locale: string, options: Intl.DateTimeFormatOptions) => {
+  const key = `date:${locale}:${JSON.stringify(options)}`;
+  if (!formatters.has(key)) {
+    formatters.set(key, new Intl.DateTimeFormat(locale, options));
+  }
+  return formatters.get(key) as Intl.DateTimeFormat;
+};
+
+export const formatCurrency = (amount: number, locale: string, currency: CurrencyCode = BASE_CURRENCY) =>
+  getNumberFormat(locale, { style: 'currency', currency }).format(amount);
+
+export const formatNumber = (value: number, locale: string, maximumFractionDigits = 2) =>
+  getNumberFormat(locale, { maximumFractionDigits }).format(value);
+
+// Accepts calendar dates and ISO timestamps
+export const formatDate = (date: string, locale: string) =>
+  getDateFormat(locale, { dateStyle: 'medium' }).format(parseCalendarDate(date));
+
+export const formatDateTime = (timestamp: string, locale: string) =>
+  getDateFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(timestamp));
@@ -0,0 +1,15 @@
+import type { InventoryTransaction, Product } from '../contexts/InventoryContext';
+
+// Movements registered before there were locations belong to the main one
+export const DEFAULT_LOCATION_ID = 'main';
+
+export const getTransactionLocationId = (transaction: InventoryTransaction) =>
+  transaction.locationId ?? DEFAULT_LOCATION_ID;
+
+// null stands for every location together; transfers between them then cancel out
+export const isAtLocation = (transaction: InventoryTransaction, locationId: string | null) =>
+  locationId === null ? !transaction.transferId : getTransactionLocationId(transaction) === locationId;
+
+// The product's general minimum applies where no specific one was set
+export const getLocationMinStock = (product: Product, locationId: string) =>
+  product.minStockByLocation?.[locationId] ?? product.minStock;
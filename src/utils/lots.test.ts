@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { InventoryTransaction } from '../contexts/InventoryContext';
+import { allocateFEFO, getLotBalances, LotBalance } from './lots';
+
+let nextId = 0;
+
+const movement = (
+  type: InventoryTransaction['type'],
+  quantity: number,
+  lotNumber?: string,
+  expiryDate?: string
+): InventoryTransaction => ({
+  id: `t${++nextId}`,
+  productId: 'p1',
+  type,
+  quantity,
+  unitCost: 10,
+  date: '2024-01-01',
+  notes: '',
+  lotNumber,
+  expiryDate,
+});
+
+describe('allocateFEFO', () => {
+  const lots: LotBalance[] = [
+    { lotNumber: '', quantity: 4 },
+    { lotNumber: 'L-LATE', expiryDate: '2024-12-01', quantity: 5 },
+    { lotNumber: 'L-NONE', quantity: 2 },
+    { lotNumber: 'L-SOON', expiryDate: '2024-03-01', quantity: 3 },
+  ];
+
+  it('takes the lot that expires first, whatever order the lots come in', () => {
+    expect(allocateFEFO(lots, 2)).toEqual([{ lotNumber: 'L-SOON', expiryDate: '2024-03-01', quantity: 2 }]);
+  });
+
+  it('splits an exit across lots and leaves lots without expiry and untracked units for last', () => {
+    expect(allocateFEFO(lots, 12)).toEqual([
+      { lotNumber: 'L-SOON', expiryDate: '2024-03-01', quantity: 3 },
+      { lotNumber: 'L-LATE', expiryDate: '2024-12-01', quantity: 5 },
+      { lotNumber: 'L-NONE', expiryDate: undefined, quantity: 2 },
+      { lotNumber: '', expiryDate: undefined, quantity: 2 },
+    ]);
+  });
+
+  it('allocates no more than the lots hold', () => {
+    const allocations = allocateFEFO(lots, 20);
+
+    expect(allocations.reduce((sum, allocation) => sum + allocation.quantity, 0)).toBe(14);
+  });
+
+  it('does not reorder the lots it was given', () => {
+    const given = [...lots];
+    allocateFEFO(given, 1);
+
+    expect(given).toEqual(lots);
+  });
+});
+
+describe('getLotBalances', () => {
+  it('nets entries, exits and adjustments per lot and leaves out the emptied ones', () => {
+    const balances = getLotBalances([
+      movement('entry', 10, 'A', '2024-06-01'),
+      movement('entry', 5, 'B', '2024-02-01'),
+      movement('exit', 5, 'B'),
+      movement('entry', 3),
+      movement('adjustment', -4, 'A'),
+    ]);
+
+    expect(balances).toEqual([
+      { lotNumber: 'A', expiryDate: '2024-06-01', quantity: 6 },
+      { lotNumber: '', quantity: 3 },
+    ]);
+  });
+});
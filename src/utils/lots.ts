@@ -0,0 +1,61 @@
+import type { InventoryTransaction } from '../contexts/InventoryContext';
+import { getStockDelta } from './valuation';
+
+export interface LotBalance {
+  // Empty for units received without a lot number
+  lotNumber: string;
+  expiryDate?: string;
+  quantity: number;
+}
+
+export interface LotAllocation {
+  lotNumber: string;
+  expiryDate?: string;
+  quantity: number;
+}
+
+// Lots that expire first go first; lots without expiry and untracked units go last
+const compareFEFO = (a: LotBalance, b: LotBalance) => {
+  if (a.lotNumber === '' || b.lotNumber === '') {
+    return a.lotNumber === '' ? (b.lotNumber === '' ? 0 : 1) : -1;
+  }
+  if (a.expiryDate && b.expiryDate) {
+    return a.expiryDate < b.expiryDate ? -1 : a.expiryDate > b.expiryDate ? 1 : 0;
+  }
+  return a.expiryDate ? -1 : b.expiryDate ? 1 : 0;
+};
+
+// Per-lot stock of one product's transactions, in FEFO order
+export const getLotBalances = (transactions: InventoryTransaction[]): LotBalance[] => {
+  const lots = new Map<string, LotBalance>();
+
+  for (const transaction of transactions) {
+    const lotNumber = transaction.lotNumber ?? '';
+    const lot = lots.get(lotNumber) ?? { lotNumber, quantity: 0 };
+
+    if (transaction.expiryDate && !lot.expiryDate) {
+      lot.expiryDate = transaction.expiryDate;
+    }
+    lot.quantity += getStockDelta(transaction);
+    lots.set(lotNumber, lot);
+  }
+
+  return [...lots.values()].filter((lot) => lot.quantity > 0).sort(compareFEFO);
+};
+
+// Splits an exit across lots, first-expired-first-out
+export const allocateFEFO = (lots: LotBalance[], quantity: number): LotAllocation[] => {
+  const allocations: LotAllocation[] = [];
+  let remaining = quantity;
+
+  for (const lot of [...lots].sort(compareFEFO)) {
+    if (remaining <= 0) {
+      break;
+    }
+    const taken = Math.min(lot.quantity, remaining);
+    allocations.push({ lotNumber: lot.lotNumber, expiryDate: lot.expiryDate, quantity: taken });
+    remaining -= taken;
+  }
+
+  return allocations;
+};
@@ -0,0 +1,46 @@
+import { v4 as uuidv4 } from 'uuid';
+import { toCfdiDate, type TimbreFiscal } from './cfdi';
+
+// What the PAC (Proveedor Autorizado de Certificación) returns: the issuer's
+// seal over the XML and the SAT's timbre with the folio fiscal (UUID)
+export interface StampResult {
+  sello: string;
+  noCertificado: string;
+  certificado: string;
+  timbre: TimbreFiscal;
+}
+
+// A provider seals the XML with the store's CSD, which it keeps, and stamps it.
+// Each provider has its own API; a client for one wraps it in this interface.
+export interface PacClient {
+  name: string;
+  stamp: (xml: string) => Promise<StampResult>;
+}
+
+const toBase64 = (text: string) => btoa(String.fromCharCode(...new TextEncoder().encode(text)));
+
+// Stands in for a provider until the store contracts one. Its stamps are not
+// valid before the SAT: the certificates are the SAT's test ones and the seals
+// are placeholders.
+export const mockPac: PacClient = {
+  name: 'Mock',
+  stamp: async (xml) => {
+    const sello = toBase64(`MOCK-SELLO-CFD:${xml.length}`);
+    return {
+      sello,
+      noCertificado: '30001000000500003416',
+      certificado: toBase64('MOCK-CERTIFICADO'),
+      timbre: {
+        uuid: uuidv4().toUpperCase(),
+        fechaTimbrado: toCfdiDate(new Date()),
+        rfcProvCertif: 'SAT970701NN3',
+        selloCFD: sello,
+        noCertificadoSAT: '30001000000500003456',
+        selloSAT: toBase64(`MOCK-SELLO-SAT:${xml.length}`),
+      },
+    };
+  },
+};
+
+// The provider the app stamps with
+export const pacClient: PacClient = mockPac;
@@ -0,0 +1,99 @@
+import type { TranslationKey } from '../contexts/LanguageContext';
+
+export type Role = 'owner' | 'manager' | 'cashier' | 'auditor';
+
+export type Permission =
+  | 'dashboard.view'
+  | 'sales.register'
+  | 'invoices.view'
+  | 'invoices.issue' // Generate and stamp CFDI invoices for sales
+  | 'catalog.view'
+  | 'catalog.edit' // Categories and products
+  | 'products.delete'
+  | 'costs.edit' // Selling prices and entry costs
+  | 'inventory.view'
+  | 'inventory.move' // Manual entries and exits
+  | 'inventory.void'
+  | 'locations.manage'
+  | 'counts.view'
+  | 'counts.capture'
+  | 'counts.approve'
+  | 'purchasing.view'
+  | 'purchasing.manage'
+  | 'reports.view'
+  | 'periods.view'
+  | 'periods.manage'
+  | 'sync.review'
+  | 'audit.view'
+  | 'users.manage';
+
+export const ROLES: Role[] = ['owner', 'manager', 'cashier', 'auditor'];
+
+export const ROLE_LABELS: Record<Role, TranslationKey> = {
+  owner: 'roles.owner',
+  manager: 'roles.manager',
+  cashier: 'roles.cashier',
+  auditor: 'roles.auditor',
+};
+
+const ALL_PERMISSIONS: Permission[] = [
+  'dashboard.view',
+  'sales.register',
+  'invoices.view',
+  'invoices.issue',
+  'catalog.view',
+  'catalog.edit',
+  'products.delete',
+  'costs.edit',
+  'inventory.view',
+  'inventory.move',
+  'inventory.void',
+  'locations.manage',
+  'counts.view',
+  'counts.capture',
+  'counts.approve',
+  'purchasing.view',
+  'purchasing.manage',
+  'reports.view',
+  'periods.view',
+  'periods.manage',
+  'sync.review',
+  'audit.view',
+  'users.manage',
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: ALL_PERMISSIONS,
+  // Runs the store day to day, but cannot remove products from the catalog or manage users
+  manager: ALL_PERMISSIONS.filter(
+    (permission) => permission !== 'products.delete' && permission !== 'users.manage'
+  ),
+  // Sells, invoices the sales and helps with physical counts
+  cashier: [
+    'dashboard.view',
+    'sales.register',
+    'invoices.view',
+    'invoices.issue',
+    'catalog.view',
+    'inventory.view',
+    'counts.view',
+    'counts.capture',
+  ],
+  // Read-only access to everything that carries a value
+  auditor: [
+    'dashboard.view',
+    'invoices.view',
+    'catalog.view',
+    'inventory.view',
+    'counts.view',
+    'purchasing.view',
+    'reports.view',
+    'periods.view',
+    'audit.view',
+  ],
+};
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+export const roleHasPermission = (role: Role | null, permission: Permission): boolean =>
+  role !== null && ROLE_PERMISSIONS[role].includes(permission);
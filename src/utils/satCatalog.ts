@@ -0,0 +1,41 @@
+import type { Product } from '../contexts/InventoryContext';
+import satCatalog from '../data/satCatalog.json';
+
+// An excerpt of the SAT's c_ClaveProdServ and c_ClaveUnidad catalogs with
+// what a convenience store sells. Keys from the full catalogs are accepted
+// as well; they are only checked for their format.
+
+export interface SatCatalogEntry {
+  clave: string;
+  descripcion: string;
+}
+
+export const CLAVES_PROD_SERV: SatCatalogEntry[] = satCatalog.productos;
+export const CLAVES_UNIDAD: SatCatalogEntry[] = satCatalog.unidades;
+
+export const isValidClaveProdServ = (clave: string) => /^[0-9]{8}$/.test(clave);
+export const isValidClaveUnidad = (clave: string) => /^[A-Z0-9]{1,3}$/.test(clave);
+
+export const getSatDescription = (entries: SatCatalogEntry[], clave: string) =>
+  entries.find((entry) => entry.clave === clave)?.descripcion;
+
+// Accents are ignored, so "cafe" finds "Café"
+const normalize = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+export const searchSatCatalog = (entries: SatCatalogEntry[], term: string) => {
+  const search = normalize(term.trim());
+  if (!search) {
+    return entries;
+  }
+  return entries.filter(
+    (entry) => entry.clave.toLowerCase().startsWith(search) || normalize(entry.descripcion).includes(search)
+  );
+};
+
+export type SatKeys = Pick<Product, 'claveProdServ' | 'claveUnidad'>;
+
+export const hasSatKeys = (product: Product) => !!product.claveProdServ && !!product.claveUnidad;
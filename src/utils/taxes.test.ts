@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import type { Category, InventoryTransaction, Product } from '../contexts/InventoryContext';
+import {
+  addTaxes,
+  DEFAULT_TAX_CONFIG,
+  extractTaxes,
+  getPriceWithTaxes,
+  getTaxTotal,
+  resolveTaxConfig,
+  summarizeTaxes,
+  TaxConfig,
+} from './taxes';
+
+const snack: TaxConfig = { ivaRate: 'tasa16', iepsRate: 0.08 };
+
+const product = (fields: Partial<Product>) => ({ id: 'p1', name: 'Papas', price: 100, ...fields }) as Product;
+
+let nextId = 0;
+
+const movement = (
+  type: InventoryTransaction['type'],
+  base: number,
+  config: TaxConfig,
+  fields: Partial<InventoryTransaction> = {}
+): InventoryTransaction => ({
+  id: `t${++nextId}`,
+  productId: 'p1',
+  type,
+  quantity: 1,
+  unitCost: base,
+  date: '2024-01-01',
+  notes: '',
+  taxes: addTaxes(base, config),
+  ...fields,
+});
+
+describe('addTaxes', () => {
+  it('charges IVA on the base plus the IEPS', () => {
+    const breakdown = addTaxes(100, snack);
+
+    expect(breakdown.ieps).toBeCloseTo(8);
+    expect(breakdown.iva).toBeCloseTo(17.28);
+    expect(getTaxTotal(breakdown)).toBeCloseTo(125.28);
+  });
+
+  it('adds nothing at 0 % or for exempt goods', () => {
+    expect(getTaxTotal(addTaxes(50, { ivaRate: 'tasa0', iepsRate: 0 }))).toBe(50);
+    expect(getTaxTotal(addTaxes(50, { ivaRate: 'exento', iepsRate: 0 }))).toBe(50);
+  });
+});
+
+describe('extractTaxes', () => {
+  it('recovers the base and taxes contained in a price that includes them', () => {
+    const breakdown = extractTaxes(125.28, snack);
+
+    expect(breakdown.base).toBeCloseTo(100);
+    expect(breakdown.ieps).toBeCloseTo(8);
+    expect(breakdown.iva).toBeCloseTo(17.28);
+  });
+
+  it('adds back up to the price it started from', () => {
+    expect(getTaxTotal(extractTaxes(116, DEFAULT_TAX_CONFIG))).toBeCloseTo(116);
+  });
+});
+
+describe('resolveTaxConfig', () => {
+  const category = { id: 'c1', name: 'Botanas', taxes: snack } as Category;
+
+  it("prefers the product's rates, then its category's, then the general rate", () => {
+    const exempt: TaxConfig = { ivaRate: 'exento', iepsRate: 0 };
+
+    expect(resolveTaxConfig(product({ taxes: exempt }), category)).toEqual(exempt);
+    expect(resolveTaxConfig(product({}), category)).toEqual(snack);
+    expect(resolveTaxConfig(product({}), undefined)).toEqual(DEFAULT_TAX_CONFIG);
+  });
+});
+
+describe('getPriceWithTaxes', () => {
+  it('treats shelf prices as including taxes unless the product says otherwise', () => {
+    expect(getPriceWithTaxes(product({}), snack)).toBe(100);
+    expect(getPriceWithTaxes(product({ priceIncludesTax: false }), snack)).toBeCloseTo(125.28);
+  });
+});
+
+describe('summarizeTaxes', () => {
+  it('splits sales from purchases and bases by rate', () => {
+    const summary = summarizeTaxes([
+      movement('exit', 100, snack),
+      movement('exit', 50, { ivaRate: 'tasa0', iepsRate: 0 }),
+      movement('exit', 20, { ivaRate: 'exento', iepsRate: 0 }),
+      movement('entry', 60, DEFAULT_TAX_CONFIG),
+    ]);
+
+    expect(summary.sales.base16).toBe(100);
+    expect(summary.sales.base0).toBe(50);
+    expect(summary.sales.baseExempt).toBe(20);
+    expect(summary.sales.iepsBase).toBe(100);
+    expect(summary.sales.ieps).toBeCloseTo(8);
+    expect(summary.sales.iva).toBeCloseTo(17.28);
+    expect(summary.purchases.base16).toBe(60);
+    expect(summary.purchases.iva).toBeCloseTo(9.6);
+  });
+
+  it('leaves out voided movements, their reversals and movements without taxes', () => {
+    const summary = summarizeTaxes([
+      movement('exit', 100, snack, { id: 'sold', voidedBy: 'back' }),
+      movement('entry', 100, snack, { id: 'back', reversalOf: 'sold' }),
+      movement('exit', 30, snack, { taxes: undefined }),
+    ]);
+
+    expect(summary.sales.base16).toBe(0);
+    expect(summary.purchases.base16).toBe(0);
+  });
+});
@@ -0,0 +1,101 @@
+import type { Category, InventoryTransaction, Product } from '../contexts/InventoryContext';
+import type { TranslationKey } from '../contexts/LanguageContext';
+import { getEffectiveTransactions } from './valuation';
+
+// IVA: the general 16 % rate, 0 % for basic foods and medicines, or exempt
+export type IvaRate = 'tasa16' | 'tasa0' | 'exento';
+
+export const IVA_RATE_LABELS: Record<IvaRate, TranslationKey> = {
+  tasa16: 'taxes.iva.tasa16',
+  tasa0: 'taxes.iva.tasa0',
+  exento: 'taxes.iva.exento',
+};
+
+export const IVA_RATES: Record<IvaRate, number> = {
+  tasa16: 0.16,
+  tasa0: 0,
+  exento: 0,
+};
+
+export interface TaxConfig {
+  ivaRate: IvaRate;
+  iepsRate: number; // Fraction, e.g. 0.08 for high-calorie snacks; 0 when it does not apply
+}
+
+// Most goods pay the general IVA rate and no IEPS
+export const DEFAULT_TAX_CONFIG: TaxConfig = { ivaRate: 'tasa16', iepsRate: 0 };
+
+export const isValidTaxConfig = (config: TaxConfig) => config.iepsRate >= 0 && config.iepsRate <= 1;
+
+// Taxes of one sale or purchase, with the rates they were calculated at
+export interface TaxBreakdown extends TaxConfig {
+  base: number; // Amount before taxes
+  ieps: number;
+  iva: number; // IVA is charged on the base plus the IEPS
+}
+
+// The product's own rates, or else its category's
+export const resolveTaxConfig = (product: Product | undefined, category: Category | undefined): TaxConfig =>
+  product?.taxes ?? category?.taxes ?? DEFAULT_TAX_CONFIG;
+
+// Shelf prices include taxes unless the product says otherwise, as they did before
+export const priceIncludesTax = (product: Product) => product.priceIncludesTax ?? true;
+
+export const getTaxTotal = (breakdown: TaxBreakdown) => breakdown.base + breakdown.ieps + breakdown.iva;
+
+// Taxes on top of an amount that does not include them
+export const addTaxes = (base: number, config: TaxConfig): TaxBreakdown => {
+  const ieps = base * config.iepsRate;
+  return { ...config, base, ieps, iva: (base + ieps) * IVA_RATES[config.ivaRate] };
+};
+
+// Taxes contained in an amount that already includes them
+export const extractTaxes = (total: number, config: TaxConfig): TaxBreakdown =>
+  addTaxes(total / ((1 + config.iepsRate) * (1 + IVA_RATES[config.ivaRate])), config);
+
+// What the customer pays for one unit
+export const getPriceWithTaxes = (product: Product, config: TaxConfig) =>
+  priceIncludesTax(product) ? product.price : getTaxTotal(addTaxes(product.price, config));
+
+export interface TaxTotals {
+  base16: number; // Taxed at 16 %
+  base0: number; // Taxed at 0 %
+  baseExempt: number;
+  iepsBase: number; // Part of the base that pays IEPS
+  ieps: number;
+  iva: number;
+}
+
+export interface TaxSummary {
+  sales: TaxTotals; // Taxes collected
+  purchases: TaxTotals; // Taxes paid to suppliers
+}
+
+const emptyTotals = (): TaxTotals => ({ base16: 0, base0: 0, baseExempt: 0, iepsBase: 0, ieps: 0, iva: 0 });
+
+const addToTotals = (totals: TaxTotals, breakdown: TaxBreakdown) => {
+  if (breakdown.ivaRate === 'tasa16') {
+    totals.base16 += breakdown.base;
+  } else if (breakdown.ivaRate === 'tasa0') {
+    totals.base0 += breakdown.base;
+  } else {
+    totals.baseExempt += breakdown.base;
+  }
+  if (breakdown.iepsRate > 0) {
+    totals.iepsBase += breakdown.base;
+  }
+  totals.ieps += breakdown.ieps;
+  totals.iva += breakdown.iva;
+};
+
+// Voided movements and their reversals cancel out and are left out
+export const summarizeTaxes = (transactions: InventoryTransaction[]): TaxSummary => {
+  const summary: TaxSummary = { sales: emptyTotals(), purchases: emptyTotals() };
+  for (const transaction of getEffectiveTransactions(transactions)) {
+    if (!transaction.taxes) {
+      continue;
+    }
+    addToTotals(transaction.type === 'entry' ? summary.purchases : summary.sales, transaction.taxes);
+  }
+  return summary;
+};
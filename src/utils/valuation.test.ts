@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import type { InventoryTransaction } from '../contexts/InventoryContext';
+import { findNegativeStock, sortTransactions, valuateInventory } from './valuation';
+
+let nextId = 0;
+
+const movement = (
+  type: InventoryTransaction['type'],
+  date: string,
+  quantity: number,
+  unitCost = 0
+): InventoryTransaction => ({
+  id: `t${++nextId}`,
+  productId: 'p1',
+  type,
+  quantity,
+  unitCost,
+  date,
+  notes: '',
+});
+
+const entry = (date: string, quantity: number, unitCost: number) => movement('entry', date, quantity, unitCost);
+const exit = (date: string, quantity: number) => movement('exit', date, quantity);
+
+describe('valuateInventory', () => {
+  // 10 @ $10, then 10 @ $20, then 15 sold
+  const purchases = () => [entry('2024-01-01', 10, 10), entry('2024-01-02', 10, 20), exit('2024-01-03', 15)];
+
+  describe('PEPS', () => {
+    it('consumes the oldest layer first and leaves the rest of a partially used one', () => {
+      const result = valuateInventory(purchases(), 'PEPS');
+
+      // 10 @ $10 + 5 @ $20
+      expect(result.costOfGoodsSold).toBe(200);
+      expect(result.closingLayers).toEqual([{ quantity: 5, unitCost: 20, date: '2024-01-02' }]);
+      expect(result.remainingStock).toBe(5);
+      expect(result.totalCost).toBe(100);
+    });
+
+    it('takes from the same layer across several exits', () => {
+      const result = valuateInventory(
+        [entry('2024-01-01', 10, 10), exit('2024-01-02', 3), exit('2024-01-03', 4), entry('2024-01-04', 5, 12)],
+        'PEPS'
+      );
+
+      expect(result.costOfGoodsSold).toBe(70);
+      expect(result.closingLayers).toEqual([
+        { quantity: 3, unitCost: 10, date: '2024-01-01' },
+        { quantity: 5, unitCost: 12, date: '2024-01-04' },
+      ]);
+    });
+  });
+
+  describe('UEPS', () => {
+    it('consumes the newest layer first and leaves the rest of a partially used one', () => {
+      const result = valuateInventory(purchases(), 'UEPS');
+
+      // 10 @ $20 + 5 @ $10
+      expect(result.costOfGoodsSold).toBe(250);
+      expect(result.closingLayers).toEqual([{ quantity: 5, unitCost: 10, date: '2024-01-01' }]);
+      expect(result.totalCost).toBe(50);
+    });
+  });
+
+  describe('weighted average', () => {
+    it('costs exits at the average of the stock on hand', () => {
+      const result = valuateInventory(purchases(), 'weighted');
+
+      // 20 units worth $300: $15 each
+      expect(result.costOfGoodsSold).toBe(225);
+      expect(result.averageCost).toBe(15);
+      expect(result.totalCost).toBe(75);
+    });
+
+    it('recomputes the average with each entry', () => {
+      const result = valuateInventory(
+        [entry('2024-01-01', 10, 10), exit('2024-01-02', 5), entry('2024-01-03', 5, 20)],
+        'weighted'
+      );
+
+      // 5 @ $10 left, plus 5 @ $20: $15 each
+      expect(result.costOfGoodsSold).toBe(50);
+      expect(result.averageCost).toBe(15);
+      expect(result.remainingStock).toBe(10);
+    });
+  });
+
+  describe('same-day movements', () => {
+    it('puts entries before exits on the same day, whatever the capture order', () => {
+      const result = valuateInventory([entry('2024-01-01', 5, 10), exit('2024-01-02', 8), entry('2024-01-02', 5, 20)], 'PEPS');
+
+      expect(result.unfilledQuantity).toBe(0);
+      // 5 @ $10 + 3 @ $20
+      expect(result.costOfGoodsSold).toBe(110);
+      expect(result.kardex.map((row) => row.compras.cantidad > 0)).toEqual([true, true, false]);
+    });
+
+    it('keeps the capture order between movements of the same kind', () => {
+      const first = entry('2024-01-01', 1, 10);
+      const second = entry('2024-01-01', 1, 20);
+      const sale = exit('2024-01-01', 1);
+
+      expect(sortTransactions([sale, first, second]).map((t) => t.id)).toEqual([first.id, second.id, sale.id]);
+      expect(valuateInventory([sale, first, second], 'PEPS').costOfGoodsSold).toBe(10);
+      expect(valuateInventory([sale, first, second], 'UEPS').costOfGoodsSold).toBe(20);
+    });
+  });
+
+  describe('exits larger than the stock', () => {
+    it.each(['PEPS', 'UEPS', 'weighted'] as const)('%s only costs the units on hand and reports the rest', (method) => {
+      const result = valuateInventory([entry('2024-01-01', 4, 10), exit('2024-01-02', 6)], method);
+      const row = result.kardex[1];
+
+      expect(result.costOfGoodsSold).toBe(40);
+      expect(result.unfilledQuantity).toBe(2);
+      expect(row.faltante).toBe(2);
+      expect(row.ventas).toEqual({ cantidad: 6, costoUnitario: 10, costoTotal: 40 });
+      expect(result.remainingStock).toBe(0);
+      expect(result.closingLayers).toEqual([]);
+    });
+
+    it('does not cost an exit with no stock at all', () => {
+      const result = valuateInventory([exit('2024-01-01', 3)], 'PEPS');
+
+      expect(result.costOfGoodsSold).toBe(0);
+      expect(result.unfilledQuantity).toBe(3);
+      expect(result.kardex[0].ventas.costoUnitario).toBe(0);
+    });
+  });
+
+  it('consumes the opening balance before the period movements', () => {
+    const result = valuateInventory([entry('2024-02-01', 10, 30), exit('2024-02-02', 12)], 'PEPS', {
+      date: '2024-01-31',
+      layers: [{ quantity: 5, unitCost: 10, date: '2024-01-15' }],
+    });
+
+    // 5 @ $10 + 7 @ $30
+    expect(result.costOfGoodsSold).toBe(260);
+    expect(result.kardex[0].transactionId).toBeNull();
+    expect(result.kardex[0].saldos.costoTotal).toBe(50);
+  });
+
+  it('costs negative adjustments as shrinkage', () => {
+    const result = valuateInventory([entry('2024-01-01', 10, 10), movement('adjustment', '2024-01-02', -2)], 'PEPS');
+
+    expect(result.costOfGoodsSold).toBe(0);
+    expect(result.shrinkageCost).toBe(20);
+    expect(result.kardex[1].ajuste).toBe(true);
+  });
+
+  it('ignores voided transactions and their reversals', () => {
+    const sale = { ...exit('2024-01-02', 4), voidedBy: 'r1' };
+    const reversal = { ...entry('2024-01-03', 4, 0), id: 'r1', reversalOf: sale.id };
+    const result = valuateInventory([entry('2024-01-01', 10, 10), sale, reversal], 'PEPS');
+
+    expect(result.costOfGoodsSold).toBe(0);
+    expect(result.remainingStock).toBe(10);
+    expect(result.kardex).toHaveLength(1);
+  });
+
+  it('values entries in another currency at their exchange rate', () => {
+    const purchase = { ...entry('2024-01-01', 2, 5), currency: 'USD' as const, exchangeRate: 17 };
+    const result = valuateInventory([purchase], 'PEPS');
+
+    expect(result.totalCost).toBe(170);
+    expect(result.kardex[0].costoOriginal).toEqual({ moneda: 'USD', costoUnitario: 5, tipoCambio: 17 });
+  });
+});
+
+describe('findNegativeStock', () => {
+  it('returns null while the running stock never drops below zero', () => {
+    expect(findNegativeStock([entry('2024-01-01', 5, 10), exit('2024-01-02', 5)])).toBeNull();
+  });
+
+  it('finds a back-dated exit that leaves a later exit without stock', () => {
+    const later = exit('2024-01-05', 4);
+    const backdated = exit('2024-01-03', 3);
+
+    // The back-dated exit fits on its own date, the later one no longer does
+    expect(findNegativeStock([entry('2024-01-01', 5, 10), later, backdated])).toBe(later);
+  });
+
+  it('counts entries captured later on the same day before the exits', () => {
+    expect(findNegativeStock([exit('2024-01-01', 2), entry('2024-01-01', 2, 10)])).toBeNull();
+  });
+});
@@ -0,0 +1,278 @@
+import type { InventoryMethod, InventoryTransaction } from '../contexts/InventoryContext';
+import type { CurrencyCode } from './format';
+
+// A batch of units still in stock at a given unit cost
+export interface CostLayer {
+  quantity: number;
+  unitCost: number;
+  date: string;
+}
+
+export interface KardexMovement {
+  cantidad: number;
+  costoUnitario: number;
+  costoTotal: number;
+}
+
+// Purchase cost as invoiced, for entries in a currency other than pesos
+export interface KardexOriginalCost {
+  moneda: CurrencyCode;
+  costoUnitario: number;
+  tipoCambio: number;
+}
+
+export interface KardexRow {
+  fecha: string;
+  // null for the "inventario inicial" row
+  transactionId: string | null;
+  compras: KardexMovement;
+  ventas: KardexMovement;
+  saldos: KardexMovement;
+  // Units of an exit that could not be covered by the stock on hand
+  faltante: number;
+  // Physical count adjustment rather than a purchase or sale
+  ajuste: boolean;
+  costoOriginal?: KardexOriginalCost;
+}
+
+// Stock carried into the period, usually the closing layers of everything before it
+export interface OpeningBalance {
+  date: string;
+  layers: CostLayer[];
+}
+
+export interface ValuationResult {
+  kardex: KardexRow[];
+  costOfGoodsSold: number;
+  shrinkageCost: number;
+  closingLayers: CostLayer[];
+  remainingStock: number;
+  totalCost: number;
+  averageCost: number;
+  unfilledQuantity: number;
+}
+
+const emptyMovement = (): KardexMovement => ({ cantidad: 0, costoUnitario: 0, costoTotal: 0 });
+
+const sumQuantity = (layers: CostLayer[]) =>
+  layers.reduce((sum, layer) => sum + layer.quantity, 0);
+
+const sumValue = (layers: CostLayer[]) =>
+  layers.reduce((sum, layer) => sum + layer.quantity * layer.unitCost, 0);
+
+// Units added to (positive) or removed from (negative) stock. Adjustments
+// carry their sign in the quantity.
+export const getStockDelta = (transaction: Pick<InventoryTransaction, 'type' | 'quantity'>): number => {
+  if (transaction.type === 'adjustment') {
+    return transaction.quantity;
+  }
+  return transaction.type === 'entry' ? transaction.quantity : -transaction.quantity;
+};
+
+// Unit cost in pesos; entries invoiced in another currency carry the rate they
+// were converted at
+export const getBaseUnitCost = (transaction: Pick<InventoryTransaction, 'unitCost' | 'exchangeRate'>): number =>
+  transaction.unitCost * (transaction.exchangeRate ?? 1);
+
+// Chronological order. Dates are calendar days, so on the same day movements
+// that add stock go before the ones that remove it and otherwise the original
+// capture order is kept.
+export const sortTransactions = (transactions: InventoryTransaction[]): InventoryTransaction[] =>
+  transactions
+    .map((transaction, index) => ({ transaction, index }))
+    .sort((a, b) => {
+      if (a.transaction.date !== b.transaction.date) {
+        return a.transaction.date < b.transaction.date ? -1 : 1;
+      }
+      const aAdds = getStockDelta(a.transaction) > 0;
+      const bAdds = getStockDelta(b.transaction) > 0;
+      if (aAdds !== bAdds) {
+        return aAdds ? -1 : 1;
+      }
+      return a.index - b.index;
+    })
+    .map(({ transaction }) => transaction);
+
+// Voided transactions and their reversals cancel out, so they are left out of
+// the valuation instead of being costed as ordinary movements
+export const getEffectiveTransactions = (
+  transactions: InventoryTransaction[]
+): InventoryTransaction[] => transactions.filter((t) => !t.voidedBy && !t.reversalOf);
+
+// The first movement, in chronological order, at which the running stock of
+// a product's movements goes below zero, or null if it never does
+export const findNegativeStock = (transactions: InventoryTransaction[]): InventoryTransaction | null => {
+  let runningStock = 0;
+  for (const transaction of sortTransactions(transactions)) {
+    runningStock += getStockDelta(transaction);
+    if (runningStock < 0) {
+      return transaction;
+    }
+  }
+  return null;
+};
+
+// Collapses the layers into a single one at the current average cost
+const averageLayers = (layers: CostLayer[], date: string): CostLayer[] => {
+  const quantity = sumQuantity(layers);
+  if (quantity <= 0) {
+    return [];
+  }
+  return [{ quantity, unitCost: sumValue(layers) / quantity, date }];
+};
+
+// Removes `quantity` units from the layers, oldest first (PEPS) or newest first (UEPS).
+// Returns the cost of the units taken and how many could not be covered.
+const consumeLayers = (
+  layers: CostLayer[],
+  quantity: number,
+  method: InventoryMethod
+): { cost: number; unfilled: number } => {
+  let remaining = quantity;
+  let cost = 0;
+
+  while (remaining > 0 && layers.length > 0) {
+    const index = method === 'UEPS' ? layers.length - 1 : 0;
+    const layer = layers[index];
+    const taken = Math.min(layer.quantity, remaining);
+
+    cost += taken * layer.unitCost;
+    remaining -= taken;
+
+    if (taken === layer.quantity) {
+      layers.splice(index, 1);
+    } else {
+      layers[index] = { ...layer, quantity: layer.quantity - taken };
+    }
+  }
+
+  return { cost, unfilled: remaining };
+};
+
+/**
+ * Values a product's movements with the given method and returns the Kardex
+ * rows, the cost of goods sold and the layers left at the end. When an
+ * opening balance is given its layers are consumed first and it is shown as
+ * the first Kardex row.
+ *
+ * Exits larger than the stock on hand only consume what is available; the
+ * missing units are reported in `faltante` and are not costed. Count
+ * adjustments move stock like an entry or exit depending on their sign;
+ * negative ones are costed as shrinkage instead of cost of goods sold.
+ * Voided transactions and their reversals are ignored.
+ */
+export const valuateInventory = (
+  transactions: InventoryTransaction[],
+  method: InventoryMethod,
+  opening?: OpeningBalance
+): ValuationResult => {
+  let layers: CostLayer[] = (opening?.layers ?? [])
+    .filter((layer) => layer.quantity > 0)
+    .map((layer) => ({ ...layer }));
+
+  if (method === 'weighted' && layers.length > 0) {
+    layers = averageLayers(layers, layers[0].date);
+  }
+
+  const kardex: KardexRow[] = [];
+
+  if (opening && layers.length > 0) {
+    const stock = sumQuantity(layers);
+    const value = sumValue(layers);
+    kardex.push({
+      fecha: opening.date,
+      transactionId: null,
+      compras: emptyMovement(),
+      ventas: emptyMovement(),
+      saldos: { cantidad: stock, costoUnitario: value / stock, costoTotal: value },
+      faltante: 0,
+      ajuste: false,
+    });
+  }
+
+  let costOfGoodsSold = 0;
+  let shrinkageCost = 0;
+  let unfilledQuantity = 0;
+
+  for (const transaction of sortTransactions(getEffectiveTransactions(transactions))) {
+    const row: KardexRow = {
+      fecha: transaction.date,
+      transactionId: transaction.id,
+      compras: emptyMovement(),
+      ventas: emptyMovement(),
+      saldos: emptyMovement(),
+      faltante: 0,
+      ajuste: transaction.type === 'adjustment',
+    };
+    const delta = getStockDelta(transaction);
+
+    if (delta > 0) {
+      const unitCost = getBaseUnitCost(transaction);
+      row.compras = {
+        cantidad: delta,
+        costoUnitario: unitCost,
+        costoTotal: delta * unitCost,
+      };
+      if (transaction.currency && transaction.exchangeRate !== undefined) {
+        row.costoOriginal = {
+          moneda: transaction.currency,
+          costoUnitario: transaction.unitCost,
+          tipoCambio: transaction.exchangeRate,
+        };
+      }
+
+      layers.push({
+        quantity: delta,
+        unitCost,
+        date: transaction.date,
+      });
+
+      if (method === 'weighted') {
+        layers = averageLayers(layers, transaction.date);
+      }
+    } else {
+      const quantity = -delta;
+      const { cost, unfilled } = consumeLayers(layers, quantity, method);
+      const costedQuantity = quantity - unfilled;
+
+      row.ventas = {
+        cantidad: quantity,
+        costoUnitario: costedQuantity > 0 ? cost / costedQuantity : 0,
+        costoTotal: cost,
+      };
+      row.faltante = unfilled;
+
+      // Shrinkage found in a count is a loss, not part of the cost of goods sold
+      if (transaction.type === 'adjustment') {
+        shrinkageCost += cost;
+      } else {
+        costOfGoodsSold += cost;
+      }
+      unfilledQuantity += unfilled;
+    }
+
+    const stock = sumQuantity(layers);
+    const value = sumValue(layers);
+    row.saldos = {
+      cantidad: stock,
+      costoUnitario: stock > 0 ? value / stock : 0,
+      costoTotal: value,
+    };
+
+    kardex.push(row);
+  }
+
+  const remainingStock = sumQuantity(layers);
+  const totalCost = sumValue(layers);
+
+  return {
+    kardex,
+    costOfGoodsSold,
+    shrinkageCost,
+    closingLayers: layers,
+    remainingStock,
+    totalCost,
+    averageCost: remainingStock > 0 ? totalCost / remainingStock : 0,
+    unfilledQuantity,
+  };
+};
@@ -1 +1,25 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_FIREBASE_API_KEY?: string;
+  readonly VITE_FIREBASE_AUTH_DOMAIN?: string;
+  readonly VITE_FIREBASE_DATABASE_URL?: string;
+  readonly VITE_FIREBASE_PROJECT_ID?: string;
+  readonly VITE_FIREBASE_STORAGE_BUCKET?: string;
+  readonly VITE_FIREBASE_MESSAGING_SENDER_ID?: string;
+  readonly VITE_FIREBASE_APP_ID?: string;
+  readonly VITE_USE_FIREBASE_EMULATOR?: string;
+  readonly VITE_DEMO_MODE?: string;
+  readonly VITE_STORE_ID?: string;
+  readonly VITE_DISABLE_SYNC?: string;
+  readonly VITE_SESSION_TIMEOUT_MINUTES?: string;
+  readonly VITE_CFDI_EMISOR_RFC?: string;
+  readonly VITE_CFDI_EMISOR_NOMBRE?: string;
+  readonly VITE_CFDI_EMISOR_REGIMEN?: string;
+  readonly VITE_CFDI_LUGAR_EXPEDICION?: string;
+  readonly VITE_CFDI_SERIE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}